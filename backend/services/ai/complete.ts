@@ -0,0 +1,144 @@
+import { api, APIError } from "encore.dev/api";
+import { requireAuth } from "../../utils/auth";
+import { AIModel, AIResponseMetadata, DEFAULT_MODEL, TokenUsage, complete } from "./llm";
+import { checkQuota, recordUsage } from "./usage";
+
+// Inline completions for the editor. Called on (debounced) keystrokes, so the request carries
+// only the text around the cursor, goes to a small fast model with a short answer and timeout,
+// and skips the project context that the other endpoints assemble.
+
+interface InlineCompletionRequest {
+  // Text before and after the cursor; the endpoint keeps only the part nearest the cursor
+  prefix: string;
+  suffix?: string;
+  language: string;
+  filePath?: string;
+  model?: AIModel;
+}
+
+interface InlineCompletionResponse {
+  // Text to insert at the cursor; empty when there is nothing useful to add
+  completion: string;
+  model: AIModel;
+  usage: TokenUsage;
+  metadata: AIResponseMetadata;
+}
+
+const MAX_PREFIX_LENGTH = 6000;
+const MAX_SUFFIX_LENGTH = 2000;
+const MAX_COMPLETION_TOKENS = 128;
+const MAX_COMPLETION_LINES = 16;
+// A completion that arrives later than this is no longer wanted
+const COMPLETION_TIMEOUT_MS = 5000;
+
+// The fastest model of the default model's provider, so completions need no extra API key
+const COMPLETION_MODEL: AIModel = (process.env.AI_COMPLETION_MODEL as AIModel) || (
+  DEFAULT_MODEL.startsWith('claude-') ? 'claude-3-haiku-20240307' :
+  DEFAULT_MODEL.startsWith('gpt-') ? 'gpt-4o-mini' :
+  DEFAULT_MODEL
+);
+
+const COMPLETION_SYSTEM_PROMPT =
+  "You are a code completion engine. You are given the code before and after the cursor. Reply " +
+  "with only the text to insert at the cursor: no explanation, no code fence, and none of the code " +
+  "that is already before or after it. Finish the current statement, or the current block when " +
+  "the cursor starts one. Reply with nothing when no completion is useful.";
+
+// API Endpoints
+
+export const completeInline = api(
+  { method: "POST", path: "/ai/complete", auth: true },
+  async (req: InlineCompletionRequest): Promise<InlineCompletionResponse> => {
+    const user = requireAuth();
+    validateRequest(req);
+
+    const prefix = trimPrefix(req.prefix);
+    const suffix = trimSuffix(req.suffix ?? '');
+    const model = req.model ?? COMPLETION_MODEL;
+
+    // Nothing to go on at the top of an empty file
+    if (!prefix.trim()) {
+      return {
+        completion: '',
+        model,
+        usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 },
+        metadata: { processingTime: 0, version: 'none' }
+      };
+    }
+
+    await checkQuota(user.id);
+    const result = await complete({
+      model,
+      system: COMPLETION_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: completionPrompt(req, prefix, suffix) }],
+      config: {
+        maxTokens: MAX_COMPLETION_TOKENS,
+        temperature: 0.2,
+        stopSequences: ['</suffix>'],
+        timeout: COMPLETION_TIMEOUT_MS
+      }
+    });
+    await recordUsage(user.id, { serviceType: 'code_completion', model: result.model, usage: result.usage });
+
+    return {
+      completion: cleanCompletion(result.content, prefix),
+      model: result.model,
+      usage: result.usage,
+      metadata: result.metadata
+    };
+  }
+);
+
+// Helper functions
+
+function validateRequest(req: InlineCompletionRequest): void {
+  if (typeof req.prefix !== 'string') {
+    throw APIError.invalidArgument("prefix is required");
+  }
+  if (req.suffix !== undefined && typeof req.suffix !== 'string') {
+    throw APIError.invalidArgument("suffix must be a string");
+  }
+  if (!req.language?.trim()) {
+    throw APIError.invalidArgument("language is required");
+  }
+}
+
+// The end of the prefix, starting at a line boundary
+function trimPrefix(prefix: string): string {
+  if (prefix.length <= MAX_PREFIX_LENGTH) return prefix;
+  const tail = prefix.slice(-MAX_PREFIX_LENGTH);
+  const lineStart = tail.indexOf('\n');
+  return lineStart >= 0 ? tail.slice(lineStart + 1) : tail;
+}
+
+// The start of the suffix, ending at a line boundary
+function trimSuffix(suffix: string): string {
+  if (suffix.length <= MAX_SUFFIX_LENGTH) return suffix;
+  const head = suffix.slice(0, MAX_SUFFIX_LENGTH);
+  const lineEnd = head.lastIndexOf('\n');
+  return lineEnd >= 0 ? head.slice(0, lineEnd) : head;
+}
+
+function completionPrompt(req: InlineCompletionRequest, prefix: string, suffix: string): string {
+  const file = req.filePath ? `${req.filePath} (${req.language})` : req.language;
+  return `File: ${file}\n\n<prefix>${prefix}</prefix><suffix>${suffix}</suffix>\n\n` +
+    'Reply with the text that goes between the prefix and the suffix.';
+}
+
+// Turn the model's reply into text that can be inserted at the cursor as is: a code fence and a
+// repeat of the line being completed are removed, and long answers are cut to whole lines
+export function cleanCompletion(reply: string, prefix: string): string {
+  let completion = reply;
+
+  const fenced = completion.match(/^\s*```[^\n]*\n([\s\S]*?)\n?```\s*$/);
+  if (fenced) {
+    completion = fenced[1] ?? '';
+  }
+
+  const currentLine = prefix.slice(prefix.lastIndexOf('\n') + 1);
+  if (currentLine.trim() && completion.startsWith(currentLine)) {
+    completion = completion.slice(currentLine.length);
+  }
+
+  return completion.split('\n').slice(0, MAX_COMPLETION_LINES).join('\n').trimEnd();
+}
@@ -0,0 +1,483 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
+import { requireProjectAccess } from "../projects/service";
+import { baseName, normalizePath } from "../files/vfs";
+import { estimateTokens } from "./llm";
+
+// Builds the project context sent along with AI requests: a summary of the file tree, the
+// project's dependencies, recent container errors and the most relevant files, all within a
+// token budget. Sections are spent in that order; files take whatever budget is left.
+
+// Interfaces (mirrors AIContext and CodeSnippet in shared/src/types/ai.ts)
+export interface CodeSnippet {
+  filePath: string;
+  content: string;
+  startLine?: number;
+  endLine?: number;
+  language?: string;
+}
+
+export interface AIContext {
+  language?: string;
+  framework?: string;
+  fileContent?: string;
+  filePath?: string;
+  projectStructure?: string;
+  dependencies?: string[];
+  codeSnippets?: CodeSnippet[];
+  errorLogs?: string[];
+}
+
+export interface ContextRequest {
+  projectId: string;
+  userId: string;
+  // The user's message; files it names or whose contents match it are preferred
+  message: string;
+  // Paths the user pinned (contextFiles in the ai slice); these are included first
+  contextFiles?: string[];
+  // Recent container log lines; only the errors among them are kept
+  logs?: string[];
+  maxTokens?: number;
+}
+
+export interface ContextSource {
+  filePath: string;
+  reason: 'pinned' | 'mentioned' | 'error' | 'readme' | 'relevant';
+  truncated: boolean;
+}
+
+export interface AssembledContext {
+  context: AIContext;
+  // The context formatted for a system prompt
+  prompt: string;
+  tokens: number;
+  sources: ContextSource[];
+  // Candidate files that did not fit in the budget
+  omitted: string[];
+}
+
+interface PreviewContextRequest {
+  projectId: string;
+  message?: string;
+  contextFiles?: string[];
+  logs?: string[];
+  maxTokens?: number;
+}
+
+interface FileRow {
+  path: string;
+  type: 'file' | 'directory';
+  size: number;
+}
+
+interface Candidate {
+  path: string;
+  reason: ContextSource['reason'];
+  score: number;
+  // Line to centre the excerpt on when the whole file does not fit
+  focusLine?: number;
+}
+
+export const DEFAULT_CONTEXT_TOKENS = 6000;
+const MAX_CONTEXT_TOKENS = 50000;
+const MAX_PINNED_FILES = 20;
+const MAX_LOG_LINES = 500;
+
+// Shares of the budget the fixed sections may use at most
+const TREE_SHARE = 0.15;
+const DEPENDENCY_SHARE = 0.05;
+const ERROR_SHARE = 0.15;
+
+const MAX_TREE_DEPTH = 4;
+const MAX_ENTRIES_PER_DIRECTORY = 25;
+const MAX_ERROR_LINES = 20;
+const MAX_ERROR_LINE_LENGTH = 500;
+const MAX_RELEVANT_FILES = 8;
+const MAX_SEARCH_TERMS = 8;
+// Smaller excerpts are not worth including
+const MIN_EXCERPT_TOKENS = 150;
+// Larger files are only ever included as excerpts
+const MAX_FILE_BYTES = 512 * 1024;
+
+// Directories that never help the model and would crowd out the rest of the tree
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build', 'coverage', '.next', '__pycache__', 'vendor', 'target']);
+const ERROR_PATTERN = /\b(error|exception|fatal|panic|traceback|failed|unhandled|segmentation fault)\b|ERR!/i;
+// path/to/file.ts:12 or path/to/file.ts:12:5, as printed in stack traces and compiler output
+const LOCATION_PATTERN = /((?:[\w.-]+\/)*[\w.-]+\.[a-z]{1,5}):(\d+)/gi;
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'this', 'that', 'from', 'what', 'how', 'why', 'does', 'into', 'when', 'where',
+  'can', 'should', 'would', 'could', 'please', 'make', 'add', 'fix', 'use', 'using', 'file', 'code', 'function',
+  'there', 'which', 'have', 'not', 'but', 'are', 'was', 'its', 'you', 'your', 'our', 'all', 'any', 'new', 'get', 'set'
+]);
+
+// API Endpoints
+
+// What assembleContext would send with a chat message, for showing and debugging the context
+export const previewContext = api(
+  { method: "POST", path: "/ai/context", auth: true },
+  async ({ projectId, message, contextFiles, logs, maxTokens }: PreviewContextRequest): Promise<AssembledContext> => {
+    const user = requireAuth();
+    return assembleContext({
+      projectId,
+      userId: user.id,
+      message: message ?? '',
+      ...(contextFiles ? { contextFiles } : {}),
+      ...(logs ? { logs } : {}),
+      ...(maxTokens !== undefined ? { maxTokens } : {})
+    });
+  }
+);
+
+// Assemble the context for a request about a project the user can read
+export async function assembleContext(request: ContextRequest): Promise<AssembledContext> {
+  await requireProjectAccess(request.projectId, request.userId, 'read');
+  validateRequest(request);
+
+  const budget = Math.min(MAX_CONTEXT_TOKENS, Math.max(500, Math.floor(request.maxTokens ?? DEFAULT_CONTEXT_TOKENS)));
+
+  try {
+    const project = await db.queryRow`
+      SELECT name, description, type, config FROM projects WHERE id = ${request.projectId}
+    `;
+    const config = typeof project!.config === 'string' ? JSON.parse(project!.config) : project!.config ?? {};
+    const files = await db.queryAll`
+      SELECT path, type, size FROM project_files
+      WHERE project_id = ${request.projectId}
+      ORDER BY path
+    ` as FileRow[];
+
+    const sections: string[] = [];
+    const context: AIContext = {
+      ...(config.language ? { language: config.language } : {}),
+      ...(config.framework ? { framework: config.framework } : {})
+    };
+
+    sections.push(formatProject(project, config));
+
+    const tree = summarizeTree(files, Math.floor(budget * TREE_SHARE));
+    if (tree) {
+      context.projectStructure = tree;
+      sections.push(`<file_tree>\n${tree}\n</file_tree>`);
+    }
+
+    const dependencies = await loadDependencies(request.projectId, config, Math.floor(budget * DEPENDENCY_SHARE));
+    if (dependencies.length > 0) {
+      context.dependencies = dependencies;
+      sections.push(`<dependencies>\n${dependencies.join('\n')}\n</dependencies>`);
+    }
+
+    const errorLogs = extractErrors(request.logs ?? [], Math.floor(budget * ERROR_SHARE));
+    if (errorLogs.length > 0) {
+      context.errorLogs = errorLogs;
+      sections.push(`<error_logs>\n${errorLogs.join('\n')}\n</error_logs>`);
+    }
+
+    // Files get whatever the other sections left
+    let remaining = budget - estimateTokens(sections.join('\n\n'));
+    const candidates = await rankFiles(request, files, errorLogs);
+    const snippets: CodeSnippet[] = [];
+    const sources: ContextSource[] = [];
+    const omitted: string[] = [];
+
+    for (const candidate of candidates) {
+      const snippet = remaining >= MIN_EXCERPT_TOKENS
+        ? await loadSnippet(request.projectId, candidate, remaining)
+        : null;
+      if (!snippet) {
+        omitted.push(candidate.path);
+        continue;
+      }
+
+      const section = formatSnippet(snippet.snippet);
+      remaining -= estimateTokens(section);
+      sections.push(section);
+      snippets.push(snippet.snippet);
+      sources.push({ filePath: candidate.path, reason: candidate.reason, truncated: snippet.truncated });
+    }
+    if (snippets.length > 0) {
+      context.codeSnippets = snippets;
+    }
+
+    const prompt = sections.join('\n\n');
+    return { context, prompt, tokens: estimateTokens(prompt), sources, omitted };
+  } catch (error) {
+    if (error instanceof APIError) throw error;
+    log.error("Failed to assemble AI context", { error: (error as Error).message, projectId: request.projectId });
+    throw APIError.internal("Failed to assemble AI context");
+  }
+}
+
+// Helper functions
+
+function validateRequest(request: ContextRequest): void {
+  if (request.contextFiles && request.contextFiles.length > MAX_PINNED_FILES) {
+    throw APIError.invalidArgument(`At most ${MAX_PINNED_FILES} context files can be attached`);
+  }
+  if (request.logs && request.logs.length > MAX_LOG_LINES) {
+    throw APIError.invalidArgument(`At most ${MAX_LOG_LINES} log lines can be attached`);
+  }
+}
+
+function formatProject(project: any, config: any): string {
+  const details = [
+    `Name: ${project.name}`,
+    `Type: ${project.type}`,
+    ...(config.language ? [`Language: ${config.language}`] : []),
+    ...(config.framework ? [`Framework: ${config.framework}`] : []),
+    ...(project.description ? [`Description: ${project.description}`] : [])
+  ];
+  return `<project>\n${details.join('\n')}\n</project>`;
+}
+
+// An indented outline of the tree, cut off by depth, by entries per directory and by the budget
+export function summarizeTree(files: FileRow[], maxTokens: number): string {
+  const children = new Map<string, FileRow[]>();
+  for (const file of files) {
+    const parent = file.path.slice(0, file.path.lastIndexOf('/')) || '/';
+    const siblings = children.get(parent) ?? [];
+    siblings.push(file);
+    children.set(parent, siblings);
+  }
+
+  const lines: string[] = [];
+  let used = 0;
+  let truncated = false;
+
+  const visit = (dir: string, depth: number): void => {
+    const entries = (children.get(dir) ?? []).sort((a, b) =>
+      a.type === b.type ? a.path.localeCompare(b.path) : a.type === 'directory' ? -1 : 1
+    );
+
+    for (const [index, entry] of entries.entries()) {
+      const indent = '  '.repeat(depth);
+      if (index === MAX_ENTRIES_PER_DIRECTORY) {
+        lines.push(`${indent}... ${entries.length - index} more`);
+        return;
+      }
+
+      const name = baseName(entry.path);
+      const ignored = entry.type === 'directory' && IGNORED_DIRECTORIES.has(name);
+      const line = `${indent}${name}${entry.type === 'directory' ? '/' : ''}${ignored ? ' (contents omitted)' : ''}`;
+      const cost = estimateTokens(line + '\n');
+      if (used + cost > maxTokens) {
+        truncated = true;
+        return;
+      }
+      lines.push(line);
+      used += cost;
+
+      if (entry.type === 'directory' && !ignored) {
+        if (depth + 1 < MAX_TREE_DEPTH) {
+          visit(entry.path, depth + 1);
+        } else if (children.has(entry.path)) {
+          lines.push(`${indent}  ...`);
+        }
+      }
+      if (truncated) return;
+    }
+  };
+
+  visit('/', 0);
+  if (truncated) {
+    lines.push(`... (${files.length} entries in total)`);
+  }
+  return lines.join('\n');
+}
+
+// The dependencies named in the project config and the root package.json / requirements.txt
+async function loadDependencies(projectId: string, config: any, maxTokens: number): Promise<string[]> {
+  const dependencies = new Set<string>(Array.isArray(config.dependencies) ? config.dependencies : []);
+
+  const manifests = await db.queryAll`
+    SELECT path, content FROM project_files
+    WHERE project_id = ${projectId} AND path IN ('/package.json', '/requirements.txt') AND content IS NOT NULL
+  `;
+  for (const manifest of manifests) {
+    if (manifest.path === '/package.json') {
+      try {
+        const pkg = JSON.parse(manifest.content);
+        for (const [name, version] of Object.entries({ ...pkg.dependencies, ...pkg.devDependencies })) {
+          dependencies.add(`${name}@${version}`);
+        }
+      } catch {
+        // A package.json that does not parse contributes nothing
+      }
+    } else {
+      for (const line of (manifest.content as string).split('\n')) {
+        const requirement = line.replace(/#.*/, '').trim();
+        if (requirement) dependencies.add(requirement);
+      }
+    }
+  }
+
+  const result: string[] = [];
+  let used = 0;
+  for (const dependency of dependencies) {
+    used += estimateTokens(dependency + '\n');
+    if (used > maxTokens) break;
+    result.push(dependency);
+  }
+  return result;
+}
+
+// The most recent distinct error lines, newest last
+export function extractErrors(logs: string[], maxTokens: number): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  let used = 0;
+
+  for (let i = logs.length - 1; i >= 0 && errors.length < MAX_ERROR_LINES; i--) {
+    for (const raw of (logs[i] ?? '').split('\n').reverse()) {
+      const line = raw.trim().slice(0, MAX_ERROR_LINE_LENGTH);
+      if (!line || !ERROR_PATTERN.test(line) || seen.has(line)) continue;
+
+      const cost = estimateTokens(line + '\n');
+      if (used + cost > maxTokens || errors.length >= MAX_ERROR_LINES) {
+        return errors.reverse();
+      }
+      seen.add(line);
+      errors.push(line);
+      used += cost;
+    }
+  }
+  return errors.reverse();
+}
+
+// Candidate files, best first: pinned files, files the message names, files errors point at,
+// the README, then files whose path or contents match the message's terms
+async function rankFiles(request: ContextRequest, files: FileRow[], errorLogs: string[]): Promise<Candidate[]> {
+  const textFiles = new Map(files.filter(file => file.type === 'file').map(file => [file.path, file]));
+  const candidates = new Map<string, Candidate>();
+  const add = (candidate: Candidate) => {
+    const existing = candidates.get(candidate.path);
+    if (textFiles.has(candidate.path) && (!existing || existing.score < candidate.score)) {
+      candidates.set(candidate.path, candidate);
+    }
+  };
+
+  (request.contextFiles ?? []).forEach((path, index) => {
+    add({ path: normalizePath(path), reason: 'pinned', score: 1000 - index });
+  });
+
+  const message = request.message.toLowerCase();
+  for (const path of textFiles.keys()) {
+    const name = baseName(path).toLowerCase();
+    if (message.includes(path.slice(1).toLowerCase()) || (name.includes('.') && new RegExp(`\\b${escapeRegExp(name)}\\b`).test(message))) {
+      add({ path, reason: 'mentioned', score: 500 });
+    }
+  }
+
+  for (const line of errorLogs) {
+    for (const match of line.matchAll(LOCATION_PATTERN)) {
+      const path = resolveLocation(match[1]!, textFiles);
+      if (path) {
+        add({ path, reason: 'error', score: 400, focusLine: Number(match[2]) });
+      }
+    }
+  }
+
+  const readme = [...textFiles.keys()].find(path => /^\/readme(\.md|\.txt)?$/i.test(path));
+  if (readme) {
+    add({ path: readme, reason: 'readme', score: 100 });
+  }
+
+  for (const [path, score] of await matchTerms(request.projectId, request.message)) {
+    add({ path, reason: 'relevant', score });
+  }
+
+  return [...candidates.values()].sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+}
+
+// Files whose path or contents contain the message's distinctive words, scored by how many they contain
+async function matchTerms(projectId: string, message: string): Promise<Array<[string, number]>> {
+  const terms = [...new Set((message.match(/[A-Za-z_][\w-]{2,}/g) ?? [])
+    .map(term => term.toLowerCase())
+    .filter(term => !STOP_WORDS.has(term)))]
+    .slice(0, MAX_SEARCH_TERMS);
+  if (terms.length === 0) return [];
+
+  const patterns = terms.map(term => `%${term.replace(/[\\%_]/g, match => `\\${match}`)}%`);
+  // Path matches count three times as much as content matches
+  const score = patterns.map((_, index) =>
+    `(CASE WHEN path ILIKE $${index + 2} THEN 3 ELSE 0 END + CASE WHEN content ILIKE $${index + 2} THEN 1 ELSE 0 END)`
+  ).join(' + ');
+
+  const rows = await db.rawQueryAll(
+    `SELECT path, score FROM (
+       SELECT path, ${score} AS score FROM project_files
+       WHERE project_id = $1 AND type = 'file' AND content IS NOT NULL AND size <= ${MAX_FILE_BYTES}
+     ) scored
+     WHERE score > 0
+     ORDER BY score DESC, path
+     LIMIT ${MAX_RELEVANT_FILES}`,
+    projectId, ...patterns
+  );
+  return rows.map(row => [row.path, row.score]);
+}
+
+// Error output usually names files relative to some working directory; match on the path's tail
+function resolveLocation(location: string, files: Map<string, FileRow>): string | undefined {
+  const tail = '/' + location.replace(/^\.?\//, '');
+  if (files.has(tail)) return tail;
+  for (const path of files.keys()) {
+    if (path.endsWith(tail)) return path;
+  }
+  return undefined;
+}
+
+// The whole file when it fits, otherwise as many lines as fit around the focus line (or from the top)
+async function loadSnippet(
+  projectId: string,
+  candidate: Candidate,
+  maxTokens: number
+): Promise<{ snippet: CodeSnippet; truncated: boolean } | null> {
+  const row = await db.queryRow`
+    SELECT content, metadata FROM project_files
+    WHERE project_id = ${projectId} AND path = ${candidate.path} AND type = 'file'
+  `;
+  const metadata = typeof row?.metadata === 'string' ? JSON.parse(row.metadata) : row?.metadata ?? {};
+  if (!row || row.content === null || metadata.isBinary) return null;
+
+  const language: string | undefined = metadata.language;
+  const lines = (row.content as string).split('\n');
+  const whole: CodeSnippet = {
+    filePath: candidate.path,
+    content: row.content,
+    startLine: 1,
+    endLine: lines.length,
+    ...(language ? { language } : {})
+  };
+  if (estimateTokens(formatSnippet(whole)) <= maxTokens) {
+    return { snippet: whole, truncated: false };
+  }
+
+  // Grow the excerpt a line at a time, alternating below and above the focus line
+  const focus = Math.min(lines.length, Math.max(1, candidate.focusLine ?? 1)) - 1;
+  let start = focus;
+  let end = focus;
+  let used = estimateTokens(formatSnippet({ ...whole, content: '' })) + estimateTokens((lines[focus] ?? '') + '\n');
+  while (start > 0 || end < lines.length - 1) {
+    const next = end < lines.length - 1 && (end - focus <= focus - start || start === 0) ? end + 1 : start - 1;
+    const cost = estimateTokens((lines[next] ?? '') + '\n');
+    if (used + cost > maxTokens) break;
+    used += cost;
+    if (next > end) end = next; else start = next;
+  }
+  if (used < MIN_EXCERPT_TOKENS && end - start + 1 < lines.length) return null;
+
+  return {
+    snippet: { ...whole, content: lines.slice(start, end + 1).join('\n'), startLine: start + 1, endLine: end + 1 },
+    truncated: true
+  };
+}
+
+function formatSnippet(snippet: CodeSnippet): string {
+  const language = snippet.language ? ` language="${snippet.language}"` : '';
+  return `<file path="${snippet.filePath}" lines="${snippet.startLine}-${snippet.endLine}"${language}>\n${snippet.content}\n</file>`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,517 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { Primitive } from "encore.dev/storage/sqldb";
+import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
+import { requireProjectAccess } from "../projects/service";
+import { isUuid } from "../files/vfs";
+import { AIModel, LLMMessage, TokenUsage } from "./llm";
+
+// Chat conversations stored per user, optionally scoped to a project. Conversations are
+// private to the user who started them, even when they belong to a shared project.
+
+// Interfaces (AiMessage and AiConversation in shared/src/types/ai.ts, plus the AISession status and totals)
+export interface AiMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: Date;
+  metadata?: AiMessageMetadata;
+  // The caller's rating of an assistant message
+  feedback?: MessageFeedback;
+}
+
+export interface MessageFeedback {
+  rating: 1 | 2 | 3 | 4 | 5;
+  helpful: boolean;
+  comment?: string;
+  timestamp: Date;
+}
+
+export interface AiMessageMetadata {
+  tokens?: number;
+  model?: string;
+  context?: string[];
+  // Project files assembled into the model's context for this message
+  sources?: string[];
+  codeBlocks?: Array<{
+    language: string;
+    code: string;
+    fileName?: string;
+  }>;
+  // The user stopped the response before it finished
+  stopped?: boolean;
+}
+
+export interface AiConversationSummary {
+  id: string;
+  title: string;
+  projectId?: string;
+  tags: string[];
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+  messageCount: number;
+  totalTokens: number;
+  totalCost: number;
+  forkedFrom?: string;
+  // Start of the latest message, for conversation lists
+  preview?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AiConversation extends AiConversationSummary {
+  messages: AiMessage[];
+}
+
+interface ConversationRequest {
+  id: string;
+}
+
+interface ListConversationsRequest {
+  projectId?: string;
+  tag?: string;
+  // Matches titles and message contents
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+interface CreateConversationRequest {
+  title?: string;
+  projectId?: string;
+  tags?: string[];
+}
+
+interface UpdateConversationRequest extends ConversationRequest {
+  title?: string;
+  tags?: string[];
+}
+
+interface ForkConversationRequest extends ConversationRequest {
+  // Last message to copy into the fork; defaults to the whole conversation
+  messageId?: string;
+  title?: string;
+}
+
+export const DEFAULT_CONVERSATION_TITLE = 'New Conversation';
+
+const MAX_TITLE_LENGTH = 255;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+const PREVIEW_LENGTH = 120;
+// Earlier turns are dropped from the model's context beyond this many messages
+const MAX_HISTORY_MESSAGES = 40;
+
+const CONVERSATION_COLUMNS = `
+  c.id, c.title, c.project_id::text AS project_id, c.tags, c.status, c.forked_from::text AS forked_from,
+  c.message_count, c.total_tokens, c.total_cost::float8 AS total_cost, c.created_at, c.updated_at
+`;
+
+// API Endpoints
+export const listConversations = api(
+  { method: "GET", path: "/ai/conversations", auth: true },
+  async (req: ListConversationsRequest): Promise<{ conversations: AiConversationSummary[]; total: number }> => {
+    const user = requireAuth();
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(req.limit || DEFAULT_PAGE_SIZE)));
+    const offset = Math.max(0, Math.floor(req.offset || 0));
+
+    const params: Primitive[] = [user.id];
+    const conditions = ['c.user_id = $1'];
+    if (req.projectId) {
+      if (!isUuid(req.projectId)) {
+        return { conversations: [], total: 0 };
+      }
+      params.push(req.projectId);
+      conditions.push(`c.project_id = $${params.length}`);
+    }
+    if (req.tag) {
+      params.push(req.tag);
+      conditions.push(`$${params.length} = ANY(c.tags)`);
+    }
+    if (req.search && req.search.trim()) {
+      params.push(`%${req.search.trim()}%`);
+      conditions.push(`(c.title ILIKE $${params.length} OR EXISTS (
+        SELECT 1 FROM ai_messages m WHERE m.conversation_id = c.id AND m.content ILIKE $${params.length}
+      ))`);
+    }
+
+    try {
+      const where = conditions.join(' AND ');
+      const countRow = await db.rawQueryRow(
+        `SELECT COUNT(*)::int AS total FROM ai_conversations c WHERE ${where}`,
+        ...params
+      );
+
+      const rows = await db.rawQueryAll(
+        `SELECT ${CONVERSATION_COLUMNS}, last.content AS preview
+         FROM ai_conversations c
+         LEFT JOIN LATERAL (
+           SELECT LEFT(m.content, ${PREVIEW_LENGTH}) AS content FROM ai_messages m
+           WHERE m.conversation_id = c.id ORDER BY m.position DESC LIMIT 1
+         ) last ON true
+         WHERE ${where}
+         ORDER BY c.updated_at DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        ...params, limit, offset
+      );
+
+      return { conversations: rows.map(parseConversationRow), total: countRow?.total ?? 0 };
+    } catch (error) {
+      log.error("Failed to list conversations", { error: (error as Error).message, userId: user.id });
+      throw APIError.internal("Failed to list conversations");
+    }
+  }
+);
+
+export const createConversation = api(
+  { method: "POST", path: "/ai/conversations", auth: true },
+  async ({ title, projectId, tags }: CreateConversationRequest): Promise<AiConversation> => {
+    const user = requireAuth();
+    const conversation = await insertConversation(user.id, {
+      title: title === undefined ? DEFAULT_CONVERSATION_TITLE : validateTitle(title),
+      ...(projectId ? { projectId } : {}),
+      tags: tags ? validateTags(tags) : []
+    });
+    return { ...conversation, messages: [] };
+  }
+);
+
+export const getConversation = api(
+  { method: "GET", path: "/ai/conversations/:id", auth: true },
+  async ({ id }: ConversationRequest): Promise<AiConversation> => {
+    const user = requireAuth();
+    const conversation = await loadConversation(id, user.id);
+    return { ...conversation, messages: await loadMessages(id) };
+  }
+);
+
+// Rename and/or retag a conversation
+export const updateConversation = api(
+  { method: "PUT", path: "/ai/conversations/:id", auth: true },
+  async ({ id, title, tags }: UpdateConversationRequest): Promise<AiConversationSummary> => {
+    const user = requireAuth();
+    await loadConversation(id, user.id);
+
+    const newTitle = title === undefined ? null : validateTitle(title);
+    const newTags = tags === undefined ? null : validateTags(tags);
+
+    const row = await db.rawQueryRow(
+      `UPDATE ai_conversations c SET
+         title = COALESCE($2, c.title),
+         tags = COALESCE($3::text[], c.tags)
+       WHERE c.id = $1
+       RETURNING ${CONVERSATION_COLUMNS}`,
+      id, newTitle, newTags
+    );
+    if (!row) {
+      throw APIError.notFound("Conversation not found");
+    }
+    return parseConversationRow(row);
+  }
+);
+
+export const deleteConversation = api(
+  { method: "DELETE", path: "/ai/conversations/:id", auth: true },
+  async ({ id }: ConversationRequest): Promise<{ success: boolean }> => {
+    const user = requireAuth();
+    await loadConversation(id, user.id);
+
+    await db.exec`DELETE FROM ai_conversations WHERE id = ${id}`;
+    log.info("Conversation deleted", { conversationId: id, userId: user.id });
+    return { success: true };
+  }
+);
+
+// Remove every message but keep the conversation, its tags and its usage totals
+export const clearConversation = api(
+  { method: "DELETE", path: "/ai/conversations/:id/messages", auth: true },
+  async ({ id }: ConversationRequest): Promise<AiConversationSummary> => {
+    const user = requireAuth();
+    await loadConversation(id, user.id);
+
+    const tx = await db.begin();
+    try {
+      await tx.exec`DELETE FROM ai_messages WHERE conversation_id = ${id}`;
+      const row = await tx.rawQueryRow(
+        `UPDATE ai_conversations c SET message_count = 0 WHERE c.id = $1 RETURNING ${CONVERSATION_COLUMNS}`,
+        id
+      );
+      await tx.commit();
+      return parseConversationRow(row);
+    } catch (error) {
+      await tx.rollback();
+      log.error("Failed to clear conversation", { error: (error as Error).message, conversationId: id });
+      throw APIError.internal("Failed to clear conversation");
+    }
+  }
+);
+
+// Copy a conversation, up to and including `messageId`, into a new one to branch off from there
+export const forkConversation = api(
+  { method: "POST", path: "/ai/conversations/:id/fork", auth: true },
+  async ({ id, messageId, title }: ForkConversationRequest): Promise<AiConversation> => {
+    const user = requireAuth();
+    const source = await loadConversation(id, user.id);
+
+    let lastPosition = source.messageCount - 1;
+    if (messageId !== undefined) {
+      const message = isUuid(messageId)
+        ? await db.queryRow`SELECT position FROM ai_messages WHERE id = ${messageId} AND conversation_id = ${id}`
+        : null;
+      if (!message) {
+        throw APIError.notFound("Message not found");
+      }
+      lastPosition = message.position;
+    }
+
+    const forkTitle = title === undefined
+      ? truncate(`${source.title} (fork)`, MAX_TITLE_LENGTH)
+      : validateTitle(title);
+
+    let forkId: string;
+    const tx = await db.begin();
+    try {
+      const row = await tx.queryRow`
+        INSERT INTO ai_conversations (user_id, project_id, title, tags, forked_from, message_count)
+        SELECT user_id, project_id, ${forkTitle}, tags, id, (
+          SELECT COUNT(*) FROM ai_messages WHERE conversation_id = ${id} AND position <= ${lastPosition}
+        )
+        FROM ai_conversations WHERE id = ${id}
+        RETURNING id
+      `;
+      forkId = row!.id;
+      await tx.exec`
+        INSERT INTO ai_messages (conversation_id, position, role, content, metadata, created_at)
+        SELECT ${forkId}, ROW_NUMBER() OVER (ORDER BY position) - 1, role, content, metadata, created_at
+        FROM ai_messages
+        WHERE conversation_id = ${id} AND position <= ${lastPosition}
+      `;
+      await tx.commit();
+
+      log.info("Conversation forked", { conversationId: id, forkId, userId: user.id });
+    } catch (error) {
+      await tx.rollback();
+      log.error("Failed to fork conversation", { error: (error as Error).message, conversationId: id });
+      throw APIError.internal("Failed to fork conversation");
+    }
+
+    const fork = await loadConversation(forkId, user.id);
+    return { ...fork, messages: await loadMessages(forkId) };
+  }
+);
+
+// Helper functions used by the chat endpoints
+
+// The conversation a chat message belongs to, its project and its recent turns as model context.
+// Without an id a new conversation is started and titled after the message.
+export async function openConversation(
+  userId: string,
+  conversationId: string | undefined,
+  options: { projectId?: string; message: string }
+): Promise<{ id: string; projectId?: string; history: LLMMessage[] }> {
+  if (!conversationId) {
+    const conversation = await insertConversation(userId, {
+      title: titleFrom(options.message),
+      ...(options.projectId ? { projectId: options.projectId } : {}),
+      tags: []
+    });
+    return { id: conversation.id, ...(conversation.projectId ? { projectId: conversation.projectId } : {}), history: [] };
+  }
+
+  const conversation = await loadConversation(conversationId, userId);
+  const rows = await db.queryAll`
+    SELECT role, content FROM (
+      SELECT role, content, position FROM ai_messages
+      WHERE conversation_id = ${conversationId} AND role IN ('user', 'assistant')
+      ORDER BY position DESC
+      LIMIT ${MAX_HISTORY_MESSAGES}
+    ) recent
+    ORDER BY position
+  `;
+  return {
+    id: conversationId,
+    ...(conversation.projectId ? { projectId: conversation.projectId } : {}),
+    history: rows.map(row => ({ role: row.role, content: row.content }))
+  };
+}
+
+// Append a user message and the model's reply, and add the call's usage to the conversation's totals
+export async function recordExchange(
+  conversationId: string,
+  message: { content: string; context?: string[]; sources?: string[] },
+  reply: { content: string; model: AIModel; usage: TokenUsage; stopped?: boolean }
+): Promise<AiMessage[]> {
+  const tx = await db.begin();
+  try {
+    // Locking the row serialises concurrent sends to the same conversation
+    const conversation = await tx.queryRow`
+      SELECT title, message_count, project_id FROM ai_conversations WHERE id = ${conversationId} FOR UPDATE
+    `;
+    if (!conversation) {
+      throw APIError.notFound("Conversation not found");
+    }
+
+    const position: number = conversation.message_count;
+    const userMetadata: AiMessageMetadata = {
+      ...(message.context?.length ? { context: message.context } : {}),
+      ...(message.sources?.length ? { sources: message.sources } : {})
+    };
+    const replyMetadata: AiMessageMetadata = {
+      tokens: reply.usage.completionTokens,
+      model: reply.model,
+      ...(reply.stopped ? { stopped: true } : {})
+    };
+
+    const userRow = await tx.queryRow`
+      INSERT INTO ai_messages (conversation_id, position, role, content, metadata)
+      VALUES (${conversationId}, ${position}, 'user', ${message.content}, ${JSON.stringify(userMetadata)}::jsonb)
+      RETURNING id, role, content, metadata, created_at
+    `;
+    const replyRow = await tx.queryRow`
+      INSERT INTO ai_messages (conversation_id, position, role, content, metadata)
+      VALUES (${conversationId}, ${position + 1}, 'assistant', ${reply.content}, ${JSON.stringify(replyMetadata)}::jsonb)
+      RETURNING id, role, content, metadata, created_at
+    `;
+
+    // Untitled conversations are named after their first message
+    const title = position === 0 && conversation.title === DEFAULT_CONVERSATION_TITLE
+      ? titleFrom(message.content)
+      : conversation.title;
+    await tx.exec`
+      UPDATE ai_conversations SET
+        title = ${title},
+        message_count = message_count + 2,
+        total_tokens = total_tokens + ${reply.usage.totalTokens},
+        total_cost = total_cost + ${reply.usage.cost ?? 0}
+      WHERE id = ${conversationId}
+    `;
+    if (conversation.project_id) {
+      await tx.exec`
+        UPDATE projects SET ai_interactions = ai_interactions + 1, last_activity = CURRENT_TIMESTAMP
+        WHERE id = ${conversation.project_id}
+      `;
+    }
+    await tx.commit();
+
+    return [parseMessageRow(userRow), parseMessageRow(replyRow)];
+  } catch (error) {
+    await tx.rollback();
+    if (error instanceof APIError) throw error;
+    log.error("Failed to save chat messages", { error: (error as Error).message, conversationId });
+    throw APIError.internal("Failed to save chat messages");
+  }
+}
+
+// Module-private helpers
+
+async function loadConversation(id: string, userId: string): Promise<AiConversationSummary> {
+  // Other users' conversations are reported as missing
+  const row = isUuid(id)
+    ? await db.rawQueryRow(
+      `SELECT ${CONVERSATION_COLUMNS} FROM ai_conversations c WHERE c.id = $1 AND c.user_id = $2`,
+      id, userId
+    )
+    : null;
+  if (!row) {
+    throw APIError.notFound("Conversation not found");
+  }
+  return parseConversationRow(row);
+}
+
+async function loadMessages(conversationId: string): Promise<AiMessage[]> {
+  const rows = await db.queryAll`
+    SELECT m.id, m.role, m.content, m.metadata, m.created_at,
+      f.rating, f.helpful, f.comment, f.updated_at AS rated_at
+    FROM ai_messages m
+    LEFT JOIN ai_feedback f ON f.message_id = m.id
+    WHERE m.conversation_id = ${conversationId}
+    ORDER BY m.position
+  `;
+  return rows.map(parseMessageRow);
+}
+
+async function insertConversation(
+  userId: string,
+  fields: { title: string; projectId?: string; tags: string[] }
+): Promise<AiConversationSummary> {
+  if (fields.projectId) {
+    await requireProjectAccess(fields.projectId, userId, 'read');
+  }
+
+  const row = await db.rawQueryRow(
+    `INSERT INTO ai_conversations AS c (user_id, project_id, title, tags)
+     VALUES ($1, $2, $3, $4::text[])
+     RETURNING ${CONVERSATION_COLUMNS}`,
+    userId, fields.projectId ?? null, fields.title, fields.tags
+  );
+  log.info("Conversation created", { conversationId: row!.id, userId, projectId: fields.projectId });
+  return parseConversationRow(row);
+}
+
+function parseConversationRow(row: any): AiConversationSummary {
+  return {
+    id: row.id,
+    title: row.title,
+    ...(row.project_id ? { projectId: row.project_id } : {}),
+    tags: row.tags ?? [],
+    status: row.status,
+    messageCount: row.message_count,
+    totalTokens: row.total_tokens,
+    totalCost: row.total_cost,
+    ...(row.forked_from ? { forkedFrom: row.forked_from } : {}),
+    ...(row.preview ? { preview: row.preview } : {}),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function parseMessageRow(row: any): AiMessage {
+  const metadata = typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata;
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    timestamp: row.created_at,
+    ...(metadata && Object.keys(metadata).length > 0 ? { metadata } : {}),
+    ...(row.rating ? { feedback: parseFeedback(row) } : {})
+  };
+}
+
+export function parseFeedback(row: any): MessageFeedback {
+  return {
+    rating: row.rating,
+    helpful: row.helpful,
+    ...(row.comment ? { comment: row.comment } : {}),
+    timestamp: row.rated_at
+  };
+}
+
+function validateTitle(title: string): string {
+  const trimmed = title.trim();
+  if (!trimmed || trimmed.length > MAX_TITLE_LENGTH) {
+    throw APIError.invalidArgument(`Conversation titles must be between 1 and ${MAX_TITLE_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+function validateTags(tags: string[]): string[] {
+  const unique = [...new Set(tags.map(tag => tag.trim()))];
+  if (unique.length > MAX_TAGS) {
+    throw APIError.invalidArgument(`A conversation may have at most ${MAX_TAGS} tags`);
+  }
+  if (unique.some(tag => !tag || tag.length > MAX_TAG_LENGTH)) {
+    throw APIError.invalidArgument(`Tags must be between 1 and ${MAX_TAG_LENGTH} characters`);
+  }
+  return unique;
+}
+
+function titleFrom(message: string): string {
+  const line = message.trim().split('\n')[0] ?? '';
+  return line ? truncate(line, 50) : DEFAULT_CONVERSATION_TITLE;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 3)}...` : text;
+}
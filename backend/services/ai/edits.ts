@@ -0,0 +1,502 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
+import { requireProjectAccess } from "../projects/service";
+import { diffSequences, splitLines } from "../files/diff";
+import {
+  FILE_COLUMNS,
+  deleteEntry,
+  detectLanguage,
+  ensureParentDirectories,
+  findFileByPath,
+  insertEntry,
+  normalizePath,
+  refreshProjectStats,
+  writeFileContent
+} from "../files/vfs";
+import { FileChange, publishFileChanges } from "../files/watch";
+import { AIModel, AIResponseMetadata, TokenUsage, complete } from "./llm";
+import { assembleContext } from "./context";
+import { checkQuota, recordUsage } from "./usage";
+
+// AI edit proposals. The model rewrites whole files; the server turns each rewrite into hunks
+// against the file's current version, which the user accepts or rejects one by one. Applying
+// re-locates the accepted hunks in the file as it is now, so edits made since the proposal are
+// kept, and refuses to apply anything when a hunk's lines were changed in the meantime.
+
+// Interfaces (request mirrors RefactoringRequest in shared/src/types/ai.ts)
+export type RefactoringGoal = 'performance' | 'readability' | 'maintainability' | 'modularity' | 'reduce-complexity';
+
+// Replaces oldLines, found after `before` and ahead of `after`, with newLines
+export interface PatchHunk {
+  id: string;
+  // 1-based line of the first old line in the version the proposal was made against
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+  // Unchanged lines around the change that anchor it; fewer at the start or end of the file
+  before: string[];
+  after: string[];
+}
+
+export interface FilePatch {
+  path: string;
+  action: 'modify' | 'create' | 'delete';
+  // The version the patch was made against; absent for new files
+  fileId?: string;
+  baseVersion?: number;
+  baseHash?: string;
+  oldContent: string;
+  newContent: string;
+  hunks: PatchHunk[];
+  stats: { additions: number; deletions: number };
+}
+
+export interface PatchConflict {
+  path: string;
+  hunkId?: string;
+  reason: string;
+}
+
+interface ProposeEditsRequest {
+  projectId: string;
+  // What to change
+  instruction: string;
+  // Files to edit; the model may also create or delete files
+  files: Array<{ path: string; selection?: { startLine: number; endLine: number } }>;
+  goals?: RefactoringGoal[];
+  preserveBehavior?: boolean;
+  modernizeCode?: boolean;
+  model?: AIModel;
+}
+
+interface EditProposal {
+  summary: string;
+  files: FilePatch[];
+  model: AIModel;
+  usage: TokenUsage;
+  metadata: AIResponseMetadata;
+}
+
+interface ApplyEditsRequest {
+  projectId: string;
+  // The accepted part of a proposal
+  files: Array<{
+    path: string;
+    action: FilePatch['action'];
+    baseHash?: string;
+    // Accepted hunks of a modified file
+    hunks?: PatchHunk[];
+    // Content of a created file
+    content?: string;
+  }>;
+  // Recorded in the version history of modified files
+  message?: string;
+}
+
+interface ApplyEditsResponse {
+  // False when there were conflicts; nothing is written then
+  applied: boolean;
+  files: Array<{ path: string; action: FilePatch['action']; fileId?: string; version?: number; content?: string }>;
+  conflicts: PatchConflict[];
+}
+
+const GOALS: RefactoringGoal[] = ['performance', 'readability', 'maintainability', 'modularity', 'reduce-complexity'];
+const MAX_FILES = 10;
+const MAX_TOTAL_LENGTH = 200000;
+const MAX_INSTRUCTION_LENGTH = 4000;
+const EDIT_CONTEXT_TOKENS = 3000;
+// Unchanged lines kept around each hunk to find it again
+const ANCHOR_LINES = 3;
+// Changes separated by at most this many unchanged lines form one hunk
+const MERGE_GAP = 2;
+
+const EDIT_SYSTEM_PROMPT =
+  "You edit source files. Start with a short summary of the changes, then give every file you " +
+  "change, create or delete in this form, with the complete new content of the file:\n" +
+  '<file path="/path/to/file" action="modify|create|delete">\n...complete file content...\n</file>\n' +
+  "Leave out files you do not change. A deleted file has no content. Keep the existing code style " +
+  "and do not make changes beyond what was asked.";
+
+// API Endpoints
+
+export const proposeEdits = api(
+  { method: "POST", path: "/ai/edits", auth: true },
+  async (req: ProposeEditsRequest): Promise<EditProposal> => {
+    const user = requireAuth();
+    await requireProjectAccess(req.projectId, user.id, 'read');
+    validateProposal(req);
+    await checkQuota(user.id);
+
+    const sources: Array<{ path: string; content: string; selection?: { startLine: number; endLine: number } }> = [];
+    let totalLength = 0;
+    for (const file of req.files) {
+      const path = normalizePath(file.path);
+      const row = await findFileByPath(db, req.projectId, path);
+      if (!row || row.type !== 'file' || row.content === null) {
+        throw APIError.notFound(`File not found: ${path}`);
+      }
+      totalLength += row.content.length;
+      sources.push({ path, content: row.content as string, ...(file.selection ? { selection: file.selection } : {}) });
+    }
+    if (totalLength > MAX_TOTAL_LENGTH) {
+      throw APIError.invalidArgument(`Files to edit are limited to ${MAX_TOTAL_LENGTH} characters in total`);
+    }
+
+    const projectContext = await assembleContext({
+      projectId: req.projectId,
+      userId: user.id,
+      message: req.instruction,
+      maxTokens: EDIT_CONTEXT_TOKENS
+    });
+
+    const result = await complete({
+      ...(req.model ? { model: req.model } : {}),
+      system: `${EDIT_SYSTEM_PROMPT}\n\nThe files belong to this project:\n\n${projectContext.prompt}`,
+      messages: [{ role: 'user', content: editPrompt(req, sources) }]
+    });
+    await recordUsage(user.id, { serviceType: 'refactoring', model: result.model, usage: result.usage, projectId: req.projectId });
+
+    const { summary, files: rewrites } = parseEditReply(result.content);
+    const files: FilePatch[] = [];
+    for (const rewrite of rewrites) {
+      const patch = await buildFilePatch(req.projectId, rewrite);
+      if (patch) files.push(patch);
+    }
+
+    log.info("AI edits proposed", {
+      userId: user.id,
+      projectId: req.projectId,
+      files: files.length,
+      hunks: files.reduce((total, file) => total + file.hunks.length, 0),
+      model: result.model,
+      totalTokens: result.usage.totalTokens
+    });
+    return {
+      summary: summary || (files.length > 0 ? `Proposed changes to ${files.length} file(s).` : 'No changes proposed.'),
+      files,
+      model: result.model,
+      usage: result.usage,
+      metadata: result.metadata
+    };
+  }
+);
+
+export const applyEdits = api(
+  { method: "POST", path: "/ai/edits/apply", auth: true },
+  async (req: ApplyEditsRequest): Promise<ApplyEditsResponse> => {
+    const user = requireAuth();
+    await requireProjectAccess(req.projectId, user.id, 'write');
+    if (!Array.isArray(req.files) || req.files.length === 0) {
+      throw APIError.invalidArgument("files is required");
+    }
+    if (req.files.length > MAX_FILES) {
+      throw APIError.invalidArgument(`At most ${MAX_FILES} files can be edited at once`);
+    }
+
+    const tx = await db.begin();
+    try {
+      const conflicts: PatchConflict[] = [];
+      const writes: Array<() => Promise<ApplyEditsResponse['files'][number] & { change: FileChange }>> = [];
+
+      for (const file of req.files) {
+        const path = normalizePath(file.path);
+        // Locked so nothing changes between the conflict check and the write
+        const existing = await tx.rawQueryRow(
+          `SELECT ${FILE_COLUMNS} FROM project_files WHERE project_id = $1 AND path = $2 FOR UPDATE`,
+          req.projectId, path
+        );
+
+        if (file.action === 'create') {
+          if (existing) {
+            conflicts.push({ path, reason: 'A file was created at this path since the proposal was made' });
+            continue;
+          }
+          const content = file.content ?? '';
+          writes.push(async () => {
+            await ensureParentDirectories(tx, req.projectId, path, user.id);
+            const row = await insertEntry(tx, req.projectId, path, 'file', content, user.id);
+            return { path, action: 'create', fileId: row.id, version: row.version, content, change: { type: 'created', fileId: row.id, path } };
+          });
+          continue;
+        }
+
+        if (!existing || existing.type !== 'file') {
+          conflicts.push({ path, reason: 'The file was deleted since the proposal was made' });
+          continue;
+        }
+
+        if (file.action === 'delete') {
+          if (file.baseHash && existing.hash !== file.baseHash) {
+            conflicts.push({ path, reason: 'The file was changed since the proposal was made' });
+            continue;
+          }
+          writes.push(async () => {
+            await deleteEntry(tx, existing);
+            return { path, action: 'delete', fileId: existing.id, change: { type: 'deleted', fileId: existing.id, path } };
+          });
+          continue;
+        }
+
+        const patched = applyHunks(existing.content ?? '', file.hunks ?? []);
+        if (patched.conflicts.length > 0) {
+          conflicts.push(...patched.conflicts.map(conflict => ({ path, ...conflict })));
+          continue;
+        }
+        writes.push(async () => {
+          const row = await writeFileContent(tx, existing, patched.content, user.id, req.message ?? 'Applied AI edits');
+          return {
+            path,
+            action: 'modify',
+            fileId: row.id,
+            version: row.version,
+            content: patched.content,
+            change: { type: 'modified', fileId: row.id, path }
+          };
+        });
+      }
+
+      if (conflicts.length > 0) {
+        await tx.rollback();
+        return { applied: false, files: [], conflicts };
+      }
+
+      const written: Array<ApplyEditsResponse['files'][number] & { change: FileChange }> = [];
+      for (const write of writes) {
+        written.push(await write());
+      }
+      await refreshProjectStats(tx, req.projectId);
+      await tx.commit();
+
+      log.info("AI edits applied", { userId: user.id, projectId: req.projectId, files: written.length });
+      await publishFileChanges(req.projectId, user.id, written.map(file => file.change));
+      return { applied: true, files: written.map(({ change, ...file }) => file), conflicts: [] };
+    } catch (error) {
+      await tx.rollback();
+      if (error instanceof APIError) throw error;
+      log.error("Failed to apply AI edits", { error: (error as Error).message, projectId: req.projectId });
+      throw APIError.internal("Failed to apply edits");
+    }
+  }
+);
+
+// Helper functions
+
+function validateProposal(req: ProposeEditsRequest): void {
+  if (typeof req.instruction !== 'string' || !req.instruction.trim()) {
+    throw APIError.invalidArgument("instruction is required");
+  }
+  if (req.instruction.length > MAX_INSTRUCTION_LENGTH) {
+    throw APIError.invalidArgument(`Instructions are limited to ${MAX_INSTRUCTION_LENGTH} characters`);
+  }
+  if (!Array.isArray(req.files) || req.files.length === 0) {
+    throw APIError.invalidArgument("At least one file is required");
+  }
+  if (req.files.length > MAX_FILES) {
+    throw APIError.invalidArgument(`At most ${MAX_FILES} files can be edited at once`);
+  }
+  const unknown = req.goals?.find(goal => !GOALS.includes(goal));
+  if (unknown) {
+    throw APIError.invalidArgument(`Unknown refactoring goal: ${unknown}`);
+  }
+}
+
+function editPrompt(
+  req: ProposeEditsRequest,
+  sources: Array<{ path: string; content: string; selection?: { startLine: number; endLine: number } }>
+): string {
+  const guidance = [
+    ...(req.goals?.length ? [`Goals: ${req.goals.join(', ')}.`] : []),
+    ...(req.preserveBehavior !== false ? ['Preserve the existing behaviour.'] : []),
+    ...(req.modernizeCode ? ['Use modern language features where they help.'] : [])
+  ];
+  const files = sources.map(source => {
+    const language = detectLanguage(source.path);
+    const selection = source.selection
+      ? ` selection="${source.selection.startLine}-${source.selection.endLine}"`
+      : '';
+    return `<file path="${source.path}"${language ? ` language="${language}"` : ''}${selection}>\n${source.content}\n</file>`;
+  });
+
+  return [
+    req.instruction.trim(),
+    ...guidance,
+    ...(sources.some(source => source.selection) ? ['Only change the selected lines unless other changes are needed to keep the code working.'] : []),
+    '',
+    ...files
+  ].join('\n');
+}
+
+// The summary and the rewritten files of a model reply
+export function parseEditReply(reply: string): { summary: string; files: Array<{ path: string; action: FilePatch['action']; content: string }> } {
+  const pattern = /<file\s+path="([^"]+)"(?:\s+action="(modify|create|delete)")?\s*>\n?([\s\S]*?)\n?<\/file>/g;
+  const files = new Map<string, { path: string; action: FilePatch['action']; content: string }>();
+  let summaryEnd = reply.length;
+
+  for (const match of reply.matchAll(pattern)) {
+    summaryEnd = Math.min(summaryEnd, match.index ?? reply.length);
+    const path = normalizePath(match[1]!);
+    // A file given twice counts with its last version
+    files.set(path, { path, action: (match[2] as FilePatch['action'] | undefined) ?? 'modify', content: stripFence(match[3] ?? '') });
+  }
+  return { summary: reply.slice(0, summaryEnd).trim(), files: [...files.values()] };
+}
+
+// Models sometimes wrap the content in a code fence despite the format
+function stripFence(content: string): string {
+  const fenced = /^```[^\n]*\n([\s\S]*?)\n?```\s*$/.exec(content);
+  return fenced ? fenced[1]! : content;
+}
+
+async function buildFilePatch(
+  projectId: string,
+  rewrite: { path: string; action: FilePatch['action']; content: string }
+): Promise<FilePatch | null> {
+  const existing = await findFileByPath(db, projectId, rewrite.path);
+  if (existing && existing.type !== 'file') return null;
+  // Binary files are never edited
+  if (existing && existing.content === null) return null;
+
+  if (!existing) {
+    if (rewrite.action === 'delete') return null;
+    const content = rewrite.content.endsWith('\n') ? rewrite.content : `${rewrite.content}\n`;
+    const newLines = splitLines(content);
+    return {
+      path: rewrite.path,
+      action: 'create',
+      oldContent: '',
+      newContent: content,
+      hunks: buildHunks('', content),
+      stats: { additions: newLines.length, deletions: 0 }
+    };
+  }
+
+  const base = {
+    path: rewrite.path,
+    fileId: existing.id,
+    baseVersion: existing.version,
+    baseHash: existing.hash,
+    oldContent: existing.content as string
+  };
+  if (rewrite.action === 'delete') {
+    return {
+      ...base,
+      action: 'delete',
+      newContent: '',
+      hunks: [],
+      stats: { additions: 0, deletions: splitLines(existing.content).length }
+    };
+  }
+
+  // The reply format drops a final newline, which is not a change the model meant to make
+  const content = existing.content.endsWith('\n') && !rewrite.content.endsWith('\n')
+    ? `${rewrite.content}\n`
+    : rewrite.content;
+  const hunks = buildHunks(existing.content, content);
+  if (hunks.length === 0) return null;
+  return {
+    ...base,
+    action: 'modify',
+    newContent: content,
+    hunks,
+    stats: {
+      additions: hunks.reduce((total, hunk) => total + hunk.newLines.length, 0),
+      deletions: hunks.reduce((total, hunk) => total + hunk.oldLines.length, 0)
+    }
+  };
+}
+
+// Hunks turning `oldContent` into `newContent`, each anchored by the unchanged lines around it
+export function buildHunks(oldContent: string, newContent: string): PatchHunk[] {
+  const oldLines = splitLines(oldContent);
+  const newLines = splitLines(newContent);
+  const ops = diffSequences(oldLines, newLines);
+
+  // Changed regions as [oldFrom, oldTo) and [newFrom, newTo)
+  const regions: Array<{ oldFrom: number; oldTo: number; newFrom: number; newTo: number }> = [];
+  let oldPos = 0;
+  let newPos = 0;
+  for (let i = 0; i < ops.length;) {
+    if (ops[i]!.kind === 'equal') {
+      oldPos++;
+      newPos++;
+      i++;
+      continue;
+    }
+    const region = { oldFrom: oldPos, oldTo: oldPos, newFrom: newPos, newTo: newPos };
+    while (i < ops.length && ops[i]!.kind !== 'equal') {
+      if (ops[i]!.kind === 'delete') region.oldTo = ++oldPos;
+      else region.newTo = ++newPos;
+      i++;
+    }
+
+    const previous = regions[regions.length - 1];
+    if (previous && region.oldFrom - previous.oldTo <= MERGE_GAP) {
+      previous.oldTo = region.oldTo;
+      previous.newTo = region.newTo;
+    } else {
+      regions.push(region);
+    }
+  }
+
+  return regions.map((region, index) => ({
+    id: `h${index + 1}`,
+    oldStart: region.oldFrom + 1,
+    oldLines: oldLines.slice(region.oldFrom, region.oldTo),
+    newLines: newLines.slice(region.newFrom, region.newTo),
+    before: oldLines.slice(Math.max(0, region.oldFrom - ANCHOR_LINES), region.oldFrom),
+    after: oldLines.slice(region.oldTo, region.oldTo + ANCHOR_LINES)
+  }));
+}
+
+// Apply hunks to the current content of a file. Each hunk is looked for where it was, shifted by
+// however far the previous hunk moved, and then ever further away; a hunk whose lines are gone,
+// or that matches equally well in two places, is a conflict.
+export function applyHunks(content: string, hunks: PatchHunk[]): { content: string; conflicts: Array<{ hunkId: string; reason: string }> } {
+  const lines = splitLines(content);
+  const located: Array<{ hunk: PatchHunk; start: number }> = [];
+  const conflicts: Array<{ hunkId: string; reason: string }> = [];
+  let drift = 0;
+
+  for (const hunk of [...hunks].sort((a, b) => a.oldStart - b.oldStart)) {
+    const start = locateHunk(lines, hunk, hunk.oldStart - 1 + drift);
+    if (start === null) {
+      conflicts.push({ hunkId: hunk.id, reason: 'The lines this change applies to were changed since the proposal was made' });
+      continue;
+    }
+    const previous = located[located.length - 1];
+    if (previous && start < previous.start + previous.hunk.oldLines.length) {
+      conflicts.push({ hunkId: hunk.id, reason: 'This change overlaps another accepted change' });
+      continue;
+    }
+    located.push({ hunk, start });
+    drift = start - (hunk.oldStart - 1);
+  }
+  if (conflicts.length > 0) {
+    return { content, conflicts };
+  }
+
+  // Bottom up, so earlier positions stay valid
+  const result = [...lines];
+  for (const { hunk, start } of located.reverse()) {
+    result.splice(start, hunk.oldLines.length, ...hunk.newLines);
+  }
+  return { content: result.join('\n'), conflicts: [] };
+}
+
+function locateHunk(lines: string[], hunk: PatchHunk, expected: number): number | null {
+  const pattern = [...hunk.before, ...hunk.oldLines, ...hunk.after];
+  const matchesAt = (start: number) => {
+    const from = start - hunk.before.length;
+    if (from < 0 || from + pattern.length > lines.length) return false;
+    return pattern.every((line, i) => lines[from + i] === line);
+  };
+
+  for (let distance = 0; distance <= lines.length; distance++) {
+    const found = (distance === 0 ? [expected] : [expected - distance, expected + distance]).filter(matchesAt);
+    if (found.length === 1) return found[0]!;
+    if (found.length > 1) return null;
+  }
+  return null;
+}
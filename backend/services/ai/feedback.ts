@@ -0,0 +1,265 @@
+import { ServerResponse } from "node:http";
+import { once } from "node:events";
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { Primitive } from "encore.dev/storage/sqldb";
+import { db } from "../../utils/database";
+import { requireAdmin, requireAuth } from "../../utils/auth";
+import { httpStatus } from "../../utils/http";
+import { isUuid } from "../files/vfs";
+import { MessageFeedback, parseFeedback } from "./conversations";
+
+// Ratings of assistant messages. Each rating keeps a copy of the exchange it rates (the prompt,
+// the context sent with it, the reply and the model), so exports stay complete after the
+// conversation is cleared or deleted and can be compared across prompt and model changes.
+
+interface MessageFeedbackRequest {
+  messageId: string;
+}
+
+interface SetFeedbackRequest extends MessageFeedbackRequest {
+  rating: number;
+  helpful: boolean;
+  comment?: string;
+}
+
+// One line of the export
+interface FeedbackRecord {
+  id: string;
+  userId: string;
+  conversationId: string | null;
+  messageId: string | null;
+  projectId: string | null;
+  rating: number;
+  helpful: boolean;
+  comment: string | null;
+  model: string | null;
+  prompt: string;
+  response: string;
+  context: { context?: string[]; sources?: string[] };
+  createdAt: string;
+  updatedAt: string;
+}
+
+const MAX_COMMENT_LENGTH = 1000;
+
+// API Endpoints
+
+// Rate an assistant message, replacing an earlier rating of it
+export const setMessageFeedback = api(
+  { method: "PUT", path: "/ai/messages/:messageId/feedback", auth: true },
+  async (req: SetFeedbackRequest): Promise<MessageFeedback> => {
+    const user = requireAuth();
+    const { rating, helpful, comment } = validateFeedback(req);
+
+    try {
+      const message = await loadRatedMessage(req.messageId, user.id);
+
+      // The user message this reply answers, with the context that was sent along with it
+      const prompt = await db.queryRow`
+        SELECT content, metadata FROM ai_messages
+        WHERE conversation_id = ${message.conversation_id} AND position < ${message.position} AND role = 'user'
+        ORDER BY position DESC
+        LIMIT 1
+      `;
+      const promptMetadata = parseJson(prompt?.metadata);
+      const replyMetadata = parseJson(message.metadata);
+      const promptContext = {
+        ...(promptMetadata.context ? { context: promptMetadata.context } : {}),
+        ...(promptMetadata.sources ? { sources: promptMetadata.sources } : {})
+      };
+
+      const row = await db.queryRow`
+        INSERT INTO ai_feedback (
+          user_id, conversation_id, message_id, project_id, rating, helpful, comment,
+          model, prompt, response, prompt_context
+        )
+        VALUES (
+          ${user.id}, ${message.conversation_id}, ${message.id}, ${message.project_id}, ${rating}, ${helpful}, ${comment},
+          ${replyMetadata.model ?? null}, ${prompt?.content ?? ''}, ${message.content}, ${JSON.stringify(promptContext)}::jsonb
+        )
+        ON CONFLICT (message_id) DO UPDATE SET
+          rating = EXCLUDED.rating,
+          helpful = EXCLUDED.helpful,
+          comment = EXCLUDED.comment
+        RETURNING rating, helpful, comment, updated_at AS rated_at
+      `;
+
+      log.info("AI message rated", { userId: user.id, messageId: message.id, rating, helpful });
+      return parseFeedback(row);
+    } catch (error) {
+      if (error instanceof APIError) throw error;
+      log.error("Failed to save AI feedback", { error: (error as Error).message, userId: user.id, messageId: req.messageId });
+      throw APIError.internal("Failed to save feedback");
+    }
+  }
+);
+
+// Withdraw the rating of an assistant message
+export const deleteMessageFeedback = api(
+  { method: "DELETE", path: "/ai/messages/:messageId/feedback", auth: true },
+  async (req: MessageFeedbackRequest): Promise<{ success: boolean }> => {
+    const user = requireAuth();
+
+    try {
+      const message = await loadRatedMessage(req.messageId, user.id);
+      await db.exec`DELETE FROM ai_feedback WHERE message_id = ${message.id}`;
+      return { success: true };
+    } catch (error) {
+      if (error instanceof APIError) throw error;
+      log.error("Failed to delete AI feedback", { error: (error as Error).message, userId: user.id, messageId: req.messageId });
+      throw APIError.internal("Failed to delete feedback");
+    }
+  }
+);
+
+// All ratings as JSON Lines (one FeedbackRecord per line), oldest first. Administrators only.
+// Query: since and until (ISO timestamps, by rating time), model, minRating and maxRating.
+export const exportFeedback = api.raw(
+  { method: "GET", path: "/ai/feedback/export", auth: true },
+  async (req, resp) => {
+    let query: { sql: string; params: Primitive[] };
+    try {
+      const admin = requireAdmin();
+      query = exportQuery(new URL(req.url ?? '', 'http://localhost').searchParams);
+      log.info("AI feedback exported", { userId: admin.id });
+    } catch (error) {
+      sendError(resp, error);
+      return;
+    }
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    resp.writeHead(200, {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Content-Disposition': `attachment; filename="ai-feedback-${stamp}.jsonl"`,
+      'Cache-Control': 'no-store'
+    });
+
+    try {
+      for await (const row of db.rawQuery(query.sql, ...query.params)) {
+        if (!resp.write(`${JSON.stringify(toRecord(row))}\n`)) {
+          await once(resp, 'drain');
+        }
+      }
+      resp.end();
+    } catch (error) {
+      // Headers are already sent, so the only way to signal failure is to cut the stream
+      log.error("AI feedback export failed", { error: (error as Error).message });
+      resp.destroy(error as Error);
+    }
+  }
+);
+
+// Helper functions
+
+function validateFeedback(req: SetFeedbackRequest): { rating: number; helpful: boolean; comment: string | null } {
+  if (!Number.isInteger(req.rating) || req.rating < 1 || req.rating > 5) {
+    throw APIError.invalidArgument("rating must be a whole number from 1 to 5");
+  }
+  if (typeof req.helpful !== 'boolean') {
+    throw APIError.invalidArgument("helpful must be true or false");
+  }
+  if (req.comment !== undefined && typeof req.comment !== 'string') {
+    throw APIError.invalidArgument("comment must be a string");
+  }
+  const comment = req.comment?.trim() || null;
+  if (comment && comment.length > MAX_COMMENT_LENGTH) {
+    throw APIError.invalidArgument(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+  }
+  return { rating: req.rating, helpful: req.helpful, comment };
+}
+
+// An assistant message in one of the user's conversations; other users' messages are reported as missing
+async function loadRatedMessage(messageId: string, userId: string) {
+  const message = isUuid(messageId)
+    ? await db.queryRow`
+      SELECT m.id, m.conversation_id, m.position, m.role, m.content, m.metadata, c.project_id
+      FROM ai_messages m
+      JOIN ai_conversations c ON c.id = m.conversation_id
+      WHERE m.id = ${messageId} AND c.user_id = ${userId}
+    `
+    : null;
+  if (!message) {
+    throw APIError.notFound("Message not found");
+  }
+  if (message.role !== 'assistant') {
+    throw APIError.invalidArgument("Only assistant messages can be rated");
+  }
+  return message;
+}
+
+function exportQuery(params: URLSearchParams): { sql: string; params: Primitive[] } {
+  const values: Primitive[] = [];
+  const conditions: string[] = [];
+
+  for (const [name, operator] of [['since', '>='], ['until', '<']] as const) {
+    const value = params.get(name);
+    if (!value) continue;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw APIError.invalidArgument(`${name} must be an ISO timestamp`);
+    }
+    values.push(date);
+    conditions.push(`f.updated_at ${operator} $${values.length}`);
+  }
+
+  const model = params.get('model');
+  if (model) {
+    values.push(model);
+    conditions.push(`f.model = $${values.length}`);
+  }
+
+  for (const [name, operator] of [['minRating', '>='], ['maxRating', '<=']] as const) {
+    const value = params.get(name);
+    if (!value) continue;
+    const rating = Number(value);
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw APIError.invalidArgument(`${name} must be a whole number from 1 to 5`);
+    }
+    values.push(rating);
+    conditions.push(`f.rating ${operator} $${values.length}`);
+  }
+
+  return {
+    sql: `SELECT f.id, f.user_id::text AS user_id, f.conversation_id::text AS conversation_id,
+            f.message_id::text AS message_id, f.project_id::text AS project_id, f.rating, f.helpful, f.comment,
+            f.model, f.prompt, f.response, f.prompt_context, f.created_at, f.updated_at
+          FROM ai_feedback f
+          ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+          ORDER BY f.updated_at, f.id`,
+    params: values
+  };
+}
+
+function toRecord(row: any): FeedbackRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    conversationId: row.conversation_id ?? null,
+    messageId: row.message_id ?? null,
+    projectId: row.project_id ?? null,
+    rating: row.rating,
+    helpful: row.helpful,
+    comment: row.comment ?? null,
+    model: row.model ?? null,
+    prompt: row.prompt,
+    response: row.response,
+    context: parseJson(row.prompt_context),
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString()
+  };
+}
+
+function parseJson(value: unknown): any {
+  if (!value) return {};
+  return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+function sendError(resp: ServerResponse, error: unknown): void {
+  const apiError = error instanceof APIError ? error : APIError.internal("Failed to export feedback");
+  if (!(error instanceof APIError)) {
+    log.error("AI feedback export failed", { error: (error as Error).message });
+  }
+  resp.writeHead(httpStatus(apiError.code), { 'Content-Type': 'application/json' });
+  resp.end(JSON.stringify({ code: apiError.code, message: apiError.message }));
+}
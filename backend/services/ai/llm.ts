@@ -0,0 +1,636 @@
+import { APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+
+// Provider layer for the ai service: `complete` and `streamCompletion` calls for every model
+// in AIModel, routed to the Anthropic Messages API, an OpenAI-compatible chat completions API
+// or a deterministic local stub.
+
+// Interfaces (mirrors shared/src/types/ai.ts)
+export type AIModel =
+  | 'claude-3-5-sonnet-20241022'
+  | 'claude-3-haiku-20240307'
+  | 'claude-3-opus-20240229'
+  | 'gpt-4o'
+  | 'gpt-4o-mini'
+  | 'local-stub';
+
+export interface AIRequestConfig {
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  stopSequences?: string[];
+  timeout?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost?: number;
+}
+
+export interface AIResponseMetadata {
+  processingTime: number;
+  cacheHit?: boolean;
+  version: string;
+  flags?: string[];
+  reasoning?: string;
+  alternativeApproaches?: string[];
+}
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  model?: AIModel;
+  system?: string;
+  messages: LLMMessage[];
+  config?: AIRequestConfig;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: AIModel;
+  stopReason: 'end' | 'max_tokens' | 'stop_sequence';
+  usage: TokenUsage;
+  metadata: AIResponseMetadata;
+}
+
+// What a provider returns for one attempt; `complete` adds timing, retries and cost
+interface ProviderResult {
+  content: string;
+  stopReason: CompletionResult['stopReason'];
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// Resolved config handed to providers: every limit has a value
+interface ResolvedConfig {
+  maxTokens: number;
+  temperature: number;
+  topP: number;
+  presencePenalty: number;
+  frequencyPenalty: number;
+  stopSequences: string[];
+  timeout: number;
+}
+
+interface LLMProvider {
+  readonly name: string;
+  readonly version: string;
+  complete(model: AIModel, request: CompletionRequest, config: ResolvedConfig, signal: AbortSignal): Promise<ProviderResult>;
+  // Like complete, passing each piece of text to onText as it is generated
+  stream(model: AIModel, request: CompletionRequest, config: ResolvedConfig, signal: AbortSignal, onText: (text: string) => void): Promise<ProviderResult>;
+}
+
+// A server-sent event read from a provider's streaming response
+interface SSEEvent {
+  event?: string;
+  data: string;
+}
+
+// The parts of the provider payloads read here. Fields are optional: payloads are not validated,
+// and a missing field reads as empty.
+interface AnthropicMessage {
+  content?: Array<{ type: string; text?: string }>;
+  stop_reason?: string | null;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { usage?: { input_tokens?: number } };
+  delta?: { type?: string; text?: string; stop_reason?: string | null };
+  usage?: { output_tokens?: number };
+  error?: { type?: string; message?: string };
+}
+
+// A chat completion, or one chunk of a streamed one
+interface OpenAIChatCompletion {
+  choices?: Array<{
+    message?: { content?: string | null };
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+// A failed provider call, with the upstream HTTP status when there was one
+class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+  }
+}
+
+export const AI_MODELS: AIModel[] = [
+  'claude-3-5-sonnet-20241022',
+  'claude-3-haiku-20240307',
+  'claude-3-opus-20240229',
+  'gpt-4o',
+  'gpt-4o-mini',
+  'local-stub'
+];
+
+// Short names the editor settings use
+const MODEL_ALIASES: Record<string, AIModel> = {
+  'claude-3-opus': 'claude-3-opus-20240229',
+  'claude-3-sonnet': 'claude-3-5-sonnet-20241022',
+  'claude-3-haiku': 'claude-3-haiku-20240307'
+};
+
+export const DEFAULT_MODEL = (process.env.AI_DEFAULT_MODEL as AIModel) || 'claude-3-5-sonnet-20241022';
+const MAX_RETRIES = 2;
+const RETRY_BACKOFF_MS = 500;
+
+// USD per million tokens (input, output)
+const MODEL_PRICING: Record<AIModel, { input: number; output: number }> = {
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'claude-3-opus-20240229': { input: 15, output: 75 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'local-stub': { input: 0, output: 0 }
+};
+
+// Providers
+
+const anthropicProvider: LLMProvider = {
+  name: 'anthropic',
+  version: '2023-06-01',
+
+  async complete(model, request, config, signal) {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw APIError.failedPrecondition("ANTHROPIC_API_KEY is not configured");
+    }
+
+    const response = await post(anthropicURL(), anthropicHeaders(apiKey, this.version), anthropicBody(model, request, config), signal);
+    const data = await response.json() as AnthropicMessage;
+
+    const content = (data.content ?? [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text ?? '')
+      .join('');
+
+    return {
+      content,
+      stopReason: data.stop_reason === 'max_tokens' ? 'max_tokens' : data.stop_reason === 'stop_sequence' ? 'stop_sequence' : 'end',
+      promptTokens: data.usage?.input_tokens ?? 0,
+      completionTokens: data.usage?.output_tokens ?? 0
+    };
+  },
+
+  async stream(model, request, config, signal, onText) {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw APIError.failedPrecondition("ANTHROPIC_API_KEY is not configured");
+    }
+
+    const response = await post(anthropicURL(), anthropicHeaders(apiKey, this.version), {
+      ...anthropicBody(model, request, config),
+      stream: true
+    }, signal);
+
+    const result: ProviderResult = { content: '', stopReason: 'end', promptTokens: 0, completionTokens: 0 };
+    for await (const event of readSSE(response)) {
+      const data: AnthropicStreamEvent = JSON.parse(event.data);
+      if (data.type === 'message_start') {
+        result.promptTokens = data.message?.usage?.input_tokens ?? 0;
+      } else if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta') {
+        const text = data.delta.text ?? '';
+        result.content += text;
+        onText(text);
+      } else if (data.type === 'message_delta') {
+        result.completionTokens = data.usage?.output_tokens ?? result.completionTokens;
+        if (data.delta?.stop_reason === 'max_tokens') result.stopReason = 'max_tokens';
+        if (data.delta?.stop_reason === 'stop_sequence') result.stopReason = 'stop_sequence';
+      } else if (data.type === 'error') {
+        // Overloaded mid-stream reads like the 529 the API returns up front
+        throw new ProviderError(data.error?.message ?? 'Stream error', data.error?.type === 'overloaded_error' ? 529 : 500);
+      }
+    }
+    return result;
+  }
+};
+
+const openAIProvider: LLMProvider = {
+  name: 'openai',
+  version: 'v1',
+
+  async complete(model, request, config, signal) {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw APIError.failedPrecondition("OPENAI_API_KEY is not configured");
+    }
+
+    const response = await post(openAIURL(), { Authorization: `Bearer ${apiKey}` }, openAIBody(model, request, config), signal);
+    const data = await response.json() as OpenAIChatCompletion;
+
+    const choice = data.choices?.[0];
+    return {
+      content: choice?.message?.content ?? '',
+      stopReason: choice?.finish_reason === 'length' ? 'max_tokens' : 'end',
+      promptTokens: data.usage?.prompt_tokens ?? 0,
+      completionTokens: data.usage?.completion_tokens ?? 0
+    };
+  },
+
+  async stream(model, request, config, signal, onText) {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw APIError.failedPrecondition("OPENAI_API_KEY is not configured");
+    }
+
+    const response = await post(openAIURL(), { Authorization: `Bearer ${apiKey}` }, {
+      ...openAIBody(model, request, config),
+      stream: true,
+      stream_options: { include_usage: true }
+    }, signal);
+
+    const result: ProviderResult = { content: '', stopReason: 'end', promptTokens: 0, completionTokens: 0 };
+    for await (const event of readSSE(response)) {
+      if (event.data === '[DONE]') break;
+      const data: OpenAIChatCompletion = JSON.parse(event.data);
+      const choice = data.choices?.[0];
+      const text = choice?.delta?.content;
+      if (text) {
+        result.content += text;
+        onText(text);
+      }
+      if (choice?.finish_reason === 'length') {
+        result.stopReason = 'max_tokens';
+      }
+      // Sent in a final chunk without choices
+      if (data.usage) {
+        result.promptTokens = data.usage.prompt_tokens ?? 0;
+        result.completionTokens = data.usage.completion_tokens ?? 0;
+      }
+    }
+    return result;
+  }
+};
+
+// Answers without a network call, the same way every time, so tests and offline development
+// can exercise the whole request path
+const stubProvider: LLMProvider = {
+  name: 'local-stub',
+  version: '1',
+
+  async complete(_model, request, config) {
+    const prompt = request.messages.filter(message => message.role === 'user').at(-1)?.content ?? '';
+    let content = `[local-stub] ${prompt}`;
+    let stopReason: ProviderResult['stopReason'] = 'end';
+
+    const stop = config.stopSequences
+      .map(sequence => content.indexOf(sequence))
+      .filter(index => index >= 0)
+      .sort((a, b) => a - b)[0];
+    if (stop !== undefined) {
+      content = content.slice(0, stop);
+      stopReason = 'stop_sequence';
+    }
+
+    const maxChars = config.maxTokens * 4;
+    if (content.length > maxChars) {
+      content = content.slice(0, maxChars);
+      stopReason = 'max_tokens';
+    }
+
+    const promptText = [request.system ?? '', ...request.messages.map(message => message.content)].join('\n');
+    return {
+      content,
+      stopReason,
+      promptTokens: estimateTokens(promptText),
+      completionTokens: estimateTokens(content)
+    };
+  },
+
+  // Streams the complete answer word by word
+  async stream(model, request, config, signal, onText) {
+    const result = await this.complete(model, request, config, signal);
+    for (const piece of result.content.match(/\S+\s*|\s+/g) ?? []) {
+      await new Promise(resolve => setImmediate(resolve));
+      if (signal.aborted) {
+        throw new ProviderError('Aborted');
+      }
+      onText(piece);
+    }
+    return result;
+  }
+};
+
+// Public API
+
+export function isAIModel(model: string): model is AIModel {
+  return (AI_MODELS as string[]).includes(model);
+}
+
+// Accept the full model names and the short names used in editor settings
+export function resolveModel(model: string): AIModel {
+  const resolved = MODEL_ALIASES[model] ?? model;
+  if (!isAIModel(resolved)) {
+    throw APIError.invalidArgument(`Unsupported model: ${model}`);
+  }
+  return resolved;
+}
+
+// Run a completion on the requested model (AI_DEFAULT_MODEL otherwise). Rate limits, upstream
+// 5xx and timeouts are retried, waiting at most `config.timeout` between attempts; failures
+// surface as APIErrors.
+export async function complete(request: CompletionRequest): Promise<CompletionResult> {
+  return execute(request);
+}
+
+// Run a completion, passing text to onText as the model generates it. Retries happen only
+// before the first text arrives. Aborting `signal` cancels the upstream call and rejects with
+// a `canceled` APIError. `config.timeout` limits the wait for each piece rather than the whole answer.
+export async function streamCompletion(
+  request: CompletionRequest,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<CompletionResult> {
+  return execute(request, { onText, ...(signal ? { signal } : {}) });
+}
+
+async function execute(
+  request: CompletionRequest,
+  streaming?: { onText: (text: string) => void; signal?: AbortSignal }
+): Promise<CompletionResult> {
+  const model = resolveModel(request.model ?? DEFAULT_MODEL);
+  if (request.messages.length === 0) {
+    throw APIError.invalidArgument("At least one message is required");
+  }
+
+  const provider = providerFor(model);
+  const config = resolveConfig(request.config);
+  const startedAt = Date.now();
+
+  for (let attempt = 0; ; attempt++) {
+    if (streaming?.signal?.aborted) {
+      throw APIError.canceled("The request was cancelled");
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer = setTimeout(() => { timedOut = true; controller.abort(); }, config.timeout);
+    const cancel = () => controller.abort();
+    streaming?.signal?.addEventListener('abort', cancel);
+    let streamed = false;
+
+    try {
+      const result = streaming
+        ? await provider.stream(model, request, config, controller.signal, text => {
+            streamed = true;
+            clearTimeout(timer);
+            timer = setTimeout(() => { timedOut = true; controller.abort(); }, config.timeout);
+            streaming.onText(text);
+          })
+        : await provider.complete(model, request, config, controller.signal);
+
+      const usage: TokenUsage = {
+        promptTokens: result.promptTokens,
+        completionTokens: result.completionTokens,
+        totalTokens: result.promptTokens + result.completionTokens,
+        cost: costOf(model, result.promptTokens, result.completionTokens)
+      };
+
+      return {
+        content: result.content,
+        model,
+        stopReason: result.stopReason,
+        usage,
+        metadata: {
+          processingTime: Date.now() - startedAt,
+          version: `${provider.name}/${provider.version}`,
+          ...(attempt > 0 ? { flags: [`retries:${attempt}`] } : {})
+        }
+      };
+    } catch (error) {
+      if (error instanceof APIError) throw error;
+      if (streaming?.signal?.aborted) {
+        log.info("LLM request cancelled", { provider: provider.name, model });
+        throw APIError.canceled("The request was cancelled");
+      }
+
+      const failure = timedOut
+        ? new ProviderError(`Request timed out after ${config.timeout}ms`)
+        : error instanceof ProviderError ? error : new ProviderError((error as Error).message);
+
+      // Text already sent to the caller cannot be taken back, so a broken stream is not retried.
+      // Nor is a request the provider wants put off for longer than the caller allows an attempt.
+      const delay = failure.retryAfterMs ?? RETRY_BACKOFF_MS * 2 ** attempt;
+      if (attempt < MAX_RETRIES && !streamed && isRetryable(failure, timedOut) && delay <= config.timeout) {
+        log.warn("LLM request failed, retrying", { provider: provider.name, model, attempt, status: failure.status, error: failure.message });
+        await sleep(delay, streaming?.signal);
+        continue;
+      }
+
+      log.error("LLM request failed", { provider: provider.name, model, attempts: attempt + 1, status: failure.status, error: failure.message });
+      throw toAPIError(failure, timedOut);
+    } finally {
+      clearTimeout(timer);
+      streaming?.signal?.removeEventListener('abort', cancel);
+    }
+  }
+}
+
+// Helper functions
+
+function providerFor(model: AIModel): LLMProvider {
+  if (model === 'local-stub') return stubProvider;
+  if (model.startsWith('claude-')) return anthropicProvider;
+  return openAIProvider;
+}
+
+// Apply the defaults and bounds of AIRequestConfigSchema
+function resolveConfig(config: AIRequestConfig = {}): ResolvedConfig {
+  const bounded = (value: number | undefined, fallback: number, min: number, max: number, field: string) => {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'number' || Number.isNaN(value) || value < min || value > max) {
+      throw APIError.invalidArgument(`${field} must be between ${min} and ${max}`);
+    }
+    return value;
+  };
+
+  const stopSequences = config.stopSequences ?? [];
+  if (stopSequences.length > 4 || stopSequences.some(sequence => typeof sequence !== 'string' || sequence === '')) {
+    throw APIError.invalidArgument("stopSequences must be at most 4 non-empty strings");
+  }
+
+  return {
+    maxTokens: Math.floor(bounded(config.maxTokens, 4000, 1, 8000, 'maxTokens')),
+    temperature: bounded(config.temperature, 0.7, 0, 2, 'temperature'),
+    topP: bounded(config.topP, 1, 0, 1, 'topP'),
+    presencePenalty: bounded(config.presencePenalty, 0, -2, 2, 'presencePenalty'),
+    frequencyPenalty: bounded(config.frequencyPenalty, 0, -2, 2, 'frequencyPenalty'),
+    stopSequences,
+    timeout: bounded(config.timeout, 30000, 1000, 300000, 'timeout')
+  };
+}
+
+function anthropicURL(): string {
+  return `${process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com'}/v1/messages`;
+}
+
+function anthropicHeaders(apiKey: string, version: string): Record<string, string> {
+  return { 'x-api-key': apiKey, 'anthropic-version': version };
+}
+
+function anthropicBody(model: AIModel, request: CompletionRequest, config: ResolvedConfig) {
+  return {
+    model,
+    max_tokens: config.maxTokens,
+    // Anthropic accepts temperatures up to 1
+    temperature: Math.min(config.temperature, 1),
+    top_p: config.topP,
+    ...(config.stopSequences.length ? { stop_sequences: config.stopSequences } : {}),
+    ...(request.system ? { system: request.system } : {}),
+    messages: request.messages
+  };
+}
+
+function openAIURL(): string {
+  return `${process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1'}/chat/completions`;
+}
+
+function openAIBody(model: AIModel, request: CompletionRequest, config: ResolvedConfig) {
+  return {
+    model,
+    max_tokens: config.maxTokens,
+    temperature: config.temperature,
+    top_p: config.topP,
+    presence_penalty: config.presencePenalty,
+    frequency_penalty: config.frequencyPenalty,
+    ...(config.stopSequences.length ? { stop: config.stopSequences } : {}),
+    messages: [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      ...request.messages
+    ]
+  };
+}
+
+async function post(url: string, headers: Record<string, string>, body: unknown, signal: AbortSignal): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    let message = text;
+    try {
+      message = JSON.parse(text).error?.message ?? text;
+    } catch {
+      // Not JSON: keep the raw body
+    }
+    const retryAfter = Number(response.headers.get('retry-after'));
+    throw new ProviderError(
+      message || `HTTP ${response.status}`,
+      response.status,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+    );
+  }
+
+  return response;
+}
+
+// Parse a text/event-stream body into events
+async function* readSSE(response: Response): AsyncGenerator<SSEEvent> {
+  if (!response.body) {
+    throw new ProviderError('Empty streaming response');
+  }
+
+  const decoder = new TextDecoder();
+  const reader = response.body.getReader();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line === '') {
+        if (data.length > 0) {
+          yield { ...(event ? { event } : {}), data: data.join('\n') };
+        }
+        event = undefined;
+        data = [];
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      } else if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      }
+    }
+
+    if (done) {
+      if (data.length > 0) {
+        yield { ...(event ? { event } : {}), data: data.join('\n') };
+      }
+      return;
+    }
+  }
+}
+
+function isRetryable(error: ProviderError, timedOut: boolean): boolean {
+  if (timedOut || error.status === undefined) return true;
+  return error.status === 408 || error.status === 429 || error.status >= 500;
+}
+
+function toAPIError(error: ProviderError, timedOut: boolean): APIError {
+  if (timedOut) {
+    return APIError.deadlineExceeded("The AI provider did not respond in time");
+  }
+  switch (error.status) {
+    case 400:
+    case 413:
+    case 422:
+      return APIError.invalidArgument(`The AI provider rejected the request: ${error.message}`);
+    case 401:
+    case 403:
+      // Our credentials, not the caller's
+      return APIError.unavailable("The AI provider is not available");
+    case 404:
+      return APIError.invalidArgument(`The AI provider does not know this model: ${error.message}`);
+    case 429:
+      return APIError.resourceExhausted("The AI provider is rate limiting requests; try again later");
+    default:
+      return APIError.unavailable("The AI provider is not available");
+  }
+}
+
+function costOf(model: AIModel, promptTokens: number, completionTokens: number): number {
+  const pricing = MODEL_PRICING[model];
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+// Roughly four characters per token, which is close enough for the stub and for estimates
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Resolves early when signal is aborted
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
@@ -0,0 +1,342 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { requireAuth } from "../../utils/auth";
+import { AIModel, AIResponseMetadata, LLMMessage, TokenUsage, complete } from "./llm";
+import { ContextSource, assembleContext } from "./context";
+import { checkQuota, recordUsage } from "./usage";
+
+// Structured code review. The model is asked for a JSON review of the numbered source; the reply
+// is checked against the CodeIssue / CodeImprovement shapes and entries that do not fit (unknown
+// severities, lines outside the file, missing messages) are dropped rather than passed on.
+
+// Interfaces (mirrors CodeReviewRequest, CodeIssue and CodeImprovement in shared/src/types/ai.ts)
+export type CodeReviewFocus = 'security' | 'performance' | 'maintainability' | 'style' | 'bugs' | 'best-practices';
+export type IssueSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+// Replaces lines line..endLine of the reviewed code
+export interface CodeFix {
+  description: string;
+  replacement: string;
+}
+
+export interface CodeIssue {
+  type: 'bug' | 'security' | 'performance' | 'style' | 'maintainability';
+  severity: IssueSeverity;
+  // 1-based; an issue without a line applies to the whole file
+  line?: number;
+  endLine?: number;
+  column?: number;
+  endColumn?: number;
+  message: string;
+  suggestion?: string;
+  rule?: string;
+  // Only present on issues with a line
+  fix?: CodeFix;
+}
+
+export interface CodeImprovement {
+  type: 'optimization' | 'modernization' | 'simplification' | 'best-practice';
+  description: string;
+  impact: 'low' | 'medium' | 'high';
+  effort: 'low' | 'medium' | 'high';
+  codeSnippet?: string;
+}
+
+interface CodeReviewRequest {
+  code: string;
+  language: string;
+  focusAreas?: CodeReviewFocus[];
+  // Lowest severity to report
+  severity?: 'low' | 'medium' | 'high';
+  includeRefactoring?: boolean;
+  // Review the code as part of a project, with the project's context
+  projectId?: string;
+  filePath?: string;
+  model?: AIModel;
+}
+
+interface CodeReviewResponse {
+  issues: CodeIssue[];
+  improvements: CodeImprovement[];
+  // 0-100
+  score: number;
+  summary: string;
+  model: AIModel;
+  usage: TokenUsage;
+  metadata: AIResponseMetadata;
+  context?: { tokens: number; sources: ContextSource[] };
+}
+
+const FOCUS_AREAS: CodeReviewFocus[] = ['security', 'performance', 'maintainability', 'style', 'bugs', 'best-practices'];
+const ISSUE_TYPES: CodeIssue['type'][] = ['bug', 'security', 'performance', 'style', 'maintainability'];
+const SEVERITIES: IssueSeverity[] = ['low', 'medium', 'high', 'critical'];
+const IMPROVEMENT_TYPES: CodeImprovement['type'][] = ['optimization', 'modernization', 'simplification', 'best-practice'];
+const LEVELS: CodeImprovement['impact'][] = ['low', 'medium', 'high'];
+
+const MAX_CODE_LENGTH = 100000;
+const MAX_ISSUES = 50;
+const MAX_IMPROVEMENTS = 20;
+const MAX_TEXT_LENGTH = 2000;
+const REVIEW_CONTEXT_TOKENS = 2000;
+// Points taken off the score per issue when the model gives no usable score
+const SEVERITY_PENALTY: Record<IssueSeverity, number> = { low: 2, medium: 5, high: 12, critical: 25 };
+
+const REVIEW_SYSTEM_PROMPT =
+  "You are a senior engineer reviewing code. The code is given with each line prefixed by its " +
+  "line number and a bar; those prefixes are not part of the code. Reply with only a JSON object, " +
+  "no prose and no code fence, of this shape:\n" +
+  '{"summary": string, "score": integer 0-100, ' +
+  '"issues": [{"type": "bug"|"security"|"performance"|"style"|"maintainability", ' +
+  '"severity": "low"|"medium"|"high"|"critical", "line": integer, "endLine": integer, "column": integer, ' +
+  '"message": string, "suggestion": string, "rule": string, ' +
+  '"fix": {"description": string, "replacement": string}}], ' +
+  '"improvements": [{"type": "optimization"|"modernization"|"simplification"|"best-practice", ' +
+  '"description": string, "impact": "low"|"medium"|"high", "effort": "low"|"medium"|"high", "codeSnippet": string}]}\n' +
+  "line and endLine are the first and last lines the issue covers. A fix replaces those whole lines " +
+  "with `replacement`, so it must contain the complete corrected lines with their indentation. " +
+  "Leave out fields that do not apply and only report real problems.";
+
+// API Endpoints
+
+export const reviewCode = api(
+  { method: "POST", path: "/ai/review", auth: true },
+  async (req: CodeReviewRequest): Promise<CodeReviewResponse> => {
+    const user = requireAuth();
+    validateRequest(req);
+    await checkQuota(user.id);
+
+    const focusAreas = req.focusAreas?.length ? req.focusAreas : FOCUS_AREAS;
+    const minimum = req.severity ?? 'medium';
+    const includeRefactoring = req.includeRefactoring ?? true;
+    const lineCount = req.code.split('\n').length;
+
+    // The file tree, dependencies and README; the reviewed file itself is already in the prompt
+    const projectContext = req.projectId
+      ? await assembleContext({ projectId: req.projectId, userId: user.id, message: '', maxTokens: REVIEW_CONTEXT_TOKENS })
+      : null;
+
+    const system = projectContext
+      ? `${REVIEW_SYSTEM_PROMPT}\n\nThe code belongs to this project:\n\n${projectContext.prompt}`
+      : REVIEW_SYSTEM_PROMPT;
+    const messages: LLMMessage[] = [{ role: 'user', content: reviewPrompt(req, focusAreas, minimum, includeRefactoring) }];
+
+    const projectId = projectContext ? req.projectId : undefined;
+    let result = await complete({ ...(req.model ? { model: req.model } : {}), system, messages });
+    await recordUsage(user.id, { serviceType: 'code_review', model: result.model, usage: result.usage, projectId });
+    let usage = result.usage;
+    let review = parseReview(result.content, lineCount);
+
+    // One more try when the reply is not a review at all, pointing the model at its mistake
+    if (!review) {
+      log.warn("AI review reply was not valid JSON, retrying", { userId: user.id, model: result.model });
+      result = await complete({
+        model: result.model,
+        system,
+        messages: [
+          ...messages,
+          { role: 'assistant', content: result.content },
+          { role: 'user', content: 'That was not a valid JSON object of the requested shape. Reply with only the JSON object.' }
+        ]
+      });
+      await recordUsage(user.id, { serviceType: 'code_review', model: result.model, usage: result.usage, projectId });
+      usage = addUsage(usage, result.usage);
+      review = parseReview(result.content, lineCount);
+    }
+    if (!review) {
+      throw APIError.internal("The model did not return a valid review");
+    }
+
+    const issues = review.issues
+      .filter(issue => SEVERITIES.indexOf(issue.severity) >= SEVERITIES.indexOf(minimum))
+      .sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+
+    log.info("AI code review completed", {
+      userId: user.id,
+      language: req.language,
+      issues: issues.length,
+      dropped: review.dropped,
+      model: result.model,
+      totalTokens: usage.totalTokens
+    });
+    return {
+      issues,
+      improvements: includeRefactoring ? review.improvements : [],
+      score: review.score ?? scoreFor(review.issues),
+      summary: review.summary || summaryFor(issues),
+      model: result.model,
+      usage,
+      metadata: result.metadata,
+      ...(projectContext ? { context: { tokens: projectContext.tokens, sources: projectContext.sources } } : {})
+    };
+  }
+);
+
+// Helper functions
+
+function validateRequest(req: CodeReviewRequest): void {
+  if (typeof req.code !== 'string' || !req.code.trim()) {
+    throw APIError.invalidArgument("code is required");
+  }
+  if (req.code.length > MAX_CODE_LENGTH) {
+    throw APIError.invalidArgument(`Code to review is limited to ${MAX_CODE_LENGTH} characters`);
+  }
+  if (typeof req.language !== 'string' || !req.language.trim()) {
+    throw APIError.invalidArgument("language is required");
+  }
+  const unknown = req.focusAreas?.find(area => !FOCUS_AREAS.includes(area));
+  if (unknown) {
+    throw APIError.invalidArgument(`Unknown focus area: ${unknown}`);
+  }
+  if (req.severity !== undefined && !LEVELS.includes(req.severity)) {
+    throw APIError.invalidArgument("severity must be low, medium or high");
+  }
+}
+
+function reviewPrompt(req: CodeReviewRequest, focusAreas: CodeReviewFocus[], minimum: string, includeRefactoring: boolean): string {
+  const lines = req.code.split('\n');
+  const width = String(lines.length).length;
+  const numbered = lines.map((line, index) => `${String(index + 1).padStart(width)} | ${line}`).join('\n');
+
+  return [
+    `Review this ${req.language} code${req.filePath ? ` from ${req.filePath}` : ''}.`,
+    `Focus on: ${focusAreas.join(', ')}.`,
+    `Only report issues of ${minimum} severity or above.`,
+    includeRefactoring ? 'Also list worthwhile improvements.' : 'Leave "improvements" empty.',
+    '',
+    numbered
+  ].join('\n');
+}
+
+interface ParsedReview {
+  issues: CodeIssue[];
+  improvements: CodeImprovement[];
+  score?: number;
+  summary: string;
+  // Entries that did not match the schema
+  dropped: number;
+}
+
+// Check a model reply against the review schema; null when it is not a JSON object at all
+export function parseReview(reply: string, lineCount: number): ParsedReview | null {
+  const raw = extractJson(reply);
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  let dropped = 0;
+  const issues: CodeIssue[] = [];
+  for (const entry of Array.isArray(raw.issues) ? raw.issues : []) {
+    const issue = parseIssue(entry, lineCount);
+    if (issue && issues.length < MAX_ISSUES) issues.push(issue);
+    else dropped++;
+  }
+
+  const improvements: CodeImprovement[] = [];
+  for (const entry of Array.isArray(raw.improvements) ? raw.improvements : []) {
+    const improvement = parseImprovement(entry);
+    if (improvement && improvements.length < MAX_IMPROVEMENTS) improvements.push(improvement);
+    else dropped++;
+  }
+
+  const score = typeof raw.score === 'number' && Number.isFinite(raw.score)
+    ? Math.round(Math.min(100, Math.max(0, raw.score)))
+    : undefined;
+
+  return {
+    issues,
+    improvements,
+    ...(score !== undefined ? { score } : {}),
+    summary: text(raw.summary) ?? '',
+    dropped
+  };
+}
+
+function parseIssue(entry: any, lineCount: number): CodeIssue | null {
+  if (!entry || typeof entry !== 'object') return null;
+  const message = text(entry.message);
+  if (!message || !ISSUE_TYPES.includes(entry.type) || !SEVERITIES.includes(entry.severity)) return null;
+
+  const issue: CodeIssue = { type: entry.type, severity: entry.severity, message };
+  const suggestion = text(entry.suggestion);
+  const rule = text(entry.rule);
+  if (suggestion) issue.suggestion = suggestion;
+  if (rule) issue.rule = rule.slice(0, 100);
+
+  // An issue pointing outside the file is kept as a file-level issue, without its fix
+  const line = lineNumber(entry.line, lineCount);
+  if (line === undefined) return issue;
+
+  issue.line = line;
+  const endLine = lineNumber(entry.endLine, lineCount);
+  issue.endLine = endLine !== undefined && endLine >= line ? endLine : line;
+  if (Number.isInteger(entry.column) && entry.column >= 1) {
+    issue.column = entry.column;
+    if (Number.isInteger(entry.endColumn) && (issue.endLine > line || entry.endColumn > entry.column)) {
+      issue.endColumn = entry.endColumn;
+    }
+  }
+
+  const fix = entry.fix;
+  if (fix && typeof fix === 'object' && typeof fix.replacement === 'string') {
+    issue.fix = {
+      description: text(fix.description) ?? suggestion ?? 'Apply suggested fix',
+      replacement: fix.replacement.replace(/\r\n/g, '\n').replace(/\n$/, '')
+    };
+  }
+  return issue;
+}
+
+function parseImprovement(entry: any): CodeImprovement | null {
+  if (!entry || typeof entry !== 'object') return null;
+  const description = text(entry.description);
+  if (!description || !IMPROVEMENT_TYPES.includes(entry.type)) return null;
+
+  const improvement: CodeImprovement = {
+    type: entry.type,
+    description,
+    impact: LEVELS.includes(entry.impact) ? entry.impact : 'medium',
+    effort: LEVELS.includes(entry.effort) ? entry.effort : 'medium'
+  };
+  if (typeof entry.codeSnippet === 'string' && entry.codeSnippet.trim()) {
+    improvement.codeSnippet = entry.codeSnippet;
+  }
+  return improvement;
+}
+
+// The reply as JSON, tolerating a code fence or text around the object
+function extractJson(reply: string): any {
+  const fenced = /```(?:json)?\s*\n([\s\S]*?)```/.exec(reply);
+  const candidate = fenced ? fenced[1] : reply;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start < 0 || end <= start) return null;
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_TEXT_LENGTH) : undefined;
+}
+
+function lineNumber(value: unknown, lineCount: number): number | undefined {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= lineCount ? value as number : undefined;
+}
+
+function scoreFor(issues: CodeIssue[]): number {
+  return Math.max(0, 100 - issues.reduce((total, issue) => total + SEVERITY_PENALTY[issue.severity], 0));
+}
+
+function summaryFor(issues: CodeIssue[]): string {
+  if (issues.length === 0) return 'No issues found.';
+  return `Found ${issues.length} ${issues.length === 1 ? 'issue' : 'issues'}.`;
+}
+
+function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    ...(a.cost !== undefined || b.cost !== undefined ? { cost: (a.cost ?? 0) + (b.cost ?? 0) } : {})
+  };
+}
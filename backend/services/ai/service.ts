@@ -1,16 +1,37 @@
 import { api } from "encore.dev/api";
+import log from "encore.dev/log";
+import { requireAuth } from "../../utils/auth";
+import { AIModel, AIRequestConfig, AIResponseMetadata, TokenUsage, complete } from "./llm";
+import { AiMessage, openConversation, recordExchange } from "./conversations";
+import { AssembledContext, ContextSource, assembleContext } from "./context";
+import { checkQuota, recordUsage } from "./usage";
 
 // Interfaces
 interface ChatRequest {
   message: string;
   context?: string;
+  // Conversation to continue; a new one is started without it
   sessionId?: string;
+  // Project a new conversation belongs to
+  projectId?: string;
+  // Project files to include with the message, and recent container logs to look for errors in
+  contextFiles?: string[];
+  logs?: string[];
+  model?: AIModel;
+  config?: AIRequestConfig;
 }
 
 interface ChatResponse {
   response: string;
   sessionId: string;
+  // The stored user message and reply
+  messages: AiMessage[];
   timestamp: string;
+  model: AIModel;
+  usage: TokenUsage;
+  metadata: AIResponseMetadata;
+  // The project context sent with the message, for conversations in a project
+  context?: { tokens: number; sources: ContextSource[] };
 }
 
 interface ProjectAnalysisRequest {
@@ -36,6 +57,8 @@ interface CodeGenerationRequest {
   prompt: string;
   language: string;
   framework?: string;
+  model?: AIModel;
+  config?: AIRequestConfig;
 }
 
 interface CodeGenerationResponse {
@@ -46,34 +69,81 @@ interface CodeGenerationResponse {
     content: string;
     type: string;
   }>;
+  model: AIModel;
+  usage: TokenUsage;
+  metadata: AIResponseMetadata;
 }
 
+export const CHAT_SYSTEM_PROMPT =
+  "You are Vaporform's AI assistant, helping developers plan, write and debug software. " +
+  "Answer concisely and use fenced code blocks with a language tag for code.";
+
+const CODE_SYSTEM_PROMPT =
+  "You generate production-quality source code. Reply with a single fenced code block " +
+  "containing the complete code, followed by a short explanation of how it works.";
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js',
+  typescript: 'ts',
+  react: 'tsx',
+  python: 'py',
+  go: 'go',
+  rust: 'rs',
+  java: 'java',
+  ruby: 'rb',
+  php: 'php',
+  csharp: 'cs'
+};
+
 // API Endpoints
 export const chat = api(
-  { method: "POST", path: "/ai/chat" },
+  { method: "POST", path: "/ai/chat", auth: true },
   async (req: ChatRequest): Promise<ChatResponse> => {
-    const sessionId = req.sessionId || "session-" + Date.now();
-    
-    // Mock AI response
-    const responses = [
-      "I'd be happy to help you with that! Let me analyze your request and provide some suggestions.",
-      "That's an interesting project idea! Here are some recommendations based on your requirements.",
-      "I can definitely assist with that development task. Let me break it down for you.",
-      "Great question! Based on current best practices, I'd suggest the following approach."
-    ];
-    
-    const response = responses[Math.floor(Math.random() * responses.length)];
-    
+    const user = requireAuth();
+    await checkQuota(user.id);
+    const conversation = await openConversation(user.id, req.sessionId, {
+      message: req.message,
+      ...(req.projectId ? { projectId: req.projectId } : {})
+    });
+
+    const projectContext = conversation.projectId
+      ? await assembleContext({
+        projectId: conversation.projectId,
+        userId: user.id,
+        message: req.message,
+        ...(req.contextFiles ? { contextFiles: req.contextFiles } : {}),
+        ...(req.logs ? { logs: req.logs } : {})
+      })
+      : null;
+
+    const result = await complete({
+      ...(req.model ? { model: req.model } : {}),
+      system: chatSystemPrompt(projectContext, req.context),
+      messages: [...conversation.history, { role: 'user', content: req.message }],
+      ...(req.config ? { config: req.config } : {})
+    });
+    await recordUsage(user.id, { serviceType: 'chat', model: result.model, usage: result.usage, projectId: conversation.projectId });
+    const messages = await recordExchange(conversation.id, {
+      content: req.message,
+      ...(projectContext ? { sources: projectContext.sources.map(source => source.filePath) } : {})
+    }, result);
+
+    log.info("AI chat completed", { userId: user.id, sessionId: conversation.id, model: result.model, totalTokens: result.usage.totalTokens });
     return {
-      response: response + " " + req.message,
-      sessionId,
-      timestamp: new Date().toISOString()
+      response: result.content,
+      sessionId: conversation.id,
+      messages,
+      timestamp: new Date().toISOString(),
+      model: result.model,
+      usage: result.usage,
+      metadata: result.metadata,
+      ...(projectContext ? { context: { tokens: projectContext.tokens, sources: projectContext.sources } } : {})
     };
   }
 );
 
 export const analyzeProject = api(
-  { method: "POST", path: "/ai/analyze" },
+  { method: "POST", path: "/ai/analyze", auth: true },
   async (req: ProjectAnalysisRequest): Promise<ProjectAnalysisResponse> => {
     // Mock analysis based on description complexity
     const wordCount = req.projectDescription.split(' ').length;
@@ -121,64 +191,45 @@ export const analyzeProject = api(
 );
 
 export const generateCode = api(
-  { method: "POST", path: "/ai/generate" },
+  { method: "POST", path: "/ai/generate", auth: true },
   async (req: CodeGenerationRequest): Promise<CodeGenerationResponse> => {
-    // Mock code generation
-    const templates = {
-      javascript: `// Generated ${req.language} code
-function ${req.prompt.replace(/\s+/g, '')}() {
-  console.log('Hello from AI-generated code!');
-  // TODO: Implement ${req.prompt}
-  return true;
-}`,
-      typescript: `// Generated ${req.language} code
-interface ${req.prompt.replace(/\s+/g, '')}Interface {
-  id: string;
-  name: string;
-}
+    const user = requireAuth();
+    await checkQuota(user.id);
 
-export function ${req.prompt.replace(/\s+/g, '')}(): ${req.prompt.replace(/\s+/g, '')}Interface {
-  // TODO: Implement ${req.prompt}
-  return {
-    id: 'generated-id',
-    name: 'Generated Name'
-  };
-}`,
-      react: `// Generated React component
-import React from 'react';
+    const result = await complete({
+      ...(req.model ? { model: req.model } : {}),
+      system: CODE_SYSTEM_PROMPT,
+      messages: [{
+        role: 'user',
+        content: `Language: ${req.language}${req.framework ? `\nFramework: ${req.framework}` : ''}\n\n${req.prompt}`
+      }],
+      ...(req.config ? { config: req.config } : {})
+    });
 
-interface ${req.prompt.replace(/\s+/g, '')}Props {
-  // Add your props here
-}
+    await recordUsage(user.id, { serviceType: 'code_generation', model: result.model, usage: result.usage });
+    const { code, explanation } = splitCodeReply(result.content);
+    const name = req.prompt.replace(/[^A-Za-z0-9]+/g, ' ').trim().split(' ').slice(0, 4).join('') || 'generated';
 
-export const ${req.prompt.replace(/\s+/g, '')}: React.FC<${req.prompt.replace(/\s+/g, '')}Props> = () => {
-  return (
-    <div>
-      <h1>${req.prompt}</h1>
-      {/* TODO: Implement component logic */}
-    </div>
-  );
-};`
-    };
-    
-    const code = templates[req.language as keyof typeof templates] || templates.javascript;
-    
+    log.info("AI code generated", { userId: user.id, language: req.language, model: result.model, totalTokens: result.usage.totalTokens });
     return {
       code,
-      explanation: `This is a generated ${req.language} implementation for: ${req.prompt}`,
+      explanation: explanation || `Generated ${req.language} implementation for: ${req.prompt}`,
       files: [
         {
-          name: `${req.prompt.replace(/\s+/g, '')}.${req.language === 'typescript' ? 'ts' : req.language === 'react' ? 'tsx' : 'js'}`,
+          name: `${name}.${FILE_EXTENSIONS[req.language.toLowerCase()] ?? 'txt'}`,
           content: code,
           type: req.language
         }
-      ]
+      ],
+      model: result.model,
+      usage: result.usage,
+      metadata: result.metadata
     };
   }
 );
 
 export const getSuggestions = api(
-  { method: "GET", path: "/ai/suggestions" },
+  { method: "GET", path: "/ai/suggestions", auth: true },
   async (): Promise<{ suggestions: string[] }> => {
     return {
       suggestions: [
@@ -193,4 +244,31 @@ export const getSuggestions = api(
       ]
     };
   }
-);
\ No newline at end of file
+);
+
+// Helper functions
+
+// Take the first fenced code block as the code and the remaining text as the explanation;
+// a reply without a fence is all code
+export function splitCodeReply(reply: string): { code: string; explanation: string } {
+  const fence = /```[^\n]*\n([\s\S]*?)```/.exec(reply);
+  if (!fence) {
+    return { code: reply.trim(), explanation: '' };
+  }
+  return {
+    code: fence[1].replace(/\n$/, ''),
+    explanation: (reply.slice(0, fence.index) + reply.slice(fence.index + fence[0].length)).trim()
+  };
+}
+
+// The chat system prompt with the project's assembled context and whatever the client attached
+export function chatSystemPrompt(projectContext: AssembledContext | null, attached?: string): string {
+  const sections = [CHAT_SYSTEM_PROMPT];
+  if (projectContext) {
+    sections.push(`The user is working on this project:\n\n${projectContext.prompt}`);
+  }
+  if (attached) {
+    sections.push(`Context:\n${attached}`);
+  }
+  return sections.join('\n\n');
+}
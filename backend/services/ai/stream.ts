@@ -0,0 +1,244 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { requireAuth } from "../../utils/auth";
+import { httpStatus } from "../../utils/http";
+import { AIModel, AIRequestConfig, CompletionResult, DEFAULT_MODEL, estimateTokens, resolveModel, streamCompletion } from "./llm";
+import { AiMessage, openConversation, recordExchange } from "./conversations";
+import { AssembledContext, ContextSource, assembleContext } from "./context";
+import { checkQuota, recordUsage } from "./usage";
+import { chatSystemPrompt } from "./service";
+
+// Server-sent events for the chat panel. Every event is a `data:` line holding JSON:
+//   { "type": "chunk", "content": "..." }        a piece of the answer
+//   { "type": "complete", "response": {...} }    the whole answer with usage
+//   { "type": "error", "code": "...", "message": "..." }
+// followed by `data: [DONE]`. Closing the connection cancels the model call; the partial answer
+// is still saved to the conversation, marked as stopped.
+
+// Interfaces (the body aiService.streamMessage sends)
+interface StreamChatRequest {
+  // Conversation to continue; a new one is started without it
+  conversationId?: string;
+  // Project a new conversation belongs to
+  projectId?: string;
+  message: string;
+  context?: string[];
+  // Project files to include with the message, and recent container logs to look for errors in
+  contextFiles?: string[];
+  logs?: string[];
+  settings?: {
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+  };
+}
+
+interface StreamChatResponse {
+  conversationId: string;
+  // The stored user message and reply
+  messages: AiMessage[];
+  content: string;
+  metadata: {
+    tokens: number;
+    model: AIModel;
+    stopReason: CompletionResult['stopReason'];
+    usage: CompletionResult['usage'];
+    processingTime: number;
+    // The project context sent with the message, for conversations in a project
+    context?: { tokens: number; sources: ContextSource[] };
+  };
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_MESSAGE_LENGTH = 32000;
+
+export const chatStream = api.raw(
+  { method: "POST", path: "/ai/chat/stream", auth: true },
+  async (req, resp) => {
+    let request: StreamChatRequest;
+    let model: AIModel | undefined;
+    let userId: string;
+    let conversation: Awaited<ReturnType<typeof openConversation>>;
+    let projectContext: AssembledContext | null;
+    try {
+      const user = requireAuth();
+      userId = user.id;
+      request = parseRequest(await readBody(req));
+      await checkQuota(userId);
+      model = request.settings?.model ? resolveModel(request.settings.model) : undefined;
+      conversation = await openConversation(userId, request.conversationId, {
+        message: request.message,
+        ...(request.projectId ? { projectId: request.projectId } : {})
+      });
+      projectContext = conversation.projectId
+        ? await assembleContext({
+          projectId: conversation.projectId,
+          userId,
+          message: request.message,
+          ...(request.contextFiles ? { contextFiles: request.contextFiles } : {}),
+          ...(request.logs ? { logs: request.logs } : {})
+        })
+        : null;
+    } catch (error) {
+      sendError(resp, error);
+      return;
+    }
+
+    // The browser going away (stop button, closed tab) cancels the upstream model call
+    const cancelled = new AbortController();
+    resp.on('close', () => {
+      if (!resp.writableFinished) cancelled.abort();
+    });
+
+    resp.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      // Stop proxies from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+
+    const send = (event: unknown) => {
+      resp.write(`data: ${JSON.stringify(event)}\n\n`);
+    };
+
+    const config: AIRequestConfig = {
+      ...(request.settings?.temperature !== undefined ? { temperature: request.settings.temperature } : {}),
+      ...(request.settings?.maxTokens !== undefined ? { maxTokens: Math.min(request.settings.maxTokens, 8000) } : {})
+    };
+    const context = request.context?.filter(Boolean).join('\n\n');
+    let partial = '';
+
+    try {
+      const result = await streamCompletion({
+        ...(model ? { model } : {}),
+        system: chatSystemPrompt(projectContext, context),
+        messages: [...conversation.history, { role: 'user', content: request.message }],
+        config
+      }, text => {
+        partial += text;
+        send({ type: 'chunk', content: text });
+      }, cancelled.signal);
+      await recordUsage(userId, { serviceType: 'chat', model: result.model, usage: result.usage, projectId: conversation.projectId });
+      const messages = await recordExchange(conversation.id, userMessage(request, projectContext), result);
+
+      const response: StreamChatResponse = {
+        conversationId: conversation.id,
+        messages,
+        content: result.content,
+        metadata: {
+          tokens: result.usage.totalTokens,
+          model: result.model,
+          stopReason: result.stopReason,
+          usage: result.usage,
+          processingTime: result.metadata.processingTime,
+          ...(projectContext ? { context: { tokens: projectContext.tokens, sources: projectContext.sources } } : {})
+        }
+      };
+      send({ type: 'complete', response });
+      log.info("AI chat stream completed", { userId, conversationId: conversation.id, model: result.model, totalTokens: result.usage.totalTokens });
+    } catch (error) {
+      if (cancelled.signal.aborted) {
+        log.info("AI chat stream cancelled by client", { userId, conversationId: conversation.id });
+        await saveStopped(userId, conversation, userMessage(request, projectContext), partial, model);
+        return;
+      }
+      const apiError = error instanceof APIError ? error : APIError.internal("Failed to stream chat response");
+      if (!(error instanceof APIError)) {
+        log.error("AI chat stream failed", { error: (error as Error).message, userId });
+      }
+      send({ type: 'error', code: apiError.code, message: apiError.message });
+    }
+
+    resp.write('data: [DONE]\n\n');
+    resp.end();
+  }
+);
+
+// Helper functions
+
+function userMessage(
+  request: StreamChatRequest,
+  projectContext: AssembledContext | null
+): { content: string; context?: string[]; sources?: string[] } {
+  const context = request.context?.filter(Boolean);
+  return {
+    content: request.message,
+    ...(context?.length ? { context } : {}),
+    ...(projectContext ? { sources: projectContext.sources.map(source => source.filePath) } : {})
+  };
+}
+
+// Keep what the user saw of a stopped answer; the provider reports no usage for it, so it is estimated
+async function saveStopped(
+  userId: string,
+  conversation: { id: string; projectId?: string },
+  message: ReturnType<typeof userMessage>,
+  partial: string,
+  model: AIModel | undefined
+) {
+  if (!partial) return;
+  const completionTokens = estimateTokens(partial);
+  const usage = { promptTokens: 0, completionTokens, totalTokens: completionTokens };
+  const resolved = model ?? resolveModel(DEFAULT_MODEL);
+  await recordUsage(userId, { serviceType: 'chat', model: resolved, usage, projectId: conversation.projectId });
+  try {
+    await recordExchange(conversation.id, message, {
+      content: partial,
+      model: resolved,
+      usage,
+      stopped: true
+    });
+  } catch (error) {
+    log.warn("Failed to save stopped chat answer", { error: (error as Error).message, conversationId: conversation.id });
+  }
+}
+
+function parseRequest(body: Buffer): StreamChatRequest {
+  let request: StreamChatRequest;
+  try {
+    request = JSON.parse(body.toString('utf8'));
+  } catch {
+    throw APIError.invalidArgument("Request body must be JSON");
+  }
+
+  if (!request || typeof request.message !== 'string' || !request.message.trim()) {
+    throw APIError.invalidArgument("message is required");
+  }
+  if (request.message.length > MAX_MESSAGE_LENGTH) {
+    throw APIError.invalidArgument(`Messages are limited to ${MAX_MESSAGE_LENGTH} characters`);
+  }
+  if (request.context !== undefined && (!Array.isArray(request.context) || request.context.some(item => typeof item !== 'string'))) {
+    throw APIError.invalidArgument("context must be a list of strings");
+  }
+  for (const field of ['contextFiles', 'logs'] as const) {
+    const value = request[field];
+    if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+      throw APIError.invalidArgument(`${field} must be a list of strings`);
+    }
+  }
+  return request;
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of req) {
+    received += chunk.length;
+    if (received > MAX_BODY_BYTES) {
+      throw APIError.resourceExhausted(`Requests are limited to ${MAX_BODY_BYTES / 1024} KB`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function sendError(resp: ServerResponse, error: unknown): void {
+  const apiError = error instanceof APIError ? error : APIError.internal("Failed to stream chat response");
+  if (!(error instanceof APIError)) {
+    log.error("AI chat stream failed", { error: (error as Error).message });
+  }
+  resp.writeHead(httpStatus(apiError.code), { 'Content-Type': 'application/json' });
+  resp.end(JSON.stringify({ code: apiError.code, message: apiError.message }));
+}
@@ -0,0 +1,359 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
+import { requireProjectAccess } from "../projects/service";
+import {
+  baseName,
+  detectLanguage,
+  ensureParentDirectories,
+  findFileByPath,
+  insertEntry,
+  normalizePath,
+  parentOf,
+  refreshProjectStats,
+  writeFileContent
+} from "../files/vfs";
+import { publishFileChanges } from "../files/watch";
+import { AIModel, AIResponseMetadata, TokenUsage, complete } from "./llm";
+import { AiMessage, openConversation, recordExchange } from "./conversations";
+import { assembleContext } from "./context";
+import { splitCodeReply } from "./service";
+import { checkQuota, recordUsage } from "./usage";
+
+// Test generation for a project file. The test framework is detected from the project's
+// manifests, the tests are written where that framework looks for them, and the result can be
+// posted to a chat conversation.
+
+// Interfaces (request mirrors TestGenerationRequest in shared/src/types/ai.ts)
+export type TestType = 'unit' | 'integration' | 'e2e';
+
+export interface TestFramework {
+  name: 'vitest' | 'jest' | 'mocha' | 'node:test' | 'playwright' | 'cypress' | 'pytest' | 'unittest' | 'go' | 'cargo';
+  // Whether the project already depends on it; built-in runners always count as installed
+  installed: boolean;
+  // Where the tests are written
+  testPath: string;
+  // Runs just the generated tests from the project root
+  command: string;
+}
+
+interface GenerateTestsRequest {
+  projectId: string;
+  // Project file to write tests for
+  filePath: string;
+  testType?: TestType;
+  // Overrides the detected framework
+  framework?: TestFramework['name'];
+  coverage?: 'basic' | 'comprehensive' | 'edge-cases';
+  mockingStrategy?: 'minimal' | 'extensive';
+  // Replace an existing test file at the target path
+  overwrite?: boolean;
+  // Project containers are not managed by the backend yet, so it cannot run the tests it writes;
+  // requests asking for a run are refused rather than answered without one
+  run?: boolean;
+  // Conversation to post the result to
+  conversationId?: string;
+  model?: AIModel;
+}
+
+interface GenerateTestsResponse {
+  file: { id: string; path: string; created: boolean };
+  framework: TestFramework;
+  tests: string;
+  // The cases the tests cover, as listed by the model
+  coverage: string[];
+  explanation: string;
+  conversationId?: string;
+  messages?: AiMessage[];
+  model: AIModel;
+  usage: TokenUsage;
+  metadata: AIResponseMetadata;
+}
+
+const FRAMEWORKS: TestFramework['name'][] = ['vitest', 'jest', 'mocha', 'node:test', 'playwright', 'cypress', 'pytest', 'unittest', 'go', 'cargo'];
+const JS_EXTENSIONS = new Set(['js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx']);
+const MAX_SOURCE_LENGTH = 100000;
+const TEST_CONTEXT_TOKENS = 2000;
+
+const TEST_SYSTEM_PROMPT =
+  "You write runnable automated tests. Reply with a single fenced code block containing the " +
+  "complete test file, followed by a bulleted list of the cases the tests cover. Import the code " +
+  "under test as instructed and only use the given test framework and libraries the " +
+  "project already depends on.";
+
+// API Endpoints
+
+export const generateTests = api(
+  { method: "POST", path: "/ai/tests", auth: true },
+  async (req: GenerateTestsRequest): Promise<GenerateTestsResponse> => {
+    const user = requireAuth();
+    await requireProjectAccess(req.projectId, user.id, 'write');
+    await checkQuota(user.id);
+
+    if (req.run) {
+      throw APIError.unimplemented("Running generated tests is not supported yet");
+    }
+    const testType = req.testType ?? 'unit';
+    if (!['unit', 'integration', 'e2e'].includes(testType)) {
+      throw APIError.invalidArgument("testType must be unit, integration or e2e");
+    }
+    if (req.framework !== undefined && !FRAMEWORKS.includes(req.framework)) {
+      throw APIError.invalidArgument(`Unknown test framework: ${req.framework}`);
+    }
+
+    const sourcePath = normalizePath(req.filePath);
+    const source = await findFileByPath(db, req.projectId, sourcePath);
+    if (!source || source.type !== 'file') {
+      throw APIError.notFound(`File not found: ${sourcePath}`);
+    }
+    const content: string | null = source.content;
+    if (content === null || !content.trim()) {
+      throw APIError.failedPrecondition("Tests can only be generated for non-empty text files");
+    }
+    if (content.length > MAX_SOURCE_LENGTH) {
+      throw APIError.invalidArgument(`Tests can only be generated for files up to ${MAX_SOURCE_LENGTH} characters`);
+    }
+
+    const manifests = await loadManifests(req.projectId);
+    const framework = detectTestFramework(sourcePath, manifests, testType, req.framework);
+
+    // Checked before asking the model so a refusal does not cost a completion
+    const existing = await findFileByPath(db, req.projectId, framework.testPath);
+    if (existing?.type === 'directory') {
+      throw APIError.failedPrecondition(`${framework.testPath} is a directory`);
+    }
+    if (existing && !req.overwrite) {
+      throw APIError.alreadyExists(`${framework.testPath} already exists; set overwrite to replace it`);
+    }
+
+    const projectContext = await assembleContext({
+      projectId: req.projectId,
+      userId: user.id,
+      message: '',
+      maxTokens: TEST_CONTEXT_TOKENS
+    });
+
+    const result = await complete({
+      ...(req.model ? { model: req.model } : {}),
+      system: `${TEST_SYSTEM_PROMPT}\n\nThe code belongs to this project:\n\n${projectContext.prompt}`,
+      messages: [{ role: 'user', content: testPrompt(req, sourcePath, content, framework, testType) }]
+    });
+    await recordUsage(user.id, { serviceType: 'testing', model: result.model, usage: result.usage, projectId: req.projectId });
+    const { code, explanation } = splitCodeReply(result.content);
+    if (!code.trim()) {
+      throw APIError.internal("The model did not return any tests");
+    }
+    const coverage = listItems(explanation);
+
+    const file = await writeTestFile(req.projectId, user.id, framework.testPath, `${code}\n`, sourcePath);
+
+    let messages: AiMessage[] | undefined;
+    if (req.conversationId) {
+      const request = `Generate ${testType} tests for ${sourcePath}`;
+      const conversation = await openConversation(user.id, req.conversationId, { message: request });
+      messages = await recordExchange(conversation.id, { content: request }, {
+        content: chatReport(file, framework, coverage),
+        model: result.model,
+        usage: result.usage
+      });
+    }
+
+    log.info("AI tests generated", {
+      userId: user.id,
+      projectId: req.projectId,
+      sourcePath,
+      testPath: file.path,
+      framework: framework.name,
+      model: result.model,
+      totalTokens: result.usage.totalTokens
+    });
+    return {
+      file,
+      framework,
+      tests: code,
+      coverage,
+      explanation,
+      ...(req.conversationId && messages ? { conversationId: req.conversationId, messages } : {}),
+      model: result.model,
+      usage: result.usage,
+      metadata: result.metadata
+    };
+  }
+);
+
+// Helper functions
+
+// Pick the framework and test location for a source file from the project's manifests
+export function detectTestFramework(
+  sourcePath: string,
+  manifests: Record<string, string>,
+  testType: TestType,
+  requested?: TestFramework['name']
+): TestFramework {
+  const name = baseName(sourcePath);
+  const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+  const stem = extension ? name.slice(0, -(extension.length + 1)) : name;
+  const directory = parentOf(sourcePath);
+  const sibling = (suffix: string) => `${directory === '/' ? '' : directory}/${stem}${suffix}`;
+  const language = detectLanguage(name);
+
+  if (JS_EXTENSIONS.has(extension)) {
+    const dependencies = packageDependencies(manifests['/package.json']);
+    const testExtension = extension === 'mjs' || extension === 'cjs' ? 'js' : extension;
+    const pick = requested
+      ?? (testType === 'e2e'
+        ? (dependencies.has('cypress') && !dependencies.has('@playwright/test') ? 'cypress' : 'playwright')
+        : ['vitest', 'jest', 'mocha'].find(candidate => dependencies.has(candidate))
+          ?? (language === 'typescript' ? 'vitest' : 'node:test'));
+
+    switch (pick) {
+      case 'playwright':
+        return framework('playwright', dependencies.has('@playwright/test'), `/tests/${stem}.spec.${testExtension}`, path => `npx playwright test ${path}`);
+      case 'cypress':
+        return framework('cypress', dependencies.has('cypress'), `/cypress/e2e/${stem}.cy.${testExtension}`, path => `npx cypress run --spec ${path}`);
+      case 'mocha':
+        return framework('mocha', dependencies.has('mocha'), `/test/${stem}.spec.${testExtension}`, path => `npx mocha ${path}`);
+      case 'jest':
+        return framework('jest', dependencies.has('jest'), sibling(`.test.${testExtension}`), path => `npx jest ${path}`);
+      case 'node:test':
+        return framework('node:test', true, sibling(`.test.${testExtension}`), path => `node --test ${path}`);
+      case 'vitest':
+        return framework('vitest', dependencies.has('vitest'), sibling(`.test.${testExtension}`), path => `npx vitest run ${path}`);
+    }
+  }
+
+  if (language === 'python') {
+    const requirements = [manifests['/requirements.txt'], manifests['/requirements-dev.txt'], manifests['/pyproject.toml']].join('\n');
+    const testPath = `/tests/test_${stem}.py`;
+    if (requested === 'unittest') {
+      return framework('unittest', true, testPath, path => `python -m unittest ${path}`);
+    }
+    if (!requested || requested === 'pytest') {
+      return framework('pytest', /^\s*["']?pytest\b/m.test(requirements), testPath, path => `pytest ${path}`);
+    }
+  }
+
+  if (language === 'go' && (!requested || requested === 'go')) {
+    const packagePath = directory === '/' ? '.' : `.${directory}`;
+    return framework('go', true, sibling('_test.go'), () => `go test ${packagePath}`);
+  }
+
+  if (language === 'rust' && (!requested || requested === 'cargo')) {
+    return framework('cargo', true, `/tests/${stem}.rs`, () => `cargo test --test ${stem}`);
+  }
+
+  if (requested) {
+    throw APIError.invalidArgument(`${requested} cannot test ${name}`);
+  }
+  throw APIError.failedPrecondition(`Test generation is not supported for ${language ? `${language} files` : name}`);
+}
+
+function framework(name: TestFramework['name'], installed: boolean, testPath: string, command: (path: string) => string): TestFramework {
+  return { name, installed, testPath, command: command(testPath.slice(1)) };
+}
+
+function packageDependencies(manifest: string | undefined): Set<string> {
+  if (!manifest) return new Set();
+  try {
+    const pkg = JSON.parse(manifest);
+    return new Set(Object.keys({ ...pkg.dependencies, ...pkg.devDependencies }));
+  } catch {
+    // A package.json that does not parse contributes nothing
+    return new Set();
+  }
+}
+
+async function loadManifests(projectId: string): Promise<Record<string, string>> {
+  const rows = await db.queryAll`
+    SELECT path, content FROM project_files
+    WHERE project_id = ${projectId}
+      AND path IN ('/package.json', '/requirements.txt', '/requirements-dev.txt', '/pyproject.toml')
+      AND content IS NOT NULL
+  `;
+  return Object.fromEntries(rows.map(row => [row.path, row.content]));
+}
+
+function testPrompt(req: GenerateTestsRequest, sourcePath: string, content: string, framework: TestFramework, testType: TestType): string {
+  const language = detectLanguage(baseName(sourcePath));
+  return [
+    `Write ${testType} tests using ${framework.name}${framework.installed ? '' : ' (not yet a project dependency)'}.`,
+    `Coverage: ${req.coverage ?? 'comprehensive'}. Mocking: ${req.mockingStrategy ?? 'minimal'}.`,
+    `The tests will be saved as ${framework.testPath} and run with \`${framework.command}\`.`,
+    ...(language === 'python'
+      ? [`Import the code under test as the module: ${sourcePath.slice(1).replace(/\.py$/, '').replace(/\//g, '.')}`]
+      : language === 'javascript' || language === 'typescript'
+        ? [`Import the code under test from: ${importPath(framework.testPath, sourcePath)}`]
+        : []),
+    '',
+    `<file path="${sourcePath}"${language ? ` language="${language}"` : ''}>`,
+    content,
+    '</file>'
+  ].join('\n');
+}
+
+// The source file relative to the test file, without a JavaScript extension
+export function importPath(testPath: string, sourcePath: string): string {
+  const from = parentOf(testPath).split('/').filter(Boolean);
+  const to = sourcePath.split('/').filter(Boolean);
+  let common = 0;
+  while (common < from.length && common < to.length - 1 && from[common] === to[common]) common++;
+
+  const relative = [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/');
+  const path = relative.startsWith('.') ? relative : `./${relative}`;
+  return path.replace(/\.(ts|tsx|js|jsx|mjs|cjs)$/, '');
+}
+
+// Bulleted or numbered lines of the model's explanation
+function listItems(text: string): string[] {
+  return text.split('\n')
+    .map(line => /^\s*(?:[-*•]|\d+[.)])\s+(.+)$/.exec(line)?.[1]?.trim())
+    .filter((item): item is string => Boolean(item));
+}
+
+// Create the test file, or replace the contents of the existing one as a new version
+async function writeTestFile(
+  projectId: string,
+  userId: string,
+  path: string,
+  content: string,
+  sourcePath: string
+): Promise<{ id: string; path: string; created: boolean }> {
+  const tx = await db.begin();
+  try {
+    const existing = await findFileByPath(tx, projectId, path);
+    let row: any;
+    if (existing) {
+      row = await writeFileContent(tx, existing, content, userId, `Regenerated tests for ${sourcePath}`);
+    } else {
+      await ensureParentDirectories(tx, projectId, path, userId);
+      row = await insertEntry(tx, projectId, path, 'file', content, userId);
+    }
+    await refreshProjectStats(tx, projectId);
+    await tx.commit();
+
+    await publishFileChanges(projectId, userId, [{ type: existing ? 'modified' : 'created', fileId: row.id, path }]);
+    return { id: row.id, path, created: !existing };
+  } catch (error) {
+    await tx.rollback();
+    if (error instanceof APIError) throw error;
+    log.error("Failed to write generated tests", { error: (error as Error).message, projectId, path });
+    throw APIError.internal("Failed to write generated tests");
+  }
+}
+
+function chatReport(
+  file: { path: string; created: boolean },
+  framework: TestFramework,
+  coverage: string[]
+): string {
+  const lines = [`${file.created ? 'Created' : 'Updated'} \`${file.path}\` with ${framework.name} tests.`];
+  if (!framework.installed) {
+    lines.push(`${framework.name} is not among the project's dependencies yet; add it before running the tests.`);
+  }
+  if (coverage.length > 0) {
+    lines.push('', 'Covered cases:', ...coverage.map(item => `- ${item}`));
+  }
+  lines.push('', `Run them with \`${framework.command}\`.`);
+  return lines.join('\n');
+}
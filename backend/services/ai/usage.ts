@@ -0,0 +1,256 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { Primitive } from "encore.dev/storage/sqldb";
+import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
+import { requireProjectAccess } from "../projects/service";
+import { isUuid } from "../files/vfs";
+import { AIModel, TokenUsage } from "./llm";
+
+// Usage metering for AI calls. Every endpoint that calls a model checks the caller's quota first
+// (`checkQuota`) and records the tokens and cost afterwards (`recordUsage`). Quotas are token
+// limits per user per UTC day and month, set with AI_DAILY_TOKEN_QUOTA and AI_MONTHLY_TOKEN_QUOTA;
+// unset or 0 means no limit. A call that starts under the limit is allowed to finish past it.
+
+// Interfaces (mirrors AIServiceType in shared/src/types/ai.ts)
+export type AIServiceType =
+  | 'chat'
+  | 'code_completion'
+  | 'code_generation'
+  | 'code_review'
+  | 'debugging'
+  | 'testing'
+  | 'refactoring'
+  | 'documentation';
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // USD
+  cost: number;
+}
+
+export interface QuotaStatus {
+  // null when there is no limit
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetsAt: string;
+}
+
+interface UsageReportRequest {
+  // Report on one project (all of its members' usage) instead of the caller's own usage
+  projectId?: string;
+  // Days back from today, including today (default 30)
+  days?: number;
+}
+
+interface UsageReport {
+  from: string;
+  to: string;
+  projectId?: string;
+  totals: UsageTotals;
+  byModel: Array<UsageTotals & { model: string }>;
+  byService: Array<UsageTotals & { serviceType: AIServiceType }>;
+  // Every day of the period, oldest first, as YYYY-MM-DD in UTC
+  byDay: Array<UsageTotals & { day: string }>;
+  // Only in reports on the caller's own usage; projectId is null for calls outside a project
+  byProject?: Array<UsageTotals & { projectId: string | null; projectName: string | null }>;
+  // The caller's quotas
+  quota: { daily: QuotaStatus; monthly: QuotaStatus };
+}
+
+const DEFAULT_REPORT_DAYS = 30;
+const MAX_REPORT_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DAILY_TOKEN_QUOTA = quotaFromEnv('AI_DAILY_TOKEN_QUOTA');
+const MONTHLY_TOKEN_QUOTA = quotaFromEnv('AI_MONTHLY_TOKEN_QUOTA');
+
+const TOTALS_COLUMNS = `
+  COUNT(*)::int AS requests,
+  COALESCE(SUM(u.prompt_tokens), 0)::float8 AS prompt_tokens,
+  COALESCE(SUM(u.completion_tokens), 0)::float8 AS completion_tokens,
+  COALESCE(SUM(u.total_tokens), 0)::float8 AS total_tokens,
+  COALESCE(SUM(u.cost), 0)::float8 AS cost
+`;
+
+// API Endpoints
+
+export const getUsageReport = api(
+  { method: "GET", path: "/ai/usage", auth: true },
+  async (req: UsageReportRequest): Promise<UsageReport> => {
+    const user = requireAuth();
+    const days = Math.min(MAX_REPORT_DAYS, Math.max(1, Math.floor(req.days || DEFAULT_REPORT_DAYS)));
+
+    if (req.projectId) {
+      // Usage of a project includes what its members spent, so only its owner sees it
+      if (!isUuid(req.projectId)) {
+        throw APIError.notFound("Project not found");
+      }
+      await requireProjectAccess(req.projectId, user.id, 'admin');
+    }
+
+    const now = new Date();
+    const from = new Date(startOfDay(now).getTime() - (days - 1) * DAY_MS);
+    const params: Primitive[] = [from];
+    const conditions = ['u.created_at >= $1'];
+    if (req.projectId) {
+      params.push(req.projectId);
+      conditions.push(`u.project_id = $${params.length}`);
+    } else {
+      params.push(user.id);
+      conditions.push(`u.user_id = $${params.length}`);
+    }
+    const where = conditions.join(' AND ');
+
+    try {
+      const totals = await db.rawQueryRow(`SELECT ${TOTALS_COLUMNS} FROM ai_usage u WHERE ${where}`, ...params);
+      const byModel = await db.rawQueryAll(
+        `SELECT u.model, ${TOTALS_COLUMNS} FROM ai_usage u WHERE ${where}
+         GROUP BY u.model ORDER BY total_tokens DESC`,
+        ...params
+      );
+      const byService = await db.rawQueryAll(
+        `SELECT u.service_type, ${TOTALS_COLUMNS} FROM ai_usage u WHERE ${where}
+         GROUP BY u.service_type ORDER BY total_tokens DESC`,
+        ...params
+      );
+      const byDay = await db.rawQueryAll(
+        `SELECT to_char(u.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS day, ${TOTALS_COLUMNS}
+         FROM ai_usage u WHERE ${where} GROUP BY day`,
+        ...params
+      );
+      const byProject = req.projectId ? null : await db.rawQueryAll(
+        `SELECT u.project_id::text AS project_id, p.name AS project_name, ${TOTALS_COLUMNS}
+         FROM ai_usage u LEFT JOIN projects p ON p.id = u.project_id
+         WHERE ${where} GROUP BY u.project_id, p.name ORDER BY total_tokens DESC`,
+        ...params
+      );
+
+      // Days without calls are reported as zero so the series can be charted as is
+      const usageByDay = new Map<string, UsageTotals>(byDay.map(row => [row.day, parseTotals(row)]));
+      const series: UsageReport['byDay'] = [];
+      for (let time = from.getTime(); time <= now.getTime(); time += DAY_MS) {
+        const day = new Date(time).toISOString().slice(0, 10);
+        series.push({ day, ...(usageByDay.get(day) ?? parseTotals({})) });
+      }
+
+      return {
+        from: from.toISOString(),
+        to: now.toISOString(),
+        ...(req.projectId ? { projectId: req.projectId } : {}),
+        totals: parseTotals(totals ?? {}),
+        byModel: byModel.map(row => ({ model: row.model, ...parseTotals(row) })),
+        byService: byService.map(row => ({ serviceType: row.service_type, ...parseTotals(row) })),
+        byDay: series,
+        ...(byProject ? {
+          byProject: byProject.map(row => ({
+            projectId: row.project_id ?? null,
+            projectName: row.project_name ?? null,
+            ...parseTotals(row)
+          }))
+        } : {}),
+        quota: await quotaStatus(user.id, now)
+      };
+    } catch (error) {
+      if (error instanceof APIError) throw error;
+      log.error("Failed to build AI usage report", { error: (error as Error).message, userId: user.id });
+      throw APIError.internal("Failed to build AI usage report");
+    }
+  }
+);
+
+// Reject the call when the user has used up a quota
+export async function checkQuota(userId: string): Promise<void> {
+  if (DAILY_TOKEN_QUOTA === null && MONTHLY_TOKEN_QUOTA === null) return;
+
+  let quota: UsageReport['quota'];
+  try {
+    quota = await quotaStatus(userId, new Date());
+  } catch (error) {
+    log.error("Failed to check AI quota", { error: (error as Error).message, userId });
+    throw APIError.internal("Failed to check AI quota");
+  }
+
+  const { daily, monthly } = quota;
+  if (daily.remaining !== null && daily.remaining <= 0) {
+    throw APIError.resourceExhausted(
+      `Daily AI quota of ${daily.limit} tokens used up; it resets at ${daily.resetsAt}`
+    );
+  }
+  if (monthly.remaining !== null && monthly.remaining <= 0) {
+    throw APIError.resourceExhausted(
+      `Monthly AI quota of ${monthly.limit} tokens used up; it resets at ${monthly.resetsAt}`
+    );
+  }
+}
+
+// Record one model call. A failure is logged rather than failing a request that already succeeded.
+export async function recordUsage(
+  userId: string,
+  call: { serviceType: AIServiceType; model: AIModel; usage: TokenUsage; projectId?: string | undefined }
+): Promise<void> {
+  const { usage } = call;
+  try {
+    await db.exec`
+      INSERT INTO ai_usage (user_id, project_id, service_type, model, prompt_tokens, completion_tokens, total_tokens, cost)
+      VALUES (
+        ${userId}, ${call.projectId ?? null}, ${call.serviceType}, ${call.model},
+        ${usage.promptTokens}, ${usage.completionTokens}, ${usage.totalTokens}, ${usage.cost ?? 0}
+      )
+    `;
+  } catch (error) {
+    log.error("Failed to record AI usage", { error: (error as Error).message, userId, serviceType: call.serviceType, totalTokens: usage.totalTokens });
+  }
+}
+
+// Helper functions
+
+async function quotaStatus(userId: string, now: Date): Promise<UsageReport['quota']> {
+  const dayStart = startOfDay(now);
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+  const row = await db.queryRow`
+    SELECT
+      COALESCE(SUM(total_tokens) FILTER (WHERE created_at >= ${dayStart}), 0)::float8 AS daily,
+      COALESCE(SUM(total_tokens), 0)::float8 AS monthly
+    FROM ai_usage
+    WHERE user_id = ${userId} AND created_at >= ${monthStart}
+  `;
+
+  return {
+    daily: status(DAILY_TOKEN_QUOTA, Number(row?.daily ?? 0), new Date(dayStart.getTime() + DAY_MS)),
+    monthly: status(MONTHLY_TOKEN_QUOTA, Number(row?.monthly ?? 0), new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)))
+  };
+}
+
+function status(limit: number | null, used: number, resetsAt: Date): QuotaStatus {
+  return {
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    resetsAt: resetsAt.toISOString()
+  };
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function quotaFromEnv(name: string): number | null {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : null;
+}
+
+function parseTotals(row: any): UsageTotals {
+  return {
+    requests: Number(row.requests ?? 0),
+    promptTokens: Number(row.prompt_tokens ?? 0),
+    completionTokens: Number(row.completion_tokens ?? 0),
+    totalTokens: Number(row.total_tokens ?? 0),
+    cost: Number(row.cost ?? 0)
+  };
+}
@@ -0,0 +1,155 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import * as bcrypt from "bcryptjs";
+import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
+import {
+  AuthResponse,
+  consumeEmailToken,
+  emailRecentlySent,
+  loadSessionUser,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+  setPassword,
+  startSession
+} from "./service";
+
+// Email verification and passwords. Registration emails a verification link; the endpoints here
+// resend it and redeem it, and handle forgotten and changed passwords. Any password change signs
+// the user out of every session.
+
+interface TokenRequest {
+  token: string;
+}
+
+interface ForgotPasswordRequest {
+  email: string;
+}
+
+interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+interface ChangePasswordRequest {
+  oldPassword: string;
+  newPassword: string;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// API Endpoints
+
+// Email a new verification link to the signed-in user
+export const resendVerificationEmail = api(
+  { method: "POST", path: "/auth/verify-email/send", auth: true },
+  async (): Promise<{ success: boolean }> => {
+    const user = requireAuth();
+    if (user.email_verified) {
+      throw APIError.failedPrecondition("Email address is already verified");
+    }
+    if (await emailRecentlySent(user.id, 'verify_email')) {
+      throw APIError.resourceExhausted("A verification email was just sent; try again in a minute");
+    }
+
+    await sendVerificationEmail(user);
+    return { success: true };
+  }
+);
+
+export const verifyEmail = api(
+  { method: "POST", path: "/auth/verify-email" },
+  async (req: TokenRequest): Promise<{ success: boolean; email: string }> => {
+    const claim = await consumeEmailToken(req.token ?? '', 'verify_email');
+    if (!claim) {
+      throw APIError.invalidArgument("This verification link is invalid, expired or already used");
+    }
+
+    // The link only verifies the address it was sent to
+    const user = await db.queryRow`
+      UPDATE users SET email_verified = TRUE
+      WHERE id = ${claim.userId} AND email = ${claim.email}
+      RETURNING id::text
+    `;
+    if (!user) {
+      throw APIError.invalidArgument("This verification link is for an address no longer on the account");
+    }
+
+    log.info("Email verified", { userId: claim.userId });
+    return { success: true, email: claim.email };
+  }
+);
+
+// Always succeeds, so the response does not reveal which addresses have accounts
+export const forgotPassword = api(
+  { method: "POST", path: "/auth/forgot-password" },
+  async (req: ForgotPasswordRequest): Promise<{ success: boolean }> => {
+    const user = await db.queryRow`
+      SELECT id::text, email, name FROM users WHERE email = ${String(req.email ?? '').trim()}
+    `;
+    if (!user || await emailRecentlySent(user.id, 'reset_password')) {
+      return { success: true };
+    }
+
+    try {
+      await sendPasswordResetEmail({ id: user.id, email: user.email, name: user.name });
+    } catch (error) {
+      log.error("Failed to send password reset email", { error: (error as Error).message, userId: user.id });
+    }
+    return { success: true };
+  }
+);
+
+export const resetPassword = api(
+  { method: "POST", path: "/auth/reset-password" },
+  async (req: ResetPasswordRequest): Promise<{ success: boolean }> => {
+    validatePassword(req.password);
+
+    const claim = await consumeEmailToken(req.token ?? '', 'reset_password');
+    if (!claim) {
+      throw APIError.invalidArgument("This reset link is invalid, expired or already used");
+    }
+
+    await setPassword(claim.userId, req.password);
+    // Other reset links stop working, and the link proves the user reads this address
+    await db.exec`
+      UPDATE user_tokens SET used_at = NOW()
+      WHERE user_id = ${claim.userId} AND purpose = 'reset_password' AND used_at IS NULL
+    `;
+    await db.exec`UPDATE users SET email_verified = TRUE WHERE id = ${claim.userId} AND email = ${claim.email}`;
+
+    return { success: true };
+  }
+);
+
+// Signs out every session, then starts a new one for the caller so they stay signed in here
+export const changePassword = api(
+  { method: "POST", path: "/auth/change-password", auth: true },
+  async (req: ChangePasswordRequest): Promise<AuthResponse> => {
+    const user = requireAuth();
+    validatePassword(req.newPassword);
+
+    const row = await db.queryRow`SELECT password_hash FROM users WHERE id = ${user.id}`;
+    if (row && !row.password_hash) {
+      throw APIError.failedPrecondition("This account has no password yet; set one with a password reset link");
+    }
+    if (!row || !await bcrypt.compare(req.oldPassword ?? '', row.password_hash)) {
+      throw APIError.invalidArgument("Current password is incorrect");
+    }
+
+    await setPassword(user.id, req.newPassword);
+    const sessionUser = await loadSessionUser(user.id);
+    if (!sessionUser) {
+      throw APIError.notFound("User not found");
+    }
+    return startSession(sessionUser);
+  }
+);
+
+// Helper functions
+
+function validatePassword(password: string | undefined): void {
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    throw APIError.invalidArgument(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
@@ -0,0 +1,49 @@
+import { APIError, Gateway, Header, Query } from "encore.dev/api";
+import { authHandler } from "encore.dev/auth";
+import { UserRole, redeemStreamTicket, validateToken } from "./service";
+
+// Authentication for the whole app. Requests to endpoints declared with `auth: true` must carry a
+// valid access token in the Authorization header; the handler resolves it to the caller, which
+// those endpoints read with requireAuth() from utils/auth instead of taking a user from the request.
+
+interface AuthParams {
+  authorization?: Header<"Authorization">;
+  // Browsers cannot set headers on a WebSocket, so WebSocket clients send a single-use ticket from
+  // POST /auth/stream-ticket in the query string instead. Access tokens are never taken from URLs,
+  // which end up in access logs, proxy logs and browser history.
+  ticket?: Query<"ticket">;
+}
+
+export interface AuthData {
+  userID: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  emailVerified: boolean;
+  // The session the access token belongs to; null for tokens issued before tokens named one
+  sessionID: string | null;
+}
+
+export const auth = authHandler<AuthParams, AuthData>(async (params) => {
+  if (!params.authorization && !params.ticket) {
+    throw APIError.unauthenticated("Authorization header required");
+  }
+
+  const user = params.authorization
+    ? await validateToken(params.authorization)
+    : await redeemStreamTicket(params.ticket!);
+  if (!user) {
+    throw APIError.unauthenticated("Invalid or expired token");
+  }
+
+  return {
+    userID: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    emailVerified: user.email_verified,
+    sessionID: user.session_id
+  };
+});
+
+export const gateway = new Gateway({ authHandler: auth });
@@ -0,0 +1,329 @@
+import { api, APIError } from "encore.dev/api";
+import { Transaction } from "encore.dev/storage/sqldb";
+import log from "encore.dev/log";
+import { createHash, randomBytes } from "node:crypto";
+import QRCode from "qrcode";
+import { db } from "../../utils/database";
+import { requireAuth, requireVerifiedEmail } from "../../utils/auth";
+import { AuthResponse, UserRole, readMfaChallenge, startSession } from "./service";
+import { generateSecret, otpauthUri, verifyCode } from "./totp";
+
+// TOTP multi-factor authentication. Enrollment is two steps: setup creates a secret and recovery
+// codes, and verify turns MFA on once the authenticator produces a valid code. With MFA on,
+// login answers with a short-lived challenge token instead of tokens, and POST /auth/login/mfa
+// exchanges it plus a code (or a recovery code) for the usual access and refresh tokens.
+
+interface CodeRequest {
+  code: string;
+}
+
+interface MfaStatus {
+  enabled: boolean;
+  // Unused recovery codes left
+  recoveryCodesRemaining: number;
+}
+
+interface MfaSetupResponse {
+  secret: string;
+  otpauthUrl: string;
+  // The otpauth URL as a PNG data URL
+  qrCodeUrl: string;
+  // Shown once; only their hashes are stored
+  backupCodes: string[];
+}
+
+interface MfaLoginRequest {
+  mfaToken: string;
+  // A code from the authenticator app, or a recovery code
+  code: string;
+}
+
+interface MfaUser {
+  id: string;
+  email: string;
+  name: string;
+  created_at: Date;
+  updated_at: Date;
+  email_verified: boolean;
+  last_login: Date | null;
+  role: UserRole;
+  mfa_enabled: boolean;
+  mfa_secret: string | null;
+  mfa_last_step: number | null;
+  mfa_failed_attempts: number;
+  mfa_challenge_id: string | null;
+}
+
+const ISSUER = process.env.MFA_ISSUER || 'Vaporform';
+const RECOVERY_CODE_COUNT = 10;
+// Codes tried without a correct one before codes are refused for a while. Sign-in, disabling MFA and
+// replacing recovery codes share the count, so none of them can be used to guess codes.
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+// API Endpoints
+
+export const getMfaStatus = api(
+  { method: "GET", path: "/auth/mfa", auth: true },
+  async (): Promise<MfaStatus> => {
+    const user = await loadMfaUser(requireAuth().id);
+    const row = await db.queryRow`
+      SELECT COUNT(*)::int AS remaining FROM mfa_recovery_codes WHERE user_id = ${user.id} AND used_at IS NULL
+    `;
+    return { enabled: user.mfa_enabled, recoveryCodesRemaining: user.mfa_enabled ? row?.remaining ?? 0 : 0 };
+  }
+);
+
+// Start enrollment. Calling it again before verifying replaces the secret and recovery codes.
+export const setupMfa = api(
+  { method: "POST", path: "/auth/mfa/setup", auth: true },
+  async (): Promise<MfaSetupResponse> => {
+    // Enrolling needs a confirmed email address, so MFA is not locked onto a mistyped account
+    const user = await loadMfaUser(requireVerifiedEmail().id);
+    if (user.mfa_enabled) {
+      throw APIError.failedPrecondition("Multi-factor authentication is already enabled; disable it to enroll again");
+    }
+
+    const secret = generateSecret();
+    const otpauthUrl = otpauthUri(secret, user.email, ISSUER);
+    const backupCodes = generateRecoveryCodes();
+
+    const tx = await db.begin();
+    try {
+      await tx.exec`
+        UPDATE users SET mfa_secret = ${secret}, mfa_last_step = NULL, mfa_failed_attempts = 0 WHERE id = ${user.id}
+      `;
+      await replaceRecoveryCodes(tx, user.id, backupCodes);
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      log.error("Failed to start MFA enrollment", { error: (error as Error).message, userId: user.id });
+      throw APIError.internal("Failed to set up multi-factor authentication");
+    }
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCodeUrl: await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 }),
+      backupCodes
+    };
+  }
+);
+
+// Finish enrollment with a code from the authenticator app, which turns MFA on
+export const verifyMfa = api(
+  { method: "POST", path: "/auth/mfa/verify", auth: true },
+  async (req: CodeRequest): Promise<{ success: boolean }> => {
+    const user = await loadMfaUser(requireAuth().id);
+    if (user.mfa_enabled) {
+      throw APIError.failedPrecondition("Multi-factor authentication is already enabled");
+    }
+    if (!user.mfa_secret) {
+      throw APIError.failedPrecondition("Start multi-factor authentication setup first");
+    }
+
+    const step = verifyCode(user.mfa_secret, normalizeCode(req.code));
+    if (step === null) {
+      throw APIError.invalidArgument("Invalid verification code");
+    }
+
+    await db.exec`UPDATE users SET mfa_enabled = TRUE, mfa_last_step = ${step} WHERE id = ${user.id}`;
+    log.info("MFA enabled", { userId: user.id });
+    return { success: true };
+  }
+);
+
+// Turn MFA off; needs a current code or a recovery code
+export const disableMfa = api(
+  { method: "POST", path: "/auth/mfa/disable", auth: true },
+  async (req: CodeRequest): Promise<{ success: boolean }> => {
+    const user = await loadMfaUser(requireAuth().id);
+    if (!user.mfa_enabled) {
+      throw APIError.failedPrecondition("Multi-factor authentication is not enabled");
+    }
+    if (!await takeAttempt(user)) {
+      throw APIError.resourceExhausted("Too many incorrect codes; try again later");
+    }
+    if (!await checkCode(user, req.code)) {
+      throw APIError.invalidArgument("Invalid verification code");
+    }
+
+    const tx = await db.begin();
+    try {
+      await tx.exec`
+        UPDATE users
+        SET mfa_enabled = FALSE, mfa_secret = NULL, mfa_last_step = NULL, mfa_failed_attempts = 0,
+            mfa_locked_until = NULL
+        WHERE id = ${user.id}
+      `;
+      await tx.exec`DELETE FROM mfa_recovery_codes WHERE user_id = ${user.id}`;
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      log.error("Failed to disable MFA", { error: (error as Error).message, userId: user.id });
+      throw APIError.internal("Failed to disable multi-factor authentication");
+    }
+
+    log.info("MFA disabled", { userId: user.id });
+    return { success: true };
+  }
+);
+
+// Replace the recovery codes, invalidating the old ones; needs a current code from the app
+export const regenerateRecoveryCodes = api(
+  { method: "POST", path: "/auth/mfa/recovery-codes", auth: true },
+  async (req: CodeRequest): Promise<{ backupCodes: string[] }> => {
+    const user = await loadMfaUser(requireAuth().id);
+    if (!user.mfa_enabled || !user.mfa_secret) {
+      throw APIError.failedPrecondition("Multi-factor authentication is not enabled");
+    }
+    if (!await takeAttempt(user)) {
+      throw APIError.resourceExhausted("Too many incorrect codes; try again later");
+    }
+    if (!await checkTotp(user, normalizeCode(req.code))) {
+      throw APIError.invalidArgument("Invalid verification code");
+    }
+
+    const backupCodes = generateRecoveryCodes();
+    const tx = await db.begin();
+    try {
+      await tx.exec`UPDATE users SET mfa_failed_attempts = 0, mfa_locked_until = NULL WHERE id = ${user.id}`;
+      await replaceRecoveryCodes(tx, user.id, backupCodes);
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      log.error("Failed to replace MFA recovery codes", { error: (error as Error).message, userId: user.id });
+      throw APIError.internal("Failed to create recovery codes");
+    }
+    return { backupCodes };
+  }
+);
+
+// Second step of login: exchange the challenge token from POST /auth/login and a code for tokens.
+// The challenge works for one sign-in. Wrong codes count across challenges, and too many lock
+// sign-in with MFA for a while, however often the password is checked in between.
+export const completeMfaLogin = api(
+  { method: "POST", path: "/auth/login/mfa" },
+  async (req: MfaLoginRequest): Promise<AuthResponse> => {
+    const challenge = readMfaChallenge(req.mfaToken ?? '');
+    if (!challenge) {
+      throw APIError.unauthenticated("Sign-in expired; sign in again");
+    }
+
+    const user = await loadMfaUser(challenge.userId);
+    if (!user.mfa_enabled || user.mfa_challenge_id !== challenge.challengeId) {
+      throw APIError.unauthenticated("Sign-in expired; sign in again");
+    }
+    if (!await takeAttempt(user)) {
+      throw APIError.unauthenticated("Too many incorrect codes; try again later");
+    }
+
+    if (!await checkCode(user, req.code ?? '')) {
+      log.warn("MFA sign-in code rejected", { userId: user.id });
+      throw APIError.unauthenticated("Invalid verification code");
+    }
+
+    // Only one request can complete the challenge
+    const completed = await db.queryRow`
+      UPDATE users SET mfa_failed_attempts = 0, mfa_locked_until = NULL, mfa_challenge_id = NULL
+      WHERE id = ${user.id} AND mfa_challenge_id = ${challenge.challengeId}
+      RETURNING id
+    `;
+    if (!completed) {
+      throw APIError.unauthenticated("Sign-in expired; sign in again");
+    }
+    return startSession(user);
+  }
+);
+
+// Helper functions
+
+async function loadMfaUser(userId: string): Promise<MfaUser> {
+  const user = await db.queryRow`
+    SELECT id::text, email, name, created_at, updated_at, email_verified, last_login, role,
+      mfa_enabled, mfa_secret, mfa_last_step::float8 AS mfa_last_step, mfa_failed_attempts,
+      mfa_challenge_id::text
+    FROM users
+    WHERE id = ${userId}
+  `;
+  if (!user) {
+    throw APIError.unauthenticated("User not found");
+  }
+  return user as MfaUser;
+}
+
+// Count a code before checking it, so parallel guesses cannot get past the limit; a correct code
+// resets the count. The last attempt allowed starts a lockout and a fresh count. False while
+// locked out.
+async function takeAttempt(user: MfaUser): Promise<boolean> {
+  const lockedUntil = new Date(Date.now() + LOCKOUT_MS);
+  const row = await db.queryRow`
+    UPDATE users
+    SET mfa_failed_attempts = CASE WHEN mfa_failed_attempts + 1 >= ${MAX_FAILED_ATTEMPTS} THEN 0 ELSE mfa_failed_attempts + 1 END,
+        mfa_locked_until = CASE WHEN mfa_failed_attempts + 1 >= ${MAX_FAILED_ATTEMPTS} THEN ${lockedUntil} ELSE NULL END
+    WHERE id = ${user.id} AND (mfa_locked_until IS NULL OR mfa_locked_until <= NOW())
+    RETURNING mfa_locked_until
+  `;
+  if (row?.mfa_locked_until) {
+    log.warn("MFA codes locked after repeated wrong ones", { userId: user.id, lockedUntil });
+  }
+  return !!row;
+}
+
+// A current code from the app, or else an unused recovery code, which is used up
+async function checkCode(user: MfaUser, code: string): Promise<boolean> {
+  const normalized = normalizeCode(code);
+  if (/^\d+$/.test(normalized)) {
+    return checkTotp(user, normalized);
+  }
+
+  const used = await db.queryRow`
+    UPDATE mfa_recovery_codes SET used_at = NOW()
+    WHERE user_id = ${user.id} AND code_hash = ${hashRecoveryCode(normalized)} AND used_at IS NULL
+    RETURNING id
+  `;
+  if (used) {
+    log.info("MFA recovery code used", { userId: user.id });
+  }
+  return !!used;
+}
+
+// Accepting a code records its time step, so the same code cannot be used again, even by a
+// request racing this one
+async function checkTotp(user: MfaUser, code: string): Promise<boolean> {
+  if (!user.mfa_secret) return false;
+  const step = verifyCode(user.mfa_secret, code, { lastStep: user.mfa_last_step });
+  if (step === null) return false;
+
+  const accepted = await db.queryRow`
+    UPDATE users SET mfa_last_step = ${step}
+    WHERE id = ${user.id} AND (mfa_last_step IS NULL OR mfa_last_step < ${step})
+    RETURNING id
+  `;
+  return !!accepted;
+}
+
+// Codes are typed with spaces and dashes in; recovery codes are compared in lower case
+function normalizeCode(code: string): string {
+  return String(code ?? '').replace(/[\s-]/g, '').toLowerCase();
+}
+
+// Ten codes like "k3f9x-2hq7d": about 49 random bits each, from an alphabet without look-alike characters
+function generateRecoveryCodes(): string[] {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from(randomBytes(10), (byte: number) => alphabet[byte % alphabet.length]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeCode(code)).digest('hex');
+}
+
+async function replaceRecoveryCodes(tx: Transaction, userId: string, codes: string[]): Promise<void> {
+  await tx.exec`DELETE FROM mfa_recovery_codes WHERE user_id = ${userId}`;
+  for (const code of codes) {
+    await tx.exec`INSERT INTO mfa_recovery_codes (user_id, code_hash) VALUES (${userId}, ${hashRecoveryCode(code)})`;
+  }
+}
@@ -0,0 +1,238 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { db } from "../../utils/database";
+import {
+  APP_URL,
+  AuthResponse,
+  MfaChallengeResponse,
+  SessionUser,
+  completeFirstFactor,
+  loadSessionUser
+} from "./service";
+import {
+  OAuthError,
+  OAuthIdentity,
+  OAuthProvider,
+  OAuthProviderId,
+  authorizationUrl,
+  fetchIdentity,
+  randomToken
+} from "./oidc";
+
+// Sign-in with GitHub, GitLab and Google. The app asks for an authorization URL, sends the user
+// there, and posts the code and state the provider redirects back with. The state names a row in
+// oauth_states holding the PKCE verifier and nonce, and works once. Provider accounts are linked to
+// users in user_auth_providers; the first sign-in with a provider links to the user with the same
+// verified email address, or creates one.
+
+interface OAuthStartResponse {
+  authorizationUrl: string;
+  // Also in the URL; the app keeps it to check the redirect back is for a sign-in it started
+  state: string;
+}
+
+interface OAuthCallbackRequest {
+  provider: string;
+  code: string;
+  state: string;
+}
+
+// Time allowed for signing in at the provider
+const STATE_EXPIRES_SECONDS = 10 * 60;
+
+// Providers are available when their client credentials are set
+function configuredProviders(): OAuthProvider[] {
+  const env = process.env;
+  const providers: OAuthProvider[] = [];
+
+  if (env.OAUTH_GITHUB_CLIENT_ID && env.OAUTH_GITHUB_CLIENT_SECRET) {
+    providers.push({
+      id: 'github',
+      name: 'GitHub',
+      clientId: env.OAUTH_GITHUB_CLIENT_ID,
+      clientSecret: env.OAUTH_GITHUB_CLIENT_SECRET,
+      scopes: ['read:user', 'user:email'],
+      github: {
+        authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+        tokenEndpoint: 'https://github.com/login/oauth/access_token',
+        apiUrl: 'https://api.github.com'
+      }
+    });
+  }
+  if (env.OAUTH_GITLAB_CLIENT_ID && env.OAUTH_GITLAB_CLIENT_SECRET) {
+    providers.push({
+      id: 'gitlab',
+      name: 'GitLab',
+      clientId: env.OAUTH_GITLAB_CLIENT_ID,
+      clientSecret: env.OAUTH_GITLAB_CLIENT_SECRET,
+      scopes: ['openid', 'profile', 'email'],
+      // Self-managed GitLab instances are their own issuer
+      issuer: env.OAUTH_GITLAB_ISSUER || 'https://gitlab.com'
+    });
+  }
+  if (env.OAUTH_GOOGLE_CLIENT_ID && env.OAUTH_GOOGLE_CLIENT_SECRET) {
+    providers.push({
+      id: 'google',
+      name: 'Google',
+      clientId: env.OAUTH_GOOGLE_CLIENT_ID,
+      clientSecret: env.OAUTH_GOOGLE_CLIENT_SECRET,
+      scopes: ['openid', 'profile', 'email'],
+      issuer: 'https://accounts.google.com'
+    });
+  }
+
+  return providers;
+}
+
+// API Endpoints
+
+export const listOAuthProviders = api(
+  { method: "GET", path: "/auth/oauth/providers" },
+  async (): Promise<{ providers: Array<{ id: OAuthProviderId; name: string }> }> => {
+    return { providers: configuredProviders().map(({ id, name }) => ({ id, name })) };
+  }
+);
+
+export const startOAuthLogin = api(
+  { method: "POST", path: "/auth/oauth/:provider/start" },
+  async ({ provider: providerId }: { provider: string }): Promise<OAuthStartResponse> => {
+    const provider = findProvider(providerId);
+    const state = randomToken();
+    const codeVerifier = randomToken();
+    const nonce = randomToken();
+
+    let url: string;
+    try {
+      url = await authorizationUrl(provider, { redirectUri: redirectUri(provider), state, codeVerifier, nonce });
+    } catch (error) {
+      throw providerError(provider, error);
+    }
+
+    await db.exec`DELETE FROM oauth_states WHERE expires_at < NOW()`;
+    const expiresAt = new Date(Date.now() + STATE_EXPIRES_SECONDS * 1000);
+    await db.exec`
+      INSERT INTO oauth_states (state, provider, code_verifier, nonce, expires_at)
+      VALUES (${state}, ${provider.id}, ${codeVerifier}, ${nonce}, ${expiresAt})
+    `;
+
+    return { authorizationUrl: url, state };
+  }
+);
+
+// Finish a sign-in with the code and state from the provider's redirect. Answers like login: with
+// tokens, or with an MFA challenge when the account has MFA enabled.
+export const completeOAuthLogin = api(
+  { method: "POST", path: "/auth/oauth/:provider/callback" },
+  async (req: OAuthCallbackRequest): Promise<AuthResponse | MfaChallengeResponse> => {
+    const provider = findProvider(req.provider);
+    const pending = await db.queryRow`
+      DELETE FROM oauth_states
+      WHERE state = ${req.state ?? ''} AND provider = ${provider.id} AND expires_at > NOW()
+      RETURNING code_verifier, nonce
+    `;
+    if (!pending) {
+      throw APIError.unauthenticated("Sign-in expired or was already used; try again");
+    }
+
+    let identity: OAuthIdentity;
+    try {
+      identity = await fetchIdentity(provider, {
+        code: req.code ?? '',
+        redirectUri: redirectUri(provider),
+        codeVerifier: pending.code_verifier,
+        nonce: pending.nonce
+      });
+    } catch (error) {
+      throw providerError(provider, error);
+    }
+
+    const user = await findOrCreateUser(provider, identity);
+    return completeFirstFactor(user);
+  }
+);
+
+// Helper functions
+
+function findProvider(id: string): OAuthProvider {
+  const provider = configuredProviders().find(candidate => candidate.id === id);
+  if (!provider) {
+    throw APIError.notFound(`Sign-in with ${id} is not available`);
+  }
+  return provider;
+}
+
+// Registered with the provider as the app's callback URL
+function redirectUri(provider: OAuthProvider): string {
+  return `${APP_URL}/oauth/${provider.id}/callback`;
+}
+
+function providerError(provider: OAuthProvider, error: unknown): APIError {
+  log.warn("OAuth sign-in failed", { provider: provider.id, error: (error as Error).message });
+  if (error instanceof OAuthError) {
+    return APIError.unauthenticated(`Sign-in with ${provider.name} failed; try again`);
+  }
+  return APIError.unavailable(`${provider.name} is not reachable; try again later`);
+}
+
+// The user a provider account belongs to. An unlinked account is linked by verified email, as
+// both the provider and this app have confirmed the address belongs to the same person; an
+// unverified local account might have been registered by someone else with that address, so it
+// is not linked.
+async function findOrCreateUser(provider: OAuthProvider, identity: OAuthIdentity): Promise<SessionUser> {
+  const linked = await db.queryRow`
+    UPDATE user_auth_providers SET email = ${identity.email}, last_used_at = NOW()
+    WHERE provider = ${provider.id} AND provider_user_id = ${identity.subject}
+    RETURNING user_id::text
+  `;
+  if (linked) {
+    return loadLinkedUser(linked.user_id);
+  }
+
+  if (!identity.email || !identity.emailVerified) {
+    throw APIError.failedPrecondition(`Your ${provider.name} account has no verified email address`);
+  }
+
+  const existing = await db.queryRow`
+    SELECT id::text, email_verified FROM users WHERE LOWER(email) = LOWER(${identity.email})
+  `;
+  if (existing && !existing.email_verified) {
+    throw APIError.failedPrecondition(
+      "An account with this email address exists but the address is not verified. " +
+      "Sign in with your password and verify it, or reset the password, then try again."
+    );
+  }
+
+  const tx = await db.begin();
+  let userId: string;
+  try {
+    if (existing) {
+      userId = existing.id;
+    } else {
+      const created = await tx.queryRow`
+        INSERT INTO users (email, password_hash, name, email_verified)
+        VALUES (${identity.email}, NULL, ${identity.name || identity.email.split('@')[0]}, TRUE)
+        RETURNING id::text
+      `;
+      userId = created!.id;
+    }
+    await tx.exec`
+      INSERT INTO user_auth_providers (user_id, provider, provider_user_id, email, last_used_at)
+      VALUES (${userId}, ${provider.id}, ${identity.subject}, ${identity.email}, NOW())
+    `;
+    await tx.commit();
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+
+  log.info(existing ? "OAuth account linked" : "User created from OAuth account", { userId, provider: provider.id });
+  return loadLinkedUser(userId);
+}
+
+async function loadLinkedUser(userId: string): Promise<SessionUser> {
+  const user = await loadSessionUser(userId);
+  if (!user) {
+    throw APIError.notFound("User not found");
+  }
+  return user;
+}
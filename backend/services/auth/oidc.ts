@@ -0,0 +1,290 @@
+import { createHash, createPublicKey, JsonWebKey, randomBytes } from "node:crypto";
+import jwt, { Algorithm, JwtPayload } from "jsonwebtoken";
+
+// The OAuth 2.0 authorization code flow with PKCE (RFC 7636), for signing in with an external
+// provider. OpenID Connect providers are configured by issuer and discovered from it; the user is
+// whoever the ID token names, after checking its signature, issuer, audience and nonce. GitHub does
+// not do OpenID Connect, so its users come from its REST API instead.
+
+export type OAuthProviderId = 'github' | 'gitlab' | 'google';
+
+export interface OAuthProvider {
+  id: OAuthProviderId;
+  // Shown on sign-in buttons
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  // OpenID Connect providers
+  issuer?: string;
+  // GitHub
+  github?: { authorizationEndpoint: string; tokenEndpoint: string; apiUrl: string };
+}
+
+// Who signed in, as the provider describes them
+export interface OAuthIdentity {
+  // The provider's stable id for the user
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+interface ProviderEndpoints {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri?: string;
+}
+
+// Signature algorithms accepted on ID tokens
+const ID_TOKEN_ALGORITHMS: Algorithm[] = ['RS256', 'ES256'];
+const REQUEST_TIMEOUT_MS = 10_000;
+
+const discoveryCache = new Map<string, ProviderEndpoints>();
+const jwksCache = new Map<string, JsonWebKey[]>();
+
+// A sign-in that failed because of the provider's answer: a bad code, an invalid ID token, or a
+// provider that is down
+export class OAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+// A random value for state, nonce and PKCE verifiers (256 bits, base64url)
+export function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+// The S256 PKCE challenge sent with the authorization request for a verifier
+export function codeChallenge(verifier: string): string {
+  return createHash('sha256').update(verifier).digest('base64url');
+}
+
+// Where to send the user to sign in with the provider
+export async function authorizationUrl(
+  provider: OAuthProvider,
+  params: { redirectUri: string; state: string; codeVerifier: string; nonce: string }
+): Promise<string> {
+  const endpoints = await providerEndpoints(provider);
+  const url = new URL(endpoints.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('scope', provider.scopes.join(' '));
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('code_challenge', codeChallenge(params.codeVerifier));
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (provider.issuer) {
+    url.searchParams.set('nonce', params.nonce);
+  }
+  return url.toString();
+}
+
+// Finish a sign-in: redeem the code the provider sent back and identify the user
+export async function fetchIdentity(
+  provider: OAuthProvider,
+  params: { code: string; redirectUri: string; codeVerifier: string; nonce: string }
+): Promise<OAuthIdentity> {
+  const endpoints = await providerEndpoints(provider);
+  const tokens = await requestJson(endpoints.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: params.codeVerifier
+    }).toString()
+  });
+  // GitHub reports errors with a 200 status
+  if (tokens.error) {
+    const reason = typeof tokens.error_description === 'string' && tokens.error_description
+      ? tokens.error_description
+      : String(tokens.error);
+    throw new OAuthError(`${provider.name} rejected the sign-in: ${reason}`);
+  }
+
+  if (!provider.issuer) {
+    if (typeof tokens.access_token !== 'string') {
+      throw new OAuthError(`${provider.name} returned no access token`);
+    }
+    return fetchGitHubIdentity(provider, tokens.access_token);
+  }
+
+  if (typeof tokens.id_token !== 'string') {
+    throw new OAuthError(`${provider.name} returned no ID token`);
+  }
+  const claims = await verifyIdToken(provider, endpoints, tokens.id_token, params.nonce);
+  return {
+    subject: claims.sub,
+    email: typeof claims.email === 'string' ? claims.email : null,
+    // Some providers send the claim as a string
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+    name: typeof claims.name === 'string' ? claims.name : null
+  };
+}
+
+async function verifyIdToken(
+  provider: OAuthProvider,
+  endpoints: ProviderEndpoints,
+  idToken: string,
+  nonce: string
+): Promise<JwtPayload & { sub: string }> {
+  const header = jwt.decode(idToken, { complete: true })?.header;
+  if (!header || !endpoints.jwks_uri) {
+    throw new OAuthError(`${provider.name} returned an invalid ID token`);
+  }
+
+  let claims: JwtPayload;
+  try {
+    const key = await signingKey(endpoints.jwks_uri, header.kid);
+    claims = jwt.verify(idToken, key, {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: endpoints.issuer,
+      audience: provider.clientId
+    }) as JwtPayload;
+  } catch (error) {
+    throw new OAuthError(`${provider.name} returned an invalid ID token: ${(error as Error).message}`);
+  }
+
+  // The nonce ties the token to this sign-in, so a token from another one cannot be replayed
+  if (claims.nonce !== nonce) {
+    throw new OAuthError(`${provider.name} returned an ID token for a different sign-in`);
+  }
+  if (!claims.sub) {
+    throw new OAuthError(`${provider.name} returned an ID token without a subject`);
+  }
+  return claims as JwtPayload & { sub: string };
+}
+
+// The provider's key for a key id. The key set is fetched again once when the id is unknown, as
+// providers rotate their keys.
+async function signingKey(jwksUri: string, kid: string | undefined) {
+  const find = (keys: JsonWebKey[]) => keys.find(key => !kid || key.kid === kid);
+
+  let jwk = find(jwksCache.get(jwksUri) ?? []);
+  if (!jwk) {
+    const jwks = await requestJson(jwksUri);
+    const keys = Array.isArray(jwks.keys) ? jwks.keys.filter(isJsonWebKey) : [];
+    jwksCache.set(jwksUri, keys);
+    jwk = find(keys);
+  }
+  if (!jwk) {
+    throw new OAuthError(`No signing key ${kid ?? ''} in ${jwksUri}`);
+  }
+  return createPublicKey({ key: jwk, format: 'jwk' });
+}
+
+async function fetchGitHubIdentity(provider: OAuthProvider, accessToken: string): Promise<OAuthIdentity> {
+  const headers = {
+    Authorization: `Bearer ${accessToken}`,
+    Accept: 'application/vnd.github+json',
+    // GitHub rejects API requests without one
+    'User-Agent': 'Vaporform'
+  };
+  const apiUrl = provider.github!.apiUrl;
+  const user = await requestJson(`${apiUrl}/user`, { headers });
+  const emails = (await requestList(`${apiUrl}/user/emails`, { headers })).flatMap(entry =>
+    isObject(entry) && typeof entry.email === 'string'
+      ? [{ email: entry.email, primary: entry.primary === true, verified: entry.verified === true }]
+      : []
+  );
+  if (typeof user.id !== 'number' && typeof user.id !== 'string') {
+    throw new OAuthError(`${provider.name} returned a user without an id`);
+  }
+
+  const email = emails.find(entry => entry.primary && entry.verified)
+    ?? emails.find(entry => entry.verified)
+    ?? emails.find(entry => entry.primary);
+  return {
+    subject: String(user.id),
+    email: email?.email ?? null,
+    emailVerified: email?.verified ?? false,
+    name: nonEmptyString(user.name) ?? nonEmptyString(user.login)
+  };
+}
+
+async function providerEndpoints(provider: OAuthProvider): Promise<ProviderEndpoints> {
+  if (!provider.issuer) {
+    const { authorizationEndpoint, tokenEndpoint } = provider.github!;
+    return { issuer: provider.id, authorization_endpoint: authorizationEndpoint, token_endpoint: tokenEndpoint };
+  }
+
+  const issuer = provider.issuer.replace(/\/$/, '');
+  const cached = discoveryCache.get(issuer);
+  if (cached) {
+    return cached;
+  }
+
+  const document = await requestJson(`${issuer}/.well-known/openid-configuration`);
+  // OpenID Connect Discovery requires the document to name the issuer it was fetched from
+  if (String(document.issuer).replace(/\/$/, '') !== issuer) {
+    throw new OAuthError(`${provider.name} discovery document is for issuer ${document.issuer}, not ${issuer}`);
+  }
+  const authorizationEndpoint = nonEmptyString(document.authorization_endpoint);
+  const tokenEndpoint = nonEmptyString(document.token_endpoint);
+  const jwksUri = nonEmptyString(document.jwks_uri);
+  if (!authorizationEndpoint || !tokenEndpoint || !jwksUri) {
+    throw new OAuthError(`${provider.name} discovery document is missing endpoints`);
+  }
+
+  const endpoints: ProviderEndpoints = {
+    issuer: String(document.issuer),
+    authorization_endpoint: authorizationEndpoint,
+    token_endpoint: tokenEndpoint,
+    jwks_uri: jwksUri
+  };
+  discoveryCache.set(issuer, endpoints);
+  return endpoints;
+}
+
+// A JSON object from the provider. Fields are unchecked; callers narrow the ones they use.
+async function requestJson(url: string, init: RequestInit = {}): Promise<Record<string, unknown>> {
+  const body = await fetchJson(url, init);
+  if (!isObject(body)) {
+    throw new OAuthError(`Request to ${new URL(url).host} returned no JSON object`);
+  }
+  return body;
+}
+
+// A JSON array from the provider, such as GitHub's email addresses
+async function requestList(url: string, init: RequestInit = {}): Promise<unknown[]> {
+  const body = await fetchJson(url, init);
+  if (!Array.isArray(body)) {
+    throw new OAuthError(`Request to ${new URL(url).host} returned no JSON array`);
+  }
+  return body;
+}
+
+async function fetchJson(url: string, init: RequestInit): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  } catch (error) {
+    throw new OAuthError(`Request to ${new URL(url).host} failed: ${(error as Error).message}`);
+  }
+
+  const body: unknown = await response.json().catch(() => null);
+  // Token endpoints answer 400 with an OAuth error body, which the caller reports
+  if (!response.ok && !(isObject(body) && body.error)) {
+    throw new OAuthError(`Request to ${new URL(url).host} failed with status ${response.status}`);
+  }
+  return body;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isJsonWebKey(value: unknown): value is JsonWebKey {
+  return isObject(value) && typeof value.kty === 'string';
+}
+
+function nonEmptyString(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
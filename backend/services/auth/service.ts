@@ -1,7 +1,13 @@
-import { api } from "encore.dev/api";
+import { api, APIError } from "encore.dev/api";
+import { currentRequest } from "encore.dev";
 import * as bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
+import { randomUUID } from "node:crypto";
+import { isIP } from "node:net";
+import log from "encore.dev/log";
 import { db } from "../../utils/database";
+import { sendMail } from "../../utils/mail";
+import { requireAdmin, requireAuth } from "../../utils/auth";
 
 // Auth service uses shared database
 
@@ -9,19 +15,44 @@ import { db } from "../../utils/database";
 const JWT_SECRET = process.env.JWT_SECRET || "your-super-secret-jwt-key";
 const JWT_EXPIRES_IN = "7d";
 const REFRESH_TOKEN_EXPIRES_DAYS = 30;
+const MAX_USER_AGENT_LENGTH = 512;
+// Time allowed between the password check and the second factor
+export const MFA_CHALLENGE_EXPIRES_SECONDS = 5 * 60;
+const VERIFY_EMAIL_EXPIRES_SECONDS = 24 * 60 * 60;
+const RESET_PASSWORD_EXPIRES_SECONDS = 60 * 60;
+// Time allowed between issuing a stream ticket and opening the WebSocket with it
+const STREAM_TICKET_EXPIRES_SECONDS = 30;
+// Where emailed links and OAuth providers send users back to
+export const APP_URL = (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
 
 // Types
 interface User {
   id: string;
   email: string;
-  password_hash: string;
+  // Null for accounts created by signing in with an OAuth provider
+  password_hash: string | null;
   name: string;
   created_at: Date;
   updated_at: Date;
   email_verified: boolean;
   last_login: Date | null;
+  role: UserRole;
+  mfa_enabled: boolean;
 }
 
+// A user as loaded for a sign-in, without the password hash
+export type SessionUser = Omit<User, 'password_hash'>;
+
+// Mirrors UserRole in shared/src/types/user.ts
+export type UserRole = 'admin' | 'user' | 'viewer';
+
+// What a token in an emailed link is for
+export type EmailTokenPurpose = 'verify_email' | 'reset_password';
+
+// The caller an access token or stream ticket resolves to, with the session it belongs to (null for
+// tokens issued before tokens named one)
+export type TokenUser = User & { session_id: string | null };
+
 interface Session {
   id: string;
   user_id: string;
@@ -30,24 +61,30 @@ interface Session {
   created_at: Date;
   ip_address: string | null;
   user_agent: string | null;
+  generation: number;
+  last_used_at: Date | null;
+}
+
+// Claims of a refresh token. Tokens issued before sessions rotated carry no sid or gen.
+interface RefreshClaims {
+  userId: string;
+  type: string;
+  sid?: string;
+  gen?: number;
 }
 
 interface LoginRequest {
   email: string;
   password: string;
-  ip_address?: string;
-  user_agent?: string;
 }
 
 interface RegisterRequest {
   email: string;
   password: string;
   name: string;
-  ip_address?: string;
-  user_agent?: string;
 }
 
-interface AuthResponse {
+export interface AuthResponse {
   token: string;
   refreshToken: string;
   user: {
@@ -56,31 +93,248 @@ interface AuthResponse {
     name: string;
     email_verified: boolean;
     last_login: Date | null;
+    role: UserRole;
+    mfa_enabled: boolean;
   };
 }
 
-interface RefreshTokenRequest {
-  refreshToken: string;
+// Returned by login instead of tokens when the account has MFA enabled; the sign-in is
+// finished by POST /auth/login/mfa with this token and a code
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaToken: string;
+  expiresIn: number;
 }
 
-interface LogoutRequest {
-  token: string;
+interface StreamTicketResponse {
+  ticket: string;
+  // Seconds left to open the WebSocket
+  expiresIn: number;
+}
+
+interface RefreshTokenRequest {
+  refreshToken: string;
 }
 
 // Helper functions
-function generateTokens(userId: string) {
-  const token = jwt.sign({ userId, type: 'access' }, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
-  const refreshToken = jwt.sign({ userId, type: 'refresh' }, JWT_SECRET, { expiresIn: `${REFRESH_TOKEN_EXPIRES_DAYS}d` });
+
+// Both tokens name their session (sid); the refresh token also carries the session's generation,
+// which goes up each time the refresh token is rotated
+function generateTokens(userId: string, sessionId: string, generation: number) {
+  const token = jwt.sign({ userId, type: 'access', sid: sessionId }, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
+  const refreshToken = jwt.sign(
+    { userId, type: 'refresh', sid: sessionId, gen: generation },
+    JWT_SECRET,
+    { expiresIn: `${REFRESH_TOKEN_EXPIRES_DAYS}d` }
+  );
   return { token, refreshToken };
 }
 
-function createUserResponse(user: User): AuthResponse['user'] {
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Where the current request comes from. Each proxy appends the address it got the request from to
+// X-Forwarded-For, and anything before that is whatever the client sent, so the client address is
+// the entry TRUSTED_PROXY_HOPS (default 1, the proxy in front of the app) from the right. Values that
+// are not addresses, or a header with fewer entries than proxies, give no address.
+function requestClient(): { ipAddress: string | null; userAgent: string | null } {
+  const meta = currentRequest();
+  const headers = meta?.type === 'api-call' ? meta.headers : {};
+  const header = (name: string): string | undefined => {
+    const key = Object.keys(headers).find(candidate => candidate.toLowerCase() === name);
+    const value = key === undefined ? undefined : headers[key];
+    return Array.isArray(value) ? value.join(',') : value;
+  };
+
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  const entries = header('x-forwarded-for')?.split(',').map(entry => entry.trim()) ?? [];
+  const forwarded = Number.isInteger(hops) && hops > 0 ? entries[entries.length - hops] : undefined;
+  const userAgent = header('user-agent')?.trim();
+  return {
+    ipAddress: forwarded && isIP(forwarded) ? forwarded : null,
+    userAgent: userAgent ? userAgent.slice(0, MAX_USER_AGENT_LENGTH) : null
+  };
+}
+
+function createUserResponse(user: SessionUser): AuthResponse['user'] {
   return {
     id: user.id,
     email: user.email,
     name: user.name,
     email_verified: user.email_verified,
     last_login: user.last_login,
+    role: user.role,
+    mfa_enabled: user.mfa_enabled,
+  };
+}
+
+// The token names the user's outstanding challenge (jti), which the second step clears, so each
+// challenge completes one sign-in; a new password check replaces the challenge
+async function createMfaChallenge(userId: string): Promise<MfaChallengeResponse> {
+  const challengeId = randomUUID();
+  await db.exec`UPDATE users SET mfa_challenge_id = ${challengeId} WHERE id = ${userId}`;
+  const mfaToken = jwt.sign({ userId, type: 'mfa' }, JWT_SECRET, {
+    expiresIn: MFA_CHALLENGE_EXPIRES_SECONDS,
+    jwtid: challengeId
+  });
+  return { mfaRequired: true, mfaToken, expiresIn: MFA_CHALLENGE_EXPIRES_SECONDS };
+}
+
+// The user and challenge an MFA challenge token was issued for, or null when it is invalid or expired
+export function readMfaChallenge(mfaToken: string): { userId: string; challengeId: string } | null {
+  try {
+    const decoded = jwt.verify(mfaToken, JWT_SECRET) as { userId: string; type: string; jti?: string };
+    return decoded.type === 'mfa' && decoded.jti ? { userId: decoded.userId, challengeId: decoded.jti } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Tokens for emailed links: a JWT naming a user_tokens row, which is marked used when the token is
+// redeemed, so each link works once
+async function createEmailToken(
+  user: { id: string; email: string },
+  purpose: EmailTokenPurpose,
+  expiresInSeconds: number
+): Promise<string> {
+  const expiresAt = new Date(Date.now() + expiresInSeconds * 1000);
+  const row = await db.queryRow`
+    INSERT INTO user_tokens (user_id, purpose, email, expires_at)
+    VALUES (${user.id}, ${purpose}, ${user.email}, ${expiresAt})
+    RETURNING id::text
+  `;
+  return jwt.sign({ userId: user.id, type: purpose, email: user.email }, JWT_SECRET, {
+    expiresIn: expiresInSeconds,
+    jwtid: row!.id
+  });
+}
+
+// Use up a token from an emailed link. Returns the user and address it was sent to, or null when
+// the token is invalid, expired or already used.
+export async function consumeEmailToken(
+  token: string,
+  purpose: EmailTokenPurpose
+): Promise<{ userId: string; email: string } | null> {
+  let decoded: { userId: string; type: string; jti?: string };
+  try {
+    decoded = jwt.verify(token, JWT_SECRET) as typeof decoded;
+  } catch {
+    return null;
+  }
+  if (decoded.type !== purpose || !decoded.jti) {
+    return null;
+  }
+
+  const row = await db.queryRow`
+    UPDATE user_tokens SET used_at = NOW()
+    WHERE id = ${decoded.jti} AND user_id = ${decoded.userId} AND purpose = ${purpose}
+      AND used_at IS NULL AND expires_at > NOW()
+    RETURNING user_id::text, email
+  `;
+  return row ? { userId: row.user_id, email: row.email } : null;
+}
+
+// Whether a link for this purpose went out in the last minute, to keep resends from flooding inboxes
+export async function emailRecentlySent(userId: string, purpose: EmailTokenPurpose): Promise<boolean> {
+  const row = await db.queryRow`
+    SELECT 1 AS sent FROM user_tokens
+    WHERE user_id = ${userId} AND purpose = ${purpose} AND created_at > NOW() - INTERVAL '1 minute'
+    LIMIT 1
+  `;
+  return !!row;
+}
+
+export async function sendVerificationEmail(user: { id: string; email: string; name: string }): Promise<void> {
+  const token = await createEmailToken(user, 'verify_email', VERIFY_EMAIL_EXPIRES_SECONDS);
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your Vaporform email address',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Confirm this is your email address by opening the link below:',
+      '',
+      `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`,
+      '',
+      'The link works once and expires in 24 hours.'
+    ].join('\n')
+  });
+}
+
+export async function sendPasswordResetEmail(user: { id: string; email: string; name: string }): Promise<void> {
+  const token = await createEmailToken(user, 'reset_password', RESET_PASSWORD_EXPIRES_SECONDS);
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your Vaporform password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Someone asked to reset the password for your account. To choose a new password, open the link below:',
+      '',
+      `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`,
+      '',
+      'The link works once and expires in 1 hour. If you did not ask for this, you can ignore this email.'
+    ].join('\n')
+  });
+}
+
+// Set a new password and sign the user out everywhere: sessions (refresh tokens) are deleted and
+// access tokens issued before now stop validating
+export async function setPassword(userId: string, password: string): Promise<void> {
+  const password_hash = await bcrypt.hash(password, 12);
+  const tx = await db.begin();
+  try {
+    // App time rather than NOW(), as it is compared with the JWT iat the app writes
+    await tx.exec`
+      UPDATE users SET password_hash = ${password_hash}, password_changed_at = ${new Date()} WHERE id = ${userId}
+    `;
+    await tx.exec`DELETE FROM sessions WHERE user_id = ${userId}`;
+    await tx.commit();
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+  log.info("Password changed; sessions revoked", { userId });
+}
+
+// Finish the first sign-in step (a password or an OAuth provider): accounts with MFA get a
+// challenge for the second step and others get tokens. The count of wrong codes carries over, so
+// checking the password again does not buy more guesses.
+export async function completeFirstFactor(user: SessionUser): Promise<AuthResponse | MfaChallengeResponse> {
+  if (user.mfa_enabled) {
+    return createMfaChallenge(user.id);
+  }
+
+  return startSession(user);
+}
+
+// Record the sign-in and issue tokens, once every factor has been checked. The session list shows
+// where it came from, taken from the request headers rather than anything the client claims.
+export async function startSession(user: SessionUser): Promise<AuthResponse> {
+  await db.exec`
+    UPDATE users 
+    SET last_login = NOW()
+    WHERE id = ${user.id}
+  `;
+  user.last_login = new Date();
+
+  const sessionId = randomUUID();
+  const { token, refreshToken } = generateTokens(user.id, sessionId, 0);
+  const client = requestClient();
+
+  await db.exec`
+    INSERT INTO sessions (id, user_id, token, expires_at, ip_address, user_agent, last_used_at)
+    VALUES (
+      ${sessionId}, ${user.id}, ${refreshToken}, ${refreshExpiry()},
+      ${client.ipAddress}, ${client.userAgent}, NOW()
+    )
+  `;
+
+  return {
+    token,
+    refreshToken,
+    user: createUserResponse(user),
   };
 }
 
@@ -110,7 +364,7 @@ export const register = api(
 
       // Get the created user
       const userResult = await db.query`
-        SELECT id::text, email, name, created_at, updated_at, email_verified, last_login
+        SELECT id::text, email, name, created_at, updated_at, email_verified, last_login, role, mfa_enabled
         FROM users 
         WHERE email = ${req.email}
       `;
@@ -124,22 +378,15 @@ export const register = api(
       if (!user) {
         throw new Error("Failed to create user - user not found after insert");
       }
-      
-      // Generate tokens
-      const { token, refreshToken } = generateTokens(user.id);
-      
-      // Create session
-      const expiresAt = new Date(Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
-      await db.query`
-        INSERT INTO sessions (user_id, token, expires_at, ip_address, user_agent)
-        VALUES (${user.id}, ${refreshToken}, ${expiresAt}, ${req.ip_address || null}, ${req.user_agent || null})
-      `;
 
-      return {
-        token,
-        refreshToken,
-        user: createUserResponse(user),
-      };
+      // A mail outage should not block sign-up; the user can ask for another email from settings
+      try {
+        await sendVerificationEmail(user);
+      } catch (mailError) {
+        log.warn("Failed to send verification email", { error: (mailError as Error).message, userId: user.id });
+      }
+      
+      return await startSession(user);
     } catch (error) {
       throw new Error(`Registration failed: ${error.message}`);
     }
@@ -148,11 +395,11 @@ export const register = api(
 
 export const login = api(
   { method: "POST", path: "/auth/login" },
-  async (req: LoginRequest): Promise<AuthResponse> => {
+  async (req: LoginRequest): Promise<AuthResponse | MfaChallengeResponse> => {
     try {
       // Find user by email
       const userResult = await db.query`
-        SELECT id::text, email, password_hash, name, created_at, updated_at, email_verified, last_login
+        SELECT id::text, email, password_hash, name, created_at, updated_at, email_verified, last_login, role, mfa_enabled
         FROM users 
         WHERE email = ${req.email}
       `;
@@ -163,7 +410,8 @@ export const login = api(
         break; // We only want the first row
       }
 
-      if (!user) {
+      // Accounts created through an OAuth provider have no password to check
+      if (!user || !user.password_hash) {
         throw new Error("Invalid email or password");
       }
 
@@ -173,86 +421,87 @@ export const login = api(
         throw new Error("Invalid email or password");
       }
 
-      // Update last login
-      await db.query`
-        UPDATE users 
-        SET last_login = NOW()
-        WHERE id = ${user.id}
-      `;
-      user.last_login = new Date();
-
-      // Generate tokens
-      const { token, refreshToken } = generateTokens(user.id);
-      
-      // Create session
-      const expiresAt = new Date(Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
-      await db.query`
-        INSERT INTO sessions (user_id, token, expires_at, ip_address, user_agent)
-        VALUES (${user.id}, ${refreshToken}, ${expiresAt}, ${req.ip_address || null}, ${req.user_agent || null})
-      `;
-
-      return {
-        token,
-        refreshToken,
-        user: createUserResponse(user),
-      };
+      return await completeFirstFactor(user);
     } catch (error) {
       throw new Error(`Login failed: ${error.message}`);
     }
   }
 );
 
+// Sign out the session the access token belongs to: its refresh token stops working and its access
+// tokens stop validating. Tokens from before sessions were named in them have nothing to sign out.
 export const logout = api(
-  { method: "POST", path: "/auth/logout" },
-  async (req: LogoutRequest): Promise<{ success: boolean }> => {
-    try {
-      // Delete session
-      await db.query`
-        DELETE FROM sessions WHERE token = ${req.token}
-      `;
-      
+  { method: "POST", path: "/auth/logout", auth: true },
+  async (): Promise<{ success: boolean }> => {
+    const user = requireAuth();
+    if (!user.session_id) {
       return { success: true };
+    }
+
+    try {
+      await db.exec`DELETE FROM sessions WHERE id = ${user.session_id} AND user_id = ${user.id}`;
     } catch (error) {
-      throw new Error(`Logout failed: ${error.message}`);
+      log.error("Failed to sign out", { error: (error as Error).message, userId: user.id });
+      throw APIError.internal("Failed to sign out");
     }
+
+    log.info("Signed out", { userId: user.id, sessionId: user.session_id });
+    return { success: true };
   }
 );
 
+// Each refresh token works once: using it rotates the session to a new refresh token. A refresh
+// token from an earlier generation of a live session means the token was copied and one of the
+// copies has already been used, so the whole session is revoked, signing out both holders.
 export const refreshToken = api(
   { method: "POST", path: "/auth/refresh" },
   async (req: RefreshTokenRequest): Promise<{ token: string; refreshToken: string }> => {
     try {
       // Verify refresh token
-      const decoded = jwt.verify(req.refreshToken, JWT_SECRET) as { userId: string; type: string };
+      const decoded = jwt.verify(req.refreshToken, JWT_SECRET) as RefreshClaims;
       
       if (decoded.type !== 'refresh') {
         throw new Error("Invalid token type");
       }
 
-      // Check if session exists and is not expired
-      const sessionResult = await db.query`
-        SELECT id, user_id, expires_at
-        FROM sessions 
-        WHERE token = ${req.refreshToken} AND expires_at > NOW()
-      `;
-
-      if (sessionResult.length === 0) {
+      // Tokens from before rotation are found by value, and are rotated into a session family
+      const session = (decoded.sid
+        ? await db.queryRow`
+            SELECT id::text, user_id::text, generation FROM sessions
+            WHERE id = ${decoded.sid} AND user_id = ${decoded.userId} AND expires_at > NOW()
+          `
+        : await db.queryRow`
+            SELECT id::text, user_id::text, generation FROM sessions
+            WHERE token = ${req.refreshToken} AND expires_at > NOW()
+          `) as Pick<Session, 'id' | 'user_id' | 'generation'> | null;
+
+      if (!session) {
         throw new Error("Invalid or expired refresh token");
       }
 
-      const session = sessionResult[0] as Session;
+      const generation = decoded.sid ? decoded.gen ?? 0 : session.generation;
+      const tokens = generateTokens(session.user_id, session.id, generation + 1);
 
-      // Generate new tokens
-      const tokens = generateTokens(session.user_id);
-      
-      // Update session with new refresh token
-      const newExpiresAt = new Date(Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
-      await db.query`
+      // Only one request can move the session past this generation
+      const rotated = await db.queryRow`
         UPDATE sessions 
-        SET token = ${tokens.refreshToken}, expires_at = ${newExpiresAt}
-        WHERE id = ${session.id}
+        SET token = ${tokens.refreshToken}, generation = ${generation + 1},
+            expires_at = ${refreshExpiry()}, last_used_at = NOW()
+        WHERE id = ${session.id} AND generation = ${generation}
+        RETURNING id::text
       `;
 
+      if (!rotated) {
+        await db.exec`DELETE FROM sessions WHERE id = ${session.id}`;
+        log.warn("Refresh token reused; session revoked", {
+          userId: session.user_id,
+          sessionId: session.id,
+          generation,
+          current: session.generation
+        });
+        throw new Error("Refresh token was already used; please sign in again");
+      }
+
       return {
         token: tokens.token,
         refreshToken: tokens.refreshToken,
@@ -263,8 +512,31 @@ export const refreshToken = api(
   }
 );
 
-// Token validation function for use by other services
-export const validateToken = async (token: string): Promise<User | null> => {
+// A ticket for opening a WebSocket. Browsers cannot set headers on a WebSocket, so the ticket goes
+// in the query string in place of the access token; it names a stream_tickets row, which makes it
+// single-use, and expires after 30 seconds.
+export const createStreamTicket = api(
+  { method: "POST", path: "/auth/stream-ticket", auth: true },
+  async (): Promise<StreamTicketResponse> => {
+    const user = requireAuth();
+    const expiresAt = new Date(Date.now() + STREAM_TICKET_EXPIRES_SECONDS * 1000);
+    const row = await db.queryRow`
+      INSERT INTO stream_tickets (user_id, session_id, expires_at)
+      VALUES (${user.id}, ${user.session_id}, ${expiresAt})
+      RETURNING id::text
+    `;
+    const ticket = jwt.sign(
+      { userId: user.id, type: 'stream', sid: user.session_id ?? undefined },
+      JWT_SECRET,
+      { expiresIn: STREAM_TICKET_EXPIRES_SECONDS, jwtid: row!.id }
+    );
+    return { ticket, expiresIn: STREAM_TICKET_EXPIRES_SECONDS };
+  }
+);
+
+// Token validation function for use by other services. Access tokens stop validating when their
+// session is signed out, revoked or expires.
+export const validateToken = async (token: string): Promise<TokenUser | null> => {
   try {
     // Extract token from Bearer format if needed
     let authToken = token;
@@ -273,40 +545,80 @@ export const validateToken = async (token: string): Promise<User | null> => {
     }
 
     // Verify JWT token
-    const decoded = jwt.verify(authToken, JWT_SECRET) as { userId: string; type: string };
+    const decoded = jwt.verify(authToken, JWT_SECRET) as { userId: string; type: string; iat: number; sid?: string };
     
     if (decoded.type !== 'access') {
       return null;
     }
 
-    // Get user from database
-    const userResult = await db.query`
-      SELECT id, email, name, created_at, updated_at, email_verified, last_login
-      FROM users 
-      WHERE id = ${decoded.userId}
-    `;
-
-    if (userResult.length === 0) {
-      return null;
-    }
-
-    return userResult[0] as User;
+    return await loadTokenUser(decoded.userId, decoded.sid, decoded.iat);
   } catch (error) {
     return null;
   }
 };
 
+// Use up a ticket from POST /auth/stream-ticket. Returns the user it was issued to, or null when the
+// ticket is invalid, expired or already used, or its session has ended.
+export async function redeemStreamTicket(ticket: string): Promise<TokenUser | null> {
+  let decoded: { userId: string; type: string; iat: number; sid?: string; jti?: string };
+  try {
+    decoded = jwt.verify(ticket, JWT_SECRET) as typeof decoded;
+  } catch {
+    return null;
+  }
+  if (decoded.type !== 'stream' || !decoded.jti) {
+    return null;
+  }
+
+  const row = await db.queryRow`
+    UPDATE stream_tickets SET used_at = NOW()
+    WHERE id = ${decoded.jti} AND user_id = ${decoded.userId} AND used_at IS NULL AND expires_at > NOW()
+    RETURNING id
+  `;
+  return row ? loadTokenUser(decoded.userId, decoded.sid, decoded.iat) : null;
+}
+
+// The user a token names, provided its session is live and the password has not changed since the
+// token was issued. iat has whole seconds, so a token from the same second as a password change is
+// still accepted.
+async function loadTokenUser(userId: string, sessionId: string | undefined, issuedAt: number): Promise<TokenUser | null> {
+  if (sessionId) {
+    const session = await db.queryRow`
+      SELECT 1 AS live FROM sessions
+      WHERE id = ${sessionId} AND user_id = ${userId} AND expires_at > NOW()
+    `;
+    if (!session) {
+      return null;
+    }
+  }
+
+  const user = await db.queryRow`
+    SELECT id::text, email, name, created_at, updated_at, email_verified, last_login, role, mfa_enabled
+    FROM users 
+    WHERE id = ${userId}
+      AND (password_changed_at IS NULL OR password_changed_at < to_timestamp(${issuedAt + 1}::float8))
+  `;
+
+  return user ? { ...(user as User), session_id: sessionId ?? null } : null;
+}
+
+// A user as needed to start a session, or null when there is none with this id
+export async function loadSessionUser(userId: string): Promise<SessionUser | null> {
+  const user = await db.queryRow`
+    SELECT id::text, email, name, created_at, updated_at, email_verified, last_login, role, mfa_enabled
+    FROM users
+    WHERE id = ${userId}
+  `;
+  return (user as SessionUser | null) ?? null;
+}
+
 export const getCurrentUser = api(
-  { method: "GET", path: "/auth/me" },
-  async (req: { authorization?: string }): Promise<{ user: AuthResponse['user'] }> => {
+  { method: "GET", path: "/auth/me", auth: true },
+  async (): Promise<{ user: AuthResponse['user'] }> => {
     try {
-      if (!req.authorization) {
-        throw new Error("Authorization header required");
-      }
-
-      const user = await validateToken(req.authorization);
+      const user = await loadSessionUser(requireAuth().id);
       if (!user) {
-        throw new Error("Invalid token");
+        throw new Error("User not found");
       }
 
       return {
@@ -318,9 +630,9 @@ export const getCurrentUser = api(
   }
 );
 
-// Legacy verify endpoint for backward compatibility
+// Legacy verify endpoint for backward compatibility; the gateway rejects invalid tokens
 export const verify = api(
-  { method: "GET", path: "/auth/verify" },
+  { method: "GET", path: "/auth/verify", auth: true },
   async (): Promise<{ valid: boolean }> => {
     return { valid: true };
   }
@@ -328,18 +640,20 @@ export const verify = api(
 
 // Production endpoints only - debug endpoints removed
 
-// Cleanup expired sessions (utility endpoint)
+// Cleanup expired sessions (utility endpoint, administrators only)
 export const cleanupSessions = api(
-  { method: "POST", path: "/auth/cleanup-sessions" },
+  { method: "POST", path: "/auth/cleanup-sessions", auth: true },
   async (): Promise<{ cleaned: number }> => {
+    requireAdmin();
     try {
-      const result = await db.query`
-        DELETE FROM sessions WHERE expires_at < NOW()
+      const deleted = await db.queryAll`
+        DELETE FROM sessions WHERE expires_at < NOW() RETURNING id
       `;
-      
-      return { cleaned: result.affectedRows || 0 };
+
+      return { cleaned: deleted.length };
     } catch (error) {
-      throw new Error(`Session cleanup failed: ${error.message}`);
+      log.error("Session cleanup failed", { error: (error as Error).message });
+      throw APIError.internal("Session cleanup failed");
     }
   }
 );
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
+
+// The signed-in user's sessions: one per sign-in, each holding a refresh token that rotates on use.
+// Revoking a session deletes it, which also stops its access tokens from validating.
+
+interface SessionInfo {
+  id: string;
+  // Whether this is the session making the request
+  current: boolean;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  // Last sign-in or token refresh
+  lastUsedAt: Date | null;
+  expiresAt: Date;
+}
+
+// API Endpoints
+
+export const listSessions = api(
+  { method: "GET", path: "/auth/sessions", auth: true },
+  async (): Promise<{ sessions: SessionInfo[] }> => {
+    const user = requireAuth();
+    const rows = await db.queryAll`
+      SELECT id::text, host(ip_address) AS ip_address, user_agent, created_at, last_used_at, expires_at
+      FROM sessions
+      WHERE user_id = ${user.id} AND expires_at > NOW()
+      ORDER BY COALESCE(last_used_at, created_at) DESC
+    `;
+
+    return {
+      sessions: rows.map(row => ({
+        id: row.id,
+        current: row.id === user.session_id,
+        ipAddress: row.ip_address,
+        userAgent: row.user_agent,
+        createdAt: row.created_at,
+        lastUsedAt: row.last_used_at,
+        expiresAt: row.expires_at
+      }))
+    };
+  }
+);
+
+export const revokeSession = api(
+  { method: "DELETE", path: "/auth/sessions/:id", auth: true },
+  async ({ id }: { id: string }): Promise<{ success: boolean }> => {
+    const user = requireAuth();
+    const row = await db.queryRow`
+      DELETE FROM sessions WHERE id::text = ${id} AND user_id = ${user.id}
+      RETURNING id::text
+    `;
+    if (!row) {
+      throw APIError.notFound("Session not found");
+    }
+
+    log.info("Session revoked", { userId: user.id, sessionId: id });
+    return { success: true };
+  }
+);
+
+// Sign out everywhere but here. Tokens from before sessions were named in them have no current
+// session, so for those this signs out everywhere.
+export const revokeOtherSessions = api(
+  { method: "POST", path: "/auth/sessions/revoke-others", auth: true },
+  async (): Promise<{ revoked: number }> => {
+    const user = requireAuth();
+    const rows = await db.queryAll`
+      DELETE FROM sessions
+      WHERE user_id = ${user.id} AND id::text IS DISTINCT FROM ${user.session_id}
+      RETURNING id::text
+    `;
+
+    log.info("Other sessions revoked", { userId: user.id, revoked: rows.length });
+    return { revoked: rows.length };
+  }
+);
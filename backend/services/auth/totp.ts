@@ -0,0 +1,102 @@
+import { createHmac, randomBytes } from "node:crypto";
+
+// Time-based one-time passwords (RFC 6238) with the parameters authenticator apps assume:
+// HMAC-SHA1, 6 digits and a 30 second step. Secrets are exchanged as unpadded base32.
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+// Codes from this many steps either side of now are accepted, for clocks that drift
+export const TOTP_WINDOW = 1;
+
+const SECRET_BYTES = 20;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function generateSecret(): string {
+  return base32Encode(randomBytes(SECRET_BYTES));
+}
+
+// The time step a moment falls in
+export function timeStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+// The code for a time step (RFC 4226 HOTP with the step as counter)
+export function generateCode(secret: string, step: number = timeStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const digest = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+
+  // Dynamic truncation
+  const offset = digest[digest.length - 1]! & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+// The step a code belongs to, or null when it matches no step in the window. Steps at or before
+// `lastStep` are skipped, so a code that was already used is not accepted again.
+export function verifyCode(
+  secret: string,
+  code: string,
+  options: { time?: number; lastStep?: number | null } = {}
+): number | null {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+
+  const current = timeStep(options.time);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (options.lastStep != null && step <= options.lastStep) continue;
+    if (generateCode(secret, step) === code) return step;
+  }
+  return null;
+}
+
+// Key URI that authenticator apps read from the enrollment QR code
+export function otpauthUri(secret: string, account: string, issuer: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+// Accepts lower case, spaces and padding, as people type secrets in by hand
+export function base32Decode(encoded: string): Buffer {
+  const clean = encoded.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
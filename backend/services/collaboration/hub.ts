@@ -0,0 +1,504 @@
+import { randomUUID } from "node:crypto";
+
+// Transport-independent collaboration rooms: one room per project, holding presence and
+// relaying typed messages between its connections. The Encore endpoint in service.ts
+// plugs WebSocket streams into it; tests drive it directly (see tests/collaboration-harness.ts).
+
+// Interfaces (mirrors shared/src/types/websocket.ts)
+export type MessageType =
+  | 'cursor_move'
+  | 'text_change'
+  | 'selection_change'
+  | 'file_open'
+  | 'file_close'
+  | 'chat_message'
+  | 'user_join'
+  | 'user_leave'
+  | 'ping'
+  | 'pong'
+  | 'error'
+  | 'sync_request'
+  | 'sync_response'
+  | 'document_change'
+  | 'status_update';
+
+export type ParticipantRole = 'owner' | 'collaborator' | 'viewer';
+
+export interface WebSocketMessage {
+  id: string;
+  type: MessageType;
+  payload: any;
+  timestamp: Date;
+  userId: string;
+  sessionId: string;
+}
+
+// What clients send: the server fills in id, timestamp, userId and sessionId
+export interface ClientMessage {
+  id?: string;
+  type: MessageType;
+  payload?: any;
+}
+
+export interface SessionParticipant {
+  userId: string;
+  userName: string;
+  role: ParticipantRole;
+  color: string;
+  joinedAt: Date;
+  lastSeen: Date;
+  isOnline: boolean;
+  currentDocument?: string;
+  status?: 'online' | 'away' | 'busy' | 'offline';
+}
+
+export interface CursorPosition {
+  userId: string;
+  fileId: string;
+  line: number;
+  column: number;
+  timestamp: Date;
+}
+
+export interface SelectionRange {
+  userId: string;
+  fileId: string;
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  timestamp: Date;
+}
+
+export interface CollaborationSession {
+  id: string;
+  projectId: string;
+  participants: SessionParticipant[];
+  cursors: CursorPosition[];
+  selections: SelectionRange[];
+  operations: never[];
+  createdAt: Date;
+  updatedAt: Date;
+  isActive: boolean;
+}
+
+export interface ChatMessage {
+  id: string;
+  sessionId: string;
+  userId: string;
+  userName: string;
+  content: string;
+  type: 'text' | 'system' | 'code_share';
+  mentions: string[];
+  timestamp: Date;
+}
+
+export interface HubUser {
+  id: string;
+  name: string;
+  role: ParticipantRole;
+}
+
+// How the hub reaches one client
+export interface HubTransport {
+  send(message: WebSocketMessage): void;
+  close(reason: string): void;
+}
+
+export interface HubConnection {
+  readonly id: string;
+  readonly projectId: string;
+  readonly sessionId: string;
+  readonly user: HubUser;
+}
+
+export interface HubOptions {
+  // Connections silent for longer than this are dropped by sweep()
+  idleTimeoutMs?: number;
+  chatHistoryLimit?: number;
+  now?: () => Date;
+  generateId?: () => string;
+}
+
+interface ConnectionState extends HubConnection {
+  transport: HubTransport;
+  lastActivity: number;
+}
+
+interface Room {
+  id: string;
+  projectId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  connections: Map<string, ConnectionState>;
+  participants: Map<string, SessionParticipant>;
+  cursors: Map<string, CursorPosition>;
+  selections: Map<string, SelectionRange>;
+  chat: ChatMessage[];
+}
+
+export class HubError extends Error {
+  constructor(readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+const USER_COLORS = [
+  '#007acc', '#d73a49', '#28a745', '#ffc107', '#e83e8c',
+  '#6f42c1', '#fd7e14', '#20c997', '#6610f2', '#17a2b8'
+];
+
+const DEFAULT_IDLE_TIMEOUT_MS = 60_000;
+const DEFAULT_CHAT_HISTORY = 200;
+const MAX_CHAT_LENGTH = 4000;
+
+// Sent by the server only; clients may not forge them
+const SERVER_MESSAGES: MessageType[] = ['user_join', 'user_leave', 'pong', 'error', 'sync_response'];
+// Messages that change files, which viewers may not send
+const EDIT_MESSAGES: MessageType[] = ['text_change', 'document_change'];
+
+export class CollaborationHub {
+  private rooms = new Map<string, Room>();
+  private readonly idleTimeoutMs: number;
+  private readonly chatHistoryLimit: number;
+  private readonly now: () => Date;
+  private readonly generateId: () => string;
+
+  constructor(options: HubOptions = {}) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.chatHistoryLimit = options.chatHistoryLimit ?? DEFAULT_CHAT_HISTORY;
+    this.now = options.now ?? (() => new Date());
+    this.generateId = options.generateId ?? randomUUID;
+  }
+
+  // Add a connection to its project's room. The client receives a session snapshot and
+  // the rest of the room a user_join when this is the user's first connection.
+  join(projectId: string, user: HubUser, transport: HubTransport): HubConnection {
+    const now = this.now();
+    let room = this.rooms.get(projectId);
+    if (!room) {
+      room = {
+        id: this.generateId(),
+        projectId,
+        createdAt: now,
+        updatedAt: now,
+        connections: new Map(),
+        participants: new Map(),
+        cursors: new Map(),
+        selections: new Map(),
+        chat: []
+      };
+      this.rooms.set(projectId, room);
+    }
+
+    const connection: ConnectionState = {
+      id: this.generateId(),
+      projectId,
+      sessionId: room.id,
+      user,
+      transport,
+      lastActivity: now.getTime()
+    };
+    room.connections.set(connection.id, connection);
+
+    let participant = room.participants.get(user.id);
+    const firstConnection = !participant;
+    if (!participant) {
+      participant = {
+        userId: user.id,
+        userName: user.name,
+        role: user.role,
+        color: this.pickColor(room),
+        joinedAt: now,
+        lastSeen: now,
+        isOnline: true,
+        status: 'online'
+      };
+      room.participants.set(user.id, participant);
+    }
+    room.updatedAt = now;
+
+    this.deliver(connection, this.message(room, user.id, 'sync_response', { session: this.snapshot(room) }));
+    if (firstConnection) {
+      this.broadcast(room, this.message(room, user.id, 'user_join', {
+        userId: user.id,
+        userName: user.name,
+        color: participant.color,
+        role: user.role,
+        timestamp: now
+      }), connection.id);
+    }
+
+    return connection;
+  }
+
+  // Handle one message from a client. Invalid messages are answered with an `error` message
+  // to the sender rather than thrown.
+  receive(handle: HubConnection, incoming: ClientMessage): void {
+    const room = this.rooms.get(handle.projectId);
+    const connection = room?.connections.get(handle.id);
+    if (!room || !connection) {
+      return;
+    }
+
+    const now = this.now();
+    connection.lastActivity = now.getTime();
+    const participant = room.participants.get(connection.user.id);
+    if (participant) {
+      participant.lastSeen = now;
+    }
+
+    try {
+      this.dispatch(room, connection, incoming, now);
+    } catch (error) {
+      const hubError = error instanceof HubError ? error : new HubError('internal', 'Failed to handle message');
+      this.deliver(connection, this.message(room, connection.user.id, 'error', {
+        code: hubError.code,
+        message: hubError.message,
+        ...(incoming?.id ? { details: { messageId: incoming.id } } : {})
+      }));
+    }
+  }
+
+  // Remove a connection. The user leaves the room once their last connection is gone.
+  leave(handle: HubConnection, reason = 'disconnected'): void {
+    const room = this.rooms.get(handle.projectId);
+    if (!room || !room.connections.delete(handle.id)) {
+      return;
+    }
+
+    const userId = handle.user.id;
+    const stillConnected = Array.from(room.connections.values()).some(connection => connection.user.id === userId);
+    if (!stillConnected) {
+      room.participants.delete(userId);
+      room.cursors.delete(userId);
+      room.selections.delete(userId);
+      room.updatedAt = this.now();
+      this.broadcast(room, this.message(room, userId, 'user_leave', { userId, reason }));
+    }
+
+    if (room.connections.size === 0) {
+      this.rooms.delete(handle.projectId);
+    }
+  }
+
+  // Drop connections that have been silent for longer than the idle timeout. Clients are
+  // expected to send `ping` well within it. Returns the number of connections dropped.
+  sweep(): number {
+    const cutoff = this.now().getTime() - this.idleTimeoutMs;
+    let dropped = 0;
+    for (const room of Array.from(this.rooms.values())) {
+      for (const connection of Array.from(room.connections.values())) {
+        if (connection.lastActivity < cutoff) {
+          this.leave(connection, 'timeout');
+          connection.transport.close('Heartbeat timeout');
+          dropped++;
+        }
+      }
+    }
+    return dropped;
+  }
+
+  getSession(projectId: string): CollaborationSession | null {
+    const room = this.rooms.get(projectId);
+    return room ? this.snapshot(room) : null;
+  }
+
+  findSession(sessionId: string): CollaborationSession | null {
+    const room = Array.from(this.rooms.values()).find(candidate => candidate.id === sessionId);
+    return room ? this.snapshot(room) : null;
+  }
+
+  listSessions(): CollaborationSession[] {
+    return Array.from(this.rooms.values()).map(room => this.snapshot(room));
+  }
+
+  // Chat history of a session, oldest first
+  getChatHistory(sessionId: string): ChatMessage[] {
+    const room = Array.from(this.rooms.values()).find(candidate => candidate.id === sessionId);
+    return room ? [...room.chat] : [];
+  }
+
+  private dispatch(room: Room, connection: ConnectionState, incoming: ClientMessage, now: Date): void {
+    if (!incoming || typeof incoming.type !== 'string') {
+      throw new HubError('invalid_argument', 'Message type is required');
+    }
+    if (SERVER_MESSAGES.includes(incoming.type)) {
+      throw new HubError('invalid_argument', `${incoming.type} messages are sent by the server only`);
+    }
+    if (EDIT_MESSAGES.includes(incoming.type) && connection.user.role === 'viewer') {
+      throw new HubError('permission_denied', 'Viewers cannot edit files');
+    }
+
+    const userId = connection.user.id;
+    const payload = incoming.payload ?? {};
+
+    switch (incoming.type) {
+      case 'ping':
+        this.deliver(connection, this.message(room, userId, 'pong', { timestamp: now }, incoming.id));
+        return;
+
+      case 'sync_request':
+        this.deliver(connection, this.message(room, userId, 'sync_response', { session: this.snapshot(room) }, incoming.id));
+        return;
+
+      case 'cursor_move': {
+        const cursor: CursorPosition = {
+          userId,
+          fileId: requireString(payload.fileId, 'fileId'),
+          line: requirePosition(payload.line, 'line'),
+          column: requirePosition(payload.column, 'column'),
+          timestamp: now
+        };
+        room.cursors.set(userId, cursor);
+        this.broadcast(room, this.message(room, userId, 'cursor_move', cursor, incoming.id), connection.id);
+        return;
+      }
+
+      case 'selection_change': {
+        const selection: SelectionRange = {
+          userId,
+          fileId: requireString(payload.fileId, 'fileId'),
+          startLine: requirePosition(payload.startLine, 'startLine'),
+          startColumn: requirePosition(payload.startColumn, 'startColumn'),
+          endLine: requirePosition(payload.endLine, 'endLine'),
+          endColumn: requirePosition(payload.endColumn, 'endColumn'),
+          timestamp: now
+        };
+        room.selections.set(userId, selection);
+        this.broadcast(room, this.message(room, userId, 'selection_change', selection, incoming.id), connection.id);
+        return;
+      }
+
+      case 'text_change': {
+        requireString(payload.fileId, 'fileId');
+        if (!payload.operation || typeof payload.operation !== 'object') {
+          throw new HubError('invalid_argument', 'operation is required');
+        }
+        this.broadcast(room, this.message(room, userId, 'text_change', payload, incoming.id), connection.id);
+        return;
+      }
+
+      case 'file_open':
+      case 'file_close': {
+        const fileId = requireString(payload.fileId, 'fileId');
+        const participant = room.participants.get(userId);
+        if (participant) {
+          if (incoming.type === 'file_open') {
+            participant.currentDocument = fileId;
+          } else if (participant.currentDocument === fileId) {
+            delete participant.currentDocument;
+          }
+        }
+        this.broadcast(room, this.message(room, userId, incoming.type, payload, incoming.id), connection.id);
+        return;
+      }
+
+      case 'chat_message': {
+        const content = requireString(payload.content, 'content').trim();
+        if (!content || content.length > MAX_CHAT_LENGTH) {
+          throw new HubError('invalid_argument', `Chat messages must be 1-${MAX_CHAT_LENGTH} characters`);
+        }
+        const chat: ChatMessage = {
+          id: this.generateId(),
+          sessionId: room.id,
+          userId,
+          userName: connection.user.name,
+          content,
+          type: payload.type === 'code_share' ? 'code_share' : 'text',
+          mentions: Array.isArray(payload.mentions) ? payload.mentions.filter((m: unknown) => typeof m === 'string') : [],
+          timestamp: now
+        };
+        room.chat.push(chat);
+        if (room.chat.length > this.chatHistoryLimit) {
+          room.chat.splice(0, room.chat.length - this.chatHistoryLimit);
+        }
+        // Echoed to the sender too, so every client shows the same id and timestamp
+        this.broadcast(room, this.message(room, userId, 'chat_message', chat, incoming.id));
+        return;
+      }
+
+      case 'status_update': {
+        const status = payload.status;
+        if (!['online', 'away', 'busy', 'offline'].includes(status)) {
+          throw new HubError('invalid_argument', 'status must be online, away, busy or offline');
+        }
+        const participant = room.participants.get(userId);
+        if (participant) {
+          participant.status = status;
+        }
+        this.broadcast(room, this.message(room, userId, 'status_update', { userId, status, message: payload.message }, incoming.id), connection.id);
+        return;
+      }
+
+      case 'document_change':
+        requireString(payload.fileId, 'fileId');
+        this.broadcast(room, this.message(room, userId, 'document_change', payload, incoming.id), connection.id);
+        return;
+
+      default:
+        throw new HubError('invalid_argument', `Unknown message type: ${incoming.type}`);
+    }
+  }
+
+  private message(room: Room, userId: string, type: MessageType, payload: any, id?: string): WebSocketMessage {
+    return {
+      id: id ?? this.generateId(),
+      type,
+      payload,
+      timestamp: this.now(),
+      userId,
+      sessionId: room.id
+    };
+  }
+
+  private broadcast(room: Room, message: WebSocketMessage, exceptConnectionId?: string): void {
+    for (const connection of room.connections.values()) {
+      if (connection.id !== exceptConnectionId) {
+        this.deliver(connection, message);
+      }
+    }
+  }
+
+  // A failing transport is treated as a disconnect rather than breaking the broadcast
+  private deliver(connection: ConnectionState, message: WebSocketMessage): void {
+    try {
+      connection.transport.send(message);
+    } catch {
+      this.leave(connection, 'send_failed');
+    }
+  }
+
+  private pickColor(room: Room): string {
+    const used = new Set(Array.from(room.participants.values()).map(participant => participant.color));
+    return USER_COLORS.find(color => !used.has(color)) ?? USER_COLORS[room.participants.size % USER_COLORS.length];
+  }
+
+  private snapshot(room: Room): CollaborationSession {
+    return {
+      id: room.id,
+      projectId: room.projectId,
+      participants: Array.from(room.participants.values()).map(participant => ({ ...participant })),
+      cursors: Array.from(room.cursors.values()),
+      selections: Array.from(room.selections.values()),
+      operations: [],
+      createdAt: room.createdAt,
+      updatedAt: room.updatedAt,
+      isActive: room.connections.size > 0
+    };
+  }
+}
+
+function requireString(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value === '') {
+    throw new HubError('invalid_argument', `${field} is required`);
+  }
+  return value;
+}
+
+function requirePosition(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new HubError('invalid_argument', `${field} must be a non-negative integer`);
+  }
+  return value;
+}
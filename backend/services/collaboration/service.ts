@@ -0,0 +1,135 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { requireAuth } from "../../utils/auth";
+import { requireProjectAccess } from "../projects/service";
+import { ChatMessage, ClientMessage, CollaborationHub, CollaborationSession, HubTransport, WebSocketMessage } from "./hub";
+
+// Interfaces
+interface ConnectHandshake {
+  projectId: string;
+}
+
+interface SessionRequest {
+  sessionId: string;
+}
+
+const SWEEP_INTERVAL_MS = 15_000;
+
+// Rooms live in this process only: collaborators of a project must reach the same instance
+const hub = new CollaborationHub();
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
+let openConnections = 0;
+
+// API Endpoints
+
+// Join the current project's collaboration room. Clients send ClientMessages (ping, cursor_move,
+// selection_change, text_change, chat_message, ...) and receive WebSocketMessages relayed from the room.
+export const connect = api.streamInOut<ConnectHandshake, ClientMessage, WebSocketMessage>(
+  { path: "/ws/connect", auth: true },
+  async (handshake, stream) => {
+    const user = requireAuth();
+    const role = await requireProjectAccess(handshake.projectId, user.id, 'read');
+
+    // Sends are queued so the client sees room messages in order; a failed send ends the connection
+    let queue = Promise.resolve();
+    const transport: HubTransport = {
+      send: message => {
+        queue = queue.then(() => stream.send(message)).catch(() => stream.close());
+      },
+      close: () => {
+        queue = queue.then(() => stream.close()).catch(() => undefined);
+      }
+    };
+
+    const connection = hub.join(handshake.projectId, { id: user.id, name: user.name, role }, transport);
+    startSweeping();
+    log.info("Collaboration connection opened", { connectionId: connection.id, projectId: handshake.projectId, userId: user.id });
+
+    try {
+      for await (const message of stream) {
+        hub.receive(connection, message);
+      }
+    } catch (error) {
+      log.warn("Collaboration connection failed", { error: (error as Error).message, connectionId: connection.id });
+    } finally {
+      hub.leave(connection);
+      stopSweeping();
+      log.info("Collaboration connection closed", { connectionId: connection.id, projectId: handshake.projectId });
+    }
+  }
+);
+
+// Active sessions of the projects the caller can access
+export const listSessions = api(
+  { method: "GET", path: "/ws/sessions", auth: true },
+  async (): Promise<{ sessions: CollaborationSession[] }> => {
+    const user = requireAuth();
+
+    const sessions: CollaborationSession[] = [];
+    for (const session of hub.listSessions()) {
+      if (await canAccess(session.projectId, user.id)) {
+        sessions.push(session);
+      }
+    }
+    return { sessions };
+  }
+);
+
+export const getSession = api(
+  { method: "GET", path: "/ws/sessions/:sessionId", auth: true },
+  async ({ sessionId }: SessionRequest): Promise<CollaborationSession> => {
+    const user = requireAuth();
+    return loadSession(sessionId, user.id);
+  }
+);
+
+export const getChatHistory = api(
+  { method: "GET", path: "/ws/sessions/:sessionId/chat", auth: true },
+  async ({ sessionId }: SessionRequest): Promise<{ messages: ChatMessage[] }> => {
+    const user = requireAuth();
+    await loadSession(sessionId, user.id);
+    return { messages: hub.getChatHistory(sessionId) };
+  }
+);
+
+// Helper functions
+
+async function loadSession(sessionId: string, userId: string): Promise<CollaborationSession> {
+  const session = hub.findSession(sessionId);
+  // Sessions of projects the caller cannot see are reported as missing
+  if (!session || !(await canAccess(session.projectId, userId))) {
+    throw APIError.notFound("Session not found");
+  }
+  return session;
+}
+
+async function canAccess(projectId: string, userId: string): Promise<boolean> {
+  try {
+    await requireProjectAccess(projectId, userId, 'read');
+    return true;
+  } catch (error) {
+    if (error instanceof APIError) return false;
+    throw error;
+  }
+}
+
+// Idle connections are swept only while there are connections to sweep
+function startSweeping() {
+  openConnections++;
+  if (!sweepTimer) {
+    sweepTimer = setInterval(() => {
+      const dropped = hub.sweep();
+      if (dropped > 0) {
+        log.info("Dropped idle collaboration connections", { dropped });
+      }
+    }, SWEEP_INTERVAL_MS);
+  }
+}
+
+function stopSweeping() {
+  openConnections--;
+  if (openConnections === 0 && sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+}
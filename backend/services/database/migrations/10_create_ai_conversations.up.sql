@@ -0,0 +1,44 @@
+-- AI chat conversations (one AISession per conversation), private to the user who started them
+CREATE TABLE ai_conversations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+    title VARCHAR(255) NOT NULL DEFAULT 'New Conversation',
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'in_progress' CHECK (status IN ('pending', 'in_progress', 'completed', 'failed', 'cancelled')),
+
+    -- Conversation this one was forked from (kept when the original is deleted)
+    forked_from UUID REFERENCES ai_conversations(id) ON DELETE SET NULL,
+
+    -- Running totals (SessionMetadata / AISession.totalCost)
+    message_count INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    total_cost NUMERIC(12, 6) NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE ai_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id UUID NOT NULL REFERENCES ai_conversations(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+    content TEXT NOT NULL,
+    -- AiMessage.metadata: tokens, model, context, codeBlocks, stopped
+    metadata JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(conversation_id, position)
+);
+
+-- Indexes for performance
+CREATE INDEX idx_ai_conversations_user_id ON ai_conversations(user_id, updated_at DESC);
+CREATE INDEX idx_ai_conversations_project_id ON ai_conversations(project_id);
+CREATE INDEX idx_ai_conversations_tags ON ai_conversations USING GIN(tags);
+
+CREATE INDEX idx_ai_messages_conversation_id ON ai_messages(conversation_id, position);
+
+CREATE TRIGGER ai_conversations_updated_at
+    BEFORE UPDATE ON ai_conversations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,21 @@
+-- One row per AI model call, for per-user and per-project token accounting and quotas
+CREATE TABLE ai_usage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- Kept when the project is deleted so the user's totals do not change
+    project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+    service_type VARCHAR(30) NOT NULL CHECK (service_type IN ('chat', 'code_completion', 'code_generation', 'code_review', 'debugging', 'testing', 'refactoring', 'documentation')),
+    model VARCHAR(100) NOT NULL,
+
+    -- TokenUsage
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    cost NUMERIC(12, 6) NOT NULL DEFAULT 0,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for performance
+CREATE INDEX idx_ai_usage_user_id ON ai_usage(user_id, created_at);
+CREATE INDEX idx_ai_usage_project_id ON ai_usage(project_id, created_at);
@@ -0,0 +1,3 @@
+-- Account roles (UserRole in shared/src/types/user.ts); administrators can use the admin endpoints
+ALTER TABLE users
+    ADD COLUMN role VARCHAR(20) NOT NULL DEFAULT 'user' CHECK (role IN ('admin', 'user', 'viewer'));
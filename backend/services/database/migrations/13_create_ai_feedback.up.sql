@@ -0,0 +1,36 @@
+-- Ratings of assistant messages, for evaluating prompt and model changes against real use
+CREATE TABLE ai_feedback (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- Kept when the conversation is cleared or deleted; the snapshot below still describes the exchange
+    conversation_id UUID REFERENCES ai_conversations(id) ON DELETE SET NULL,
+    message_id UUID REFERENCES ai_messages(id) ON DELETE SET NULL,
+    project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+
+    -- UserFeedback
+    rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    helpful BOOLEAN NOT NULL,
+    comment TEXT,
+
+    -- The exchange that was rated, as it was when rated
+    model VARCHAR(100),
+    prompt TEXT NOT NULL,
+    response TEXT NOT NULL,
+    -- Context sent with the prompt: {"context": [...], "sources": [...]}
+    prompt_context JSONB NOT NULL DEFAULT '{}',
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    -- One rating per message; rating again replaces it
+    UNIQUE(message_id)
+);
+
+-- Indexes for performance
+CREATE INDEX idx_ai_feedback_user_id ON ai_feedback(user_id);
+CREATE INDEX idx_ai_feedback_created_at ON ai_feedback(created_at, id);
+CREATE INDEX idx_ai_feedback_model ON ai_feedback(model);
+
+CREATE TRIGGER ai_feedback_updated_at
+    BEFORE UPDATE ON ai_feedback
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
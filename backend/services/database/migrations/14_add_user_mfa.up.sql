@@ -0,0 +1,21 @@
+-- TOTP multi-factor authentication (RFC 6238)
+ALTER TABLE users
+    ADD COLUMN mfa_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Base32 secret; set at enrollment and only used for sign-in once mfa_enabled is true
+    ADD COLUMN mfa_secret VARCHAR(64),
+    -- Last accepted time step, so a code cannot be used twice
+    ADD COLUMN mfa_last_step BIGINT,
+    -- Wrong codes since the last password check; sign-in needs a new password check past the limit
+    ADD COLUMN mfa_failed_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- One-time recovery codes for when the authenticator is lost, stored as SHA-256 hashes
+CREATE TABLE mfa_recovery_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash VARCHAR(64) NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for performance
+CREATE INDEX idx_mfa_recovery_codes_user_id ON mfa_recovery_codes(user_id);
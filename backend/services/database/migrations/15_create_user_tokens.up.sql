@@ -0,0 +1,19 @@
+-- Single-use tokens sent in emailed links (email verification, password reset). The link carries a
+-- signed token naming a row here; the row makes it single-use.
+CREATE TABLE user_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('verify_email', 'reset_password')),
+    -- The address the link was sent to
+    email VARCHAR(255) NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Access tokens issued before this time are rejected, so changing the password signs out everywhere
+ALTER TABLE users ADD COLUMN password_changed_at TIMESTAMPTZ;
+
+-- Indexes for performance
+CREATE INDEX idx_user_tokens_user_purpose ON user_tokens(user_id, purpose, created_at);
+CREATE INDEX idx_user_tokens_expires_at ON user_tokens(expires_at);
@@ -0,0 +1,6 @@
+-- Each session is a refresh token family: the refresh token rotates on every use, and presenting
+-- one from an earlier generation revokes the session
+ALTER TABLE sessions
+    -- Rotations so far; refresh tokens carry the generation they were issued for
+    ADD COLUMN generation INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN last_used_at TIMESTAMPTZ;
@@ -0,0 +1,33 @@
+-- Sign-in with external OAuth providers (GitHub, GitLab, Google)
+
+-- Accounts created through a provider have no password until the user sets one with a reset link
+ALTER TABLE users ALTER COLUMN password_hash DROP NOT NULL;
+
+-- Provider accounts linked to users; a user can sign in with any of them
+CREATE TABLE user_auth_providers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    provider VARCHAR(20) NOT NULL CHECK (provider IN ('github', 'gitlab', 'google')),
+    -- The provider's stable id for the user (the OpenID Connect subject, or the GitHub user id)
+    provider_user_id VARCHAR(255) NOT NULL,
+    -- The address the provider gave at the last sign-in
+    email VARCHAR(255),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TIMESTAMPTZ,
+    UNIQUE (provider, provider_user_id)
+);
+
+-- Sign-ins waiting for the provider to redirect back: the state sent with the authorization
+-- request, and the PKCE verifier and nonce needed to finish it. Rows are deleted when used.
+CREATE TABLE oauth_states (
+    state VARCHAR(64) PRIMARY KEY,
+    provider VARCHAR(20) NOT NULL,
+    code_verifier VARCHAR(64) NOT NULL,
+    nonce VARCHAR(64) NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for performance
+CREATE INDEX idx_user_auth_providers_user_id ON user_auth_providers(user_id);
+CREATE INDEX idx_oauth_states_expires_at ON oauth_states(expires_at);
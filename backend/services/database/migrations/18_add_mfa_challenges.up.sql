@@ -0,0 +1,7 @@
+-- Single-use MFA sign-in challenges, and a lockout once too many wrong codes are entered. Wrong
+-- codes (mfa_failed_attempts) now count until a code is accepted or the lockout starts.
+ALTER TABLE users
+    -- The challenge handed out by the last password (or OAuth) step; cleared when a code completes it
+    ADD COLUMN mfa_challenge_id UUID,
+    -- No codes are accepted for sign-in until this time
+    ADD COLUMN mfa_locked_until TIMESTAMPTZ;
@@ -0,0 +1,14 @@
+-- Single-use tickets that authenticate WebSocket connections. Browsers cannot set headers on a
+-- WebSocket, so the ticket goes in the query string; it is short-lived so that copies in logs and
+-- browser history are of no use, and the access token itself never appears in a URL.
+CREATE TABLE stream_tickets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    -- The session of the access token the ticket was issued for; null for tokens without one
+    session_id UUID REFERENCES sessions(id) ON DELETE CASCADE,
+    expires_at TIMESTAMPTZ NOT NULL,
+    used_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_stream_tickets_expires_at ON stream_tickets(expires_at);
@@ -0,0 +1,50 @@
+-- Create projects table
+CREATE TABLE projects (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    type VARCHAR(20) NOT NULL DEFAULT 'web' CHECK (type IN ('web', 'mobile', 'desktop', 'api', 'ai', 'other')),
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'archived')),
+
+    -- Project Configuration (ProjectConfig)
+    config JSONB NOT NULL DEFAULT '{}',
+
+    -- Wizard provenance
+    wizard_session_id VARCHAR(255),
+
+    -- Stats (ProjectStats, collaboratorsCount is derived)
+    files_count INTEGER NOT NULL DEFAULT 0,
+    lines_of_code INTEGER NOT NULL DEFAULT 0,
+    ai_interactions INTEGER NOT NULL DEFAULT 0,
+    last_activity TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Project collaborators (the owner is stored on projects.owner_id)
+CREATE TABLE project_collaborators (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL DEFAULT 'collaborator' CHECK (role IN ('collaborator', 'viewer')),
+    added_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(project_id, user_id)
+);
+
+-- Indexes for performance
+CREATE INDEX idx_projects_owner_id ON projects(owner_id);
+CREATE INDEX idx_projects_status ON projects(status);
+CREATE INDEX idx_projects_type ON projects(type);
+CREATE INDEX idx_projects_updated_at ON projects(updated_at DESC);
+
+CREATE INDEX idx_project_collaborators_project_id ON project_collaborators(project_id);
+CREATE INDEX idx_project_collaborators_user_id ON project_collaborators(user_id);
+
+-- Note: update_updated_at_column function already exists from users migration
+CREATE TRIGGER projects_updated_at
+    BEFORE UPDATE ON projects
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
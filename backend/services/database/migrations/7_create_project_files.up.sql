@@ -0,0 +1,39 @@
+-- Create per-project virtual file system
+CREATE TABLE project_files (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    path VARCHAR(1024) NOT NULL,
+    parent_path VARCHAR(1024) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('file', 'directory')),
+
+    -- Content
+    size BIGINT NOT NULL DEFAULT 0,
+    mime_type VARCHAR(255),
+    content TEXT,
+    hash VARCHAR(64) NOT NULL DEFAULT '',
+
+    -- FilePermissions and FileMetadata
+    permissions JSONB NOT NULL DEFAULT '{}',
+    metadata JSONB NOT NULL DEFAULT '{}',
+
+    -- Authorship
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    last_modified_by UUID REFERENCES users(id) ON DELETE SET NULL,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(project_id, path)
+);
+
+-- Indexes for performance
+CREATE INDEX idx_project_files_project_id ON project_files(project_id);
+CREATE INDEX idx_project_files_parent ON project_files(project_id, parent_path);
+CREATE INDEX idx_project_files_path_prefix ON project_files(project_id, path varchar_pattern_ops);
+
+-- Note: update_updated_at_column function already exists from users migration
+CREATE TRIGGER project_files_updated_at
+    BEFORE UPDATE ON project_files
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,21 @@
+-- Track the current version of each file
+ALTER TABLE project_files
+    ADD COLUMN version INTEGER NOT NULL DEFAULT 1,
+    ADD COLUMN version_message TEXT;
+
+-- Snapshots of previous file contents (the current content lives on project_files)
+CREATE TABLE file_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    file_id UUID NOT NULL REFERENCES project_files(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    hash VARCHAR(64) NOT NULL,
+    size BIGINT NOT NULL DEFAULT 0,
+    message TEXT,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(file_id, version)
+);
+
+CREATE INDEX idx_file_versions_file_id ON file_versions(file_id, version DESC);
@@ -0,0 +1,3 @@
+-- Raw bytes of binary files (uploads such as images or archives); text files keep using `content`
+ALTER TABLE project_files
+    ADD COLUMN binary_content BYTEA;
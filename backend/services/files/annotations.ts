@@ -0,0 +1,224 @@
+import { randomUUID } from "node:crypto";
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
+import { requireProjectAccess } from "../projects/service";
+import { loadAccessibleFile } from "./service";
+import { FileAnnotation, Queryer, countLines, parseFileRow } from "./vfs";
+
+// Interfaces
+interface ListAnnotationsRequest {
+  id: string;
+  includeResolved?: boolean;
+}
+
+interface CreateAnnotationRequest {
+  id: string;
+  line: number;
+  column?: number;
+  type: FileAnnotation['type'];
+  content: string;
+  // Reply to this annotation's thread; the reply takes the thread's line
+  parentId?: string;
+}
+
+interface UpdateAnnotationRequest {
+  id: string;
+  annotationId: string;
+  content?: string;
+  resolved?: boolean;
+}
+
+interface FileAnnotationResponse {
+  annotation: FileAnnotation;
+  fileId: string;
+}
+
+const ANNOTATION_TYPES: FileAnnotation['type'][] = ['comment', 'todo', 'error', 'warning', 'info'];
+const MAX_ANNOTATION_LENGTH = 10000;
+const MAX_ANNOTATIONS_PER_FILE = 1000;
+
+// API Endpoints
+export const listAnnotations = api(
+  { method: "GET", path: "/files/:id/annotations", auth: true },
+  async ({ id, includeResolved }: ListAnnotationsRequest): Promise<{ annotations: FileAnnotation[]; fileId: string }> => {
+    const user = requireAuth();
+    const file = await loadAccessibleFile(id, user.id, 'read');
+
+    const annotations = parseFileRow(file, false).metadata.annotations;
+    // Resolving a thread hides its replies along with it
+    const resolved = new Set(annotations.filter(annotation => annotation.resolved).map(annotation => annotation.id));
+    return {
+      annotations: includeResolved === false
+        ? annotations.filter(annotation => !resolved.has(annotation.parentId ?? annotation.id))
+        : annotations,
+      fileId: id
+    };
+  }
+);
+
+export const createAnnotation = api(
+  { method: "POST", path: "/files/:id/annotations", auth: true },
+  async ({ id, ...req }: CreateAnnotationRequest): Promise<FileAnnotationResponse> => {
+    const user = requireAuth();
+    const file = await loadAccessibleFile(id, user.id, 'write');
+    if (file.type !== 'file' || parseFileRow(file, false).metadata.isBinary) {
+      throw APIError.invalidArgument("Only text files can be annotated");
+    }
+
+    const content = validateContent(req.content);
+    if (!ANNOTATION_TYPES.includes(req.type)) {
+      throw APIError.invalidArgument(`type must be one of ${ANNOTATION_TYPES.join(', ')}`);
+    }
+
+    return updateAnnotations(id, "Failed to create annotation", async annotations => {
+      if (annotations.length >= MAX_ANNOTATIONS_PER_FILE) {
+        throw APIError.resourceExhausted(`A file may have at most ${MAX_ANNOTATIONS_PER_FILE} annotations`);
+      }
+
+      let line = req.line;
+      let column = req.column ?? 1;
+      if (req.parentId) {
+        const parent = annotations.find(annotation => annotation.id === req.parentId);
+        if (!parent || parent.parentId) {
+          throw APIError.notFound("Annotation thread not found");
+        }
+        ({ line, column } = parent);
+      } else if (!Number.isInteger(line) || line < 1 || line > Math.max(1, countLines(file.content ?? ''))) {
+        throw APIError.invalidArgument("line must be between 1 and the file's line count");
+      }
+
+      const annotation: FileAnnotation = {
+        id: randomUUID(),
+        line,
+        column: Math.max(1, Math.floor(column)),
+        type: req.type,
+        content,
+        author: user.id,
+        authorName: user.name,
+        ...(req.parentId ? { parentId: req.parentId } : {}),
+        createdAt: new Date()
+      };
+
+      log.info("Annotation created", { fileId: id, annotationId: annotation.id, line });
+      return { annotations: [...annotations, annotation], annotation };
+    });
+  }
+);
+
+// Edit an annotation's content (author only) or resolve/reopen a thread
+export const updateAnnotation = api(
+  { method: "PUT", path: "/files/:id/annotations/:annotationId", auth: true },
+  async ({ id, annotationId, content, resolved }: UpdateAnnotationRequest): Promise<FileAnnotationResponse> => {
+    const user = requireAuth();
+    await loadAccessibleFile(id, user.id, 'write');
+
+    return updateAnnotations(id, "Failed to update annotation", async annotations => {
+      const existing = findAnnotation(annotations, annotationId);
+      const updated: FileAnnotation = { ...existing, updatedAt: new Date() };
+
+      if (content !== undefined) {
+        if (existing.author !== user.id) {
+          throw APIError.permissionDenied("Only the author can edit an annotation");
+        }
+        updated.content = validateContent(content);
+      }
+
+      if (resolved !== undefined) {
+        if (existing.parentId) {
+          throw APIError.invalidArgument("Resolve the thread rather than a reply");
+        }
+        updated.resolved = resolved;
+        if (resolved) {
+          updated.resolvedBy = user.id;
+          updated.resolvedAt = new Date();
+        } else {
+          delete updated.resolvedBy;
+          delete updated.resolvedAt;
+        }
+      }
+
+      return {
+        annotations: annotations.map(annotation => annotation.id === annotationId ? updated : annotation),
+        annotation: updated
+      };
+    });
+  }
+);
+
+// Delete an annotation, with its replies when it starts a thread. Others' annotations need admin access.
+export const deleteAnnotation = api(
+  { method: "DELETE", path: "/files/:id/annotations/:annotationId", auth: true },
+  async ({ id, annotationId }: { id: string; annotationId: string }): Promise<{ success: boolean; deleted: number }> => {
+    const user = requireAuth();
+    const file = await loadAccessibleFile(id, user.id, 'write');
+
+    const { annotation: deleted } = await updateAnnotations(id, "Failed to delete annotation", async annotations => {
+      const existing = findAnnotation(annotations, annotationId);
+      if (existing.author !== user.id) {
+        await requireProjectAccess(file.project_id, user.id, 'admin');
+      }
+
+      const remaining = annotations.filter(annotation => annotation.id !== annotationId && annotation.parentId !== annotationId);
+      return { annotations: remaining, annotation: annotations.length - remaining.length };
+    });
+
+    return { success: true, deleted };
+  }
+);
+
+// Helper functions
+
+// Read-modify-write a file's annotations with the row locked, so concurrent edits are not lost
+async function updateAnnotations<T>(
+  fileId: string,
+  failureMessage: string,
+  change: (annotations: FileAnnotation[]) => Promise<{ annotations: FileAnnotation[]; annotation: T }>
+): Promise<{ annotation: T; fileId: string }> {
+  const tx = await db.begin();
+  try {
+    const annotations = await lockAnnotations(tx, fileId);
+    const result = await change(annotations);
+    await tx.rawExec(
+      `UPDATE project_files SET metadata = jsonb_set(metadata, '{annotations}', $2::jsonb) WHERE id = $1`,
+      fileId, JSON.stringify(result.annotations)
+    );
+    await tx.commit();
+
+    return { annotation: result.annotation, fileId };
+  } catch (error) {
+    await tx.rollback();
+    if (error instanceof APIError) throw error;
+    log.error(failureMessage, { error: (error as Error).message, fileId });
+    throw APIError.internal(failureMessage);
+  }
+}
+
+async function lockAnnotations(q: Queryer, fileId: string): Promise<FileAnnotation[]> {
+  const row = await q.queryRow`SELECT metadata FROM project_files WHERE id = ${fileId} FOR UPDATE`;
+  if (!row) {
+    throw APIError.notFound("File not found");
+  }
+  const metadata = typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata;
+  return metadata?.annotations ?? [];
+}
+
+function findAnnotation(annotations: FileAnnotation[], annotationId: string): FileAnnotation {
+  const annotation = annotations.find(candidate => candidate.id === annotationId);
+  if (!annotation) {
+    throw APIError.notFound("Annotation not found");
+  }
+  return annotation;
+}
+
+function validateContent(content: string): string {
+  const trimmed = content?.trim() ?? '';
+  if (!trimmed) {
+    throw APIError.invalidArgument("Annotation content must not be empty");
+  }
+  if (trimmed.length > MAX_ANNOTATION_LENGTH) {
+    throw APIError.invalidArgument(`Annotations are limited to ${MAX_ANNOTATION_LENGTH} characters`);
+  }
+  return trimmed;
+}
@@ -0,0 +1,285 @@
+// Line-level diff engine for file contents (mirrors FileDiff* in shared/src/types/filesystem.ts)
+export interface FileDiffChange {
+  type: 'add' | 'delete' | 'modify';
+  line: number;
+  oldContent?: string;
+  newContent?: string;
+}
+
+export interface FileDiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  changes: FileDiffChange[];
+}
+
+export interface FileDiffStats {
+  additions: number;
+  deletions: number;
+  modifications: number;
+}
+
+export interface LineDiff {
+  changes: FileDiffChange[];
+  hunks: FileDiffHunk[];
+  stats: FileDiffStats;
+}
+
+type EditOp =
+  | { kind: 'equal'; oldIndex: number; newIndex: number }
+  | { kind: 'delete'; oldIndex: number }
+  | { kind: 'insert'; newIndex: number };
+
+export function splitLines(content: string): string[] {
+  return content === '' ? [] : content.split(/\r?\n/);
+}
+
+// Past this many steps from each end, a region that still has no common line in the middle is
+// treated as replaced outright: the diff is no longer minimal, but unrelated inputs stay fast
+const MAX_EDIT_COST = 1000;
+
+// Myers' O(ND) shortest edit script between two line arrays, in linear space: each region is split
+// at the middle of its edit path and the halves diffed in turn
+export function diffSequences(a: string[], b: string[]): EditOp[] {
+  const ops: EditOp[] = [];
+  diffRegion(a, 0, a.length, b, 0, b.length, ops);
+  return ops;
+}
+
+function diffRegion(
+  a: string[], aStart: number, aEnd: number,
+  b: string[], bStart: number, bEnd: number,
+  ops: EditOp[]
+): void {
+  // Common lines at either end need no search
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    ops.push({ kind: 'equal', oldIndex: aStart++, newIndex: bStart++ });
+  }
+  let suffix = 0;
+  while (aEnd - suffix > aStart && bEnd - suffix > bStart && a[aEnd - suffix - 1] === b[bEnd - suffix - 1]) {
+    suffix++;
+  }
+  aEnd -= suffix;
+  bEnd -= suffix;
+
+  const split = aStart < aEnd && bStart < bEnd ? middleSnake(a, aStart, aEnd, b, bStart, bEnd) : null;
+  if (split) {
+    diffRegion(a, aStart, split.x, b, bStart, split.y, ops);
+    diffRegion(a, split.x, aEnd, b, split.y, bEnd, ops);
+  } else {
+    for (let x = aStart; x < aEnd; x++) ops.push({ kind: 'delete', oldIndex: x });
+    for (let y = bStart; y < bEnd; y++) ops.push({ kind: 'insert', newIndex: y });
+  }
+
+  for (let i = 0; i < suffix; i++) {
+    ops.push({ kind: 'equal', oldIndex: aEnd + i, newIndex: bEnd + i });
+  }
+}
+
+// Where the forward and backward searches of a region first overlap, as absolute indexes to split
+// the region at. Null when the region has no common line or is too costly to search.
+function middleSnake(
+  a: string[], aStart: number, aEnd: number,
+  b: string[], bStart: number, bEnd: number
+): { x: number; y: number } | null {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const maxD = Math.min(Math.ceil((n + m) / 2), MAX_EDIT_COST);
+  const offset = maxD + 1;
+  // Furthest x reached on each diagonal k, counted from the start (forward) or the end (backward)
+  const forward = new Array<number>(2 * maxD + 3).fill(-1);
+  const backward = new Array<number>(2 * maxD + 3).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths meet on a forward step, otherwise on a backward one
+  const odd = delta % 2 !== 0;
+  // Diagonals that ran off the edge of the region are not searched again
+  let forwardFrom = 0;
+  let forwardTo = 0;
+  let backwardFrom = 0;
+  let backwardTo = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardFrom; k <= d - forwardTo; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      if (x > n) {
+        forwardTo += 2;
+      } else if (y > m) {
+        forwardFrom += 2;
+      } else if (odd) {
+        const reached = backward[offset + delta - k];
+        if (reached !== undefined && reached !== -1 && x >= n - reached) {
+          return { x: aStart + x, y: bStart + y };
+        }
+      }
+    }
+
+    for (let k = -d + backwardFrom; k <= d - backwardTo; k += 2) {
+      let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+        ? backward[offset + k + 1]
+        : backward[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aEnd - x - 1] === b[bEnd - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+      if (x > n) {
+        backwardTo += 2;
+      } else if (y > m) {
+        backwardFrom += 2;
+      } else if (!odd) {
+        const forwardK = delta - k;
+        const reached = forward[offset + forwardK];
+        if (reached !== undefined && reached !== -1 && reached >= n - x) {
+          return { x: aStart + reached, y: bStart + reached - forwardK };
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+// Changes needed to turn `oldContent` into `newContent`, grouped into hunks with
+// `contextLines` of unchanged lines around them. Line numbers are 1-based; a
+// 'modify' change pairs a deleted line with the added line replacing it and
+// reports the line number in the new content.
+export function computeDiff(oldContent: string, newContent: string, contextLines = 3): LineDiff {
+  const oldLines = splitLines(oldContent);
+  const newLines = splitLines(newContent);
+  const ops = diffSequences(oldLines, newLines);
+
+  // Positions in the old and new content before each op
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldPos = 0;
+  let newPos = 0;
+  for (const op of ops) {
+    oldBefore.push(oldPos);
+    newBefore.push(newPos);
+    if (op.kind !== 'insert') oldPos++;
+    if (op.kind !== 'delete') newPos++;
+  }
+
+  // Runs of consecutive non-equal ops
+  const blocks: Array<{ start: number; end: number; changes: FileDiffChange[] }> = [];
+  for (let i = 0; i < ops.length; i++) {
+    if (ops[i].kind === 'equal') continue;
+    const start = i;
+    while (i < ops.length && ops[i].kind !== 'equal') i++;
+    blocks.push({ start, end: i, changes: blockChanges(ops.slice(start, i), oldLines, newLines) });
+  }
+
+  // Blocks separated by at most 2 * contextLines unchanged lines share a hunk
+  const hunks: FileDiffHunk[] = [];
+  let group: typeof blocks = [];
+  const flush = () => {
+    if (group.length === 0) return;
+    const start = Math.max(0, group[0].start - contextLines);
+    const end = Math.min(ops.length, group[group.length - 1].end + contextLines);
+    const oldEnd = end < ops.length ? oldBefore[end] : oldPos;
+    const newEnd = end < ops.length ? newBefore[end] : newPos;
+
+    hunks.push({
+      oldStart: oldBefore[start] + 1,
+      oldLines: oldEnd - oldBefore[start],
+      newStart: newBefore[start] + 1,
+      newLines: newEnd - newBefore[start],
+      changes: group.flatMap(block => block.changes)
+    });
+    group = [];
+  };
+
+  for (const block of blocks) {
+    const previous = group[group.length - 1];
+    if (previous && block.start - previous.end > 2 * contextLines) {
+      flush();
+    }
+    group.push(block);
+  }
+  flush();
+
+  const changes = blocks.flatMap(block => block.changes);
+  return {
+    changes,
+    hunks,
+    stats: {
+      additions: changes.filter(change => change.type === 'add').length,
+      deletions: changes.filter(change => change.type === 'delete').length,
+      modifications: changes.filter(change => change.type === 'modify').length
+    }
+  };
+}
+
+// Where each line of `oldContent` ends up in `newContent`, as 1-based line numbers indexed by
+// old line number. A modified line maps to the line replacing it and a deleted line to the
+// first line after the change, so positions anchored to lines follow edits around them.
+export function mapLineNumbers(oldContent: string, newContent: string): number[] {
+  const oldLines = splitLines(oldContent);
+  const newLines = splitLines(newContent);
+  const lastLine = Math.max(1, newLines.length);
+  const mapping = new Array<number>(oldLines.length + 1).fill(1);
+
+  let deleted: number[] = [];
+  let inserted: number[] = [];
+  let nextNew = 0;
+  const flush = () => {
+    deleted.forEach((oldIndex, i) => {
+      const target = i < inserted.length ? inserted[i] : nextNew + inserted.length;
+      mapping[oldIndex + 1] = Math.min(target + 1, lastLine);
+    });
+    deleted = [];
+    inserted = [];
+  };
+
+  for (const op of diffSequences(oldLines, newLines)) {
+    if (op.kind === 'equal') {
+      flush();
+      mapping[op.oldIndex + 1] = op.newIndex + 1;
+      nextNew = op.newIndex + 1;
+    } else if (op.kind === 'delete') {
+      deleted.push(op.oldIndex);
+    } else {
+      inserted.push(op.newIndex);
+    }
+  }
+  flush();
+
+  return mapping;
+}
+
+// Pair the deletions and insertions of one changed block into modifications
+function blockChanges(block: EditOp[], oldLines: string[], newLines: string[]): FileDiffChange[] {
+  const deleted = block.filter((op): op is Extract<EditOp, { kind: 'delete' }> => op.kind === 'delete');
+  const inserted = block.filter((op): op is Extract<EditOp, { kind: 'insert' }> => op.kind === 'insert');
+  const paired = Math.min(deleted.length, inserted.length);
+  const changes: FileDiffChange[] = [];
+
+  for (let i = 0; i < paired; i++) {
+    changes.push({
+      type: 'modify',
+      line: inserted[i].newIndex + 1,
+      oldContent: oldLines[deleted[i].oldIndex],
+      newContent: newLines[inserted[i].newIndex]
+    });
+  }
+  for (const op of deleted.slice(paired)) {
+    changes.push({ type: 'delete', line: op.oldIndex + 1, oldContent: oldLines[op.oldIndex] });
+  }
+  for (const op of inserted.slice(paired)) {
+    changes.push({ type: 'add', line: op.newIndex + 1, newContent: newLines[op.newIndex] });
+  }
+
+  return changes;
+}
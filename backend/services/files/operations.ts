@@ -0,0 +1,220 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
+import { requireProjectAccess } from "../projects/service";
+import { loadAccessibleFile } from "./service";
+import {
+  Queryer,
+  baseName,
+  copyEntry,
+  deleteEntry,
+  ensureParentDirectories,
+  findFileByPath,
+  insertEntry,
+  joinPath,
+  moveEntry,
+  normalizePath,
+  parentOf,
+  refreshProjectStats,
+  writeFileContent
+} from "./vfs";
+import { FileChange, publishFileChanges } from "./watch";
+
+// Interfaces
+interface FileOperationRequest {
+  id: string;
+  operation: 'copy' | 'move' | 'rename';
+  // Directory to copy or move into (ignored for rename)
+  destination?: string;
+  // Name at the destination; defaults to the current name, required for rename
+  newName?: string;
+}
+
+interface FileOperationResponse {
+  success: boolean;
+  newFileId?: string;
+  path?: string;
+  message?: string;
+}
+
+interface BatchOperation {
+  type: 'create' | 'update' | 'delete' | 'move' | 'copy' | 'rename';
+  path: string;
+  // Full target path for move, copy and rename
+  targetPath?: string;
+  content?: string;
+  // Entry type for create (defaults to 'file')
+  fileType?: 'file' | 'directory';
+}
+
+interface BatchOperationRequest {
+  projectId: string;
+  operations: BatchOperation[];
+}
+
+interface BatchOperationResponse {
+  results: FileOperationResponse[];
+  successful: number;
+  failed: number;
+}
+
+const MAX_BATCH_OPERATIONS = 500;
+
+// API Endpoints
+export const fileOperation = api(
+  { method: "POST", path: "/files/:id/operations", auth: true },
+  async ({ id, operation, destination, newName }: FileOperationRequest): Promise<FileOperationResponse> => {
+    const user = requireAuth();
+    const existing = await loadAccessibleFile(id, user.id, 'write');
+
+    let targetPath: string;
+    if (operation === 'rename') {
+      if (!newName) {
+        throw APIError.invalidArgument("newName is required for rename");
+      }
+      targetPath = joinTarget(parentOf(existing.path), newName);
+    } else {
+      if (!destination) {
+        throw APIError.invalidArgument(`destination is required for ${operation}`);
+      }
+      targetPath = joinTarget(normalizePath(destination), newName || existing.name);
+    }
+
+    const row = await runInTransaction(`Failed to ${operation} file`, async tx => {
+      const row = operation === 'copy'
+        ? await copyEntry(tx, existing, targetPath, user.id)
+        : await moveEntry(tx, existing, targetPath, user.id);
+      await refreshProjectStats(tx, existing.project_id);
+      return row;
+    });
+
+    log.info("File operation applied", { operation, from: existing.path, to: targetPath });
+    await publishFileChanges(existing.project_id, user.id, [
+      operation === 'copy'
+        ? { type: 'created', fileId: row.id, path: row.path }
+        : { type: 'moved', fileId: row.id, path: row.path, oldPath: existing.path }
+    ]);
+    return { success: true, newFileId: row.id, path: row.path };
+  }
+);
+
+// Apply a list of path-based operations all-or-nothing: if any fails, none are applied
+export const batchOperation = api(
+  { method: "POST", path: "/files/batch", auth: true },
+  async ({ projectId, operations }: BatchOperationRequest): Promise<BatchOperationResponse> => {
+    const user = requireAuth();
+    await requireProjectAccess(projectId, user.id, 'write');
+
+    if (operations.length === 0) {
+      return { results: [], successful: 0, failed: 0 };
+    }
+    if (operations.length > MAX_BATCH_OPERATIONS) {
+      throw APIError.invalidArgument(`A batch may contain at most ${MAX_BATCH_OPERATIONS} operations`);
+    }
+
+    const changes: FileChange[] = [];
+    const results = await runInTransaction("Failed to apply batch operation", async tx => {
+      const results: FileOperationResponse[] = [];
+      for (const [index, op] of operations.entries()) {
+        try {
+          results.push(await applyOperation(tx, projectId, op, user.id, changes));
+        } catch (error) {
+          if (error instanceof APIError) {
+            throw new APIError(error.code, `Operation ${index + 1} (${op.type} ${op.path}): ${error.message}`);
+          }
+          throw error;
+        }
+      }
+      await refreshProjectStats(tx, projectId);
+      return results;
+    });
+
+    log.info("Batch operation applied", { projectId, operations: operations.length });
+    await publishFileChanges(projectId, user.id, changes);
+    return { results, successful: results.length, failed: 0 };
+  }
+);
+
+// Helper functions
+
+// Apply one batch operation, recording the change it makes in `changes`
+async function applyOperation(
+  tx: Queryer,
+  projectId: string,
+  op: BatchOperation,
+  userId: string,
+  changes: FileChange[]
+): Promise<FileOperationResponse> {
+  const path = normalizePath(op.path);
+
+  if (op.type === 'create') {
+    await ensureParentDirectories(tx, projectId, path, userId);
+    const row = await insertEntry(tx, projectId, path, op.fileType || 'file', op.content ?? '', userId);
+    changes.push({ type: 'created', fileId: row.id, path: row.path });
+    return { success: true, newFileId: row.id, path: row.path };
+  }
+
+  const existing = await findFileByPath(tx, projectId, path);
+  if (!existing) {
+    throw APIError.notFound(`No file or directory at ${path}`);
+  }
+
+  switch (op.type) {
+    case 'update': {
+      if (existing.type !== 'file') {
+        throw APIError.invalidArgument("Cannot write content to a directory");
+      }
+      const row = await writeFileContent(tx, existing, op.content ?? '', userId);
+      changes.push({ type: 'modified', fileId: row.id, path: row.path });
+      return { success: true, newFileId: row.id, path: row.path };
+    }
+    case 'delete': {
+      const deleted = await deleteEntry(tx, existing);
+      changes.push({ type: 'deleted', fileId: existing.id, path });
+      return { success: true, path, message: `Deleted ${deleted} entries` };
+    }
+    case 'move':
+    case 'rename':
+    case 'copy': {
+      if (!op.targetPath) {
+        throw APIError.invalidArgument(`targetPath is required for ${op.type}`);
+      }
+      const targetPath = normalizePath(op.targetPath);
+      const row = op.type === 'copy'
+        ? await copyEntry(tx, existing, targetPath, userId)
+        : await moveEntry(tx, existing, targetPath, userId);
+      changes.push(op.type === 'copy'
+        ? { type: 'created', fileId: row.id, path: row.path }
+        : { type: 'moved', fileId: row.id, path: row.path, oldPath: path });
+      return { success: true, newFileId: row.id, path: row.path };
+    }
+    default:
+      throw APIError.invalidArgument(`Unknown operation: ${(op as BatchOperation).type}`);
+  }
+}
+
+function joinTarget(directory: string, name: string): string {
+  if (name.includes('/')) {
+    throw APIError.invalidArgument("File name must not contain '/'");
+  }
+  const target = joinPath(directory, name);
+  if (baseName(target) !== name) {
+    throw APIError.invalidArgument(`Invalid file name: ${name}`);
+  }
+  return target;
+}
+
+async function runInTransaction<T>(failureMessage: string, work: (tx: Queryer) => Promise<T>): Promise<T> {
+  const tx = await db.begin();
+  try {
+    const result = await work(tx);
+    await tx.commit();
+    return result;
+  } catch (error) {
+    await tx.rollback();
+    if (error instanceof APIError) throw error;
+    log.error(failureMessage, { error: (error as Error).message });
+    throw APIError.internal(failureMessage);
+  }
+}
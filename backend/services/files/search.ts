@@ -0,0 +1,344 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
+import { requireProjectAccess } from "../projects/service";
+import { FileDiffChange, computeDiff } from "./diff";
+import { VirtualFile, FILE_COLUMNS, parseFileRow, refreshProjectStats, writeFileContent } from "./vfs";
+import { publishFileChanges } from "./watch";
+
+// Interfaces
+interface SearchOptions {
+  projectId: string;
+  query: string;
+  caseSensitive?: boolean;
+  useRegex?: boolean;
+  wholeWord?: boolean;
+  // Extensions such as ".ts"; an empty list searches every file
+  fileTypes?: string[];
+  // Glob patterns matched against project paths; patterns without '/' match at any depth
+  includePatterns?: string[];
+  excludePatterns?: string[];
+}
+
+interface SearchFilesRequest extends SearchOptions {
+  type?: 'content' | 'filename' | 'both';
+  maxResults?: number;
+}
+
+interface FileMatch {
+  line: number;
+  column: number;
+  content: string;
+  matchedText: string;
+}
+
+interface FileSearchResult {
+  file: VirtualFile;
+  matches: FileMatch[];
+  score: number;
+}
+
+interface FileSearchResponse {
+  results: FileSearchResult[];
+  total: number;
+  query: string;
+  searchTime: number;
+}
+
+interface ReplaceInFilesRequest extends SearchOptions {
+  replacement: string;
+  // Restrict the replace to these files, e.g. the ones the user kept after a preview
+  fileIds?: string[];
+  // Compute the edits without writing them
+  preview?: boolean;
+}
+
+interface FileReplacement {
+  fileId: string;
+  path: string;
+  replacements: number;
+  changes: FileDiffChange[];
+}
+
+interface ReplaceInFilesResponse {
+  files: FileReplacement[];
+  totalReplacements: number;
+  applied: boolean;
+}
+
+const DEFAULT_MAX_RESULTS = 100;
+const MAX_RESULTS_LIMIT = 1000;
+const MAX_MATCHES_PER_FILE = 500;
+const MAX_LINE_PREVIEW = 500;
+const FILENAME_MATCH_SCORE = 10;
+
+// API Endpoints
+export const searchFiles = api(
+  { method: "POST", path: "/files/search", auth: true },
+  async (req: SearchFilesRequest): Promise<FileSearchResponse> => {
+    const startedAt = Date.now();
+    const user = requireAuth();
+    await requireProjectAccess(req.projectId, user.id, 'read');
+
+    const pattern = buildPattern(req);
+    const namePattern = new RegExp(pattern.source, pattern.flags.replace('g', ''));
+    const type = req.type || 'both';
+    const maxResults = Math.min(MAX_RESULTS_LIMIT, Math.max(1, req.maxResults || DEFAULT_MAX_RESULTS));
+
+    const results: FileSearchResult[] = [];
+    for (const row of await loadCandidates(req)) {
+      const matches = type === 'filename' ? [] : findMatches(row.content ?? '', pattern);
+      const nameMatches = type !== 'content' && namePattern.test(row.name);
+      if (matches.length === 0 && !nameMatches) continue;
+
+      results.push({
+        file: parseFileRow(row, false),
+        matches,
+        score: matches.length + (nameMatches ? FILENAME_MATCH_SCORE : 0)
+      });
+    }
+
+    results.sort((a, b) => b.score - a.score || a.file.path.localeCompare(b.file.path));
+
+    return {
+      results: results.slice(0, maxResults),
+      total: results.length,
+      query: req.query,
+      searchTime: Date.now() - startedAt
+    };
+  }
+);
+
+export const replaceInFiles = api(
+  { method: "POST", path: "/files/replace", auth: true },
+  async (req: ReplaceInFilesRequest): Promise<ReplaceInFilesResponse> => {
+    const user = requireAuth();
+    await requireProjectAccess(req.projectId, user.id, req.preview ? 'read' : 'write');
+
+    const pattern = buildPattern(req);
+    const selected = req.fileIds ? new Set(req.fileIds) : null;
+
+    const edits: Array<{ row: any; content: string; replacement: FileReplacement }> = [];
+    for (const row of await loadCandidates(req)) {
+      if (selected && !selected.has(row.id)) continue;
+
+      const content: string = row.content ?? '';
+      const { content: updated, replacements } = replaceMatches(content, pattern, req.replacement, !!req.useRegex);
+      if (replacements === 0) continue;
+
+      edits.push({
+        row,
+        content: updated,
+        replacement: {
+          fileId: row.id,
+          path: row.path,
+          replacements,
+          changes: computeDiff(content, updated).changes
+        }
+      });
+    }
+
+    const files = edits.map(edit => edit.replacement);
+    const totalReplacements = files.reduce((sum, file) => sum + file.replacements, 0);
+
+    if (req.preview || edits.length === 0) {
+      return { files, totalReplacements, applied: false };
+    }
+
+    const tx = await db.begin();
+    try {
+      const message = `Replace "${req.query}" with "${req.replacement}"`;
+      for (const edit of edits) {
+        await writeFileContent(tx, edit.row, edit.content, user.id, message);
+      }
+      await refreshProjectStats(tx, req.projectId);
+      await tx.commit();
+
+      log.info("Project-wide replace applied", { projectId: req.projectId, files: files.length, totalReplacements });
+      await publishFileChanges(
+        req.projectId, user.id, files.map(file => ({ type: 'modified' as const, fileId: file.fileId, path: file.path }))
+      );
+      return { files, totalReplacements, applied: true };
+    } catch (error) {
+      await tx.rollback();
+      log.error("Failed to replace in files", { error: (error as Error).message, projectId: req.projectId });
+      throw APIError.internal("Failed to replace in files");
+    }
+  }
+);
+
+// Helper functions
+
+// Compile the query into a global RegExp honouring the regex/case/whole-word options
+function buildPattern(options: SearchOptions): RegExp {
+  if (!options.query) {
+    throw APIError.invalidArgument("Search query must not be empty");
+  }
+
+  let source = options.useRegex ? options.query : escapeRegExp(options.query);
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+
+  try {
+    return new RegExp(source, options.caseSensitive ? 'gm' : 'gim');
+  } catch (error) {
+    throw APIError.invalidArgument((error as Error).message);
+  }
+}
+
+// Text files of the project that pass the extension and glob filters
+async function loadCandidates(options: SearchOptions): Promise<any[]> {
+  const include = (options.includePatterns ?? []).filter(Boolean).map(globToRegExp);
+  const exclude = (options.excludePatterns ?? []).filter(Boolean).map(globToRegExp);
+  const extensions = (options.fileTypes ?? [])
+    .filter(Boolean)
+    .map(ext => (ext.startsWith('.') ? ext : `.${ext}`).toLowerCase());
+
+  const rows = await db.rawQueryAll(
+    `SELECT ${FILE_COLUMNS} FROM project_files
+     WHERE project_id = $1 AND type = 'file' AND (metadata->>'isBinary')::boolean IS NOT TRUE
+     ORDER BY path ASC`,
+    options.projectId
+  );
+
+  return rows.filter(row => {
+    const path = row.path.slice(1);
+    if (extensions.length > 0 && !extensions.some(ext => row.name.toLowerCase().endsWith(ext))) return false;
+    if (include.length > 0 && !include.some(glob => glob.test(path))) return false;
+    return !exclude.some(glob => glob.test(path));
+  });
+}
+
+// Matches per line, as search shows them
+export function findMatches(content: string, pattern: RegExp): FileMatch[] {
+  const matches: FileMatch[] = [];
+  const lines = content.split(/\r?\n/);
+
+  for (let index = 0; index < lines.length && matches.length < MAX_MATCHES_PER_FILE; index++) {
+    const line = lines[index];
+    for (const match of lineMatches(line, pattern)) {
+      if (matches.length >= MAX_MATCHES_PER_FILE) break;
+      matches.push({
+        line: index + 1,
+        column: match.index + 1,
+        content: line.length > MAX_LINE_PREVIEW ? line.slice(0, MAX_LINE_PREVIEW) : line,
+        matchedText: match[0]
+      });
+    }
+  }
+
+  return matches;
+}
+
+// Replace the same per-line matches search finds, so a replace changes what its preview showed.
+// Only regex replacements expand $&, $1 and the like; a literal replacement is inserted as is.
+export function replaceMatches(
+  content: string,
+  pattern: RegExp,
+  replacement: string,
+  useRegex: boolean
+): { content: string; replacements: number } {
+  // Lines at even indexes, their line breaks in between
+  const parts = content.split(/(\r?\n)/);
+  let replacements = 0;
+
+  for (let index = 0; index < parts.length; index += 2) {
+    const line = parts[index];
+    const matches = lineMatches(line, pattern);
+    if (matches.length === 0) continue;
+
+    let updated = '';
+    let last = 0;
+    for (const match of matches) {
+      updated += line.slice(last, match.index) + (useRegex ? expandReplacement(replacement, match) : replacement);
+      last = match.index + match[0].length;
+    }
+    parts[index] = updated + line.slice(last);
+    replacements += matches.length;
+  }
+
+  return { content: parts.join(''), replacements };
+}
+
+// Non-empty matches of the pattern in one line; empty matches (e.g. /^/) are skipped so the scan
+// always advances
+function lineMatches(line: string, pattern: RegExp): RegExpExecArray[] {
+  const linePattern = new RegExp(pattern.source, pattern.flags);
+  const matches: RegExpExecArray[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = linePattern.exec(line)) !== null) {
+    if (match[0] === '') {
+      linePattern.lastIndex++;
+      continue;
+    }
+    matches.push(match);
+  }
+
+  return matches;
+}
+
+// Expand $$, $&, $`, $', $n and $<name> in a regex replacement as String.prototype.replace does,
+// with the line as the input string
+function expandReplacement(replacement: string, match: RegExpExecArray): string {
+  const groupCount = match.length - 1;
+  return replacement.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token: string, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    if (ref === '`') return match.input.slice(0, match.index);
+    if (ref === "'") return match.input.slice(match.index + match[0].length);
+    if (name !== undefined) return match.groups ? match.groups[name] ?? '' : token;
+
+    // $nn falls back to $n followed by a digit when there are fewer than nn groups
+    const group = Number(ref);
+    if (group >= 1 && group <= groupCount) return match[group] ?? '';
+    const single = Number(ref[0]);
+    if (ref.length === 2 && single >= 1 && single <= groupCount) return (match[single] ?? '') + ref[1];
+    return token;
+  });
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Translate a glob (`*`, `**`, `?`, `{a,b}`) into a RegExp over paths without the leading '/'
+function globToRegExp(glob: string): RegExp {
+  let pattern = glob.trim().replace(/^\/+/, '');
+  if (!pattern.includes('/')) {
+    pattern = `**/${pattern}`;
+  }
+
+  let source = '';
+  let inGroup = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` also matches zero directories
+        const slash = pattern[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  // A directory pattern also covers everything beneath it
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
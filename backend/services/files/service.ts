@@ -1,207 +1,261 @@
-import { api } from "encore.dev/api";
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { Primitive } from "encore.dev/storage/sqldb";
+import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
+import { requireProjectAccess } from "../projects/service";
+import {
+  FilePermissions,
+  FileTree,
+  VirtualFile,
+  FILE_COLUMNS,
+  ROOT_PATH,
+  TREE_COLUMNS,
+  buildFileTree,
+  deleteEntry,
+  ensureParentDirectories,
+  findFileById,
+  insertEntry,
+  joinPath,
+  likePrefix,
+  normalizePath,
+  parseFileRow,
+  refreshProjectStats,
+  updatePermissions,
+  writeFileContent
+} from "./vfs";
+import { publishFileChanges } from "./watch";
 
 // Interfaces
-interface FileItem {
-  id: string;
-  name: string;
-  path: string;
-  type: 'file' | 'directory';
-  size?: number;
-  mimeType?: string;
-  content?: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
 interface ListFilesRequest {
+  projectId: string;
   path?: string;
-  projectId?: string;
+  recursive?: boolean;
+  includeHidden?: boolean;
+  type?: 'file' | 'directory';
+  limit?: number;
+  offset?: number;
 }
 
 interface CreateFileRequest {
-  name: string;
+  projectId: string;
+  // Directory to create the entry in; missing directories on the way are created
   path: string;
-  content: string;
-  projectId?: string;
+  name: string;
+  type?: 'file' | 'directory';
+  content?: string;
+  permissions?: Partial<FilePermissions>;
 }
 
 interface UpdateFileRequest {
   id: string;
-  content: string;
+  content?: string;
+  permissions?: Partial<FilePermissions>;
+  // Describes this change in the file's version history
+  message?: string;
 }
 
-interface DeleteFileRequest {
-  id: string;
+interface FileTreeResponse {
+  tree: FileTree[];
+  projectId: string;
+  totalFiles: number;
+  totalDirectories: number;
 }
 
-// Mock file system data
-const mockFiles: FileItem[] = [
-  {
-    id: 'file-1',
-    name: 'README.md',
-    path: '/README.md',
-    type: 'file',
-    size: 1024,
-    mimeType: 'text/markdown',
-    content: '# Project README\n\nThis is a sample project.',
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString()
-  },
-  {
-    id: 'dir-1',
-    name: 'src',
-    path: '/src',
-    type: 'directory',
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString()
-  },
-  {
-    id: 'file-2',
-    name: 'index.ts',
-    path: '/src/index.ts',
-    type: 'file',
-    size: 512,
-    mimeType: 'text/typescript',
-    content: 'console.log("Hello World!");',
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString()
-  }
-];
+const DEFAULT_LIST_LIMIT = 500;
+const MAX_LIST_LIMIT = 5000;
 
 // API Endpoints
 export const listFiles = api(
-  { method: "GET", path: "/files" },
-  async (req: ListFilesRequest): Promise<{ files: FileItem[] }> => {
-    const path = req.path || '/';
-    
-    // Filter files by path
-    const filteredFiles = mockFiles.filter(file => {
-      if (path === '/') {
-        return file.path.split('/').length === 2; // Root level files
+  { method: "GET", path: "/files", auth: true },
+  async (req: ListFilesRequest): Promise<{ files: VirtualFile[]; total: number }> => {
+    const user = requireAuth();
+    await requireProjectAccess(req.projectId, user.id, 'read');
+
+    const path = normalizePath(req.path || ROOT_PATH);
+    const limit = Math.min(MAX_LIST_LIMIT, Math.max(1, req.limit || DEFAULT_LIST_LIMIT));
+    const offset = Math.max(0, req.offset || 0);
+
+    const params: Primitive[] = [req.projectId];
+    const conditions = ['project_id = $1'];
+
+    if (req.recursive) {
+      if (path !== ROOT_PATH) {
+        params.push(likePrefix(path));
+        conditions.push(`path LIKE $${params.length}`);
       }
-      return file.path.startsWith(path);
-    });
-    
-    return { files: filteredFiles };
+    } else {
+      params.push(path);
+      conditions.push(`parent_path = $${params.length}`);
+    }
+    if (req.type) {
+      params.push(req.type);
+      conditions.push(`type = $${params.length}`);
+    }
+    if (!req.includeHidden) {
+      conditions.push(`(metadata->>'isHidden')::boolean IS NOT TRUE`);
+    }
+
+    const where = conditions.join(' AND ');
+    const countRow = await db.rawQueryRow(
+      `SELECT COUNT(*)::int AS total FROM project_files WHERE ${where}`,
+      ...params
+    );
+    const rows = await db.rawQueryAll(
+      `SELECT ${FILE_COLUMNS} FROM project_files WHERE ${where}
+       ORDER BY type ASC, path ASC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      ...params, limit, offset
+    );
+
+    return {
+      files: rows.map(row => parseFileRow(row, false)),
+      total: countRow?.total ?? 0
+    };
+  }
+);
+
+export const getFileTree = api(
+  { method: "GET", path: "/files/tree", auth: true },
+  async ({ projectId }: { projectId: string }): Promise<FileTreeResponse> => {
+    const user = requireAuth();
+    await requireProjectAccess(projectId, user.id, 'read');
+
+    const rows = await db.rawQueryAll(
+      `SELECT ${TREE_COLUMNS} FROM project_files WHERE project_id = $1`,
+      projectId
+    );
+
+    const totalDirectories = rows.filter(row => row.type === 'directory').length;
+    return { tree: buildFileTree(rows), projectId, totalFiles: rows.length - totalDirectories, totalDirectories };
   }
 );
 
 export const getFile = api(
-  { method: "GET", path: "/files/:id" },
-  async ({ id }: { id: string }): Promise<FileItem> => {
-    const file = mockFiles.find(f => f.id === id);
-    if (!file) {
-      throw new Error("File not found");
-    }
-    return file;
+  { method: "GET", path: "/files/:id", auth: true },
+  async ({ id, includeContent }: { id: string; includeContent?: boolean }): Promise<VirtualFile> => {
+    const user = requireAuth();
+    const row = await loadAccessibleFile(id, user.id, 'read');
+    return parseFileRow(row, includeContent !== false);
   }
 );
 
 export const createFile = api(
-  { method: "POST", path: "/files" },
-  async (req: CreateFileRequest): Promise<FileItem> => {
-    const fileId = "file-" + Date.now();
-    const now = new Date().toISOString();
-    
-    const newFile: FileItem = {
-      id: fileId,
-      name: req.name,
-      path: req.path,
-      type: 'file',
-      size: req.content.length,
-      mimeType: getMimeType(req.name),
-      content: req.content,
-      createdAt: now,
-      updatedAt: now
-    };
-    
-    mockFiles.push(newFile);
-    return newFile;
+  { method: "POST", path: "/files", auth: true },
+  async (req: CreateFileRequest): Promise<VirtualFile> => {
+    const user = requireAuth();
+    await requireProjectAccess(req.projectId, user.id, 'write');
+
+    const path = childPath(req.path, req.name);
+    const type = req.type || 'file';
+
+    try {
+      const tx = await db.begin();
+      try {
+        await ensureParentDirectories(tx, req.projectId, path, user.id);
+        const row = await insertEntry(tx, req.projectId, path, type, req.content ?? '', user.id, req.permissions);
+        await refreshProjectStats(tx, req.projectId);
+        await tx.commit();
+
+        log.info("File created", { projectId: req.projectId, path, type });
+        await publishFileChanges(req.projectId, user.id, [{ type: 'created', fileId: row.id, path }]);
+        return parseFileRow(row);
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof APIError) throw error;
+      log.error("Failed to create file", { error: (error as Error).message, path });
+      throw APIError.internal("Failed to create file");
+    }
+  }
+);
+
+export const createDirectory = api(
+  { method: "POST", path: "/files/directory", auth: true },
+  async (req: { name: string; path: string; projectId: string }): Promise<VirtualFile> => {
+    return createFile({ ...req, type: 'directory' });
   }
 );
 
 export const updateFile = api(
-  { method: "PUT", path: "/files/:id" },
-  async ({ id, ...req }: { id: string } & UpdateFileRequest): Promise<FileItem> => {
-    const fileIndex = mockFiles.findIndex(f => f.id === id);
-    if (fileIndex === -1) {
-      throw new Error("File not found");
+  { method: "PUT", path: "/files/:id", auth: true },
+  async ({ id, ...req }: UpdateFileRequest): Promise<VirtualFile> => {
+    const user = requireAuth();
+    const existing = await loadAccessibleFile(id, user.id, 'write');
+
+    if (existing.type === 'directory' && req.content !== undefined) {
+      throw APIError.invalidArgument("Cannot write content to a directory");
+    }
+
+    // Without content only the permissions change, so binary files keep their bytes
+    if (req.content === undefined) {
+      const row = await updatePermissions(db, existing, req.permissions, user.id);
+      await publishFileChanges(existing.project_id, user.id, [{ type: 'modified', fileId: id, path: existing.path }]);
+      return parseFileRow(row);
+    }
+
+    const tx = await db.begin();
+    try {
+      const row = await writeFileContent(
+        tx, existing, req.content, user.id, req.message, req.permissions
+      );
+      await refreshProjectStats(tx, existing.project_id);
+      await tx.commit();
+
+      await publishFileChanges(existing.project_id, user.id, [{ type: 'modified', fileId: id, path: existing.path }]);
+      return parseFileRow(row);
+    } catch (error) {
+      await tx.rollback();
+      if (error instanceof APIError) throw error;
+      log.error("Failed to update file", { error: (error as Error).message, fileId: id });
+      throw APIError.internal("Failed to update file");
     }
-    
-    mockFiles[fileIndex] = {
-      ...mockFiles[fileIndex],
-      content: req.content,
-      size: req.content.length,
-      updatedAt: new Date().toISOString()
-    };
-    
-    return mockFiles[fileIndex];
   }
 );
 
 export const deleteFile = api(
-  { method: "DELETE", path: "/files/:id" },
-  async ({ id }: { id: string }): Promise<{ success: boolean }> => {
-    const fileIndex = mockFiles.findIndex(f => f.id === id);
-    if (fileIndex === -1) {
-      throw new Error("File not found");
+  { method: "DELETE", path: "/files/:id", auth: true },
+  async ({ id }: { id: string }): Promise<{ success: boolean; deleted: number }> => {
+    const user = requireAuth();
+    const existing = await loadAccessibleFile(id, user.id, 'write');
+
+    const tx = await db.begin();
+    try {
+      const deleted = await deleteEntry(tx, existing);
+      await refreshProjectStats(tx, existing.project_id);
+      await tx.commit();
+
+      log.info("File deleted", { projectId: existing.project_id, path: existing.path, deleted });
+      await publishFileChanges(existing.project_id, user.id, [{ type: 'deleted', fileId: id, path: existing.path }]);
+      return { success: true, deleted };
+    } catch (error) {
+      await tx.rollback();
+      log.error("Failed to delete file", { error: (error as Error).message, fileId: id });
+      throw APIError.internal("Failed to delete file");
     }
-    
-    mockFiles.splice(fileIndex, 1);
-    return { success: true };
   }
 );
 
-export const createDirectory = api(
-  { method: "POST", path: "/files/directory" },
-  async (req: { name: string; path: string; projectId?: string }): Promise<FileItem> => {
-    const dirId = "dir-" + Date.now();
-    const now = new Date().toISOString();
-    
-    const newDir: FileItem = {
-      id: dirId,
-      name: req.name,
-      path: req.path,
-      type: 'directory',
-      createdAt: now,
-      updatedAt: now
-    };
-    
-    mockFiles.push(newDir);
-    return newDir;
+// Helper functions
+
+// Load a file row and check the caller's access to its project
+export async function loadAccessibleFile(id: string, userId: string, access: 'read' | 'write'): Promise<any> {
+  const row = await findFileById(db, id);
+  if (!row) {
+    throw APIError.notFound("File not found");
   }
-);
 
-export const searchFiles = api(
-  { method: "GET", path: "/files/search" },
-  async ({ query }: { query: string }): Promise<{ files: FileItem[] }> => {
-    const results = mockFiles.filter(file =>
-      file.name.toLowerCase().includes(query.toLowerCase()) ||
-      (file.content && file.content.toLowerCase().includes(query.toLowerCase()))
-    );
-    
-    return { files: results };
+  await requireProjectAccess(row.project_id, userId, access);
+  return row;
+}
+
+// The path of an entry called `name` in the directory `parent`
+function childPath(parent: string, name: string): string {
+  if (!name || name.includes('/')) {
+    throw APIError.invalidArgument("File name must be non-empty and must not contain '/'");
   }
-);
 
-// Helper function
-function getMimeType(filename: string): string {
-  const ext = filename.split('.').pop()?.toLowerCase();
-  const mimeTypes: Record<string, string> = {
-    'js': 'text/javascript',
-    'ts': 'text/typescript',
-    'jsx': 'text/javascript',
-    'tsx': 'text/typescript',
-    'json': 'application/json',
-    'md': 'text/markdown',
-    'txt': 'text/plain',
-    'css': 'text/css',
-    'html': 'text/html',
-    'py': 'text/x-python',
-    'java': 'text/x-java',
-    'cpp': 'text/x-c++src',
-    'c': 'text/x-csrc'
-  };
-  
-  return mimeTypes[ext || ''] || 'text/plain';
-}
\ No newline at end of file
+  return joinPath(normalizePath(parent), name);
+}
@@ -0,0 +1,263 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { once } from "node:events";
+import { api, APIError, ErrCode } from "encore.dev/api";
+import log from "encore.dev/log";
+import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
+import { httpStatus } from "../../utils/http";
+import { requireProjectAccess } from "../projects/service";
+import { loadAccessibleFile } from "./service";
+import { ZIP_MAX_ENTRIES, ZipWriter } from "./zip";
+import {
+  ROOT_PATH,
+  baseName,
+  ensureParentDirectories,
+  findFileByPath,
+  hashContent,
+  insertEntry,
+  likePrefix,
+  normalizePath,
+  parseFileRow,
+  readBinaryContent,
+  refreshProjectStats,
+  writeFileContent
+} from "./vfs";
+import { publishFileChanges } from "./watch";
+
+// Raw endpoints: request and response bodies are file bytes rather than JSON
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+const MAX_ARCHIVE_BYTES = 512 * 1024 * 1024;
+const CHECKSUM_HEADER = 'x-content-sha256';
+
+// Upload one file's raw bytes to `path`. Text content (valid UTF-8 without NUL bytes) is stored
+// as an ordinary, versioned text file; anything else is stored as binary.
+// Query: projectId, path, overwrite. An optional X-Content-SHA256 header is verified.
+export const uploadFile = api.raw(
+  { method: "POST", path: "/files/upload", auth: true },
+  async (req, resp) => {
+    await handleRaw(resp, "Failed to upload file", async () => {
+      const user = requireAuth();
+      const query = new URL(req.url ?? '', 'http://localhost').searchParams;
+      const projectId = query.get('projectId') ?? '';
+      await requireProjectAccess(projectId, user.id, 'write');
+
+      const path = normalizePath(query.get('path') ?? '');
+      if (path === ROOT_PATH) {
+        throw APIError.invalidArgument("Upload path must include a file name");
+      }
+
+      const body = await readBody(req, MAX_UPLOAD_BYTES);
+      const expected = req.headers[CHECKSUM_HEADER];
+      if (typeof expected === 'string' && expected.toLowerCase() !== hashContent(body)) {
+        throw APIError.invalidArgument("Checksum mismatch: the upload was corrupted in transit");
+      }
+      const content = decodeText(body) ?? body;
+
+      const tx = await db.begin();
+      try {
+        const existing = await findFileByPath(tx, projectId, path);
+        let row;
+        if (existing) {
+          if (existing.type === 'directory') {
+            throw APIError.alreadyExists(`A directory already exists at ${path}`);
+          }
+          if (query.get('overwrite') !== 'true') {
+            throw APIError.alreadyExists(`A file already exists at ${path}`);
+          }
+          row = await writeFileContent(tx, existing, content, user.id, `Uploaded ${baseName(path)}`);
+        } else {
+          await ensureParentDirectories(tx, projectId, path, user.id);
+          row = await insertEntry(tx, projectId, path, 'file', content, user.id);
+        }
+        await refreshProjectStats(tx, projectId);
+        await tx.commit();
+
+        log.info("File uploaded", { projectId, path, size: body.length, binary: Buffer.isBuffer(content) });
+        await publishFileChanges(projectId, user.id, [{ type: existing ? 'modified' : 'created', fileId: row.id, path }]);
+        sendJson(resp, existing ? 200 : 201, { success: true, uploadedFiles: [parseFileRow(row, false)] });
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Download a file's bytes, or a directory as a ZIP archive
+export const downloadFile = api.raw(
+  { method: "GET", path: "/files/:id/download", auth: true },
+  async (req, resp) => {
+    await handleRaw(resp, "Failed to download file", async () => {
+      const user = requireAuth();
+      const id = new URL(req.url ?? '', 'http://localhost').pathname.split('/').slice(-2)[0] ?? '';
+      const file = await loadAccessibleFile(id, user.id, 'read');
+
+      if (file.type === 'directory') {
+        await sendArchive(resp, file.project_id, file.path);
+        return;
+      }
+
+      const etag = `"${file.hash}"`;
+      if (req.headers['if-none-match'] === etag) {
+        resp.writeHead(304, { ETag: etag });
+        resp.end();
+        return;
+      }
+
+      const { metadata, mimeType } = parseFileRow(file, false);
+      const body = metadata.isBinary ? await readBinaryContent(db, file.id) : Buffer.from(file.content ?? '', 'utf8');
+      resp.writeHead(200, {
+        'Content-Type': metadata.isBinary ? mimeType ?? 'application/octet-stream' : `${mimeType ?? 'text/plain'}; charset=utf-8`,
+        'Content-Length': body.length,
+        'Content-Disposition': attachment(file.name),
+        'ETag': etag,
+        'X-Content-SHA256': file.hash
+      });
+      resp.end(body);
+    });
+  }
+);
+
+// Download a project directory (the whole project by default) as a ZIP archive. Query: projectId, path.
+export const downloadArchive = api.raw(
+  { method: "GET", path: "/files/archive", auth: true },
+  async (req, resp) => {
+    await handleRaw(resp, "Failed to build archive", async () => {
+      const user = requireAuth();
+      const query = new URL(req.url ?? '', 'http://localhost').searchParams;
+      const projectId = query.get('projectId') ?? '';
+      await requireProjectAccess(projectId, user.id, 'read');
+
+      const path = normalizePath(query.get('path') || ROOT_PATH);
+      if (path !== ROOT_PATH) {
+        const directory = await findFileByPath(db, projectId, path);
+        if (!directory || directory.type !== 'directory') {
+          throw APIError.notFound(`Directory not found: ${path}`);
+        }
+      }
+
+      await sendArchive(resp, projectId, path);
+    });
+  }
+);
+
+// Helper functions
+
+// Stream every entry beneath `path` into a ZIP archive, one row at a time
+async function sendArchive(resp: ServerResponse, projectId: string, path: string): Promise<void> {
+  const isRoot = path === ROOT_PATH;
+  const pattern = isRoot ? '%' : likePrefix(path);
+
+  // Check limits up front: once streaming has started the status can no longer change
+  const totals = await db.rawQueryRow(
+    `SELECT COUNT(*)::int AS entries, COALESCE(SUM(size), 0)::bigint AS bytes
+     FROM project_files WHERE project_id = $1 AND path LIKE $2`,
+    projectId, pattern
+  );
+  if ((totals?.entries ?? 0) >= ZIP_MAX_ENTRIES || Number(totals?.bytes ?? 0) > MAX_ARCHIVE_BYTES) {
+    throw APIError.resourceExhausted(
+      `Archives are limited to ${ZIP_MAX_ENTRIES - 1} entries and ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB`
+    );
+  }
+
+  const rootName = isRoot ? 'project' : baseName(path);
+  resp.writeHead(200, {
+    'Content-Type': 'application/zip',
+    'Content-Disposition': attachment(`${rootName}.zip`)
+  });
+
+  const zip = new ZipWriter(async chunk => {
+    if (!resp.write(chunk)) {
+      await once(resp, 'drain');
+    }
+  });
+
+  try {
+    const rows = db.rawQuery(
+      `SELECT path, type, content, binary_content, updated_at
+       FROM project_files WHERE project_id = $1 AND path LIKE $2
+       ORDER BY path ASC`,
+      projectId, pattern
+    );
+    for await (const row of rows) {
+      // Entries sit under a folder named after the directory, or at the top level for the whole project
+      const name = isRoot ? row.path.slice(1) : `${rootName}${row.path.slice(path.length)}`;
+      if (row.type === 'directory') {
+        await zip.addDirectory(name, row.updated_at);
+      } else {
+        await zip.addFile(name, row.binary_content ?? Buffer.from(row.content ?? '', 'utf8'), row.updated_at);
+      }
+    }
+    await zip.finish();
+    resp.end();
+  } catch (error) {
+    // Headers are already sent, so the only way to signal failure is to cut the stream
+    log.error("Archive stream failed", { error: (error as Error).message, projectId, path });
+    resp.destroy(error as Error);
+  }
+}
+
+async function readBody(req: IncomingMessage, limit: number): Promise<Buffer> {
+  const declared = Number(req.headers['content-length']);
+  if (declared > limit) {
+    throw APIError.resourceExhausted(`Uploads are limited to ${limit / 1024 / 1024} MB`);
+  }
+
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of req) {
+    received += chunk.length;
+    if (received > limit) {
+      throw APIError.resourceExhausted(`Uploads are limited to ${limit / 1024 / 1024} MB`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// UTF-8 text without NUL bytes, or null for binary data
+function decodeText(body: Buffer): string | null {
+  if (body.includes(0)) {
+    return null;
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(body);
+  } catch {
+    return null;
+  }
+}
+
+function attachment(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+function sendJson(resp: ServerResponse, status: number, body: unknown): void {
+  resp.writeHead(status, { 'Content-Type': 'application/json' });
+  resp.end(JSON.stringify(body));
+}
+
+// Run a raw handler, turning thrown errors into the same JSON error shape typed endpoints return
+async function handleRaw(resp: ServerResponse, failureMessage: string, handler: () => Promise<void>): Promise<void> {
+  try {
+    await handler();
+  } catch (error) {
+    if (resp.headersSent) {
+      resp.destroy();
+      return;
+    }
+    if (error instanceof APIError) {
+      // Here resource_exhausted means too large (413). Oversized uploads stop reading the body
+      // part way, so the connection cannot be reused.
+      const tooLarge = error.code === ErrCode.ResourceExhausted;
+      if (tooLarge) {
+        resp.setHeader('Connection', 'close');
+      }
+      sendJson(resp, tooLarge ? 413 : httpStatus(error.code), { code: error.code, message: error.message });
+      return;
+    }
+    log.error(failureMessage, { error: (error as Error).message });
+    sendJson(resp, 500, { code: 'internal', message: failureMessage });
+  }
+}
@@ -0,0 +1,271 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
+import { loadAccessibleFile } from "./service";
+import { LineDiff, computeDiff } from "./diff";
+import { FileVersion, VirtualFile, hashContent, parseFileRow, refreshProjectStats, writeFileContent } from "./vfs";
+import { publishFileChanges } from "./watch";
+
+// Interfaces
+interface FileVersionSummary {
+  id: string;
+  version: number;
+  hash: string;
+  size: number;
+  message?: string;
+  createdAt: Date;
+  createdBy: string;
+  isLatest: boolean;
+}
+
+interface ListVersionsResponse {
+  fileId: string;
+  currentVersion: number;
+  versions: FileVersionSummary[];
+}
+
+interface FileVersionResponse {
+  version: FileVersion;
+  fileId: string;
+  isLatest: boolean;
+}
+
+interface RestoreVersionRequest {
+  id: string;
+  version: number;
+  message?: string;
+}
+
+interface GetFileDiffRequest {
+  id: string;
+  fromVersion?: number;
+  toVersion?: number;
+  contextLines?: number;
+}
+
+interface CompareFilesRequest {
+  fileId: string;
+  // Version of `fileId` on the old side (defaults to its current version)
+  fromVersion?: number;
+  // Exactly one of these selects the new side; without either, the new side is `fileId` itself
+  toVersion?: number;
+  workingContent?: string;
+  compareFileId?: string;
+  contextLines?: number;
+}
+
+interface DiffSide {
+  id: string;
+  path: string;
+  hash: string;
+  size: number;
+  content: string;
+}
+
+interface FileDiffResponse {
+  diff: LineDiff & {
+    oldFile: DiffSide;
+    newFile: DiffSide;
+  };
+  // Omitted for sides that are not stored versions (working content)
+  oldVersion?: number;
+  newVersion?: number;
+}
+
+// API Endpoints
+export const listFileVersions = api(
+  { method: "GET", path: "/files/:id/versions", auth: true },
+  async ({ id }: { id: string }): Promise<ListVersionsResponse> => {
+    const user = requireAuth();
+    const file = await loadAccessibleTextFile(id, user.id, 'read');
+
+    const rows = await db.queryAll`
+      SELECT id::text AS id, version, hash, size, message, created_by::text AS created_by, created_at
+      FROM file_versions
+      WHERE file_id = ${id}
+      ORDER BY version DESC
+    `;
+
+    // The current content lives on the file itself and is reported as the latest version
+    const versions: FileVersionSummary[] = [
+      {
+        id: file.id,
+        version: file.version,
+        hash: file.hash,
+        size: Number(file.size),
+        message: file.version_message ?? undefined,
+        createdAt: file.updated_at,
+        createdBy: file.last_modified_by ?? '',
+        isLatest: true
+      },
+      ...rows.map(row => ({
+        id: row.id,
+        version: row.version,
+        hash: row.hash,
+        size: Number(row.size),
+        message: row.message ?? undefined,
+        createdAt: row.created_at,
+        createdBy: row.created_by ?? '',
+        isLatest: false
+      }))
+    ];
+
+    return { fileId: id, currentVersion: file.version, versions };
+  }
+);
+
+export const getFileVersion = api(
+  { method: "GET", path: "/files/:id/versions/:version", auth: true },
+  async ({ id, version }: { id: string; version: number }): Promise<FileVersionResponse> => {
+    const user = requireAuth();
+    const file = await loadAccessibleTextFile(id, user.id, 'read');
+
+    return {
+      version: await loadVersion(file, version),
+      fileId: id,
+      isLatest: version === file.version
+    };
+  }
+);
+
+export const restoreFileVersion = api(
+  { method: "POST", path: "/files/:id/versions/:version/restore", auth: true },
+  async ({ id, version, message }: RestoreVersionRequest): Promise<VirtualFile> => {
+    const user = requireAuth();
+    const file = await loadAccessibleTextFile(id, user.id, 'write');
+    const target = await loadVersion(file, version);
+
+    // Restoring is an ordinary write, so the content being replaced stays in history too
+    const tx = await db.begin();
+    try {
+      const row = await writeFileContent(
+        tx, file, target.content, user.id, message || `Restored version ${version}`
+      );
+      await refreshProjectStats(tx, file.project_id);
+      await tx.commit();
+
+      log.info("File version restored", { fileId: id, version, newVersion: row.version });
+      await publishFileChanges(file.project_id, user.id, [{ type: 'modified', fileId: id, path: file.path }]);
+      return parseFileRow(row);
+    } catch (error) {
+      await tx.rollback();
+      log.error("Failed to restore file version", { error: (error as Error).message, fileId: id, version });
+      throw APIError.internal("Failed to restore file version");
+    }
+  }
+);
+
+export const getFileDiff = api(
+  { method: "GET", path: "/files/:id/diff", auth: true },
+  async ({ id, fromVersion, toVersion, contextLines }: GetFileDiffRequest): Promise<FileDiffResponse> => {
+    const user = requireAuth();
+    const file = await loadAccessibleTextFile(id, user.id, 'read');
+
+    const newVersion = toVersion ?? file.version;
+    const oldVersion = fromVersion ?? Math.max(1, newVersion - 1);
+    const [from, to] = await Promise.all([loadVersion(file, oldVersion), loadVersion(file, newVersion)]);
+
+    return {
+      diff: buildDiff(versionSide(file, from), versionSide(file, to), contextLines),
+      oldVersion,
+      newVersion
+    };
+  }
+);
+
+export const compareFiles = api(
+  { method: "POST", path: "/files/diff", auth: true },
+  async (req: CompareFilesRequest): Promise<FileDiffResponse> => {
+    const user = requireAuth();
+    const file = await loadAccessibleTextFile(req.fileId, user.id, 'read');
+
+    const targets = [req.toVersion, req.workingContent, req.compareFileId].filter(target => target !== undefined);
+    if (targets.length > 1) {
+      throw APIError.invalidArgument("Specify at most one of toVersion, workingContent or compareFileId");
+    }
+
+    const oldVersion = req.fromVersion ?? file.version;
+    const oldSide = versionSide(file, await loadVersion(file, oldVersion));
+
+    if (req.workingContent !== undefined) {
+      const newSide: DiffSide = {
+        id: file.id,
+        path: file.path,
+        hash: hashContent(req.workingContent),
+        size: Buffer.byteLength(req.workingContent, 'utf8'),
+        content: req.workingContent
+      };
+      return { diff: buildDiff(oldSide, newSide, req.contextLines), oldVersion };
+    }
+
+    if (req.compareFileId !== undefined) {
+      const other = await loadAccessibleTextFile(req.compareFileId, user.id, 'read');
+      const newSide = versionSide(other, await loadVersion(other, other.version));
+      return { diff: buildDiff(oldSide, newSide, req.contextLines), oldVersion, newVersion: other.version };
+    }
+
+    const newVersion = req.toVersion ?? file.version;
+    const newSide = versionSide(file, await loadVersion(file, newVersion));
+    return { diff: buildDiff(oldSide, newSide, req.contextLines), oldVersion, newVersion };
+  }
+);
+
+// Helper functions
+const MAX_CONTEXT_LINES = 50;
+
+function buildDiff(oldFile: DiffSide, newFile: DiffSide, contextLines = 3): FileDiffResponse['diff'] {
+  const context = Math.min(MAX_CONTEXT_LINES, Math.max(0, Math.floor(contextLines)));
+  return { oldFile, newFile, ...computeDiff(oldFile.content, newFile.content, context) };
+}
+
+function versionSide(file: any, version: FileVersion): DiffSide {
+  return { id: file.id, path: file.path, hash: version.hash, size: version.size, content: version.content };
+}
+
+async function loadAccessibleTextFile(id: string, userId: string, access: 'read' | 'write'): Promise<any> {
+  const file = await loadAccessibleFile(id, userId, access);
+  if (file.type !== 'file') {
+    throw APIError.invalidArgument("Directories have no version history");
+  }
+  if (parseFileRow(file, false).metadata.isBinary) {
+    throw APIError.invalidArgument("Binary files have no version history");
+  }
+  return file;
+}
+
+async function loadVersion(file: any, version: number): Promise<FileVersion> {
+  if (version === file.version) {
+    return {
+      id: file.id,
+      version: file.version,
+      content: file.content ?? '',
+      hash: file.hash,
+      size: Number(file.size),
+      message: file.version_message ?? undefined,
+      createdAt: file.updated_at,
+      createdBy: file.last_modified_by ?? ''
+    };
+  }
+
+  const row = await db.queryRow`
+    SELECT id::text AS id, version, content, hash, size, message, created_by::text AS created_by, created_at
+    FROM file_versions
+    WHERE file_id = ${file.id} AND version = ${version}
+  `;
+
+  if (!row) {
+    throw APIError.notFound(`Version ${version} not found`);
+  }
+
+  return {
+    id: row.id,
+    version: row.version,
+    content: row.content,
+    hash: row.hash,
+    size: Number(row.size),
+    message: row.message ?? undefined,
+    createdAt: row.created_at,
+    createdBy: row.created_by ?? ''
+  };
+}
@@ -0,0 +1,598 @@
+import { createHash } from "node:crypto";
+import { APIError } from "encore.dev/api";
+import { SQLDatabase, Transaction } from "encore.dev/storage/sqldb";
+import { mapLineNumbers } from "./diff";
+
+// Interfaces (mirrors shared/src/types/filesystem.ts)
+export interface FilePermissions {
+  owner: string;
+  group?: string;
+  mode: number; // Unix-style permissions
+  readable: boolean;
+  writable: boolean;
+  executable: boolean;
+}
+
+export interface FileAnnotation {
+  id: string;
+  line: number;
+  column: number;
+  type: 'comment' | 'todo' | 'error' | 'warning' | 'info';
+  content: string;
+  author: string;
+  authorName?: string;
+  // Replies point at the annotation that starts their thread and share its line
+  parentId?: string;
+  createdAt: Date;
+  updatedAt?: Date;
+  resolved?: boolean;
+  resolvedBy?: string;
+  resolvedAt?: Date;
+}
+
+export interface FileMetadata {
+  encoding?: string;
+  language?: string;
+  lineCount?: number;
+  isHidden: boolean;
+  isBinary: boolean;
+  isSymlink: boolean;
+  symlinkTarget?: string;
+  tags: string[];
+  annotations: FileAnnotation[];
+}
+
+export interface FileVersion {
+  id: string;
+  version: number;
+  content: string;
+  hash: string;
+  size: number;
+  message?: string;
+  createdAt: Date;
+  createdBy: string;
+}
+
+export interface VirtualFile {
+  id: string;
+  projectId: string;
+  path: string;
+  name: string;
+  type: 'file' | 'directory';
+  size: number;
+  mimeType?: string;
+  content?: string;
+  hash: string;
+  permissions: FilePermissions;
+  metadata: FileMetadata;
+  versions: FileVersion[];
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy: string;
+  lastModifiedBy: string;
+}
+
+export interface FileTree {
+  id: string;
+  name: string;
+  path: string;
+  type: 'file' | 'directory';
+  size?: number;
+  children?: FileTree[];
+}
+
+// Either the shared database or an open transaction on it
+export type Queryer = SQLDatabase | Transaction;
+
+export const ROOT_PATH = '/';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_PATH_LENGTH = 1024;
+const MAX_NAME_LENGTH = 255;
+
+export const FILE_COLUMNS = `
+  id::text AS id, project_id::text AS project_id, path, name, type, size, mime_type,
+  content, hash, permissions, metadata, created_by::text AS created_by,
+  last_modified_by::text AS last_modified_by, version, version_message, created_at, updated_at
+`;
+
+// The columns buildFileTree needs
+export const TREE_COLUMNS = `id::text AS id, path, parent_path, name, type, size`;
+
+// Path helpers. All stored paths are absolute, '/'-separated and have no trailing slash.
+export function normalizePath(path: string): string {
+  const segments: string[] = [];
+
+  for (const segment of path.replace(/\\/g, '/').split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      throw APIError.invalidArgument(`Path must not contain '..': ${path}`);
+    }
+    if (segment.length > MAX_NAME_LENGTH) {
+      throw APIError.invalidArgument(`Path segment too long: ${segment.slice(0, 32)}...`);
+    }
+    segments.push(segment);
+  }
+
+  const normalized = '/' + segments.join('/');
+  if (normalized.length > MAX_PATH_LENGTH) {
+    throw APIError.invalidArgument("Path is too long");
+  }
+  return normalized;
+}
+
+export function parentOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index <= 0 ? ROOT_PATH : path.slice(0, index);
+}
+
+export function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+export function joinPath(dir: string, name: string): string {
+  return normalizePath(`${dir}/${name}`);
+}
+
+// Escape LIKE wildcards so a path can be used as a literal prefix pattern
+export function likePrefix(path: string): string {
+  return path.replace(/[\\%_]/g, match => `\\${match}`) + '/%';
+}
+
+export function isUuid(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+export function hashContent(content: string | Buffer): string {
+  return typeof content === 'string'
+    ? createHash('sha256').update(content, 'utf8').digest('hex')
+    : createHash('sha256').update(content).digest('hex');
+}
+
+export function byteLength(content: string | Buffer): number {
+  return typeof content === 'string' ? Buffer.byteLength(content, 'utf8') : content.length;
+}
+
+export function countLines(content: string): number {
+  return content === '' ? 0 : content.split('\n').length;
+}
+
+export function getMimeType(filename: string, isBinary = false): string {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  const mimeTypes: Record<string, string> = {
+    'js': 'text/javascript',
+    'ts': 'text/typescript',
+    'jsx': 'text/javascript',
+    'tsx': 'text/typescript',
+    'json': 'application/json',
+    'md': 'text/markdown',
+    'txt': 'text/plain',
+    'css': 'text/css',
+    'html': 'text/html',
+    'py': 'text/x-python',
+    'java': 'text/x-java',
+    'cpp': 'text/x-c++src',
+    'c': 'text/x-csrc',
+    'svg': 'image/svg+xml',
+    'png': 'image/png',
+    'jpg': 'image/jpeg',
+    'jpeg': 'image/jpeg',
+    'gif': 'image/gif',
+    'webp': 'image/webp',
+    'ico': 'image/x-icon',
+    'pdf': 'application/pdf',
+    'zip': 'application/zip',
+    'gz': 'application/gzip',
+    'woff': 'font/woff',
+    'woff2': 'font/woff2',
+    'ttf': 'font/ttf',
+    'wasm': 'application/wasm'
+  };
+
+  return mimeTypes[ext || ''] || (isBinary ? 'application/octet-stream' : 'text/plain');
+}
+
+export function detectLanguage(filename: string): string | undefined {
+  const ext = filename.split('.').pop()?.toLowerCase();
+  const languages: Record<string, string> = {
+    'js': 'javascript',
+    'jsx': 'javascript',
+    'mjs': 'javascript',
+    'cjs': 'javascript',
+    'ts': 'typescript',
+    'tsx': 'typescript',
+    'json': 'json',
+    'md': 'markdown',
+    'css': 'css',
+    'scss': 'scss',
+    'html': 'html',
+    'py': 'python',
+    'java': 'java',
+    'go': 'go',
+    'rs': 'rust',
+    'rb': 'ruby',
+    'php': 'php',
+    'cpp': 'cpp',
+    'c': 'c',
+    'h': 'c',
+    'sql': 'sql',
+    'sh': 'shell',
+    'yml': 'yaml',
+    'yaml': 'yaml',
+    'xml': 'xml'
+  };
+
+  return languages[ext || ''];
+}
+
+export function buildMetadata(name: string, content: string | Buffer | null, previous?: FileMetadata): FileMetadata {
+  const text = typeof content === 'string' ? content : null;
+  return {
+    tags: [],
+    annotations: [],
+    ...previous,
+    encoding: text === null ? undefined : 'utf-8',
+    language: text === null ? undefined : detectLanguage(name),
+    lineCount: text === null ? undefined : countLines(text),
+    isHidden: name.startsWith('.'),
+    isBinary: Buffer.isBuffer(content),
+    isSymlink: false
+  };
+}
+
+export function defaultPermissions(ownerId: string, type: 'file' | 'directory'): FilePermissions {
+  return {
+    owner: ownerId,
+    mode: type === 'directory' ? 0o755 : 0o644,
+    readable: true,
+    writable: true,
+    executable: type === 'directory'
+  };
+}
+
+export function parseFileRow(row: any, includeContent = true): VirtualFile {
+  const permissions = typeof row.permissions === 'string' ? JSON.parse(row.permissions) : row.permissions;
+  const metadata = typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata;
+
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    path: row.path,
+    name: row.name,
+    type: row.type,
+    size: Number(row.size),
+    mimeType: row.mime_type ?? undefined,
+    // Binary bytes are only served by the download endpoint
+    content: includeContent && row.type === 'file' && !metadata?.isBinary ? row.content ?? '' : undefined,
+    hash: row.hash,
+    permissions,
+    metadata: { tags: [], annotations: [], ...metadata },
+    versions: [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    createdBy: row.created_by ?? '',
+    lastModifiedBy: row.last_modified_by ?? ''
+  };
+}
+
+// Nest TREE_COLUMNS rows under their parents. Rows whose parent is not among them become
+// roots, so a subtree query yields a single root node.
+export function buildFileTree(rows: any[]): FileTree[] {
+  const byPath = new Map<string, FileTree>();
+  for (const row of rows) {
+    byPath.set(row.path, row.type === 'directory'
+      ? { id: row.id, name: row.name, path: row.path, type: 'directory', children: [] }
+      : { id: row.id, name: row.name, path: row.path, type: 'file', size: Number(row.size) });
+  }
+
+  const tree: FileTree[] = [];
+  for (const row of rows) {
+    const node = byPath.get(row.path)!;
+    const parent = byPath.get(row.parent_path);
+    (parent?.children ?? tree).push(node);
+  }
+  sortTree(tree);
+  return tree;
+}
+
+// Directories first, then alphabetical, at every level
+function sortTree(nodes: FileTree[]): void {
+  nodes.sort((a, b) => a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'directory' ? -1 : 1);
+  for (const node of nodes) {
+    if (node.children) sortTree(node.children);
+  }
+}
+
+// Row access
+export async function findFileById(q: Queryer, id: string): Promise<any | null> {
+  if (!isUuid(id)) {
+    return null;
+  }
+  return q.rawQueryRow(`SELECT ${FILE_COLUMNS} FROM project_files WHERE id = $1`, id);
+}
+
+export async function findFileByPath(q: Queryer, projectId: string, path: string): Promise<any | null> {
+  return q.rawQueryRow(
+    `SELECT ${FILE_COLUMNS} FROM project_files WHERE project_id = $1 AND path = $2`,
+    projectId, path
+  );
+}
+
+// Create any missing ancestor directories of `path` (like `mkdir -p` on its parent)
+export async function ensureParentDirectories(
+  q: Queryer,
+  projectId: string,
+  path: string,
+  userId: string
+): Promise<void> {
+  const parent = parentOf(path);
+  if (parent === ROOT_PATH) {
+    return;
+  }
+
+  const existing = await findFileByPath(q, projectId, parent);
+  if (existing) {
+    if (existing.type !== 'directory') {
+      throw APIError.failedPrecondition(`Parent path is a file: ${parent}`);
+    }
+    return;
+  }
+
+  await ensureParentDirectories(q, projectId, parent, userId);
+  await insertEntry(q, projectId, parent, 'directory', null, userId);
+}
+
+export async function insertEntry(
+  q: Queryer,
+  projectId: string,
+  path: string,
+  type: 'file' | 'directory',
+  content: string | Buffer | null,
+  userId: string,
+  permissions?: Partial<FilePermissions>
+): Promise<any> {
+  const name = baseName(path);
+  const body = type === 'file' ? content ?? '' : null;
+  const binary = Buffer.isBuffer(body);
+
+  const row = await q.rawQueryRow(
+    `INSERT INTO project_files (
+       project_id, path, parent_path, name, type, size, mime_type, content, binary_content, hash,
+       permissions, metadata, created_by, last_modified_by
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11::jsonb, $12::jsonb, $13, $13)
+     ON CONFLICT (project_id, path) DO NOTHING
+     RETURNING ${FILE_COLUMNS}`,
+    projectId,
+    path,
+    parentOf(path),
+    name,
+    type,
+    body === null ? 0 : byteLength(body),
+    type === 'file' ? getMimeType(name, binary) : null,
+    binary ? null : body,
+    binary ? body : null,
+    body === null ? '' : hashContent(body),
+    JSON.stringify({ ...defaultPermissions(userId, type), ...permissions }),
+    JSON.stringify(buildMetadata(name, body)),
+    userId
+  );
+
+  if (!row) {
+    throw APIError.alreadyExists(`A file or directory already exists at ${path}`);
+  }
+  return row;
+}
+
+// Replace a file's content, snapshotting the previous content as a FileVersion first.
+// Only text content is versioned; binary content is replaced outright. The row is locked and
+// re-read within `q`, which should be a transaction, so concurrent writes each snapshot their own
+// version; metadata and permissions are merged into what is stored, keeping annotations and tags
+// added since `existing` was read.
+export async function writeFileContent(
+  q: Queryer,
+  existing: any,
+  content: string | Buffer,
+  userId: string,
+  message?: string,
+  permissions?: Partial<FilePermissions>
+): Promise<any> {
+  const locked = await q.rawQueryRow(`SELECT ${FILE_COLUMNS} FROM project_files WHERE id = $1 FOR UPDATE`, existing.id);
+  if (!locked) {
+    throw APIError.notFound("File not found");
+  }
+
+  const current = parseFileRow(locked);
+  const hash = hashContent(content);
+  const changed = hash !== locked.hash;
+  const binary = Buffer.isBuffer(content);
+
+  // Only the fields derived from the content; the rest of the stored metadata is kept
+  const { tags, annotations, ...derived } = buildMetadata(current.name, content);
+  const metadata: Partial<FileMetadata> = derived;
+  if (changed) {
+    // Annotations follow their lines through the edit; binary content cannot be annotated
+    metadata.annotations = typeof content === 'string' && !current.metadata.isBinary
+      ? moveAnnotations(current.metadata.annotations, locked.content ?? '', content)
+      : [];
+  }
+
+  if (changed && !current.metadata.isBinary) {
+    await q.exec`
+      INSERT INTO file_versions (file_id, version, content, hash, size, message, created_by, created_at)
+      VALUES (
+        ${locked.id}, ${locked.version}, ${locked.content ?? ''}, ${locked.hash},
+        ${locked.size}, ${locked.version_message}, ${locked.last_modified_by}, ${locked.updated_at}
+      )
+    `;
+  }
+
+  // Text-only fields are dropped first so they do not linger on content that became binary
+  return q.rawQueryRow(
+    `UPDATE project_files
+     SET content = $2, binary_content = $3, size = $4, hash = $5, mime_type = $6,
+         permissions = permissions || $7::jsonb,
+         metadata = (metadata - ARRAY['encoding', 'language', 'lineCount']) || $8::jsonb,
+         last_modified_by = $9,
+         version = CASE WHEN $10 THEN version + 1 ELSE version END,
+         version_message = CASE WHEN $10 THEN $11 ELSE version_message END
+     WHERE id = $1
+     RETURNING ${FILE_COLUMNS}`,
+    locked.id,
+    binary ? null : content,
+    binary ? content : null,
+    byteLength(content),
+    hash,
+    getMimeType(current.name, binary),
+    JSON.stringify(permissions ?? {}),
+    JSON.stringify(metadata),
+    userId,
+    changed,
+    message ?? null
+  );
+}
+
+function moveAnnotations(annotations: FileAnnotation[], oldContent: string, newContent: string): FileAnnotation[] {
+  if (annotations.length === 0) {
+    return annotations;
+  }
+  const mapping = mapLineNumbers(oldContent, newContent);
+  const lastLine = mapping[mapping.length - 1] ?? 1;
+  return annotations.map(annotation => ({
+    ...annotation,
+    line: mapping[annotation.line] ?? lastLine
+  }));
+}
+
+// Change an entry's permissions only, leaving its content and version untouched
+export async function updatePermissions(
+  q: Queryer,
+  existing: any,
+  permissions: Partial<FilePermissions> | undefined,
+  userId: string
+): Promise<any> {
+  return q.rawQueryRow(
+    `UPDATE project_files SET permissions = $2::jsonb, last_modified_by = $3
+     WHERE id = $1 RETURNING ${FILE_COLUMNS}`,
+    existing.id, JSON.stringify({ ...parseFileRow(existing).permissions, ...permissions }), userId
+  );
+}
+
+// Move or rename an entry; a directory takes its whole subtree along. File ids (and
+// so version history) are preserved.
+export async function moveEntry(q: Queryer, existing: any, targetPath: string, userId: string): Promise<any> {
+  assertNotIntoSelf(existing, targetPath);
+  if (targetPath === existing.path) {
+    return existing;
+  }
+  if (await findFileByPath(q, existing.project_id, targetPath)) {
+    throw APIError.alreadyExists(`A file or directory already exists at ${targetPath}`);
+  }
+  await ensureParentDirectories(q, existing.project_id, targetPath, userId);
+
+  const name = baseName(targetPath);
+  const current = parseFileRow(existing);
+  const binary = current.metadata.isBinary;
+  // Only the metadata is rebuilt from the content; the stored content stays as it is
+  const content = existing.type !== 'file' ? null
+    : binary ? await readBinaryContent(q, existing.id)
+    : existing.content ?? '';
+
+  const row = await q.rawQueryRow(
+    `UPDATE project_files
+     SET path = $2, parent_path = $3, name = $4, mime_type = $5, metadata = $6::jsonb, last_modified_by = $7
+     WHERE id = $1
+     RETURNING ${FILE_COLUMNS}`,
+    existing.id,
+    targetPath,
+    parentOf(targetPath),
+    name,
+    existing.type === 'file' ? getMimeType(name, binary) : null,
+    JSON.stringify(buildMetadata(name, content, current.metadata)),
+    userId
+  );
+
+  if (existing.type === 'directory') {
+    // Rewrite the old path prefix of every descendant (and of their parent paths)
+    await q.rawExec(
+      `UPDATE project_files
+       SET path = $3 || substr(path, $4), parent_path = $3 || substr(parent_path, $4)
+       WHERE project_id = $1 AND path LIKE $2`,
+      existing.project_id, likePrefix(existing.path), targetPath, existing.path.length + 1
+    );
+  }
+
+  return row;
+}
+
+// Copy an entry (recursively for directories) to `targetPath`. Copies start a fresh
+// version history owned by `userId`.
+export async function copyEntry(q: Queryer, existing: any, targetPath: string, userId: string): Promise<any> {
+  assertNotIntoSelf(existing, targetPath);
+  await ensureParentDirectories(q, existing.project_id, targetPath, userId);
+
+  const copyRow = async (row: any, path: string) => {
+    const { permissions, metadata } = parseFileRow(row);
+    const content = row.type !== 'file' ? null
+      : metadata.isBinary ? await readBinaryContent(q, row.id)
+      : row.content ?? '';
+    return insertEntry(q, row.project_id, path, row.type, content, userId, { ...permissions, owner: userId });
+  };
+
+  const root = await copyRow(existing, targetPath);
+  if (existing.type === 'directory') {
+    // Ordered by path so every directory is created before its children
+    const descendants = await q.rawQueryAll(
+      `SELECT ${FILE_COLUMNS} FROM project_files
+       WHERE project_id = $1 AND path LIKE $2
+       ORDER BY path ASC`,
+      existing.project_id, likePrefix(existing.path)
+    );
+    for (const row of descendants) {
+      await copyRow(row, targetPath + row.path.slice(existing.path.length));
+    }
+  }
+
+  return root;
+}
+
+// Raw bytes of a binary file (FILE_COLUMNS leaves them out to keep listings light)
+export async function readBinaryContent(q: Queryer, id: string): Promise<Buffer> {
+  const row = await q.queryRow`SELECT binary_content FROM project_files WHERE id = ${id}`;
+  return row?.binary_content ?? Buffer.alloc(0);
+}
+
+// Delete an entry, together with everything beneath it for directories. Returns the number of rows removed.
+export async function deleteEntry(q: Queryer, existing: any): Promise<number> {
+  const rows = await q.rawQueryAll(
+    `DELETE FROM project_files
+     WHERE project_id = $1 AND (path = $2 OR ($3 AND path LIKE $4))
+     RETURNING id`,
+    existing.project_id, existing.path, existing.type === 'directory', likePrefix(existing.path)
+  );
+  return rows.length;
+}
+
+function assertNotIntoSelf(existing: any, targetPath: string): void {
+  if (targetPath === ROOT_PATH) {
+    throw APIError.invalidArgument("Target path must not be the project root");
+  }
+  if (existing.type === 'directory' && targetPath.startsWith(existing.path + '/')) {
+    throw APIError.invalidArgument(`Cannot move or copy ${existing.path} into itself`);
+  }
+}
+
+// Keep the denormalized file stats on the projects table in sync
+export async function refreshProjectStats(q: Queryer, projectId: string): Promise<void> {
+  await q.exec`
+    UPDATE projects
+    SET files_count = stats.files_count,
+        lines_of_code = stats.lines_of_code,
+        last_activity = NOW()
+    FROM (
+      SELECT COUNT(*) FILTER (WHERE type = 'file')::int AS files_count,
+             COALESCE(SUM((metadata->>'lineCount')::int) FILTER (WHERE type = 'file'), 0)::int AS lines_of_code
+      FROM project_files
+      WHERE project_id = ${projectId}
+    ) AS stats
+    WHERE projects.id = ${projectId}
+  `;
+}
@@ -0,0 +1,179 @@
+import { randomUUID } from "node:crypto";
+import { api } from "encore.dev/api";
+import log from "encore.dev/log";
+import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
+import { requireProjectAccess } from "../projects/service";
+import { FileTree, ROOT_PATH, TREE_COLUMNS, buildFileTree, likePrefix, normalizePath, parentOf } from "./vfs";
+
+// Interfaces (mirrors shared/src/types/filesystem.ts)
+type FileWatchEventType = 'created' | 'modified' | 'deleted' | 'moved';
+
+export interface FileWatchEvent {
+  type: FileWatchEventType;
+  fileId: string;
+  projectId: string;
+  path: string;
+  timestamp: Date;
+  userId?: string;
+  details?: {
+    // The entry as it now is, with its whole subtree for directories (absent for deletes)
+    node?: FileTree;
+    // Previous path of a moved entry
+    oldPath?: string;
+  };
+}
+
+// A change recorded by a mutating endpoint, published once its transaction commits
+export interface FileChange {
+  type: FileWatchEventType;
+  fileId: string;
+  path: string;
+  oldPath?: string;
+}
+
+interface WatchHandshake {
+  projectId: string;
+  // Directories or files to watch; the whole project when empty
+  paths?: string[];
+  // Include everything beneath watched directories rather than only direct children (default true)
+  recursive?: boolean;
+  events?: FileWatchEventType[];
+}
+
+interface FileWatchMessage {
+  type: 'watching' | 'event' | 'heartbeat';
+  watchId: string;
+  event?: FileWatchEvent;
+}
+
+interface Subscription {
+  id: string;
+  projectId: string;
+  paths: string[];
+  recursive: boolean;
+  events: FileWatchEventType[] | null;
+  send: (message: FileWatchMessage) => void;
+}
+
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+// Open watches by project. Events are delivered to the watches of this process only.
+const subscriptions = new Map<string, Set<Subscription>>();
+
+// API Endpoints
+
+// Stream create/modify/delete/move events for a project's files until the client disconnects
+export const watchFiles = api.streamOut<WatchHandshake, FileWatchMessage>(
+  { path: "/files/watch", auth: true },
+  async (handshake, stream) => {
+    const user = requireAuth();
+    await requireProjectAccess(handshake.projectId, user.id, 'read');
+
+    const watchId = randomUUID();
+    let closed!: () => void;
+    const done = new Promise<void>(resolve => { closed = resolve; });
+
+    // Sends are queued so events reach the client in publish order; the first failed
+    // send means the client has gone away
+    let queue = Promise.resolve();
+    const send = (message: FileWatchMessage) => {
+      queue = queue.then(() => stream.send(message)).catch(() => closed());
+    };
+
+    const subscription: Subscription = {
+      id: watchId,
+      projectId: handshake.projectId,
+      paths: (handshake.paths ?? []).filter(Boolean).map(normalizePath),
+      recursive: handshake.recursive !== false,
+      events: handshake.events?.length ? handshake.events : null,
+      send
+    };
+
+    const watchers = subscriptions.get(subscription.projectId) ?? new Set<Subscription>();
+    watchers.add(subscription);
+    subscriptions.set(subscription.projectId, watchers);
+    const heartbeat = setInterval(() => send({ type: 'heartbeat', watchId }), HEARTBEAT_INTERVAL_MS);
+
+    log.info("File watch opened", { watchId, projectId: subscription.projectId, userId: user.id });
+    try {
+      send({ type: 'watching', watchId });
+      await done;
+    } finally {
+      clearInterval(heartbeat);
+      watchers.delete(subscription);
+      if (watchers.size === 0) {
+        subscriptions.delete(subscription.projectId);
+      }
+      log.info("File watch closed", { watchId, projectId: subscription.projectId });
+    }
+  }
+);
+
+// Helper functions
+
+// Deliver committed changes to the project's watchers. Failures are logged rather than
+// thrown: the changes themselves have already been applied.
+export async function publishFileChanges(projectId: string, userId: string, changes: FileChange[]): Promise<void> {
+  const watchers = subscriptions.get(projectId);
+  if (!watchers || watchers.size === 0 || changes.length === 0) {
+    return;
+  }
+
+  try {
+    const timestamp = new Date();
+    for (const change of changes) {
+      const event: FileWatchEvent = {
+        type: change.type,
+        fileId: change.fileId,
+        projectId,
+        path: change.path,
+        timestamp,
+        userId
+      };
+
+      if (change.type !== 'deleted') {
+        const node = await loadTreeNode(projectId, change.path);
+        // Already changed again by a later request, which publishes its own event
+        if (!node) continue;
+        event.details = { node, ...(change.oldPath ? { oldPath: change.oldPath } : {}) };
+      }
+
+      for (const subscription of watchers) {
+        if (isWatched(subscription, event)) {
+          subscription.send({ type: 'event', watchId: subscription.id, event });
+        }
+      }
+    }
+  } catch (error) {
+    log.error("Failed to publish file changes", { error: (error as Error).message, projectId });
+  }
+}
+
+async function loadTreeNode(projectId: string, path: string): Promise<FileTree | null> {
+  const rows = await db.rawQueryAll(
+    `SELECT ${TREE_COLUMNS} FROM project_files
+     WHERE project_id = $1 AND (path = $2 OR path LIKE $3)`,
+    projectId, path, likePrefix(path)
+  );
+  const [node] = buildFileTree(rows).filter(root => root.path === path);
+  return node ?? null;
+}
+
+function isWatched(subscription: Subscription, event: FileWatchEvent): boolean {
+  if (subscription.events && !subscription.events.includes(event.type)) {
+    return false;
+  }
+  if (subscription.paths.length === 0) {
+    return true;
+  }
+
+  // A move is visible from both ends
+  const paths = event.details?.oldPath ? [event.path, event.details.oldPath] : [event.path];
+  return paths.some(path => subscription.paths.some(watched => {
+    if (path === watched) return true;
+    if (!subscription.recursive) return parentOf(path) === watched;
+    return watched === ROOT_PATH || path.startsWith(`${watched}/`);
+  }));
+}
+
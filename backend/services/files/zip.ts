@@ -0,0 +1,161 @@
+import { deflateRawSync } from "node:zlib";
+
+// Minimal streaming ZIP writer: entries are written as they are added and the central
+// directory at the end. No ZIP64, so archives are limited to 65535 entries and 4 GiB.
+export const ZIP_MAX_ENTRIES = 0xffff;
+export const ZIP_MAX_BYTES = 0xffffffff;
+
+interface CentralEntry {
+  name: Buffer;
+  crc: number;
+  method: number;
+  compressedSize: number;
+  size: number;
+  time: number;
+  date: number;
+  offset: number;
+  isDirectory: boolean;
+}
+
+const UTF8_NAMES_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const VERSION = 20;
+
+export class ZipWriter {
+  private entries: CentralEntry[] = [];
+  private offset = 0;
+
+  constructor(private readonly write: (chunk: Buffer) => Promise<void>) {}
+
+  async addFile(name: string, data: Buffer, modifiedAt: Date = new Date()): Promise<void> {
+    const compressed = deflateRawSync(data);
+    // Already-compressed data (images, archives) is stored as-is when deflate does not help
+    const deflated = compressed.length < data.length;
+    await this.addEntry(name, deflated ? compressed : data, {
+      crc: crc32(data),
+      method: deflated ? METHOD_DEFLATE : METHOD_STORE,
+      size: data.length,
+      modifiedAt,
+      isDirectory: false
+    });
+  }
+
+  async addDirectory(name: string, modifiedAt: Date = new Date()): Promise<void> {
+    await this.addEntry(name.endsWith('/') ? name : `${name}/`, Buffer.alloc(0), {
+      crc: 0,
+      method: METHOD_STORE,
+      size: 0,
+      modifiedAt,
+      isDirectory: true
+    });
+  }
+
+  async finish(): Promise<void> {
+    const centralStart = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(VERSION, 4);
+      header.writeUInt16LE(VERSION, 6);
+      header.writeUInt16LE(UTF8_NAMES_FLAG, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(entry.time, 12);
+      header.writeUInt16LE(entry.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.isDirectory ? 0x10 : 0, 38);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.emit(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - centralStart, 12);
+    end.writeUInt32LE(centralStart, 16);
+    await this.emit(end);
+  }
+
+  private async addEntry(
+    name: string,
+    data: Buffer,
+    info: { crc: number; method: number; size: number; modifiedAt: Date; isDirectory: boolean }
+  ): Promise<void> {
+    if (this.entries.length >= ZIP_MAX_ENTRIES) {
+      throw new Error(`ZIP archives are limited to ${ZIP_MAX_ENTRIES} entries`);
+    }
+    if (this.offset + data.length > ZIP_MAX_BYTES) {
+      throw new Error("ZIP archive exceeds 4 GiB");
+    }
+
+    const fileName = Buffer.from(name, 'utf8');
+    const { time, date } = dosDateTime(info.modifiedAt);
+    const entry: CentralEntry = {
+      name: fileName,
+      crc: info.crc,
+      method: info.method,
+      compressedSize: data.length,
+      size: info.size,
+      time,
+      date,
+      offset: this.offset,
+      isDirectory: info.isDirectory
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(VERSION, 4);
+    header.writeUInt16LE(UTF8_NAMES_FLAG, 6);
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(fileName.length, 26);
+
+    await this.emit(Buffer.concat([header, fileName]));
+    if (data.length > 0) {
+      await this.emit(data);
+    }
+    this.entries.push(entry);
+  }
+
+  private async emit(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    await this.write(chunk);
+  }
+}
+
+// MS-DOS timestamps have a 2 second resolution and start in 1980
+function dosDateTime(value: Date): { time: number; date: number } {
+  const year = Math.max(1980, value.getFullYear());
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate()
+  };
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -1,5 +1,6 @@
 import { api } from "encore.dev/api";
 import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
 
 // Interfaces
 interface Integration {
@@ -120,7 +121,6 @@ interface ListIntegrationsRequest {
 
 interface InstallIntegrationRequest {
   integrationId: string;
-  userId: string;
   projectId?: string;
   config?: Record<string, any>;
   credentials?: Record<string, any>;
@@ -493,14 +493,15 @@ export const getIntegrationCategories = api(
 );
 
 export const installIntegration = api(
-  { method: "POST", path: "/integrations/:id/install" },
+  { method: "POST", path: "/integrations/:id/install", auth: true },
   async ({ id, ...req }: { id: string } & InstallIntegrationRequest): Promise<UserIntegration> => {
+    const user = requireAuth();
     const userIntegrationId = "user-integration-" + Date.now();
     const now = new Date().toISOString();
 
     const userIntegration: UserIntegration = {
       id: userIntegrationId,
-      userId: req.userId,
+      userId: user.id,
       integrationId: id,
       projectId: req.projectId,
       config: req.config || {},
@@ -517,8 +518,9 @@ export const installIntegration = api(
 );
 
 export const getUserIntegrations = api(
-  { method: "GET", path: "/integrations/user/:userId/list" },
-  async ({ userId, projectId }: { userId: string; projectId?: string }): Promise<{ userIntegrations: UserIntegration[] }> => {
+  { method: "GET", path: "/integrations/user/list", auth: true },
+  async ({ projectId }: { projectId?: string }): Promise<{ userIntegrations: UserIntegration[] }> => {
+    const userId = requireAuth().id;
     // Mock user integrations
     const mockUserIntegrations: UserIntegration[] = [
       {
@@ -547,12 +549,12 @@ export const getUserIntegrations = api(
 );
 
 export const updateUserIntegration = api(
-  { method: "PUT", path: "/integrations/user/:id" },
+  { method: "PUT", path: "/integrations/user/:id", auth: true },
   async ({ id, ...req }: { id: string } & UpdateUserIntegrationRequest): Promise<UserIntegration> => {
-    // In production, this would update the database record
+    // In production, this would update the caller's database record
     const updated: UserIntegration = {
       id,
-      userId: 'user-1',
+      userId: requireAuth().id,
       integrationId: 'stripe-payments',
       config: req.config || {},
       credentials: req.credentials || {},
@@ -567,7 +569,7 @@ export const updateUserIntegration = api(
 );
 
 export const deleteUserIntegration = api(
-  { method: "DELETE", path: "/integrations/user/:id" },
+  { method: "DELETE", path: "/integrations/user/:id", auth: true },
   async ({ id }: { id: string }): Promise<{ success: boolean }> => {
     // In production, this would soft delete or remove the user integration
     return { success: true };
@@ -575,7 +577,7 @@ export const deleteUserIntegration = api(
 );
 
 export const testIntegration = api(
-  { method: "POST", path: "/integrations/:id/test" },
+  { method: "POST", path: "/integrations/:id/test", auth: true },
   async ({ id, credentials, config }: { id: string; credentials: Record<string, any>; config?: Record<string, any> }): Promise<{
     success: boolean;
     message: string;
@@ -631,7 +633,7 @@ export const createWebhookEvent = api(
 );
 
 export const getIntegrationEvents = api(
-  { method: "GET", path: "/integrations/user/:userIntegrationId/events" },
+  { method: "GET", path: "/integrations/user/:userIntegrationId/events", auth: true },
   async ({ userIntegrationId, limit, offset }: { userIntegrationId: string; limit?: number; offset?: number }): Promise<{
     events: IntegrationEvent[];
     total: number;
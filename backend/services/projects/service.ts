@@ -0,0 +1,612 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { Primitive } from "encore.dev/storage/sqldb";
+import { db } from "../../utils/database";
+import { requireAuth, requireVerifiedEmail } from "../../utils/auth";
+
+// Interfaces (mirrors shared/src/types/project.ts)
+export type ProjectType = 'web' | 'mobile' | 'desktop' | 'api' | 'ai' | 'other';
+export type ProjectStatus = 'active' | 'paused' | 'completed' | 'archived';
+export type CollaboratorRole = 'owner' | 'collaborator' | 'viewer';
+
+export interface AIFeatures {
+  codeGeneration: boolean;
+  codeReview: boolean;
+  debugging: boolean;
+  testing: boolean;
+  refactoring: boolean;
+  documentation: boolean;
+}
+
+export interface RepositoryConfig {
+  provider: 'github' | 'gitlab' | 'bitbucket';
+  url: string;
+  branch: string;
+  webhookUrl?: string;
+}
+
+export interface DeploymentConfig {
+  provider: 'aws' | 'gcp' | 'azure' | 'vercel' | 'netlify' | 'docker';
+  environment: 'development' | 'staging' | 'production';
+  config: Record<string, unknown>;
+}
+
+export interface ProjectConfig {
+  framework?: string;
+  language: string;
+  dependencies: string[];
+  environment: Record<string, string>;
+  aiFeatures: AIFeatures;
+  repository?: RepositoryConfig;
+  deployment?: DeploymentConfig;
+}
+
+export interface ProjectCollaborator {
+  id: string;
+  userId: string;
+  role: CollaboratorRole;
+  addedAt: Date;
+  user?: {
+    id: string;
+    name: string;
+    email: string;
+  };
+}
+
+export interface ProjectStats {
+  filesCount: number;
+  linesOfCode: number;
+  lastActivity: Date;
+  aiInteractions: number;
+  collaboratorsCount: number;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  description: string;
+  type: ProjectType;
+  status: ProjectStatus;
+  ownerId: string;
+  collaborators: ProjectCollaborator[];
+  config: ProjectConfig;
+  createdAt: Date;
+  updatedAt: Date;
+  stats: ProjectStats;
+}
+
+// Request/Response interfaces
+interface ListProjectsRequest {
+  page?: number;
+  limit?: number;
+  status?: ProjectStatus;
+  type?: ProjectType;
+  search?: string;
+}
+
+interface ListProjectsResponse {
+  projects: Project[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+interface CreateProjectRequest {
+  name: string;
+  description: string;
+  type: ProjectType;
+  language: string;
+  framework?: string;
+  template?: string;
+  aiFeatures?: Partial<AIFeatures>;
+  repository?: RepositoryConfig;
+}
+
+interface UpdateProjectRequest {
+  id: string;
+  name?: string;
+  description?: string;
+  status?: ProjectStatus;
+  config?: Partial<ProjectConfig>;
+}
+
+interface WizardProjectRequest {
+  sessionId?: string;
+  projectVision: {
+    name: string;
+    description: string;
+    type: string;
+    goals: string[];
+  };
+  techStack: {
+    frontend: string[];
+    backend: string[];
+    database: string[];
+    deployment: string[];
+  };
+  integrations: string[];
+}
+
+interface UpdateWizardProjectRequest {
+  id: string;
+  projectVision?: WizardProjectRequest['projectVision'];
+  techStack?: WizardProjectRequest['techStack'];
+  integrations?: string[];
+}
+
+interface InviteCollaboratorRequest {
+  id: string;
+  email: string;
+  role: 'collaborator' | 'viewer';
+}
+
+// Access levels required by an operation, from least to most privileged
+export type ProjectAccess = 'read' | 'write' | 'admin';
+
+const PROJECT_TYPES: ProjectType[] = ['web', 'mobile', 'desktop', 'api', 'ai', 'other'];
+const PROJECT_STATUSES: ProjectStatus[] = ['active', 'paused', 'completed', 'archived'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const DEFAULT_AI_FEATURES: AIFeatures = {
+  codeGeneration: true,
+  codeReview: true,
+  debugging: true,
+  testing: true,
+  refactoring: false,
+  documentation: true
+};
+
+// API Endpoints
+
+export const listProjects = api(
+  { method: "GET", path: "/projects", auth: true },
+  async (req: ListProjectsRequest): Promise<ListProjectsResponse> => {
+    const user = requireAuth();
+    const page = Math.max(1, Math.floor(req.page || 1));
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(req.limit || DEFAULT_PAGE_SIZE)));
+
+    if (req.status && !PROJECT_STATUSES.includes(req.status)) {
+      throw APIError.invalidArgument(`Invalid project status: ${req.status}`);
+    }
+    if (req.type && !PROJECT_TYPES.includes(req.type)) {
+      throw APIError.invalidArgument(`Invalid project type: ${req.type}`);
+    }
+
+    try {
+      const params: Primitive[] = [user.id];
+      const conditions = [
+        `(p.owner_id = $1 OR EXISTS (
+          SELECT 1 FROM project_collaborators c WHERE c.project_id = p.id AND c.user_id = $1
+        ))`
+      ];
+
+      if (req.status) {
+        params.push(req.status);
+        conditions.push(`p.status = $${params.length}`);
+      }
+      if (req.type) {
+        params.push(req.type);
+        conditions.push(`p.type = $${params.length}`);
+      }
+      if (req.search && req.search.trim()) {
+        params.push(`%${req.search.trim()}%`);
+        conditions.push(`(p.name ILIKE $${params.length} OR p.description ILIKE $${params.length})`);
+      }
+
+      const where = conditions.join(' AND ');
+      const countRow = await db.rawQueryRow(
+        `SELECT COUNT(*)::int AS total FROM projects p WHERE ${where}`,
+        ...params
+      );
+      const total: number = countRow?.total ?? 0;
+
+      const rows = await db.rawQueryAll(
+        `SELECT ${PROJECT_COLUMNS} FROM projects p WHERE ${where}
+         ORDER BY p.updated_at DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        ...params, limit, (page - 1) * limit
+      );
+
+      const collaborators = await loadCollaborators(rows.map(row => row.id));
+      const projects = rows.map(row => parseProjectRow(row, collaborators.get(row.id) || []));
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        projects,
+        total,
+        page,
+        limit,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      };
+    } catch (error) {
+      if (error instanceof APIError) throw error;
+      log.error("Failed to list projects", { error: (error as Error).message });
+      throw APIError.internal("Failed to list projects");
+    }
+  }
+);
+
+export const getProject = api(
+  { method: "GET", path: "/projects/:id", auth: true },
+  async ({ id }: { id: string }): Promise<Project> => {
+    const user = requireAuth();
+    await requireProjectAccess(id, user.id, 'read');
+    return loadProject(id);
+  }
+);
+
+export const createProject = api(
+  { method: "POST", path: "/projects", auth: true },
+  async (req: CreateProjectRequest): Promise<Project> => {
+    const user = requireAuth();
+    validateProjectFields(req);
+
+    if (!req.language || !req.language.trim()) {
+      throw APIError.invalidArgument("Project language is required");
+    }
+
+    const config: ProjectConfig = {
+      framework: req.framework,
+      language: req.language,
+      dependencies: [],
+      environment: {},
+      aiFeatures: { ...DEFAULT_AI_FEATURES, ...req.aiFeatures },
+      repository: req.repository
+    };
+
+    const id = await insertProject(user.id, req.name, req.description, req.type, config, null);
+    log.info("Project created", { projectId: id, ownerId: user.id, template: req.template });
+
+    return loadProject(id);
+  }
+);
+
+export const updateProject = api(
+  { method: "PUT", path: "/projects/:id", auth: true },
+  async ({ id, ...req }: UpdateProjectRequest): Promise<Project> => {
+    const user = requireAuth();
+    await requireProjectAccess(id, user.id, 'write');
+    validateProjectFields(req);
+
+    if (req.status && !PROJECT_STATUSES.includes(req.status)) {
+      throw APIError.invalidArgument(`Invalid project status: ${req.status}`);
+    }
+
+    const existing = await loadProject(id);
+    const config: ProjectConfig = req.config
+      ? {
+          ...existing.config,
+          ...req.config,
+          aiFeatures: { ...existing.config.aiFeatures, ...req.config.aiFeatures }
+        }
+      : existing.config;
+
+    await db.exec`
+      UPDATE projects
+      SET name = ${req.name ?? existing.name},
+          description = ${req.description ?? existing.description},
+          status = ${req.status ?? existing.status},
+          config = ${JSON.stringify(config)}::jsonb,
+          last_activity = NOW()
+      WHERE id = ${id}
+    `;
+
+    log.info("Project updated", { projectId: id, userId: user.id });
+    return loadProject(id);
+  }
+);
+
+export const deleteProject = api(
+  { method: "DELETE", path: "/projects/:id", auth: true },
+  async ({ id }: { id: string }): Promise<{ success: boolean }> => {
+    const user = requireAuth();
+    await requireProjectAccess(id, user.id, 'admin');
+
+    await db.exec`DELETE FROM projects WHERE id = ${id}`;
+
+    log.info("Project deleted", { projectId: id, userId: user.id });
+    return { success: true };
+  }
+);
+
+export const createWizardProject = api(
+  { method: "POST", path: "/projects/wizard", auth: true },
+  async (req: WizardProjectRequest): Promise<Project> => {
+    const user = requireAuth();
+    const { name, description } = req.projectVision;
+    const type = toProjectType(req.projectVision.type);
+    validateProjectFields({ name, description });
+
+    const id = await insertProject(
+      user.id,
+      name,
+      description,
+      type,
+      wizardConfig(req.techStack, req.integrations),
+      req.sessionId ?? null
+    );
+    log.info("Project created from wizard", { projectId: id, ownerId: user.id, sessionId: req.sessionId });
+
+    return loadProject(id);
+  }
+);
+
+export const updateWizardProject = api(
+  { method: "PUT", path: "/projects/wizard/:id", auth: true },
+  async ({ id, ...req }: UpdateWizardProjectRequest): Promise<Project> => {
+    const user = requireAuth();
+    await requireProjectAccess(id, user.id, 'write');
+
+    const existing = await loadProject(id);
+    const name = req.projectVision?.name ?? existing.name;
+    const description = req.projectVision?.description ?? existing.description;
+    const type = req.projectVision ? toProjectType(req.projectVision.type) : existing.type;
+    validateProjectFields({ name, description });
+
+    const config: ProjectConfig = req.techStack || req.integrations
+      ? {
+          ...existing.config,
+          ...wizardConfig(
+            req.techStack ?? { frontend: [], backend: [], database: [], deployment: [] },
+            req.integrations ?? []
+          ),
+          environment: existing.config.environment,
+          aiFeatures: existing.config.aiFeatures
+        }
+      : existing.config;
+
+    await db.exec`
+      UPDATE projects
+      SET name = ${name},
+          description = ${description},
+          type = ${type},
+          config = ${JSON.stringify(config)}::jsonb,
+          last_activity = NOW()
+      WHERE id = ${id}
+    `;
+
+    return loadProject(id);
+  }
+);
+
+export const getProjectFiles = api(
+  { method: "GET", path: "/projects/:id/files", auth: true },
+  async ({ id }: { id: string }): Promise<{ files: string[] }> => {
+    const user = requireAuth();
+    await requireProjectAccess(id, user.id, 'read');
+
+    const rows = await db.queryAll`
+      SELECT path FROM project_files
+      WHERE project_id = ${id} AND type = 'file'
+      ORDER BY path ASC
+    `;
+
+    return { files: rows.map(row => row.path) };
+  }
+);
+
+export const addCollaborator = api(
+  { method: "POST", path: "/projects/:id/collaborators", auth: true },
+  async ({ id, email, role }: InviteCollaboratorRequest): Promise<Project> => {
+    // Only accounts with a confirmed email address may share projects
+    const user = requireVerifiedEmail();
+    await requireProjectAccess(id, user.id, 'admin');
+
+    if (role !== 'collaborator' && role !== 'viewer') {
+      throw APIError.invalidArgument(`Invalid collaborator role: ${role}`);
+    }
+
+    const invitee = await db.queryRow`
+      SELECT id::text FROM users WHERE email = ${email}
+    `;
+    if (!invitee) {
+      throw APIError.notFound("No user found with this email");
+    }
+    if (invitee.id === user.id) {
+      throw APIError.invalidArgument("The project owner is already a member");
+    }
+
+    await db.exec`
+      INSERT INTO project_collaborators (project_id, user_id, role)
+      VALUES (${id}, ${invitee.id}, ${role})
+      ON CONFLICT (project_id, user_id) DO UPDATE SET role = EXCLUDED.role
+    `;
+
+    log.info("Collaborator added", { projectId: id, userId: invitee.id, role });
+    return loadProject(id);
+  }
+);
+
+export const removeCollaborator = api(
+  { method: "DELETE", path: "/projects/:id/collaborators/:userId", auth: true },
+  async ({ id, userId }: { id: string; userId: string }): Promise<{ success: boolean }> => {
+    const user = requireAuth();
+    // Collaborators may always remove themselves; anyone else needs the owner
+    await requireProjectAccess(id, user.id, user.id === userId ? 'read' : 'admin');
+
+    await db.exec`
+      DELETE FROM project_collaborators WHERE project_id = ${id} AND user_id = ${userId}
+    `;
+
+    return { success: true };
+  }
+);
+
+// Access control for other services that scope data by project
+export async function requireProjectAccess(
+  projectId: string,
+  userId: string,
+  access: ProjectAccess = 'read'
+): Promise<CollaboratorRole> {
+  if (!UUID_PATTERN.test(projectId)) {
+    throw APIError.notFound("Project not found");
+  }
+
+  const row = await db.queryRow`
+    SELECT p.owner_id::text AS owner_id, c.role
+    FROM projects p
+    LEFT JOIN project_collaborators c ON c.project_id = p.id AND c.user_id = ${userId}
+    WHERE p.id = ${projectId}
+  `;
+
+  // Hide the existence of projects the caller cannot see
+  if (!row || (row.owner_id !== userId && !row.role)) {
+    throw APIError.notFound("Project not found");
+  }
+
+  const role: CollaboratorRole = row.owner_id === userId ? 'owner' : row.role;
+  const allowed =
+    access === 'read' ||
+    (access === 'write' && role !== 'viewer') ||
+    (access === 'admin' && role === 'owner');
+
+  if (!allowed) {
+    throw APIError.permissionDenied("Insufficient permissions for this project");
+  }
+
+  return role;
+}
+
+// Helper functions
+const PROJECT_COLUMNS = `
+  p.id::text AS id, p.owner_id::text AS owner_id, p.name, p.description, p.type, p.status,
+  p.config, p.files_count, p.lines_of_code, p.ai_interactions, p.last_activity,
+  p.created_at, p.updated_at
+`;
+
+async function loadProject(id: string): Promise<Project> {
+  const row = await db.rawQueryRow(
+    `SELECT ${PROJECT_COLUMNS} FROM projects p WHERE p.id = $1`,
+    id
+  );
+
+  if (!row) {
+    throw APIError.notFound("Project not found");
+  }
+
+  const collaborators = await loadCollaborators([id]);
+  return parseProjectRow(row, collaborators.get(id) || []);
+}
+
+async function loadCollaborators(projectIds: string[]): Promise<Map<string, ProjectCollaborator[]>> {
+  const byProject = new Map<string, ProjectCollaborator[]>();
+  if (projectIds.length === 0) {
+    return byProject;
+  }
+
+  const rows = await db.rawQueryAll(
+    `SELECT c.id::text AS id, c.project_id::text AS project_id, c.user_id::text AS user_id,
+            c.role, c.added_at, u.name, u.email
+     FROM project_collaborators c
+     JOIN users u ON u.id = c.user_id
+     WHERE c.project_id = ANY($1::uuid[])
+     ORDER BY c.added_at ASC`,
+    projectIds
+  );
+
+  for (const row of rows) {
+    const list = byProject.get(row.project_id) || [];
+    list.push({
+      id: row.id,
+      userId: row.user_id,
+      role: row.role,
+      addedAt: row.added_at,
+      user: { id: row.user_id, name: row.name, email: row.email }
+    });
+    byProject.set(row.project_id, list);
+  }
+
+  return byProject;
+}
+
+async function insertProject(
+  ownerId: string,
+  name: string,
+  description: string,
+  type: ProjectType,
+  config: ProjectConfig,
+  wizardSessionId: string | null
+): Promise<string> {
+  const row = await db.queryRow`
+    INSERT INTO projects (owner_id, name, description, type, config, wizard_session_id)
+    VALUES (${ownerId}, ${name}, ${description}, ${type}, ${JSON.stringify(config)}::jsonb, ${wizardSessionId})
+    RETURNING id::text
+  `;
+
+  if (!row) {
+    throw APIError.internal("Failed to create project");
+  }
+  return row.id;
+}
+
+function parseProjectRow(row: any, collaborators: ProjectCollaborator[]): Project {
+  const config = typeof row.config === 'string' ? JSON.parse(row.config) : row.config;
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    type: row.type,
+    status: row.status,
+    ownerId: row.owner_id,
+    collaborators,
+    config: {
+      dependencies: [],
+      environment: {},
+      ...config,
+      aiFeatures: { ...DEFAULT_AI_FEATURES, ...config.aiFeatures }
+    },
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    stats: {
+      filesCount: row.files_count,
+      linesOfCode: row.lines_of_code,
+      lastActivity: row.last_activity,
+      aiInteractions: row.ai_interactions,
+      // The owner counts as a collaborator
+      collaboratorsCount: collaborators.length + 1
+    }
+  };
+}
+
+function validateProjectFields(fields: { name?: string; description?: string; type?: string }): void {
+  if (fields.name !== undefined && (!fields.name.trim() || fields.name.length > 255)) {
+    throw APIError.invalidArgument("Project name must be between 1 and 255 characters");
+  }
+  if (fields.description !== undefined && fields.description.length > 1000) {
+    throw APIError.invalidArgument("Project description must be at most 1000 characters");
+  }
+  if (fields.type !== undefined && !PROJECT_TYPES.includes(fields.type as ProjectType)) {
+    throw APIError.invalidArgument(`Invalid project type: ${fields.type}`);
+  }
+}
+
+function toProjectType(type: string): ProjectType {
+  const normalized = type.toLowerCase() as ProjectType;
+  return PROJECT_TYPES.includes(normalized) ? normalized : 'other';
+}
+
+function wizardConfig(techStack: WizardProjectRequest['techStack'], integrations: string[]): ProjectConfig {
+  const backend = techStack.backend.map(tech => tech.toLowerCase());
+
+  return {
+    framework: techStack.frontend[0] || techStack.backend[0],
+    language: backend.some(tech => tech.includes('python')) ? 'python' : 'typescript',
+    dependencies: [
+      ...techStack.frontend,
+      ...techStack.backend,
+      ...techStack.database,
+      ...techStack.deployment,
+      ...integrations
+    ],
+    environment: {},
+    aiFeatures: { ...DEFAULT_AI_FEATURES }
+  };
+}
@@ -1,5 +1,6 @@
-import { api } from "encore.dev/api";
+import { api, APIError } from "encore.dev/api";
 import { db } from "../../utils/database";
+import { requireAuth } from "../../utils/auth";
 
 // Interfaces
 interface ProjectWizardSession {
@@ -23,10 +24,6 @@ interface ProjectWizardSession {
   updatedAt: string;
 }
 
-interface CreateSessionRequest {
-  userId: string;
-}
-
 interface UpdateSessionRequest {
   sessionId: string;
   projectVision?: ProjectWizardSession['projectVision'];
@@ -41,14 +38,15 @@ interface GenerateProjectRequest {
 
 // API Endpoints
 export const createSession = api(
-  { method: "POST", path: "/projectwizard/session" },
-  async (req: CreateSessionRequest): Promise<ProjectWizardSession> => {
+  { method: "POST", path: "/projectwizard/session", auth: true },
+  async (): Promise<ProjectWizardSession> => {
+    const user = requireAuth();
     const sessionId = "session-" + Date.now() + "-" + Math.random().toString(36).substr(2, 8);
     const now = new Date().toISOString();
     
     const session: ProjectWizardSession = {
       id: sessionId,
-      userId: req.userId,
+      userId: user.id,
       projectVision: {
         name: "",
         description: "",
@@ -70,7 +68,7 @@ export const createSession = api(
     // Insert into database
     await db.exec`
       INSERT INTO wizard_sessions (id, user_id, project_vision, tech_stack, integrations, status, created_at, updated_at)
-      VALUES (${sessionId}, ${req.userId}, ${JSON.stringify(session.projectVision)}, 
+      VALUES (${sessionId}, ${user.id}, ${JSON.stringify(session.projectVision)}, 
               ${JSON.stringify(session.techStack)}, ${JSON.stringify(session.integrations)}, 
               ${session.status}, ${now}, ${now})
     `;
@@ -80,37 +78,19 @@ export const createSession = api(
 );
 
 export const getSession = api(
-  { method: "GET", path: "/projectwizard/session/:id" },
+  { method: "GET", path: "/projectwizard/session/:id", auth: true },
   async ({ id }: { id: string }): Promise<ProjectWizardSession> => {
-    const rows = await db.query`
-      SELECT * FROM wizard_sessions WHERE id = ${id}
-    `;
-
-    if (rows.length === 0) {
-      throw new Error("Session not found");
-    }
-
-    const row = rows[0];
-    return {
-      id: row.id,
-      userId: row.user_id,
-      projectVision: JSON.parse(row.project_vision),
-      techStack: JSON.parse(row.tech_stack),
-      integrations: JSON.parse(row.integrations),
-      status: row.status,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at
-    };
+    return loadSession(id, requireAuth().id);
   }
 );
 
 export const updateSession = api(
-  { method: "PUT", path: "/projectwizard/session" },
+  { method: "PUT", path: "/projectwizard/session", auth: true },
   async (req: UpdateSessionRequest): Promise<ProjectWizardSession> => {
     const now = new Date().toISOString();
 
     // Get existing session
-    const existing = await getSession({ id: req.sessionId });
+    const existing = await loadSession(req.sessionId, requireAuth().id);
     
     // Update fields
     const updated = {
@@ -138,10 +118,10 @@ export const updateSession = api(
 );
 
 export const generateProject = api(
-  { method: "POST", path: "/projectwizard/generate" },
+  { method: "POST", path: "/projectwizard/generate", auth: true },
   async (req: GenerateProjectRequest): Promise<{ success: boolean; projectId: string; message: string }> => {
     // Get session
-    const session = await getSession({ id: req.sessionId });
+    const session = await loadSession(req.sessionId, requireAuth().id);
     
     // Mock project generation
     const projectId = "project-" + Date.now();
@@ -160,24 +140,42 @@ export const generateProject = api(
   }
 );
 
+// The caller's wizard sessions, newest first
 export const getUserSessions = api(
-  { method: "GET", path: "/projectwizard/user/:userId/sessions" },
-  async ({ userId }: { userId: string }): Promise<{ sessions: ProjectWizardSession[] }> => {
-    const rows = await db.query`
-      SELECT * FROM wizard_sessions WHERE user_id = ${userId} ORDER BY created_at DESC
+  { method: "GET", path: "/projectwizard/sessions", auth: true },
+  async (): Promise<{ sessions: ProjectWizardSession[] }> => {
+    const rows = await db.queryAll`
+      SELECT * FROM wizard_sessions WHERE user_id = ${requireAuth().id} ORDER BY created_at DESC
     `;
 
-    const sessions = rows.map(row => ({
-      id: row.id,
-      userId: row.user_id,
-      projectVision: JSON.parse(row.project_vision),
-      techStack: JSON.parse(row.tech_stack),
-      integrations: JSON.parse(row.integrations),
-      status: row.status,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at
-    }));
-
-    return { sessions };
+    return { sessions: rows.map(parseSession) };
   }
-);
\ No newline at end of file
+);
+
+// Helper functions
+
+// Sessions of other users are reported as missing
+async function loadSession(id: string, userId: string): Promise<ProjectWizardSession> {
+  const row = await db.queryRow`
+    SELECT * FROM wizard_sessions WHERE id = ${id} AND user_id = ${userId}
+  `;
+
+  if (!row) {
+    throw APIError.notFound("Session not found");
+  }
+
+  return parseSession(row);
+}
+
+function parseSession(row: any): ProjectWizardSession {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    projectVision: JSON.parse(row.project_vision),
+    techStack: JSON.parse(row.tech_stack),
+    integrations: JSON.parse(row.integrations),
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
\ No newline at end of file
@@ -0,0 +1,72 @@
+import {
+  ClientMessage,
+  CollaborationHub,
+  HubConnection,
+  HubOptions,
+  HubUser,
+  MessageType,
+  WebSocketMessage
+} from "../services/collaboration/hub";
+
+// In-process stand-in for the /ws/connect gateway: clients talk to a real CollaborationHub
+// through fake transports, and time only moves when the test advances the clock.
+
+export class ManualClock {
+  private current: number;
+
+  constructor(start = Date.UTC(2024, 0, 1)) {
+    this.current = start;
+  }
+
+  now = (): Date => new Date(this.current);
+
+  advance(ms: number): void {
+    this.current += ms;
+  }
+}
+
+export class FakeClient {
+  readonly received: WebSocketMessage[] = [];
+  closedReason: string | null = null;
+  connection!: HubConnection;
+
+  constructor(private hub: CollaborationHub, readonly user: HubUser) {}
+
+  send(type: MessageType, payload?: any, id?: string): void {
+    const message: ClientMessage = { type, ...(payload !== undefined ? { payload } : {}), ...(id ? { id } : {}) };
+    this.hub.receive(this.connection, message);
+  }
+
+  disconnect(): void {
+    this.hub.leave(this.connection);
+  }
+
+  messagesOf(type: MessageType): WebSocketMessage[] {
+    return this.received.filter(message => message.type === type);
+  }
+
+  last(type: MessageType): WebSocketMessage | undefined {
+    return this.messagesOf(type).at(-1);
+  }
+
+  clear(): void {
+    this.received.length = 0;
+  }
+}
+
+export function createHarness(options: Omit<HubOptions, 'now' | 'generateId'> = {}) {
+  const clock = new ManualClock();
+  let sequence = 0;
+  const hub = new CollaborationHub({ ...options, now: clock.now, generateId: () => `id-${++sequence}` });
+
+  const connect = (projectId: string, user: HubUser): FakeClient => {
+    const client = new FakeClient(hub, user);
+    client.connection = hub.join(projectId, user, {
+      send: message => { client.received.push(message); },
+      close: reason => { client.closedReason = reason; }
+    });
+    return client;
+  };
+
+  return { hub, clock, connect };
+}
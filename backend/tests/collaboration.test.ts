@@ -0,0 +1,131 @@
+import { describe, expect, test } from "vitest";
+import { createHarness } from "./collaboration-harness";
+
+const PROJECT = "11111111-1111-1111-1111-111111111111";
+const alice = { id: "user-alice", name: "Alice", role: "owner" as const };
+const bob = { id: "user-bob", name: "Bob", role: "collaborator" as const };
+const carol = { id: "user-carol", name: "Carol", role: "viewer" as const };
+
+describe("Collaboration hub", () => {
+  test("sends a session snapshot on join and announces new users to the room", () => {
+    const { connect } = createHarness();
+    const a = connect(PROJECT, alice);
+    const b = connect(PROJECT, bob);
+
+    const snapshot = b.last("sync_response")?.payload.session;
+    expect(snapshot.participants.map((p: any) => p.userId)).toEqual([alice.id, bob.id]);
+    expect(a.last("user_join")?.payload).toMatchObject({ userId: bob.id, userName: "Bob", role: "collaborator" });
+    expect(b.messagesOf("user_join")).toHaveLength(0);
+  });
+
+  test("gives participants distinct colors", () => {
+    const { hub, connect } = createHarness();
+    connect(PROJECT, alice);
+    connect(PROJECT, bob);
+
+    const colors = hub.getSession(PROJECT)!.participants.map(p => p.color);
+    expect(new Set(colors).size).toBe(2);
+  });
+
+  test("answers ping with pong carrying the ping's id", () => {
+    const { connect } = createHarness();
+    const a = connect(PROJECT, alice);
+
+    a.send("ping", {}, "ping-1");
+    expect(a.last("pong")?.id).toBe("ping-1");
+  });
+
+  test("relays cursor moves to others and records them in the session", () => {
+    const { hub, connect } = createHarness();
+    const a = connect(PROJECT, alice);
+    const b = connect(PROJECT, bob);
+    a.clear();
+
+    a.send("cursor_move", { fileId: "file-1", line: 3, column: 7 });
+    expect(b.last("cursor_move")?.payload).toMatchObject({ userId: alice.id, fileId: "file-1", line: 3, column: 7 });
+    expect(a.messagesOf("cursor_move")).toHaveLength(0);
+    expect(hub.getSession(PROJECT)!.cursors).toHaveLength(1);
+  });
+
+  test("rejects invalid messages with an error to the sender only", () => {
+    const { connect } = createHarness();
+    const a = connect(PROJECT, alice);
+    const b = connect(PROJECT, bob);
+    b.clear();
+
+    a.send("cursor_move", { fileId: "file-1", line: -1, column: 0 }, "bad-1");
+    expect(a.last("error")?.payload).toMatchObject({ code: "invalid_argument", details: { messageId: "bad-1" } });
+    expect(b.received).toHaveLength(0);
+
+    a.send("user_join", {});
+    expect(a.last("error")?.payload.code).toBe("invalid_argument");
+  });
+
+  test("does not let viewers send edits", () => {
+    const { connect } = createHarness();
+    const a = connect(PROJECT, alice);
+    const c = connect(PROJECT, carol);
+    a.clear();
+
+    c.send("text_change", { fileId: "file-1", operation: { type: "insert", position: 0, content: "x" } });
+    expect(c.last("error")?.payload.code).toBe("permission_denied");
+    expect(a.messagesOf("text_change")).toHaveLength(0);
+  });
+
+  test("echoes chat messages to everyone and keeps a bounded history", () => {
+    const { hub, connect } = createHarness({ chatHistoryLimit: 2 });
+    const a = connect(PROJECT, alice);
+    const b = connect(PROJECT, bob);
+
+    a.send("chat_message", { content: "one" });
+    a.send("chat_message", { content: "two" });
+    b.send("chat_message", { content: " three " });
+
+    expect(a.last("chat_message")?.payload).toMatchObject({ userName: "Bob", content: "three" });
+    expect(b.messagesOf("chat_message")).toHaveLength(3);
+    const sessionId = a.connection.sessionId;
+    expect(hub.getChatHistory(sessionId).map(m => m.content)).toEqual(["two", "three"]);
+  });
+
+  test("keeps rooms of different projects apart", () => {
+    const { connect } = createHarness();
+    const a = connect(PROJECT, alice);
+    const b = connect("22222222-2222-2222-2222-222222222222", bob);
+    b.clear();
+
+    a.send("chat_message", { content: "hello" });
+    expect(b.received).toHaveLength(0);
+    expect(a.connection.sessionId).not.toBe(b.connection.sessionId);
+  });
+
+  test("announces a user leaving only when their last connection closes", () => {
+    const { hub, connect } = createHarness();
+    const a = connect(PROJECT, alice);
+    const firstTab = connect(PROJECT, bob);
+    const secondTab = connect(PROJECT, bob);
+
+    firstTab.disconnect();
+    expect(a.messagesOf("user_leave")).toHaveLength(0);
+
+    secondTab.disconnect();
+    expect(a.last("user_leave")?.payload).toEqual({ userId: bob.id, reason: "disconnected" });
+
+    a.disconnect();
+    expect(hub.getSession(PROJECT)).toBeNull();
+  });
+
+  test("drops connections that stop sending heartbeats", () => {
+    const { hub, clock, connect } = createHarness({ idleTimeoutMs: 60_000 });
+    const a = connect(PROJECT, alice);
+    const b = connect(PROJECT, bob);
+
+    clock.advance(40_000);
+    a.send("ping");
+    clock.advance(30_000);
+
+    expect(hub.sweep()).toBe(1);
+    expect(b.closedReason).toBe("Heartbeat timeout");
+    expect(a.closedReason).toBeNull();
+    expect(a.last("user_leave")?.payload).toEqual({ userId: bob.id, reason: "timeout" });
+  });
+});
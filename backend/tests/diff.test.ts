@@ -0,0 +1,124 @@
+import { describe, expect, test } from "vitest";
+import { computeDiff, diffSequences, mapLineNumbers, splitLines } from "../services/files/diff";
+
+// Rebuild the new content from an edit script, checking each op against both sides
+function replay(a: string[], b: string[]): string[] {
+  const ops = diffSequences(a, b);
+  const result: string[] = [];
+  let oldPos = 0;
+  for (const op of ops) {
+    if (op.kind === 'equal') {
+      expect(op.oldIndex).toBe(oldPos++);
+      expect(a[op.oldIndex]).toBe(b[op.newIndex]);
+      result.push(a[op.oldIndex]!);
+    } else if (op.kind === 'delete') {
+      expect(op.oldIndex).toBe(oldPos++);
+    } else {
+      result.push(b[op.newIndex]!);
+    }
+  }
+  expect(oldPos).toBe(a.length);
+  return result;
+}
+
+const lines = (count: number, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+describe("diff engine", () => {
+  test("reports no changes between empty or identical contents", () => {
+    expect(computeDiff('', '')).toEqual({ changes: [], hunks: [], stats: { additions: 0, deletions: 0, modifications: 0 } });
+
+    const content = lines(10).join('\n');
+    const diff = computeDiff(content, content);
+    expect(diff.changes).toEqual([]);
+    expect(diff.hunks).toEqual([]);
+  });
+
+  test("diffs against empty content as all additions or all deletions", () => {
+    const added = computeDiff('', 'a\nb');
+    expect(added.changes).toEqual([
+      { type: 'add', line: 1, newContent: 'a' },
+      { type: 'add', line: 2, newContent: 'b' }
+    ]);
+    expect(added.hunks).toMatchObject([{ oldStart: 1, oldLines: 0, newStart: 1, newLines: 2 }]);
+
+    const deleted = computeDiff('a\nb', '');
+    expect(deleted.stats).toEqual({ additions: 0, deletions: 2, modifications: 0 });
+    expect(deleted.hunks).toMatchObject([{ oldStart: 1, oldLines: 2, newStart: 1, newLines: 0 }]);
+  });
+
+  test("finds inserted lines only", () => {
+    const diff = computeDiff('a\nb\nc', 'a\nx\nb\nc\ny');
+    expect(diff.changes).toEqual([
+      { type: 'add', line: 2, newContent: 'x' },
+      { type: 'add', line: 5, newContent: 'y' }
+    ]);
+    expect(diff.stats).toEqual({ additions: 2, deletions: 0, modifications: 0 });
+  });
+
+  test("finds deleted lines only", () => {
+    const diff = computeDiff('a\nb\nc\nd', 'b\nd');
+    expect(diff.changes).toEqual([
+      { type: 'delete', line: 1, oldContent: 'a' },
+      { type: 'delete', line: 3, oldContent: 'c' }
+    ]);
+    expect(diff.stats).toEqual({ additions: 0, deletions: 2, modifications: 0 });
+  });
+
+  test("pairs a replaced line into a modification", () => {
+    const diff = computeDiff('a\nb\nc', 'a\nB\nc');
+    expect(diff.changes).toEqual([{ type: 'modify', line: 2, oldContent: 'b', newContent: 'B' }]);
+  });
+
+  test("surrounds changes with context lines and merges nearby changes into one hunk", () => {
+    const old = lines(20);
+    const near = [...old];
+    near[4] = 'changed 5';
+    near[10] = 'changed 11';
+    // Five unchanged lines between the changes, within 2 * 3 context lines
+    const merged = computeDiff(old.join('\n'), near.join('\n'));
+    expect(merged.hunks).toHaveLength(1);
+    expect(merged.hunks[0]).toMatchObject({ oldStart: 2, oldLines: 13, newStart: 2, newLines: 13 });
+
+    const far = [...old];
+    far[1] = 'changed 2';
+    far[17] = 'changed 18';
+    const split = computeDiff(old.join('\n'), far.join('\n'));
+    expect(split.hunks.map(hunk => [hunk.oldStart, hunk.oldLines])).toEqual([[1, 5], [15, 6]]);
+
+    // Context is clipped at the start and end of the file
+    const edges = computeDiff(old.join('\n'), far.join('\n'), 0);
+    expect(edges.hunks.map(hunk => [hunk.oldStart, hunk.oldLines])).toEqual([[2, 1], [18, 1]]);
+  });
+
+  test("produces edit scripts that turn one side into the other", () => {
+    const cases: Array<[string[], string[]]> = [
+      [['a', 'b', 'c', 'a', 'b', 'b', 'a'], ['c', 'b', 'a', 'b', 'a', 'c']],
+      [lines(50), [...lines(50)].reverse()],
+      [lines(30).filter((_, i) => i % 3 !== 0), lines(30).filter((_, i) => i % 4 !== 0)],
+      [['x'], ['y']]
+    ];
+    for (const [a, b] of cases) {
+      expect(replay(a, b)).toEqual(b);
+    }
+  });
+
+  test("finds a minimal edit script", () => {
+    const ops = diffSequences(['a', 'b', 'c', 'a', 'b', 'b', 'a'], ['c', 'b', 'a', 'b', 'a', 'c']);
+    expect(ops.filter(op => op.kind !== 'equal')).toHaveLength(5);
+  });
+
+  test("diffs large unrelated files without tracing every step", () => {
+    const a = lines(50000, 'old');
+    const b = lines(50000, 'new');
+    expect(replay(a, b)).toEqual(b);
+
+    const edited = [...a];
+    edited.splice(25000, 1, 'inserted', 'lines');
+    expect(computeDiff(a.join('\n'), edited.join('\n')).stats).toEqual({ additions: 1, deletions: 0, modifications: 1 });
+  });
+
+  test("maps old line numbers through an edit", () => {
+    expect(mapLineNumbers('a\nb\nc', 'x\na\nc')).toEqual([1, 2, 3, 3]);
+    expect(splitLines('a\r\nb')).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, test, vi } from "vitest";
+import { applyHunks, buildHunks, parseEditReply } from "../services/ai/edits";
+
+vi.mock("encore.dev/api", () => import("./encore-stubs").then(stubs => stubs.encoreApi));
+vi.mock("encore.dev/log", () => import("./encore-stubs").then(stubs => stubs.encoreLog));
+vi.mock("../utils/database", () => ({ db: {} }));
+vi.mock("../utils/auth", () => ({}));
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+const text = (content: string[]) => content.join('\n');
+
+describe("AI edit patches", () => {
+  test("anchor each hunk with the unchanged lines around it", () => {
+    const old = lines(20);
+    const edited = [...old];
+    edited[1] = 'changed 2';
+    edited.splice(15, 1);
+
+    const hunks = buildHunks(text(old), text(edited));
+    expect(hunks).toEqual([
+      { id: 'h1', oldStart: 2, oldLines: ['line 2'], newLines: ['changed 2'], before: ['line 1'], after: ['line 3', 'line 4', 'line 5'] },
+      { id: 'h2', oldStart: 16, oldLines: ['line 16'], newLines: [], before: ['line 13', 'line 14', 'line 15'], after: ['line 17', 'line 18', 'line 19'] }
+    ]);
+  });
+
+  test("merge changes separated by a couple of unchanged lines", () => {
+    const old = lines(10);
+    const edited = [...old];
+    edited[3] = 'changed 4';
+    edited[6] = 'changed 7';
+
+    const hunks = buildHunks(text(old), text(edited));
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0]).toMatchObject({ oldStart: 4, oldLines: ['line 4', 'line 5', 'line 6', 'line 7'] });
+  });
+
+  test("apply to the content they were made against", () => {
+    const old = text(lines(20));
+    const edited = text(['header', ...lines(20).slice(0, 9), 'inserted', ...lines(20).slice(10)]);
+
+    expect(applyHunks(old, buildHunks(old, edited))).toEqual({ content: edited, conflicts: [] });
+  });
+
+  test("apply only the accepted hunks", () => {
+    const old = lines(20);
+    const edited = [...old];
+    edited[1] = 'changed 2';
+    edited[17] = 'changed 18';
+    const hunks = buildHunks(text(old), text(edited));
+    expect(hunks).toHaveLength(2);
+
+    const expected = [...old];
+    expected[17] = 'changed 18';
+    expect(applyHunks(text(old), [hunks[1]!]).content).toBe(text(expected));
+  });
+
+  test("follow lines that moved since the proposal", () => {
+    const old = lines(20);
+    const edited = [...old];
+    edited[14] = 'changed 15';
+    const hunks = buildHunks(text(old), text(edited));
+
+    // Someone added lines at the top in the meantime
+    const current = ['// added', '// by hand', ...old];
+    const result = applyHunks(text(current), hunks);
+    expect(result.conflicts).toEqual([]);
+    expect(result.content).toBe(text(['// added', '// by hand', ...edited]));
+  });
+
+  test("conflict when the lines a hunk changes were edited since", () => {
+    const old = lines(20);
+    const edited = [...old];
+    edited[9] = 'changed 10';
+    const hunks = buildHunks(text(old), text(edited));
+
+    const current = [...old];
+    current[9] = 'edited by hand';
+    const result = applyHunks(text(current), hunks);
+    expect(result.conflicts).toEqual([{ hunkId: 'h1', reason: expect.stringContaining('changed since') }]);
+    expect(result.content).toBe(text(current));
+  });
+
+  test("conflict when a hunk matches in two places", () => {
+    const old = ['a', 'b', 'a', 'b'];
+    const hunk = { id: 'h1', oldStart: 10, oldLines: ['b'], newLines: ['c'], before: ['a'], after: [] };
+
+    expect(applyHunks(text(old), [hunk]).conflicts).toHaveLength(1);
+  });
+
+  test("conflict when accepted hunks overlap", () => {
+    const old = lines(5);
+    const one = { id: 'h1', oldStart: 2, oldLines: ['line 2', 'line 3'], newLines: ['x'], before: ['line 1'], after: [] };
+    const two = { id: 'h2', oldStart: 3, oldLines: ['line 3'], newLines: ['y'], before: [], after: ['line 4'] };
+
+    expect(applyHunks(text(old), [one, two]).conflicts).toEqual([{ hunkId: 'h2', reason: 'This change overlaps another accepted change' }]);
+  });
+
+  test("read the summary and files from a model reply", () => {
+    const reply = 'Renamed the helper.\n<file path="src/a.ts" action="modify">\n```ts\nexport const b = 1;\n```\n</file>\n<file path="/old.ts" action="delete"></file>';
+
+    expect(parseEditReply(reply)).toEqual({
+      summary: 'Renamed the helper.',
+      files: [
+        { path: '/src/a.ts', action: 'modify', content: 'export const b = 1;' },
+        { path: '/old.ts', action: 'delete', content: '' }
+      ]
+    });
+  });
+});
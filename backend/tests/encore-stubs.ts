@@ -0,0 +1,45 @@
+// Stand-ins for the Encore runtime modules, for tests of service code that runs outside
+// `encore run`. Tests mock the modules with these:
+//
+//   vi.mock("encore.dev/api", () => import("./encore-stubs").then(stubs => stubs.encoreApi));
+//   vi.mock("encore.dev/log", () => import("./encore-stubs").then(stubs => stubs.encoreLog));
+//
+// Endpoints declared with api() are then plain functions the test can call.
+
+type Handler = (...args: any[]) => any;
+
+export class APIError extends Error {
+  constructor(readonly code: string, message: string) {
+    super(message);
+  }
+
+  static canceled = (message: string) => new APIError('canceled', message);
+  static unknown = (message: string) => new APIError('unknown', message);
+  static invalidArgument = (message: string) => new APIError('invalid_argument', message);
+  static deadlineExceeded = (message: string) => new APIError('deadline_exceeded', message);
+  static notFound = (message: string) => new APIError('not_found', message);
+  static alreadyExists = (message: string) => new APIError('already_exists', message);
+  static permissionDenied = (message: string) => new APIError('permission_denied', message);
+  static resourceExhausted = (message: string) => new APIError('resource_exhausted', message);
+  static failedPrecondition = (message: string) => new APIError('failed_precondition', message);
+  static aborted = (message: string) => new APIError('aborted', message);
+  static outOfRange = (message: string) => new APIError('out_of_range', message);
+  static unimplemented = (message: string) => new APIError('unimplemented', message);
+  static internal = (message: string) => new APIError('internal', message);
+  static unavailable = (message: string) => new APIError('unavailable', message);
+  static dataLoss = (message: string) => new APIError('data_loss', message);
+  static unauthenticated = (message: string) => new APIError('unauthenticated', message);
+}
+
+function api(_options: object, handler: Handler): Handler {
+  return handler;
+}
+api.raw = api;
+api.streamIn = api;
+api.streamOut = api;
+api.streamInOut = api;
+
+export const encoreApi = { api, APIError };
+
+const ignore = () => undefined;
+export const encoreLog = { default: { debug: ignore, info: ignore, warn: ignore, error: ignore } };
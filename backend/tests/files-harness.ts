@@ -0,0 +1,162 @@
+import { randomUUID } from "node:crypto";
+import type { Queryer } from "../services/files/vfs";
+
+// In-memory stand-in for the project_files and file_versions tables, answering the statements the
+// VFS helpers in services/files/vfs.ts issue. It can be passed wherever they take a Queryer, and
+// as `db` (with begin() handing out itself as the transaction).
+
+export interface StoredVersion {
+  file_id: string;
+  version: number;
+  content: string;
+  hash: string;
+}
+
+type Row = Record<string, any>;
+
+export class FakeFileStore {
+  readonly rows = new Map<string, Row>();
+  readonly versions: StoredVersion[] = [];
+  // Statements the fake does not interpret, for tests to inspect
+  readonly statements: string[] = [];
+
+  // Typed for the VFS helpers, which only call the methods below
+  asQueryer(): Queryer {
+    return this as unknown as Queryer;
+  }
+
+  async begin(): Promise<this> {
+    return this;
+  }
+
+  async commit(): Promise<void> {}
+
+  async rollback(): Promise<void> {}
+
+  async rawQueryRow(sql: string, ...params: any[]): Promise<Row | null> {
+    return (await this.run(sql, params))[0] ?? null;
+  }
+
+  async rawQueryAll(sql: string, ...params: any[]): Promise<Row[]> {
+    return this.run(sql, params);
+  }
+
+  async rawExec(sql: string, ...params: any[]): Promise<void> {
+    await this.run(sql, params);
+  }
+
+  async queryRow(strings: TemplateStringsArray, ...params: any[]): Promise<Row | null> {
+    return this.rawQueryRow(toSql(strings), ...params);
+  }
+
+  async queryAll(strings: TemplateStringsArray, ...params: any[]): Promise<Row[]> {
+    return this.rawQueryAll(toSql(strings), ...params);
+  }
+
+  async exec(strings: TemplateStringsArray, ...params: any[]): Promise<void> {
+    await this.rawExec(toSql(strings), ...params);
+  }
+
+  // The row as stored, binary content included
+  stored(id: string): Row {
+    const row = this.rows.get(id);
+    if (!row) throw new Error(`No row ${id}`);
+    return row;
+  }
+
+  private async run(sql: string, params: any[]): Promise<Row[]> {
+    const text = sql.replace(/\s+/g, ' ').trim();
+
+    if (text.startsWith('INSERT INTO project_files')) {
+      const [projectId, path, parentPath, name, type, size, mimeType, content, binaryContent, hash, permissions, metadata, userId] = params;
+      if ([...this.rows.values()].some(row => row.project_id === projectId && row.path === path)) {
+        return [];
+      }
+      const now = new Date();
+      const row: Row = {
+        id: randomUUID(), project_id: projectId, path, parent_path: parentPath, name, type, size,
+        mime_type: mimeType, content, binary_content: binaryContent, hash,
+        permissions: JSON.parse(permissions), metadata: JSON.parse(metadata),
+        created_by: userId, last_modified_by: userId, version: 1, version_message: null,
+        created_at: now, updated_at: now
+      };
+      this.rows.set(row.id, row);
+      return [this.select(row)];
+    }
+
+    if (text.startsWith('INSERT INTO file_versions')) {
+      const [file_id, version, content, hash] = params;
+      if (this.versions.some(stored => stored.file_id === file_id && stored.version === version)) {
+        throw new Error('duplicate key value violates unique constraint "file_versions_file_id_version_key"');
+      }
+      this.versions.push({ file_id, version, content, hash });
+      return [];
+    }
+
+    if (text.startsWith('SELECT binary_content FROM project_files WHERE id = $1')) {
+      const row = this.rows.get(params[0]);
+      return row ? [{ binary_content: row.binary_content }] : [];
+    }
+
+    if (text.match(/^SELECT .* FROM project_files WHERE id = \$1/)) {
+      const row = this.rows.get(params[0]);
+      return row ? [this.select(row)] : [];
+    }
+
+    if (text.match(/^SELECT .* FROM project_files WHERE project_id = \$1 AND path = \$2/)) {
+      const row = [...this.rows.values()].find(row => row.project_id === params[0] && row.path === params[1]);
+      return row ? [this.select(row)] : [];
+    }
+
+    if (text.startsWith('UPDATE project_files SET path = $2')) {
+      const [id, path, parentPath, name, mimeType, metadata, userId] = params;
+      return this.update(id, {
+        path, parent_path: parentPath, name, mime_type: mimeType, metadata: JSON.parse(metadata), last_modified_by: userId
+      });
+    }
+
+    if (text.startsWith('UPDATE project_files SET permissions = $2')) {
+      const [id, permissions, userId] = params;
+      return this.update(id, { permissions: JSON.parse(permissions), last_modified_by: userId });
+    }
+
+    if (text.startsWith('UPDATE project_files SET content = $2')) {
+      const [id, content, binaryContent, size, hash, mimeType, permissions, metadata, userId, changed, message] = params;
+      const row = this.rows.get(id);
+      if (!row) return [];
+      return this.update(id, {
+        content, binary_content: binaryContent, size, hash, mime_type: mimeType,
+        permissions: { ...row.permissions, ...JSON.parse(permissions) },
+        metadata: { ...withoutTextFields(row.metadata), ...JSON.parse(metadata) },
+        last_modified_by: userId,
+        version: changed ? row.version + 1 : row.version,
+        version_message: changed ? message : row.version_message
+      });
+    }
+
+    this.statements.push(text);
+    return [];
+  }
+
+  private update(id: string, changes: Row): Row[] {
+    const row = this.rows.get(id);
+    if (!row) return [];
+    Object.assign(row, changes, { updated_at: new Date() });
+    return [this.select(row)];
+  }
+
+  // A copy of the row with the columns of FILE_COLUMNS, which leave out the binary content
+  private select(row: Row): Row {
+    const { binary_content, parent_path, ...columns } = row;
+    return structuredClone(columns);
+  }
+}
+
+function withoutTextFields(metadata: Row): Row {
+  const { encoding, language, lineCount, ...rest } = metadata;
+  return rest;
+}
+
+function toSql(strings: TemplateStringsArray): string {
+  return strings.reduce((sql, part, index) => `${sql}$${index}${part}`);
+}
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { complete, streamCompletion } from "../services/ai/llm";
+
+vi.mock("encore.dev/api", () => import("./encore-stubs").then(stubs => stubs.encoreApi));
+vi.mock("encore.dev/log", () => import("./encore-stubs").then(stubs => stubs.encoreLog));
+
+const SONNET = 'claude-3-5-sonnet-20241022' as const;
+const ask = (content: string) => ({ messages: [{ role: 'user' as const, content }] });
+
+// Answers Anthropic calls in turn with the given responses, the last one for every call after
+function answerWith(...responses: Array<() => Response>) {
+  const calls: RequestInit[] = [];
+  vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+    calls.push(init);
+    return responses[Math.min(calls.length, responses.length) - 1]!();
+  });
+  return calls;
+}
+
+const message = (text: string) => () => Response.json({
+  content: [{ type: 'text', text }],
+  stop_reason: 'end_turn',
+  usage: { input_tokens: 12, output_tokens: 3 }
+});
+
+const failure = (status: number, headers: Record<string, string> = {}) => () =>
+  Response.json({ error: { message: `upstream said ${status}` } }, { status, headers });
+
+beforeEach(() => {
+  vi.stubEnv('ANTHROPIC_API_KEY', 'test-key');
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("local stub", () => {
+  test("answers with the last user message and estimated usage", async () => {
+    const result = await complete({ model: 'local-stub', ...ask('Explain this function') });
+
+    expect(result).toMatchObject({
+      content: '[local-stub] Explain this function',
+      model: 'local-stub',
+      stopReason: 'end',
+      usage: { promptTokens: 6, completionTokens: 9, totalTokens: 15, cost: 0 }
+    });
+  });
+
+  test("honours stop sequences and the token limit", async () => {
+    const stopped = await complete({ model: 'local-stub', ...ask('one two three'), config: { stopSequences: [' two'] } });
+    const cut = await complete({ model: 'local-stub', ...ask('x'.repeat(100)), config: { maxTokens: 5 } });
+
+    expect(stopped).toMatchObject({ content: '[local-stub] one', stopReason: 'stop_sequence' });
+    expect(cut).toMatchObject({ content: '[local-stub] xxxxxxx', stopReason: 'max_tokens' });
+  });
+
+  test("streams the same answer piece by piece", async () => {
+    const pieces: string[] = [];
+    const result = await streamCompletion({ model: 'local-stub', ...ask('stream me please') }, text => pieces.push(text));
+
+    expect(pieces.length).toBeGreaterThan(1);
+    expect(pieces.join('')).toBe(result.content);
+  });
+
+  test("stops streaming when the caller cancels", async () => {
+    const controller = new AbortController();
+    const pieces: string[] = [];
+
+    await expect(streamCompletion({ model: 'local-stub', ...ask('a b c d e f') }, text => {
+      pieces.push(text);
+      controller.abort();
+    }, controller.signal)).rejects.toMatchObject({ code: 'canceled' });
+    expect(pieces).toHaveLength(1);
+  });
+});
+
+describe("retries", () => {
+  test("retry rate limits and server errors, then answer", async () => {
+    const calls = answerWith(failure(429, { 'retry-after': '0.01' }), failure(503, { 'retry-after': '0.01' }), message('done'));
+
+    const result = await complete({ model: SONNET, ...ask('hi') });
+
+    expect(calls).toHaveLength(3);
+    expect(result).toMatchObject({ content: 'done', usage: { promptTokens: 12, completionTokens: 3 } });
+    expect(result.metadata.flags).toEqual(['retries:2']);
+  });
+
+  test("give up once the retries are used", async () => {
+    const calls = answerWith(failure(502, { 'retry-after': '0.01' }));
+
+    await expect(complete({ model: SONNET, ...ask('hi') })).rejects.toMatchObject({ code: 'unavailable' });
+    expect(calls).toHaveLength(3);
+  });
+
+  test("fail at once when Retry-After asks for a longer wait than the timeout", async () => {
+    const calls = answerWith(failure(429, { 'retry-after': '3600' }), message('too late'));
+    const startedAt = Date.now();
+
+    await expect(complete({ model: SONNET, ...ask('hi'), config: { timeout: 5000 } }))
+      .rejects.toMatchObject({ code: 'resource_exhausted' });
+    expect(calls).toHaveLength(1);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  test("stop waiting to retry when the caller cancels", async () => {
+    const calls = answerWith(failure(429, { 'retry-after': '20' }), message('too late'));
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(streamCompletion({ model: SONNET, ...ask('hi') }, () => undefined, controller.signal))
+      .rejects.toMatchObject({ code: 'canceled' });
+    expect(calls).toHaveLength(1);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  test("do not retry requests the provider rejected", async () => {
+    const calls = answerWith(failure(400));
+
+    await expect(complete({ model: SONNET, ...ask('hi') })).rejects.toMatchObject({
+      code: 'invalid_argument',
+      message: 'The AI provider rejected the request: upstream said 400'
+    });
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe("errors", () => {
+  test.each([
+    [401, 'unavailable'],
+    [403, 'unavailable'],
+    [404, 'invalid_argument'],
+    [413, 'invalid_argument'],
+    [422, 'invalid_argument']
+  ])("map HTTP %i from the provider to %s", async (status, code) => {
+    answerWith(failure(status));
+
+    await expect(complete({ model: SONNET, ...ask('hi') })).rejects.toMatchObject({ code });
+  });
+
+  test("report a missing API key", async () => {
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+
+    await expect(complete({ model: SONNET, ...ask('hi') })).rejects.toMatchObject({ code: 'failed_precondition' });
+  });
+
+  test("reject unknown models and empty conversations", async () => {
+    await expect(complete({ model: 'gpt-5' as never, ...ask('hi') })).rejects.toMatchObject({ code: 'invalid_argument' });
+    await expect(complete({ model: 'local-stub', messages: [] })).rejects.toMatchObject({ code: 'invalid_argument' });
+  });
+});
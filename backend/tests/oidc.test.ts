@@ -0,0 +1,286 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "vitest";
+import { createServer, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { createHash, generateKeyPairSync, KeyObject } from "node:crypto";
+import jwt from "jsonwebtoken";
+import {
+  OAuthError,
+  OAuthProvider,
+  authorizationUrl,
+  codeChallenge,
+  fetchIdentity,
+  randomToken
+} from "../services/auth/oidc";
+
+const CLIENT_ID = "vaporform-test";
+const CLIENT_SECRET = "test-secret";
+const REDIRECT_URI = "http://localhost:3000/oauth/gitlab/callback";
+const KEY_ID = "test-key";
+
+// A local OpenID Connect issuer: discovery, a JWKS, an authorization endpoint that approves every
+// request by redirecting straight back with a code, and a token endpoint that checks PKCE
+interface MockIssuer {
+  url: string;
+  // Claims in the next ID tokens, on top of the standard ones
+  claims: Record<string, unknown>;
+  // Signs the next ID tokens instead of the published key
+  signingKey: KeyObject | null;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  redirectUri: string;
+  challenge: string;
+  nonce: string | null;
+}
+
+async function startIssuer(): Promise<MockIssuer> {
+  const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const codes = new Map<string, PendingCode>();
+  let url = "";
+
+  const issuer: MockIssuer = {
+    url: "",
+    claims: {},
+    signingKey: null,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+
+  const server: Server = createServer(async (req, res) => {
+    const requestUrl = new URL(req.url!, url);
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (requestUrl.pathname.endsWith("/.well-known/openid-configuration")) {
+      return json(200, {
+        issuer: url,
+        authorization_endpoint: `${url}/authorize`,
+        token_endpoint: `${url}/token`,
+        jwks_uri: `${url}/jwks`
+      });
+    }
+
+    if (requestUrl.pathname === "/jwks") {
+      return json(200, { keys: [{ ...publicKey.export({ format: "jwk" }), kid: KEY_ID, alg: "RS256", use: "sig" }] });
+    }
+
+    if (requestUrl.pathname === "/authorize") {
+      const params = requestUrl.searchParams;
+      if (params.get("client_id") !== CLIENT_ID || params.get("code_challenge_method") !== "S256") {
+        return json(400, { error: "invalid_request" });
+      }
+      const code = randomToken();
+      codes.set(code, {
+        redirectUri: params.get("redirect_uri")!,
+        challenge: params.get("code_challenge")!,
+        nonce: params.get("nonce")
+      });
+      const redirect = new URL(params.get("redirect_uri")!);
+      redirect.searchParams.set("code", code);
+      redirect.searchParams.set("state", params.get("state")!);
+      res.writeHead(302, { Location: redirect.toString() });
+      return res.end();
+    }
+
+    if (requestUrl.pathname === "/token" && req.method === "POST") {
+      const form = new URLSearchParams(await readBody(req));
+      const pending = codes.get(form.get("code") ?? "");
+      // Codes work once
+      codes.delete(form.get("code") ?? "");
+      const verifier = form.get("code_verifier") ?? "";
+      const challenge = createHash("sha256").update(verifier).digest("base64url");
+      if (form.get("client_id") !== CLIENT_ID || form.get("client_secret") !== CLIENT_SECRET) {
+        return json(401, { error: "invalid_client" });
+      }
+      if (!pending || pending.redirectUri !== form.get("redirect_uri") || pending.challenge !== challenge) {
+        return json(400, { error: "invalid_grant", error_description: "The code is invalid" });
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = jwt.sign(
+        {
+          iss: url,
+          aud: CLIENT_ID,
+          iat: now,
+          exp: now + 300,
+          sub: "gitlab-user-1",
+          email: "dev@example.com",
+          email_verified: true,
+          name: "Dev User",
+          ...(pending.nonce ? { nonce: pending.nonce } : {}),
+          ...issuer.claims
+        },
+        issuer.signingKey ?? privateKey,
+        { algorithm: "RS256", keyid: KEY_ID }
+      );
+      return json(200, { access_token: randomToken(), token_type: "Bearer", id_token: idToken });
+    }
+
+    json(404, { error: "not_found" });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", () => resolve()));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  issuer.url = url;
+  return issuer;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", chunk => { body += chunk; });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+// The provider signs in with the issuer; the redirect back carries the code and state
+async function authorize(provider: OAuthProvider, params: { state: string; codeVerifier: string; nonce: string }) {
+  const url = await authorizationUrl(provider, { redirectUri: REDIRECT_URI, ...params });
+  const response = await fetch(url, { redirect: "manual" });
+  expect(response.status).toBe(302);
+  return new URL(response.headers.get("location")!).searchParams;
+}
+
+async function signIn(provider: OAuthProvider, options: { verifyNonce?: string } = {}) {
+  const codeVerifier = randomToken();
+  const nonce = randomToken();
+  const redirect = await authorize(provider, { state: randomToken(), codeVerifier, nonce });
+  return fetchIdentity(provider, {
+    code: redirect.get("code")!,
+    redirectUri: REDIRECT_URI,
+    codeVerifier,
+    nonce: options.verifyNonce ?? nonce
+  });
+}
+
+describe("OAuth sign-in against an OpenID Connect issuer", () => {
+  let issuer: MockIssuer;
+  let provider: OAuthProvider;
+
+  beforeAll(async () => {
+    issuer = await startIssuer();
+    provider = {
+      id: "gitlab",
+      name: "GitLab",
+      clientId: CLIENT_ID,
+      clientSecret: CLIENT_SECRET,
+      scopes: ["openid", "profile", "email"],
+      issuer: issuer.url
+    };
+  });
+
+  afterAll(() => issuer.close());
+
+  beforeEach(() => {
+    issuer.claims = {};
+    issuer.signingKey = null;
+  });
+
+  test("derives the PKCE challenge as in RFC 7636 appendix B", () => {
+    expect(codeChallenge("dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk")).toBe("E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM");
+  });
+
+  test("sends the state, an S256 challenge and the nonce to the discovered authorization endpoint", async () => {
+    const url = new URL(await authorizationUrl(provider, {
+      redirectUri: REDIRECT_URI,
+      state: "state-1",
+      codeVerifier: "verifier-1",
+      nonce: "nonce-1"
+    }));
+
+    expect(`${url.origin}${url.pathname}`).toBe(`${issuer.url}/authorize`);
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: "code",
+      client_id: CLIENT_ID,
+      redirect_uri: REDIRECT_URI,
+      scope: "openid profile email",
+      state: "state-1",
+      code_challenge: codeChallenge("verifier-1"),
+      code_challenge_method: "S256",
+      nonce: "nonce-1"
+    });
+  });
+
+  test("returns the user the ID token names", async () => {
+    const state = randomToken();
+    const codeVerifier = randomToken();
+    const nonce = randomToken();
+    const redirect = await authorize(provider, { state, codeVerifier, nonce });
+    expect(redirect.get("state")).toBe(state);
+
+    const identity = await fetchIdentity(provider, {
+      code: redirect.get("code")!,
+      redirectUri: REDIRECT_URI,
+      codeVerifier,
+      nonce
+    });
+    expect(identity).toEqual({
+      subject: "gitlab-user-1",
+      email: "dev@example.com",
+      emailVerified: true,
+      name: "Dev User"
+    });
+  });
+
+  test("reports whether the provider verified the email address", async () => {
+    issuer.claims = { email_verified: false };
+    expect((await signIn(provider)).emailVerified).toBe(false);
+
+    issuer.claims = { email_verified: "true" };
+    expect((await signIn(provider)).emailVerified).toBe(true);
+  });
+
+  test("rejects a code redeemed with another PKCE verifier", async () => {
+    const nonce = randomToken();
+    const redirect = await authorize(provider, { state: randomToken(), codeVerifier: randomToken(), nonce });
+
+    await expect(fetchIdentity(provider, {
+      code: redirect.get("code")!,
+      redirectUri: REDIRECT_URI,
+      codeVerifier: randomToken(),
+      nonce
+    })).rejects.toThrow(OAuthError);
+  });
+
+  test("rejects a code that was already redeemed", async () => {
+    const codeVerifier = randomToken();
+    const nonce = randomToken();
+    const redirect = await authorize(provider, { state: randomToken(), codeVerifier, nonce });
+    const params = { code: redirect.get("code")!, redirectUri: REDIRECT_URI, codeVerifier, nonce };
+
+    await fetchIdentity(provider, params);
+    await expect(fetchIdentity(provider, params)).rejects.toThrow(/rejected the sign-in/);
+  });
+
+  test("rejects an ID token issued for another sign-in", async () => {
+    await expect(signIn(provider, { verifyNonce: randomToken() })).rejects.toThrow(/different sign-in/);
+  });
+
+  test("rejects an ID token not signed with the issuer's key", async () => {
+    issuer.signingKey = generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey;
+    await expect(signIn(provider)).rejects.toThrow(/invalid ID token/);
+  });
+
+  test("rejects an ID token for another client", async () => {
+    issuer.claims = { aud: "someone-else" };
+    await expect(signIn(provider)).rejects.toThrow(/invalid ID token/);
+  });
+
+  test("rejects an expired ID token", async () => {
+    issuer.claims = { exp: Math.floor(Date.now() / 1000) - 60 };
+    await expect(signIn(provider)).rejects.toThrow(/invalid ID token/);
+  });
+
+  test("rejects a discovery document for another issuer", async () => {
+    const elsewhere = { ...provider, issuer: `${issuer.url}/tenant` };
+    await expect(authorizationUrl(elsewhere, {
+      redirectUri: REDIRECT_URI,
+      state: "state",
+      codeVerifier: "verifier",
+      nonce: "nonce"
+    })).rejects.toThrow(OAuthError);
+  });
+});
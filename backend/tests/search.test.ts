@@ -0,0 +1,39 @@
+import { describe, expect, test, vi } from "vitest";
+import { findMatches, replaceMatches } from "../services/files/search";
+
+vi.mock("encore.dev/api", () => import("./encore-stubs").then(stubs => stubs.encoreApi));
+vi.mock("encore.dev/log", () => import("./encore-stubs").then(stubs => stubs.encoreLog));
+vi.mock("../utils/database", () => ({ db: {} }));
+vi.mock("../utils/auth", () => ({}));
+
+describe("Project search and replace", () => {
+  test("replaces literal text without expanding $ patterns", () => {
+    const pattern = /a\.b/gim;
+    const content = 'x = a.b;\ny = A.B;';
+
+    expect(replaceMatches(content, pattern, '$&x', false)).toEqual({ content: 'x = $&x;\ny = $&x;', replacements: 2 });
+    expect(replaceMatches(content, pattern, '$5$$', false).content).toBe('x = $5$$;\ny = $5$$;');
+  });
+
+  test("expands groups in regex replacements", () => {
+    const pattern = /(\w+)\.(?<field>\w+)/gm;
+    const { content } = replaceMatches('a.b c.d', pattern, '$2_$1 $<field> $& $$ $3 $10', true);
+    expect(content).toBe('b_a b a.b $ $3 a0 d_c d c.d $ $3 c0');
+  });
+
+  test("replaces exactly the matches search reports", () => {
+    // A pattern that could span lines only matches within one, as in the search results
+    const pattern = /b\s+c|^c/gm;
+    const content = 'a b\r\nc d\nb  c';
+
+    const matches = findMatches(content, pattern);
+    expect(matches.map(match => [match.line, match.column, match.matchedText])).toEqual([[2, 1, 'c'], [3, 1, 'b  c']]);
+
+    const replaced = replaceMatches(content, pattern, 'X', true);
+    expect(replaced).toEqual({ content: 'a b\r\nX d\nX', replacements: matches.length });
+  });
+
+  test("skips empty matches", () => {
+    expect(replaceMatches('ab\n', /x*/gm, '-', true)).toEqual({ content: 'ab\n', replacements: 0 });
+  });
+});
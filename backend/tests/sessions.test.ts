@@ -0,0 +1,203 @@
+import { randomUUID } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { createStreamTicket, logout, redeemStreamTicket, refreshToken, startSession, validateToken } from "../services/auth/service";
+
+vi.mock("encore.dev/api", () => import("./encore-stubs").then(stubs => stubs.encoreApi));
+vi.mock("encore.dev/log", () => import("./encore-stubs").then(stubs => stubs.encoreLog));
+vi.mock("encore.dev", () => ({ currentRequest: () => request }));
+vi.mock("../utils/database", () => ({ get db() { return db; } }));
+vi.mock("../utils/auth", () => ({ requireAuth: () => caller, requireAdmin: () => caller }));
+
+interface StoredSession {
+  id: string;
+  user_id: string;
+  token: string;
+  generation: number;
+  expires_at: Date;
+  ip_address: string | null;
+  user_agent: string | null;
+}
+
+// The sessions, stream_tickets and users tables, answering the statements sign-in, refresh, logout,
+// stream tickets and token validation issue
+class FakeSessionStore {
+  readonly sessions = new Map<string, StoredSession>();
+  readonly tickets = new Map<string, { user_id: string; expires_at: Date; used: boolean }>();
+
+  async queryRow(strings: TemplateStringsArray, ...params: any[]): Promise<Record<string, any> | null> {
+    const sql = strings.join('?').replace(/\s+/g, ' ').trim();
+    const live = (session: StoredSession | undefined) => session && session.expires_at > new Date() ? session : undefined;
+
+    if (sql.startsWith('SELECT id::text, user_id::text, generation FROM sessions WHERE id = ?')) {
+      const session = live(this.sessions.get(params[0]));
+      return session && session.user_id === params[1] ? { ...session } : null;
+    }
+    if (sql.startsWith('SELECT id::text, user_id::text, generation FROM sessions WHERE token = ?')) {
+      return live([...this.sessions.values()].find(session => session.token === params[0])) ?? null;
+    }
+    if (sql.startsWith('UPDATE sessions SET token = ?, generation = ?')) {
+      const [token, generation, expiresAt, id, expected] = params;
+      const session = this.sessions.get(id);
+      if (!session || session.generation !== expected) return null;
+      Object.assign(session, { token, generation, expires_at: expiresAt });
+      return { id };
+    }
+    if (sql.startsWith('INSERT INTO stream_tickets')) {
+      const id = randomUUID();
+      this.tickets.set(id, { user_id: params[0], expires_at: params[2], used: false });
+      return { id };
+    }
+    if (sql.startsWith('UPDATE stream_tickets SET used_at = NOW()')) {
+      const ticket = this.tickets.get(params[0]);
+      if (!ticket || ticket.used || ticket.user_id !== params[1] || ticket.expires_at <= new Date()) return null;
+      ticket.used = true;
+      return { id: params[0] };
+    }
+    if (sql.startsWith('SELECT 1 AS live FROM sessions')) {
+      const session = live(this.sessions.get(params[0]));
+      return session && session.user_id === params[1] ? { live: 1 } : null;
+    }
+    if (sql.startsWith('SELECT id::text, email, name')) {
+      return params[0] === USER.id ? { ...USER } : null;
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  }
+
+  async exec(strings: TemplateStringsArray, ...params: any[]): Promise<void> {
+    const sql = strings.join('?').replace(/\s+/g, ' ').trim();
+
+    if (sql.startsWith('INSERT INTO sessions')) {
+      const [id, user_id, token, expires_at, ip_address, user_agent] = params;
+      this.sessions.set(id, { id, user_id, token, generation: 0, expires_at, ip_address, user_agent });
+    } else if (sql.startsWith('DELETE FROM sessions WHERE id = ?')) {
+      const session = this.sessions.get(params[0]);
+      if (session && (params.length < 2 || session.user_id === params[1])) this.sessions.delete(params[0]);
+    } else if (!sql.startsWith('UPDATE users SET last_login')) {
+      throw new Error(`Unexpected statement: ${sql}`);
+    }
+  }
+}
+
+const USER = {
+  id: "33333333-3333-3333-3333-333333333333",
+  email: "ada@example.com",
+  name: "Ada",
+  created_at: new Date(),
+  updated_at: new Date(),
+  email_verified: true,
+  last_login: null,
+  role: "user" as const,
+  mfa_enabled: false
+};
+
+let db: FakeSessionStore;
+let request: { type: 'api-call'; headers: Record<string, string | string[]> };
+let caller: { id: string; session_id: string | null };
+
+beforeEach(() => {
+  db = new FakeSessionStore();
+  request = { type: 'api-call', headers: {} };
+  caller = { id: USER.id, session_id: null };
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+async function signIn() {
+  const tokens = await startSession({ ...USER });
+  const session = [...db.sessions.values()].find(session => session.token === tokens.refreshToken);
+  return { ...tokens, sessionId: session!.id };
+}
+
+describe("Sessions", () => {
+  test("record the client address and user agent from the request headers", async () => {
+    request.headers = { 'x-forwarded-for': '203.0.113.7', 'user-agent': 'Vitest/1.6' };
+    const { sessionId } = await signIn();
+
+    expect(db.sessions.get(sessionId)).toMatchObject({ ip_address: '203.0.113.7', user_agent: 'Vitest/1.6' });
+  });
+
+  test("take the address added by the trusted proxy, not ones the client sent", async () => {
+    request.headers = { 'x-forwarded-for': '198.51.100.1, 203.0.113.7' };
+    const { sessionId: behindOne } = await signIn();
+
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2');
+    request.headers = { 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.1' };
+    const { sessionId: behindTwo } = await signIn();
+    request.headers = { 'x-forwarded-for': '10.0.0.1' };
+    const { sessionId: tooFew } = await signIn();
+
+    expect(db.sessions.get(behindOne)).toMatchObject({ ip_address: '203.0.113.7' });
+    expect(db.sessions.get(behindTwo)).toMatchObject({ ip_address: '203.0.113.7' });
+    expect(db.sessions.get(tooFew)).toMatchObject({ ip_address: null });
+  });
+
+  test("ignore forwarded addresses that are not IP addresses", async () => {
+    request.headers = { 'x-forwarded-for': 'not-an-address' };
+    const { sessionId } = await signIn();
+
+    expect(db.sessions.get(sessionId)).toMatchObject({ ip_address: null, user_agent: null });
+  });
+
+  test("rotate the refresh token on every use", async () => {
+    const first = await signIn();
+
+    const second = await refreshToken({ refreshToken: first.refreshToken });
+    const third = await refreshToken({ refreshToken: second.refreshToken });
+
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect(db.sessions.get(first.sessionId)).toMatchObject({ generation: 2, token: third.refreshToken });
+    expect(await validateToken(third.token)).toMatchObject({ id: USER.id, session_id: first.sessionId });
+  });
+
+  test("revoke the session when an earlier refresh token is used again", async () => {
+    const first = await signIn();
+    const second = await refreshToken({ refreshToken: first.refreshToken });
+
+    await expect(refreshToken({ refreshToken: first.refreshToken })).rejects.toThrow(/already used/);
+
+    expect(db.sessions.has(first.sessionId)).toBe(false);
+    // Both holders are signed out
+    await expect(refreshToken({ refreshToken: second.refreshToken })).rejects.toThrow(/Invalid or expired/);
+    expect(await validateToken(second.token)).toBeNull();
+  });
+
+  test("end only the caller's session on logout", async () => {
+    const here = await signIn();
+    const elsewhere = await startSession({ ...USER });
+    caller.session_id = here.sessionId;
+
+    expect(await logout()).toEqual({ success: true });
+
+    expect(db.sessions.has(here.sessionId)).toBe(false);
+    expect(await validateToken(here.token)).toBeNull();
+    expect(await validateToken(elsewhere.token)).toMatchObject({ id: USER.id });
+  });
+
+  test("let a stream ticket open one connection for the caller's session", async () => {
+    const { sessionId } = await signIn();
+    caller.session_id = sessionId;
+
+    const { ticket } = await createStreamTicket();
+
+    expect(await redeemStreamTicket(ticket)).toMatchObject({ id: USER.id, session_id: sessionId });
+    expect(await redeemStreamTicket(ticket)).toBeNull();
+  });
+
+  test("stop stream tickets working when their session ends", async () => {
+    const { sessionId } = await signIn();
+    caller.session_id = sessionId;
+    const { ticket } = await createStreamTicket();
+
+    await logout();
+
+    expect(await redeemStreamTicket(ticket)).toBeNull();
+  });
+
+  test("accept no access token as a stream ticket", async () => {
+    const { token } = await signIn();
+
+    expect(await redeemStreamTicket(token)).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, test } from "vitest";
+import {
+  base32Decode,
+  base32Encode,
+  generateCode,
+  generateSecret,
+  otpauthUri,
+  timeStep,
+  verifyCode
+} from "../services/auth/totp";
+
+// The SHA-1 seed from RFC 6238 appendix B
+const SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("TOTP", () => {
+  test("matches the RFC 6238 test vectors", () => {
+    // The RFC lists 8-digit codes; 6-digit codes are their last six digits
+    const vectors: Array<[number, string]> = [
+      [59, "94287082"],
+      [1111111109, "07081804"],
+      [1111111111, "14050471"],
+      [1234567890, "89005924"],
+      [2000000000, "69279037"],
+      [20000000000, "65353130"]
+    ];
+    for (const [seconds, code] of vectors) {
+      expect(generateCode(SECRET, timeStep(seconds * 1000))).toBe(code.slice(2));
+    }
+  });
+
+  test("accepts codes from one step either side of now", () => {
+    const time = 1111111111 * 1000;
+    const step = timeStep(time);
+
+    expect(verifyCode(SECRET, generateCode(SECRET, step - 1), { time })).toBe(step - 1);
+    expect(verifyCode(SECRET, generateCode(SECRET, step + 1), { time })).toBe(step + 1);
+    expect(verifyCode(SECRET, generateCode(SECRET, step - 2), { time })).toBeNull();
+    expect(verifyCode(SECRET, generateCode(SECRET, step + 2), { time })).toBeNull();
+  });
+
+  test("rejects a code whose step was already used", () => {
+    const time = 1234567890 * 1000;
+    const step = timeStep(time);
+    const code = generateCode(SECRET, step);
+
+    expect(verifyCode(SECRET, code, { time, lastStep: step - 1 })).toBe(step);
+    expect(verifyCode(SECRET, code, { time, lastStep: step })).toBeNull();
+  });
+
+  test("rejects malformed codes", () => {
+    expect(verifyCode(SECRET, "28708", { time: 59000 })).toBeNull();
+    expect(verifyCode(SECRET, "2870822", { time: 59000 })).toBeNull();
+    expect(verifyCode(SECRET, "abcdef", { time: 59000 })).toBeNull();
+  });
+
+  test("round-trips secrets through base32", () => {
+    const secret = generateSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(base32Encode(base32Decode(secret))).toBe(secret);
+    expect(base32Decode("jbsw y3dp ehpk 3pxp")).toEqual(base32Decode("JBSWY3DPEHPK3PXP"));
+  });
+
+  test("builds an otpauth key URI", () => {
+    expect(otpauthUri("JBSWY3DPEHPK3PXP", "ada@example.com", "Vaporform")).toBe(
+      "otpauth://totp/Vaporform:ada%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Vaporform&algorithm=SHA1&digits=6&period=30"
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { FakeFileStore } from "./files-harness";
+import { Queryer, insertEntry, moveEntry, parseFileRow, readBinaryContent, writeFileContent } from "../services/files/vfs";
+import { createFile, updateFile } from "../services/files/service";
+
+vi.mock("encore.dev/api", () => import("./encore-stubs").then(stubs => stubs.encoreApi));
+vi.mock("encore.dev/log", () => import("./encore-stubs").then(stubs => stubs.encoreLog));
+vi.mock("../utils/database", () => ({ get db() { return store; } }));
+vi.mock("../utils/auth", () => ({ requireAuth: () => ({ id: USER }) }));
+vi.mock("../services/projects/service", () => ({ requireProjectAccess: async () => undefined }));
+vi.mock("../services/files/watch", () => ({ publishFileChanges: async () => undefined }));
+
+const PROJECT = "11111111-1111-1111-1111-111111111111";
+const USER = "22222222-2222-2222-2222-222222222222";
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0xff]);
+
+let store: FakeFileStore;
+let q: Queryer;
+
+beforeEach(() => {
+  store = new FakeFileStore();
+  q = store.asQueryer();
+});
+
+describe("Binary files", () => {
+  test("keep their bytes, type and binary flag when renamed", async () => {
+    const uploaded = await insertEntry(q, PROJECT, '/assets/logo.png', 'file', PNG, USER);
+
+    const moved = await moveEntry(q, uploaded, '/images/brand.png', USER);
+    const file = parseFileRow(moved);
+
+    expect(file.path).toBe('/images/brand.png');
+    expect(file.mimeType).toBe('image/png');
+    expect(file.metadata.isBinary).toBe(true);
+    expect(file.content).toBeUndefined();
+    expect(await readBinaryContent(q, uploaded.id)).toEqual(PNG);
+  });
+
+  test("without a known extension stay application/octet-stream when renamed", async () => {
+    const uploaded = await insertEntry(q, PROJECT, '/data.bin', 'file', PNG, USER);
+
+    const moved = await moveEntry(q, uploaded, '/data.dat', USER);
+    expect(moved.mime_type).toBe('application/octet-stream');
+    expect(parseFileRow(moved).metadata.isBinary).toBe(true);
+  });
+
+  test("keep their content when only their permissions are updated", async () => {
+    const uploaded = await insertEntry(q, PROJECT, '/logo.png', 'file', PNG, USER);
+
+    const updated = await updateFile({ id: uploaded.id, permissions: { executable: true } });
+
+    expect(updated.permissions.executable).toBe(true);
+    expect(updated.metadata.isBinary).toBe(true);
+    expect(updated.hash).toBe(uploaded.hash);
+    expect(store.stored(uploaded.id).version).toBe(1);
+    expect(store.versions).toEqual([]);
+    expect(await readBinaryContent(q, uploaded.id)).toEqual(PNG);
+  });
+});
+
+describe("Text files", () => {
+  test("keep their content and version when only their permissions are updated", async () => {
+    const created = await insertEntry(q, PROJECT, '/index.ts', 'file', 'export {};\n', USER);
+
+    const updated = await updateFile({ id: created.id, permissions: { mode: 0o600 } });
+
+    expect(updated.content).toBe('export {};\n');
+    expect(updated.permissions.mode).toBe(0o600);
+    expect(store.versions).toEqual([]);
+  });
+
+  test("snapshot the previous content when it is written", async () => {
+    const created = await insertEntry(q, PROJECT, '/index.ts', 'file', 'one\n', USER);
+
+    const updated = await updateFile({ id: created.id, content: 'two\n', message: 'Second' });
+
+    expect(updated.content).toBe('two\n');
+    expect(store.stored(created.id).version).toBe(2);
+    expect(store.versions).toMatchObject([{ file_id: created.id, version: 1, content: 'one\n' }]);
+  });
+});
+
+describe("Concurrent writes", () => {
+  test("keep annotations and tags added after the file was read", async () => {
+    const created = await insertEntry(q, PROJECT, '/notes.md', 'file', 'one\ntwo\n', USER);
+    // Another request annotates the second line and tags the file in the meantime
+    const stored = store.stored(created.id);
+    stored.metadata.annotations = [{ id: 'a1', line: 2, column: 1, type: 'comment', content: 'Check', author: USER }];
+    stored.metadata.tags = ['docs'];
+
+    const row = await writeFileContent(q, created, 'zero\none\ntwo\n', USER);
+    const metadata = parseFileRow(row).metadata;
+
+    expect(metadata.tags).toEqual(['docs']);
+    expect(metadata.annotations).toMatchObject([{ id: 'a1', line: 3 }]);
+    expect(metadata.lineCount).toBe(4);
+  });
+
+  test("snapshot successive versions when both read the same row", async () => {
+    const created = await insertEntry(q, PROJECT, '/index.ts', 'file', 'one\n', USER);
+
+    await writeFileContent(q, created, 'two\n', USER);
+    const row = await writeFileContent(q, created, 'three\n', USER);
+
+    expect(row.version).toBe(3);
+    expect(store.versions.map(version => [version.version, version.content])).toEqual([[1, 'one\n'], [2, 'two\n']]);
+  });
+});
+
+describe("Creating entries", () => {
+  test("put the entry in the given directory, even when it has the directory's name", async () => {
+    const dir = await createFile({ projectId: PROJECT, path: '/', name: 'src', type: 'directory' });
+    const nested = await createFile({ projectId: PROJECT, path: '/src', name: 'src', type: 'directory' });
+    const file = await createFile({ projectId: PROJECT, path: '/src/lib', name: 'index.ts', content: 'export {};\n' });
+
+    expect(dir.path).toBe('/src');
+    expect(nested.path).toBe('/src/src');
+    expect(file.path).toBe('/src/lib/index.ts');
+    expect([...store.rows.values()].map(row => row.path).sort()).toEqual(['/src', '/src/lib', '/src/lib/index.ts', '/src/src']);
+  });
+});
@@ -1,25 +1,51 @@
-import { validateToken } from "../services/auth/service";
+import { APIError } from "encore.dev/api";
+import { getAuthData } from "~encore/auth";
+import type { UserRole } from "../services/auth/service";
 
-// Auth middleware helper for protecting API endpoints
-export async function requireAuth(authorization?: string) {
-  if (!authorization) {
-    throw new Error("Authorization header required");
+// The signed-in caller, as resolved by the auth handler in services/auth/gateway.ts
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  email_verified: boolean;
+  session_id: string | null;
+}
+
+// The caller of an endpoint declared with `auth: true`; the gateway has already rejected
+// requests without a valid token, so this only throws when called from a public endpoint
+export function requireAuth(): AuthUser {
+  const data = getAuthData();
+  if (!data) {
+    throw APIError.unauthenticated("Authorization header required");
   }
 
-  const user = await validateToken(authorization);
-  if (!user) {
-    throw new Error("Invalid or expired token");
+  return {
+    id: data.userID,
+    email: data.email,
+    name: data.name,
+    role: data.role,
+    email_verified: data.emailVerified,
+    session_id: data.sessionID
+  };
+}
+
+// Like requireAuth, for endpoints only administrators may call
+export function requireAdmin(): AuthUser {
+  const user = requireAuth();
+  if (user.role !== 'admin') {
+    throw APIError.permissionDenied("Administrator access required");
   }
 
   return user;
 }
 
-// Interface for authenticated requests
-export interface AuthenticatedRequest {
-  authorization: string;
-}
+// Like requireAuth, for endpoints that need a confirmed email address
+export function requireVerifiedEmail(): AuthUser {
+  const user = requireAuth();
+  if (!user.email_verified) {
+    throw APIError.permissionDenied("Verify your email address first");
+  }
 
-// Type guard for authenticated requests
-export function isAuthenticatedRequest(req: any): req is AuthenticatedRequest {
-  return req && typeof req.authorization === 'string';
-}
\ No newline at end of file
+  return user;
+}
@@ -0,0 +1,24 @@
+// HTTP statuses for API error codes, the same as Encore answers with on ordinary endpoints, for raw
+// endpoints that write their own error responses
+const STATUS_BY_CODE: Record<string, number> = {
+  canceled: 499,
+  unknown: 500,
+  invalid_argument: 400,
+  deadline_exceeded: 504,
+  not_found: 404,
+  already_exists: 409,
+  permission_denied: 403,
+  resource_exhausted: 429,
+  failed_precondition: 400,
+  aborted: 409,
+  out_of_range: 400,
+  unimplemented: 501,
+  internal: 500,
+  unavailable: 503,
+  data_loss: 500,
+  unauthenticated: 401
+};
+
+export function httpStatus(code: string): number {
+  return STATUS_BY_CODE[code] ?? 500;
+}
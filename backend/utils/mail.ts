@@ -0,0 +1,68 @@
+import log from "encore.dev/log";
+import { randomUUID } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+// Outgoing email. Every message goes through one transport, chosen with MAIL_TRANSPORT:
+// "console" (the default) logs messages and "file" writes each one as an .eml file to
+// MAIL_OUTBOX_DIR, for reading links locally. A deployment with a mail provider installs its
+// own transport at startup with setMailTransport.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  // Plain text body
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Vaporform <no-reply@vaporform.dev>';
+
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    log.info("Email (console transport)", { to: message.to, subject: message.subject, text: message.text });
+  }
+}
+
+export class FileTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const file = join(this.directory, `${Date.now()}-${randomUUID().slice(0, 8)}.eml`);
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8'
+    ];
+    await writeFile(file, `${headers.join('\r\n')}\r\n\r\n${message.text}\n`);
+    log.info("Email written to outbox", { to: message.to, subject: message.subject, file });
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  transport ??= defaultTransport();
+  await transport.send({ ...message, from: MAIL_FROM });
+}
+
+function defaultTransport(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT || 'console';
+  if (kind === 'file') {
+    return new FileTransport(process.env.MAIL_OUTBOX_DIR || join(process.cwd(), '.mail-outbox'));
+  }
+  if (kind !== 'console') {
+    log.warn("Unknown MAIL_TRANSPORT; logging emails instead", { transport: kind });
+  }
+  return new ConsoleTransport();
+}
@@ -5,6 +5,7 @@ import { Layout } from '@/components/Layout';
 import { AuthPage } from '@/pages/AuthPage';
 import { WorkspacePage } from '@/pages/WorkspacePage';
 import { SettingsPage } from '@/pages/SettingsPage';
+import { VerifyEmailPage } from '@/pages/VerifyEmailPage';
 // REMOVED: WizardPage import - replaced with modal-based approach via ProjectCreationModal
 import { LoadingScreen } from '@/components/ui/LoadingScreen';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
@@ -51,6 +52,7 @@ export const App: React.FC = () => {
         <div className="app">
           {!isAuthenticated ? (
             <Routes>
+              <Route path="/verify-email" element={<VerifyEmailPage />} />
               <Route path="*" element={<AuthPage />} />
             </Routes>
           ) : (
@@ -63,6 +65,7 @@ export const App: React.FC = () => {
                   Access through UI state: dispatch(uiSlice.actions.openModal('projectCreationModal'))
                */}
               <Route path="/settings" element={<SettingsPage />} />
+              <Route path="/verify-email" element={<VerifyEmailPage />} />
               <Route path="*" element={<Layout />} />
             </Routes>
           )}
@@ -139,12 +139,15 @@ const SuggestionChip = styled.button<{ theme: string }>`
 interface ChatInputProps {
   onSendMessage: (message: string, context?: string[]) => void;
   isLoading: boolean;
+  // Shown as a stop button while a response is loading
+  onStop?: () => void;
   placeholder?: string;
 }
 
 export const ChatInput: React.FC<ChatInputProps> = ({
   onSendMessage,
   isLoading,
+  onStop,
   placeholder = "Type your message..."
 }) => {
   const dispatch = useAppDispatch();
@@ -284,15 +287,26 @@ export const ChatInput: React.FC<ChatInputProps> = ({
               </Button>
             )}
             
-            <Button
-              variant="primary"
-              size="sm"
-              onClick={handleSubmit}
-              disabled={!message.trim() || isLoading || isOverLimit}
-              title="Send message (Enter)"
-            >
-              {isLoading ? <StopIcon size={16} /> : <SendIcon size={16} />}
-            </Button>
+            {isLoading && onStop ? (
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={onStop}
+                title="Stop generating"
+              >
+                <StopIcon size={16} />
+              </Button>
+            ) : (
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={handleSubmit}
+                disabled={!message.trim() || isLoading || isOverLimit}
+                title="Send message (Enter)"
+              >
+                {isLoading ? <StopIcon size={16} /> : <SendIcon size={16} />}
+              </Button>
+            )}
           </InputActions>
         </InputRow>
       </InputWrapper>
@@ -5,6 +5,7 @@ import { CodeBlock } from '@/components/ui/CodeBlock';
 import { Button } from '@/components/ui/Button';
 import { CopyIcon, EditIcon, DeleteIcon } from '@/components/ui/Icons';
 import type { AiMessage } from '@/store/ai';
+import type { MessageFeedbackRequest } from '@/services/ai';
 
 const MessageContainer = styled.div<{ 
   role: 'user' | 'assistant' | 'system'; 
@@ -154,23 +155,92 @@ const MetadataInfo = styled.div<{ theme: string }>`
   border: 1px solid ${props => props.theme === 'dark' ? '#4a5568' : '#e2e8f0'};
 `;
 
+const FeedbackBar = styled.div<{ theme: string }>`
+  display: flex;
+  align-items: center;
+  gap: 4px;
+  margin-top: 6px;
+  font-size: 12px;
+  color: ${props => props.theme === 'dark' ? '#a0a0a0' : '#6c757d'};
+`;
+
+const FeedbackButton = styled.button<{ theme: string; active?: boolean }>`
+  padding: 0 4px;
+  border: none;
+  border-radius: 3px;
+  background: none;
+  cursor: pointer;
+  font-size: 13px;
+  line-height: 20px;
+  color: inherit;
+  opacity: ${props => props.active ? 1 : 0.5};
+  background-color: ${props => props.active ? (props.theme === 'dark' ? '#2d3748' : '#edf2f7') : 'transparent'};
+
+  &:hover {
+    opacity: 1;
+  }
+
+  &:disabled {
+    cursor: default;
+    opacity: 0.3;
+  }
+`;
+
+const Star = styled.button<{ filled: boolean }>`
+  padding: 0 1px;
+  border: none;
+  background: none;
+  cursor: pointer;
+  font-size: 14px;
+  color: ${props => props.filled ? '#f6ad55' : 'inherit'};
+`;
+
+const CommentBox = styled.div<{ theme: string }>`
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  margin-top: 6px;
+
+  textarea {
+    width: 100%;
+    min-height: 48px;
+    padding: 6px 8px;
+    border: 1px solid ${props => props.theme === 'dark' ? '#4a5568' : '#cbd5e0'};
+    border-radius: 4px;
+    background-color: ${props => props.theme === 'dark' ? '#2d3748' : '#ffffff'};
+    color: ${props => props.theme === 'dark' ? '#e2e8f0' : '#2d3748'};
+    font-size: 12px;
+    font-family: inherit;
+    resize: vertical;
+  }
+`;
+
+// Matches the limit on the server
+const MAX_COMMENT_LENGTH = 1000;
+
 interface ChatMessageProps {
   message: AiMessage;
   isLoading?: boolean;
   onEdit?: (messageId: string, newContent: string) => void;
   onDelete?: (messageId: string) => void;
+  // Rate an assistant message, or withdraw the rating with null
+  onRate?: (messageId: string, feedback: MessageFeedbackRequest | null) => void;
 }
 
 export const ChatMessage: React.FC<ChatMessageProps> = ({
   message,
   isLoading = false,
   onEdit,
-  onDelete
+  onDelete,
+  onRate
 }) => {
   const { theme } = useAppSelector(state => state.ui);
   const { user } = useAppSelector(state => state.auth);
   const [isEditing, setIsEditing] = useState(false);
   const [editContent, setEditContent] = useState(message.content);
+  const [isCommenting, setIsCommenting] = useState(false);
+  const [comment, setComment] = useState(message.feedback?.comment ?? '');
+  const feedback = message.feedback;
 
   const formatTime = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
@@ -210,6 +280,32 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
     onDelete?.(message.id);
   };
 
+  const rate = (changes: Partial<MessageFeedbackRequest>) => {
+    const rating = changes.rating ?? feedback?.rating ?? (changes.helpful === false ? 1 : 5);
+    const savedComment = changes.comment ?? feedback?.comment;
+    onRate?.(message.id, {
+      rating,
+      helpful: changes.helpful ?? feedback?.helpful ?? rating >= 3,
+      ...(savedComment ? { comment: savedComment } : {})
+    });
+  };
+
+  // Choosing the current thumb again withdraws the rating
+  const handleThumb = (helpful: boolean) => {
+    if (feedback?.helpful === helpful) {
+      onRate?.(message.id, null);
+      setComment('');
+      setIsCommenting(false);
+    } else {
+      rate({ helpful, ...(feedback ? {} : { rating: helpful ? 5 : 1 }) });
+    }
+  };
+
+  const handleSaveComment = () => {
+    rate({ comment: comment.trim() });
+    setIsCommenting(false);
+  };
+
   const parseMessageContent = (content: string) => {
     // Simple parsing for code blocks and markdown-like formatting
     const codeBlockRegex = /```(\w+)?\n([\s\S]*?)\n```/g;
@@ -349,6 +445,62 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
             {message.metadata.context && ` • Context files: ${message.metadata.context.length}`}
           </MetadataInfo>
         )}
+
+        {message.role === 'assistant' && onRate && !isLoading && (
+          <>
+            <FeedbackBar theme={theme}>
+              <FeedbackButton theme={theme} active={feedback?.helpful === true} onClick={() => handleThumb(true)} title="Helpful">
+                👍
+              </FeedbackButton>
+              <FeedbackButton theme={theme} active={feedback?.helpful === false} onClick={() => handleThumb(false)} title="Not helpful">
+                👎
+              </FeedbackButton>
+              {[1, 2, 3, 4, 5].map(value => (
+                <Star
+                  key={value}
+                  filled={!!feedback && value <= feedback.rating}
+                  onClick={() => rate({ rating: value as MessageFeedbackRequest['rating'] })}
+                  title={`Rate ${value} of 5`}
+                >
+                  {feedback && value <= feedback.rating ? '★' : '☆'}
+                </Star>
+              ))}
+              <FeedbackButton
+                theme={theme}
+                active={isCommenting || !!feedback?.comment}
+                disabled={!feedback}
+                onClick={() => setIsCommenting(!isCommenting)}
+                title={feedback ? 'Add a comment' : 'Rate the answer to add a comment'}
+              >
+                Comment
+              </FeedbackButton>
+            </FeedbackBar>
+            {isCommenting && feedback && (
+              <CommentBox theme={theme}>
+                <textarea
+                  value={comment}
+                  maxLength={MAX_COMMENT_LENGTH}
+                  placeholder="What was good or wrong about this answer?"
+                  onChange={(e) => setComment(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                      handleSaveComment();
+                    }
+                    if (e.key === 'Escape') {
+                      setIsCommenting(false);
+                      setComment(feedback.comment ?? '');
+                    }
+                  }}
+                />
+                <div>
+                  <Button variant="primary" size="xs" onClick={handleSaveComment}>
+                    Save comment
+                  </Button>
+                </div>
+              </CommentBox>
+            )}
+          </>
+        )}
       </MessageContent>
     </MessageContainer>
   );
@@ -1,6 +1,17 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import styled from '@emotion/styled';
-import { useAppSelector } from '@/hooks/redux';
+import { useAppDispatch, useAppSelector } from '@/hooks/redux';
+import {
+  aiSlice,
+  AiConversation,
+  editConversation,
+  fetchConversations,
+  forkConversation,
+  removeConversation
+} from '@/store/ai';
+import { aiService } from '@/services/ai';
+import { Button } from '@/components/ui/Button';
+import { CopyIcon, DeleteIcon, EditIcon, RefreshIcon } from '@/components/ui/Icons';
 
 const ConversationContainer = styled.div<{ theme: string }>`
   height: 100%;
@@ -10,7 +21,98 @@ const ConversationContainer = styled.div<{ theme: string }>`
   color: ${props => props.theme === 'dark' ? '#cccccc' : '#333333'};
 `;
 
-const ConversationContent = styled.div`
+const SearchBar = styled.div<{ theme: string }>`
+  display: flex;
+  gap: 4px;
+  padding: 8px;
+  border-bottom: 1px solid ${props => props.theme === 'dark' ? '#3e3e42' : '#e5e5e5'};
+`;
+
+const TextInput = styled.input<{ theme: string }>`
+  flex: 1;
+  min-width: 0;
+  padding: 4px 8px;
+  font-size: 13px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#3e3e42' : '#cccccc'};
+  border-radius: 3px;
+  background-color: ${props => props.theme === 'dark' ? '#3c3c3c' : '#ffffff'};
+  color: inherit;
+  outline: none;
+
+  &:focus {
+    border-color: #007acc;
+  }
+`;
+
+const ConversationItems = styled.div`
+  flex: 1;
+  overflow-y: auto;
+`;
+
+const ConversationItem = styled.div<{ theme: string; isActive: boolean }>`
+  padding: 8px 12px;
+  cursor: pointer;
+  border-bottom: 1px solid ${props => props.theme === 'dark' ? '#2d2d30' : '#f0f0f0'};
+  background-color: ${props => props.isActive
+    ? (props.theme === 'dark' ? '#37373d' : '#e4e6f1')
+    : 'transparent'};
+
+  &:hover {
+    background-color: ${props => props.theme === 'dark' ? '#2a2d2e' : '#f0f0f0'};
+  }
+
+  &:hover .conversation-actions {
+    visibility: visible;
+  }
+`;
+
+const ItemHeader = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 4px;
+`;
+
+const ItemTitle = styled.div`
+  flex: 1;
+  font-size: 13px;
+  font-weight: 500;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const ItemActions = styled.div`
+  display: flex;
+  visibility: hidden;
+`;
+
+const ItemPreview = styled.div`
+  margin-top: 2px;
+  font-size: 12px;
+  color: #999;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const ItemMeta = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 4px;
+  margin-top: 4px;
+  font-size: 11px;
+  color: #999;
+`;
+
+const Tag = styled.span<{ theme: string }>`
+  padding: 0 6px;
+  border-radius: 8px;
+  background-color: ${props => props.theme === 'dark' ? '#3e3e42' : '#e5e5e5'};
+  color: ${props => props.theme === 'dark' ? '#cccccc' : '#333333'};
+`;
+
+const EmptyState = styled.div`
   flex: 1;
   padding: 12px;
   display: flex;
@@ -21,16 +123,174 @@ const ConversationContent = styled.div`
   font-size: 14px;
 `;
 
-export const ConversationList: React.FC = () => {
+interface ConversationListProps {
+  // Called after a conversation is opened, e.g. to switch back to the chat view
+  onOpen?: () => void;
+}
+
+const parseTags = (value: string) =>
+  value.split(',').map(tag => tag.trim()).filter(Boolean);
+
+export const ConversationList: React.FC<ConversationListProps> = ({ onOpen }) => {
+  const dispatch = useAppDispatch();
   const { theme } = useAppSelector(state => state.ui);
+  const { conversations, activeConversationId, isLoadingConversations } = useAppSelector(state => state.ai);
+  const [search, setSearch] = useState('');
+  // Ids of the conversations matching the search, in the server's order
+  const [matches, setMatches] = useState<string[] | null>(null);
+  const [editing, setEditing] = useState<{ id: string; title: string; tags: string } | null>(null);
+
+  // Search runs on the server so it also matches message contents
+  useEffect(() => {
+    const query = search.trim();
+    if (!query) {
+      setMatches(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const { conversations: found } = await aiService.listConversations({ search: query });
+        if (!cancelled) setMatches(found.map(conversation => conversation.id));
+      } catch {
+        if (!cancelled) setMatches([]);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search]);
+
+  const visible = matches
+    ? conversations.filter((conversation: AiConversation) => matches.includes(conversation.id))
+    : conversations;
+
+  const handleOpen = (conversation: AiConversation) => {
+    dispatch(aiSlice.actions.setActiveConversation(conversation.id));
+    onOpen?.();
+  };
+
+  const handleSave = () => {
+    if (!editing || !editing.title.trim()) return;
+    dispatch(editConversation({ id: editing.id, title: editing.title.trim(), tags: parseTags(editing.tags) }));
+    setEditing(null);
+  };
+
+  const handleFork = async (conversation: AiConversation) => {
+    const result = await dispatch(forkConversation({ id: conversation.id }));
+    if (forkConversation.fulfilled.match(result)) {
+      onOpen?.();
+    }
+  };
+
+  const handleDelete = (conversation: AiConversation) => {
+    if (window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+      dispatch(removeConversation(conversation.id));
+    }
+  };
+
+  const renderItem = (conversation: AiConversation) => {
+    if (editing?.id === conversation.id) {
+      return (
+        <ConversationItem key={conversation.id} theme={theme} isActive={false}>
+          <TextInput
+            theme={theme}
+            value={editing.title}
+            placeholder="Title"
+            autoFocus
+            onChange={e => setEditing({ ...editing, title: e.target.value })}
+            onKeyDown={e => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') setEditing(null);
+            }}
+          />
+          <ItemMeta>
+            <TextInput
+              theme={theme}
+              value={editing.tags}
+              placeholder="Tags, separated by commas"
+              onChange={e => setEditing({ ...editing, tags: e.target.value })}
+              onKeyDown={e => {
+                if (e.key === 'Enter') handleSave();
+                if (e.key === 'Escape') setEditing(null);
+              }}
+            />
+            <Button size="sm" variant="primary" onClick={handleSave}>Save</Button>
+            <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+          </ItemMeta>
+        </ConversationItem>
+      );
+    }
+
+    const messageCount = Math.max(conversation.messageCount ?? 0, conversation.messages.length);
+    return (
+      <ConversationItem
+        key={conversation.id}
+        theme={theme}
+        isActive={conversation.id === activeConversationId}
+        onClick={() => handleOpen(conversation)}
+      >
+        <ItemHeader>
+          <ItemTitle title={conversation.title}>{conversation.title}</ItemTitle>
+          <ItemActions className="conversation-actions" onClick={e => e.stopPropagation()}>
+            <Button
+              variant="ghost"
+              size="sm"
+              title="Rename and tag"
+              onClick={() => setEditing({ id: conversation.id, title: conversation.title, tags: conversation.tags.join(', ') })}
+            >
+              <EditIcon size={14} />
+            </Button>
+            <Button variant="ghost" size="sm" title="Fork" onClick={() => handleFork(conversation)}>
+              <CopyIcon size={14} />
+            </Button>
+            <Button variant="ghost" size="sm" title="Delete" onClick={() => handleDelete(conversation)}>
+              <DeleteIcon size={14} />
+            </Button>
+          </ItemActions>
+        </ItemHeader>
+        {conversation.preview && <ItemPreview>{conversation.preview}</ItemPreview>}
+        <ItemMeta>
+          <span>{new Date(conversation.updatedAt).toLocaleDateString()}</span>
+          <span>· {messageCount} {messageCount === 1 ? 'message' : 'messages'}</span>
+          {conversation.tags.map(tag => <Tag key={tag} theme={theme}>{tag}</Tag>)}
+        </ItemMeta>
+      </ConversationItem>
+    );
+  };
 
   return (
     <ConversationContainer theme={theme}>
-      <ConversationContent>
-        Conversation History
-        <br />
-        <small>Coming soon...</small>
-      </ConversationContent>
+      <SearchBar theme={theme}>
+        <TextInput
+          theme={theme}
+          value={search}
+          placeholder="Search conversations"
+          onChange={e => setSearch(e.target.value)}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          title="Refresh"
+          loading={isLoadingConversations}
+          onClick={() => dispatch(fetchConversations())}
+        >
+          <RefreshIcon size={14} />
+        </Button>
+      </SearchBar>
+      {visible.length === 0 ? (
+        <EmptyState>
+          {isLoadingConversations
+            ? 'Loading conversations...'
+            : matches ? 'No matching conversations' : 'No conversations yet'}
+        </EmptyState>
+      ) : (
+        <ConversationItems>
+          {visible.map(renderItem)}
+        </ConversationItems>
+      )}
     </ConversationContainer>
   );
-};
\ No newline at end of file
+};
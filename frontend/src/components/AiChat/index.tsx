@@ -1,12 +1,14 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import styled from '@emotion/styled';
 import { useAppSelector, useAppDispatch } from '@/hooks/redux';
-import { aiSlice } from '@/store/ai';
+import { aiSlice, clearConversation, fetchConversation, fetchConversations, rateMessage, startConversation } from '@/store/ai';
+import type { AiMessage } from '@/store/ai';
 import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
 import { ConversationList } from './ConversationList';
 import { AiSettings } from './AiSettings';
-import { useAiService } from '@/services/ai';
+import { useAiService, MessageFeedbackRequest } from '@/services/ai';
+import type { ContainerLog } from '@shared/types';
 import { Button } from '@/components/ui/Button';
 import { NewChatIcon, SettingsIcon, HistoryIcon, ClearIcon, FileIcon, ImageIcon, CodeIcon, MicIcon } from '@/components/ui/Icons';
 
@@ -281,6 +283,9 @@ const SuggestionChip = styled.button<{ theme: string }>`
 
 type ViewMode = 'chat' | 'conversations' | 'settings';
 
+// Recent container output sent with each message so the assistant can see runtime errors
+const MAX_LOG_LINES_PER_CONTAINER = 100;
+
 interface Attachment {
   id: string;
   name: string;
@@ -315,6 +320,9 @@ export const AiChatPanel: React.FC = () => {
   const [fileContextEnabled, setFileContextEnabled] = useState(true);
   const [projectContextEnabled, setProjectContextEnabled] = useState(true);
   const [voiceEnabled, setVoiceEnabled] = useState(false);
+  // Text of the response being streamed, and how to cancel it
+  const [streamingContent, setStreamingContent] = useState('');
+  const streamControllerRef = useRef<AbortController | null>(null);
   
   const { theme } = useAppSelector(state => state.ui);
   const { 
@@ -329,6 +337,25 @@ export const AiChatPanel: React.FC = () => {
   const activeConversation = conversations.find(c => c.id === activeConversationId);
   const { tabs, activeTabId } = useAppSelector(state => state.editor);
   const activeTab = tabs.find(tab => tab.id === activeTabId);
+  const { token } = useAppSelector(state => state.auth);
+  const projectId = useAppSelector(state => state.projects.currentProject?.id);
+  const containers = useAppSelector(state => state.containers);
+
+  // Conversations are kept on the server, so load them whenever the user signs in
+  useEffect(() => {
+    if (token) {
+      dispatch(fetchConversations());
+    }
+  }, [token, dispatch]);
+
+  // Listed conversations arrive without their messages
+  const needsMessages = !!activeConversation &&
+    activeConversation.messages.length < (activeConversation.messageCount ?? 0);
+  useEffect(() => {
+    if (activeConversationId && needsMessages) {
+      dispatch(fetchConversation(activeConversationId));
+    }
+  }, [activeConversationId, needsMessages, dispatch]);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -501,29 +528,25 @@ export const AiChatPanel: React.FC = () => {
   };
 
   const handleNewConversation = () => {
-    dispatch(aiSlice.actions.createConversation({}));
+    dispatch(startConversation(projectId ? { projectId } : {}));
     setViewMode('chat');
   };
 
   const handleClearConversation = () => {
     if (activeConversationId) {
-      dispatch(aiSlice.actions.updateConversation({
-        id: activeConversationId,
-        updates: { messages: [] }
-      }));
+      dispatch(clearConversation(activeConversationId));
     }
   };
 
   const handleSendMessage = async (content: string, context?: string[]) => {
-    if (!activeConversationId) {
-      // Create new conversation if none exists
-      dispatch(aiSlice.actions.createConversation({}));
-      return;
-    }
-
     try {
-      // Prepare enhanced context with attachments and selected context
-      const enhancedContext = [...(context || [])];
+      // The first message starts a conversation
+      const conversationId = activeConversationId ??
+        (await dispatch(startConversation(projectId ? { projectId } : {})).unwrap()).id;
+
+      // Prepare enhanced context with attachments and selected context. Files picked in the chat
+      // input go to the server as paths; it reads them along with the rest of the project context.
+      const enhancedContext: string[] = [];
       
       // Add attachment content to context
       attachments.forEach(attachment => {
@@ -556,7 +579,7 @@ export const AiChatPanel: React.FC = () => {
 
       // Add user message
       dispatch(aiSlice.actions.addMessage({
-        conversationId: activeConversationId,
+        conversationId,
         message: {
           role: 'user',
           content,
@@ -564,41 +587,64 @@ export const AiChatPanel: React.FC = () => {
         }
       }));
 
-      // Send to AI service with enhanced context
+      // Stream the response from the AI service with enhanced context
+      const controller = new AbortController();
+      streamControllerRef.current = controller;
+      setStreamingContent('');
       dispatch(aiSlice.actions.setStreaming(true));
-      
-      const response = await aiService.sendMessage({
-        conversationId: activeConversationId,
-        message: content,
-        context: enhancedContext,
-        settings: {
-          ...settings,
-          enableFileContext: fileContextEnabled,
-          enableProjectContext: projectContextEnabled
-        }
-      });
 
-      // Add assistant response
-      dispatch(aiSlice.actions.addMessage({
-        conversationId: activeConversationId,
-        message: {
-          role: 'assistant',
-          content: response.content,
-          metadata: {
-            ...response.metadata,
-            contextUsed: enhancedContext.length > 0,
-            attachmentsProcessed: attachments.length
+      let partial = '';
+      await aiService.streamMessage(
+        {
+          conversationId,
+          message: content,
+          context: enhancedContext,
+          ...(context?.length ? { contextFiles: context } : {}),
+          logs: recentProjectLogs(),
+          settings: {
+            ...settings,
+            enableFileContext: fileContextEnabled,
+            enableProjectContext: projectContextEnabled
           }
-        }
-      }));
-
-      // Update usage
-      if (response.metadata?.tokens) {
-        dispatch(aiSlice.actions.updateUsage({ 
-          tokens: response.metadata.tokens,
-          requests: 1
-        }));
-      }
+        },
+        chunk => {
+          partial += chunk;
+          setStreamingContent(partial);
+        },
+        response => {
+          // Add assistant response
+          dispatch(aiSlice.actions.addMessage({
+            conversationId,
+            message: {
+              role: 'assistant',
+              content: response.content,
+              metadata: {
+                ...response.metadata,
+                contextUsed: enhancedContext.length > 0,
+                attachmentsProcessed: attachments.length
+              }
+            }
+          }));
+
+          // Pick up the ids the server gave the stored messages
+          dispatch(fetchConversation(conversationId));
+        },
+        streamError => {
+          if (controller.signal.aborted) {
+            // Stopped by the user: keep what has arrived so far
+            if (partial.trim()) {
+              dispatch(aiSlice.actions.addMessage({
+                conversationId,
+                message: { role: 'assistant', content: partial, metadata: { stopped: true } }
+              }));
+            }
+            return;
+          }
+          console.error('Failed to stream message:', streamError);
+          dispatch(aiSlice.actions.setError(streamError.message || 'Failed to send message'));
+        },
+        controller.signal
+      );
 
       // Clear attachments after sending
       setAttachments([]);
@@ -608,10 +654,29 @@ export const AiChatPanel: React.FC = () => {
       console.error('Failed to send message:', error);
       dispatch(aiSlice.actions.setError(error instanceof Error ? error.message : 'Failed to send message'));
     } finally {
+      streamControllerRef.current = null;
+      setStreamingContent('');
       dispatch(aiSlice.actions.setStreaming(false));
     }
   };
 
+  const recentProjectLogs = () => Object.entries(containers.logs as Record<string, ContainerLog[]>)
+    .filter(([containerId]) => containers.containers[containerId]?.projectId === projectId)
+    .flatMap(([, entries]) => entries.slice(-MAX_LOG_LINES_PER_CONTAINER).map(entry => entry.logs));
+
+  const handleStopStreaming = useCallback(() => {
+    streamControllerRef.current?.abort();
+  }, []);
+
+  // Leaving the panel cancels a response that is still streaming
+  useEffect(() => () => streamControllerRef.current?.abort(), []);
+
+  const handleRateMessage = useCallback((messageId: string, feedback: MessageFeedbackRequest | null) => {
+    if (activeConversationId) {
+      dispatch(rateMessage({ conversationId: activeConversationId, messageId, feedback }));
+    }
+  }, [activeConversationId, dispatch]);
+
   const handleSuggestionClick = useCallback((suggestion: string) => {
     if (activeConversationId) {
       handleSendMessage(suggestion);
@@ -621,7 +686,7 @@ export const AiChatPanel: React.FC = () => {
   const renderContent = () => {
     switch (viewMode) {
       case 'conversations':
-        return <ConversationList />;
+        return <ConversationList onOpen={() => setViewMode('chat')} />;
       case 'settings':
         return <AiSettings />;
       default:
@@ -756,10 +821,12 @@ export const AiChatPanel: React.FC = () => {
                 </EmptyState>
               ) : (
                 <>
-                  {activeConversation.messages.map((message) => (
+                  {activeConversation.messages.map((message: AiMessage) => (
                     <ChatMessage 
                       key={message.id} 
                       message={message} 
+                      // Answers can be rated once they have their server ids
+                      {...(message.id.startsWith('msg-') ? {} : { onRate: handleRateMessage })}
                     />
                   ))}
                   {isStreaming && (
@@ -767,10 +834,10 @@ export const AiChatPanel: React.FC = () => {
                       message={{
                         id: 'loading',
                         role: 'assistant',
-                        content: '...',
+                        content: streamingContent || '...',
                         timestamp: new Date()
                       }}
-                      isLoading
+                      isLoading={!streamingContent}
                     />
                   )}
                   <div ref={messagesEndRef} />
@@ -782,6 +849,7 @@ export const AiChatPanel: React.FC = () => {
               <ChatInput 
                 onSendMessage={handleSendMessage}
                 isLoading={isLoading || isStreaming}
+                onStop={handleStopStreaming}
                 placeholder={
                   attachments.length > 0 || selectedContext.length > 0 
                     ? `Ask about your ${attachments.length + selectedContext.length} attached item(s)...`
@@ -1,7 +1,10 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import styled from '@emotion/styled';
-import { useAppSelector } from '@/hooks/redux';
-import { aiService } from '@/services/ai';
+import { useAppDispatch, useAppSelector } from '@/hooks/redux';
+import { aiService, GeneratedTests } from '@/services/ai';
+import { editorSlice } from '@/store/editor';
+import { fetchConversation } from '@/store/ai';
+import { uiSlice } from '@/store/ui';
 
 const Overlay = styled.div<{ visible: boolean }>`
   position: fixed;
@@ -159,8 +162,11 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({ visible, onClose
   const [aiMode, setAiMode] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   
+  const dispatch = useAppDispatch();
   const { theme } = useAppSelector(state => state.ui);
-  const { activeTabId, tabs } = useAppSelector(state => state.editor);
+  const { activeTabId, tabs, editorInstance } = useAppSelector(state => state.editor);
+  const projectId = useAppSelector(state => state.projects.currentProject?.id);
+  const activeConversationId = useAppSelector(state => state.ai.activeConversationId);
   const activeTab = tabs.find(tab => tab.id === activeTabId);
 
   // Built-in commands
@@ -169,7 +175,7 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({ visible, onClose
       id: 'ai-analyze',
       type: 'ai',
       title: 'AI: Analyze Code',
-      description: 'Analyze current file with AI for issues and improvements',
+      description: 'Review current file with AI and mark issues in the editor',
       shortcut: 'Ctrl+Alt+A',
       action: async () => {
         if (activeTab) {
@@ -385,20 +391,60 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({ visible, onClose
   // AI Command Actions
   const analyzeCurrentFile = async () => {
     if (!activeTab) return;
-    // Trigger AI analysis
-    console.log('Analyzing current file with AI...');
+    // The editor shows the review as markers with quick fixes
+    await editorInstance?.getAction('ai-analyze')?.run();
   };
 
   const refactorSelection = async () => {
     if (!activeTab) return;
-    // Trigger AI refactoring
-    console.log('Refactoring selection with AI...');
+    await editorInstance?.getAction('ai-refactor')?.run();
   };
 
   const generateTests = async () => {
-    if (!activeTab) return;
-    // Generate tests with AI
-    console.log('Generating tests with AI...');
+    if (!activeTab || !projectId) return;
+
+    const request = {
+      projectId,
+      filePath: activeTab.filePath,
+      // The result is reported in the open chat conversation
+      ...(activeConversationId ? { conversationId: activeConversationId } : {})
+    };
+    try {
+      let result: GeneratedTests;
+      try {
+        result = await aiService.generateTests(request);
+      } catch (error: any) {
+        if (error.response?.status !== 409 || !window.confirm(`${error.response.data?.message ?? 'The test file already exists.'}\n\nReplace it?`)) {
+          throw error;
+        }
+        result = await aiService.generateTests({ ...request, overwrite: true });
+      }
+
+      const name = result.file.path.split('/').pop() ?? result.file.path;
+      dispatch(editorSlice.actions.openTab({
+        file: { id: result.file.id, name, path: result.file.path, type: 'file' },
+        content: `${result.tests}\n`
+      }));
+      if (result.conversationId) {
+        dispatch(fetchConversation(result.conversationId));
+      }
+      dispatch(uiSlice.actions.addNotification({
+        type: result.framework.installed ? 'success' : 'warning',
+        title: `Tests written to ${result.file.path}`,
+        message: result.framework.installed
+          ? `Run them with ${result.framework.command}`
+          : `Add ${result.framework.name} to the project's dependencies to run them`,
+        duration: 5000
+      }));
+    } catch (error: any) {
+      if (error.response?.status === 409) return;
+      dispatch(uiSlice.actions.addNotification({
+        type: 'error',
+        title: 'Test generation failed',
+        message: error.response?.data?.message || 'The tests could not be generated.',
+        duration: 5000
+      }));
+    }
   };
 
   const explainCode = async () => {
@@ -425,8 +471,39 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({ visible, onClose
   };
 
   const smartRefactor = async (query: string) => {
-    // Smart refactoring based on query
-    console.log(`Smart refactoring for: ${query}`);
+    if (!activeTab || !projectId) return;
+
+    const selection = editorInstance?.getSelection();
+    try {
+      const proposal = await aiService.proposeEdits({
+        projectId,
+        instruction: query,
+        files: [{
+          path: activeTab.filePath,
+          ...(selection && !selection.isEmpty()
+            ? { selection: { startLine: selection.startLineNumber, endLine: selection.endLineNumber } }
+            : {})
+        }],
+        preserveBehavior: true
+      });
+      if (proposal.files.length === 0) {
+        dispatch(uiSlice.actions.addNotification({
+          type: 'info',
+          title: 'AI refactor',
+          message: proposal.summary || 'No changes were proposed.',
+          duration: 4000
+        }));
+        return;
+      }
+      dispatch(editorSlice.actions.openPatchReview(proposal));
+    } catch (error: any) {
+      dispatch(uiSlice.actions.addNotification({
+        type: 'error',
+        title: 'AI refactor failed',
+        message: error.response?.data?.message || 'No edits could be proposed.',
+        duration: 5000
+      }));
+    }
   };
 
   const smartExplain = async (query: string) => {
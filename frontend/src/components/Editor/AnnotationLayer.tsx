@@ -0,0 +1,316 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import * as monaco from 'monaco-editor';
+import styled from '@emotion/styled';
+import type { FileAnnotation } from '@shared/types';
+import { useAppSelector } from '@/hooks/redux';
+import { filesService } from '@/services/files';
+
+type AnnotationType = FileAnnotation['type'];
+
+interface AnnotationThread {
+  root: FileAnnotation;
+  replies: FileAnnotation[];
+}
+
+interface ComposerState {
+  line: number;
+  parentId?: string;
+}
+
+interface AnnotationLayerProps {
+  editor: monaco.editor.IStandaloneCodeEditor | null;
+  fileId: string | undefined;
+}
+
+const ANNOTATION_TYPES: AnnotationType[] = ['comment', 'todo', 'error', 'warning', 'info'];
+
+const ICONS: Record<AnnotationType, string> = {
+  comment: '💬',
+  todo: '☐',
+  error: '⛔',
+  warning: '⚠️',
+  info: 'ℹ️',
+};
+
+const Composer = styled.div<{ theme: string }>`
+  position: absolute;
+  left: 60px;
+  right: 40px;
+  max-width: 520px;
+  z-index: 1050;
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  padding: 8px;
+  font-size: 12px;
+  color: ${props => props.theme === 'dark' ? '#cccccc' : '#333333'};
+  background-color: ${props => props.theme === 'dark' ? '#252526' : '#f3f3f3'};
+  border: 1px solid ${props => props.theme === 'dark' ? '#3e3e42' : '#e5e5e5'};
+  border-radius: 4px;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
+`;
+
+const ComposerRow = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+`;
+
+const ComposerInput = styled.textarea<{ theme: string }>`
+  min-height: 60px;
+  resize: vertical;
+  padding: 6px;
+  font: inherit;
+  color: inherit;
+  background-color: ${props => props.theme === 'dark' ? '#1e1e1e' : '#ffffff'};
+  border: 1px solid ${props => props.theme === 'dark' ? '#3e3e42' : '#cccccc'};
+  border-radius: 3px;
+`;
+
+const ComposerButton = styled.button<{ primary?: boolean }>`
+  padding: 3px 10px;
+  font-size: 12px;
+  border: none;
+  border-radius: 3px;
+  cursor: pointer;
+  color: ${props => props.primary ? '#ffffff' : 'inherit'};
+  background-color: ${props => props.primary ? '#007ACC' : 'transparent'};
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+`;
+
+const ComposerError = styled.span`
+  flex: 1;
+  color: #f48771;
+`;
+
+// Group replies under the annotation that starts their thread
+function groupThreads(annotations: FileAnnotation[]): AnnotationThread[] {
+  const threads = new Map<string, AnnotationThread>();
+  for (const annotation of annotations) {
+    if (!annotation.parentId) {
+      threads.set(annotation.id, { root: annotation, replies: [] });
+    }
+  }
+  for (const annotation of annotations) {
+    if (annotation.parentId) {
+      threads.get(annotation.parentId)?.replies.push(annotation);
+    }
+  }
+  return Array.from(threads.values());
+}
+
+// Annotation text is user content: escape it so it cannot inject links into the trusted hover
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_{}[\]()#+\-.!|<>~]/g, '\\$&').replace(/\n/g, '  \n');
+}
+
+function commandLink(label: string, command: string, threadId: string): string {
+  return `[${label}](command:${command}?${encodeURIComponent(JSON.stringify([threadId]))})`;
+}
+
+function threadHover(thread: AnnotationThread): monaco.IMarkdownString[] {
+  const { root, replies } = thread;
+  const entries = [root, ...replies].map(annotation => {
+    const author = escapeMarkdown(annotation.authorName || annotation.author);
+    const date = new Date(annotation.createdAt).toLocaleString();
+    return { value: `**${author}** · ${date}\n\n${escapeMarkdown(annotation.content)}` };
+  });
+
+  const status = root.resolved ? '_Resolved_ · ' : '';
+  const actions = [
+    commandLink('Reply', 'vaporform.annotations.reply', root.id),
+    root.resolved
+      ? commandLink('Reopen', 'vaporform.annotations.reopen', root.id)
+      : commandLink('Resolve', 'vaporform.annotations.resolve', root.id),
+    commandLink('Delete', 'vaporform.annotations.delete', root.id),
+  ].join(' · ');
+
+  return [
+    { value: `${ICONS[root.type]} **${root.type.toUpperCase()}**` },
+    ...entries,
+    { value: status + actions, isTrusted: true },
+  ];
+}
+
+// Renders a file's annotations as glyph-margin decorations with hover threads, and lets
+// the user add, reply to, resolve, reopen and delete them
+export const AnnotationLayer: React.FC<AnnotationLayerProps> = ({ editor, fileId }) => {
+  const { theme } = useAppSelector(state => state.ui);
+  const token = useAppSelector(state => state.auth.token);
+
+  const [annotations, setAnnotations] = useState<FileAnnotation[]>([]);
+  const [composer, setComposer] = useState<ComposerState | null>(null);
+  const [draft, setDraft] = useState('');
+  const [draftType, setDraftType] = useState<AnnotationType>('comment');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const decorationsRef = useRef<string[]>([]);
+
+  const threads = groupThreads(annotations);
+
+  // Load the active file's annotations
+  useEffect(() => {
+    setAnnotations([]);
+    setComposer(null);
+    if (!fileId || !token) return;
+
+    let cancelled = false;
+    filesService.getAnnotations(fileId, token)
+      .then(result => {
+        if (!cancelled) setAnnotations(result);
+      })
+      .catch(loadError => console.error('Failed to load annotations:', loadError));
+    return () => {
+      cancelled = true;
+    };
+  }, [fileId, token]);
+
+  // One glyph per thread; Monaco keeps them on their lines as the text is edited
+  useEffect(() => {
+    if (!editor) return;
+
+    const decorations: monaco.editor.IModelDeltaDecoration[] = threads.map(thread => ({
+      range: new monaco.Range(thread.root.line, 1, thread.root.line, 1),
+      options: {
+        stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+        glyphMarginClassName: `vf-annotation-glyph vf-annotation-${thread.root.type}${thread.root.resolved ? ' vf-annotation-resolved' : ''}`,
+        glyphMarginHoverMessage: threadHover(thread),
+        overviewRuler: thread.root.resolved ? null : {
+          color: thread.root.type === 'error' ? '#f48771' : thread.root.type === 'warning' ? '#dcdcaa' : '#007ACC',
+          position: monaco.editor.OverviewRulerLane.Left,
+        },
+      },
+    }));
+
+    decorationsRef.current = editor.deltaDecorations(decorationsRef.current, decorations);
+  }, [editor, annotations]);
+
+  useEffect(() => () => {
+    editor?.deltaDecorations(decorationsRef.current, []);
+    decorationsRef.current = [];
+  }, [editor]);
+
+  const openComposer = useCallback((line: number, parentId?: string) => {
+    setComposer(parentId ? { line, parentId } : { line });
+    setDraft('');
+    setError(null);
+  }, []);
+
+  const updateThread = useCallback(async (threadId: string, resolved: boolean) => {
+    if (!fileId || !token) return;
+    try {
+      const updated = await filesService.updateAnnotation(fileId, threadId, { resolved }, token);
+      setAnnotations(current => current.map(annotation => annotation.id === updated.id ? updated : annotation));
+    } catch (updateError) {
+      console.error('Failed to update annotation:', updateError);
+    }
+  }, [fileId, token]);
+
+  const deleteThread = useCallback(async (threadId: string) => {
+    if (!fileId || !token) return;
+    try {
+      await filesService.deleteAnnotation(fileId, threadId, token);
+      setAnnotations(current => current.filter(annotation => annotation.id !== threadId && annotation.parentId !== threadId));
+    } catch (deleteError) {
+      console.error('Failed to delete annotation:', deleteError);
+    }
+  }, [fileId, token]);
+
+  // Commands behind the hover's action links, plus the context menu entry for new annotations
+  useEffect(() => {
+    if (!editor || !fileId) return;
+
+    const lineOf = (threadId: string) => annotations.find(annotation => annotation.id === threadId)?.line ?? 1;
+    const disposables = [
+      monaco.editor.addCommand({ id: 'vaporform.annotations.reply', run: (_accessor, threadId: string) => openComposer(lineOf(threadId), threadId) }),
+      monaco.editor.addCommand({ id: 'vaporform.annotations.resolve', run: (_accessor, threadId: string) => updateThread(threadId, true) }),
+      monaco.editor.addCommand({ id: 'vaporform.annotations.reopen', run: (_accessor, threadId: string) => updateThread(threadId, false) }),
+      monaco.editor.addCommand({ id: 'vaporform.annotations.delete', run: (_accessor, threadId: string) => deleteThread(threadId) }),
+      editor.addAction({
+        id: 'vaporform.annotations.add',
+        label: 'Add Annotation',
+        contextMenuGroupId: 'navigation',
+        keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Alt | monaco.KeyCode.KeyM],
+        run: () => openComposer(editor.getPosition()?.lineNumber ?? 1),
+      }),
+      // Clicking an empty glyph margin starts a new annotation on that line
+      editor.onMouseDown(e => {
+        const line = e.target.position?.lineNumber;
+        if (e.target.type !== monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN || !line) return;
+        if (!groupThreads(annotations).some(thread => thread.root.line === line)) {
+          openComposer(line);
+        }
+      }),
+    ];
+
+    return () => disposables.forEach(disposable => disposable.dispose());
+  }, [editor, fileId, annotations, openComposer, updateThread, deleteThread]);
+
+  const submit = async () => {
+    if (!composer || !fileId || !token || !draft.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const created = await filesService.createAnnotation(fileId, {
+        line: composer.line,
+        type: composer.parentId ? 'comment' : draftType,
+        content: draft,
+        ...(composer.parentId ? { parentId: composer.parentId } : {}),
+      }, token);
+      setAnnotations(current => [...current, created]);
+      setComposer(null);
+    } catch (saveError: any) {
+      setError(saveError.response?.data?.message || 'Failed to save annotation');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!composer || !editor) {
+    return null;
+  }
+
+  const top = Math.max(0, editor.getTopForLineNumber(composer.line + 1) - editor.getScrollTop());
+
+  return (
+    <Composer theme={theme} style={{ top }}>
+      <ComposerRow>
+        {composer.parentId ? (
+          <span>Reply on line {composer.line}</span>
+        ) : (
+          <>
+            <span>Line {composer.line}</span>
+            <select value={draftType} onChange={e => setDraftType(e.target.value as AnnotationType)}>
+              {ANNOTATION_TYPES.map(type => (
+                <option key={type} value={type}>{ICONS[type]} {type}</option>
+              ))}
+            </select>
+          </>
+        )}
+      </ComposerRow>
+      <ComposerInput
+        theme={theme}
+        autoFocus
+        value={draft}
+        placeholder="Write an annotation… (Ctrl+Enter to save)"
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Escape') setComposer(null);
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) submit();
+        }}
+      />
+      <ComposerRow>
+        {error ? <ComposerError>{error}</ComposerError> : <span style={{ flex: 1 }} />}
+        <ComposerButton onClick={() => setComposer(null)}>Cancel</ComposerButton>
+        <ComposerButton primary disabled={isSaving || !draft.trim()} onClick={submit}>
+          {composer.parentId ? 'Reply' : 'Add'}
+        </ComposerButton>
+      </ComposerRow>
+    </Composer>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef } from 'react';
+import * as monaco from 'monaco-editor';
+import styled from '@emotion/styled';
+import { useAppSelector, useAppDispatch } from '@/hooks/redux';
+import { editorSlice } from '@/store/editor';
+import { CloseIcon } from '@/components/ui/Icons';
+
+const DiffContainer = styled.div<{ theme: string }>`
+  position: absolute;
+  inset: 0;
+  z-index: 1100;
+  display: flex;
+  flex-direction: column;
+  background-color: ${props => props.theme === 'dark' ? '#1e1e1e' : '#ffffff'};
+`;
+
+const DiffHeader = styled.div<{ theme: string }>`
+  height: 35px;
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  padding: 0 12px;
+  font-size: 13px;
+  color: ${props => props.theme === 'dark' ? '#cccccc' : '#333333'};
+  background-color: ${props => props.theme === 'dark' ? '#2d2d30' : '#f3f3f3'};
+  border-bottom: 1px solid ${props => props.theme === 'dark' ? '#3e3e42' : '#e5e5e5'};
+`;
+
+const DiffTitle = styled.div`
+  flex: 1;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const DiffStat = styled.span<{ color: string }>`
+  color: ${props => props.color};
+  font-family: monospace;
+`;
+
+const CloseButton = styled.button<{ theme: string }>`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  width: 20px;
+  height: 20px;
+  border: none;
+  background: none;
+  cursor: pointer;
+  border-radius: 3px;
+  color: ${props => props.theme === 'dark' ? '#969696' : '#6c6c6c'};
+
+  &:hover {
+    background-color: ${props => props.theme === 'dark' ? '#3e3e42' : '#e0e0e0'};
+    color: ${props => props.theme === 'dark' ? '#ffffff' : '#000000'};
+  }
+`;
+
+const DiffEditorHost = styled.div`
+  flex: 1;
+  min-height: 0;
+`;
+
+export const DiffViewer: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const hostRef = useRef<HTMLDivElement>(null);
+  const { theme } = useAppSelector(state => state.ui);
+  const { diffView, theme: editorTheme, fontSize } = useAppSelector(state => state.editor);
+
+  useEffect(() => {
+    if (!hostRef.current || !diffView) return;
+
+    const original = monaco.editor.createModel(diffView.diff.oldFile.content ?? '', diffView.language);
+    const modified = monaco.editor.createModel(diffView.diff.newFile.content ?? '', diffView.language);
+    const diffEditor = monaco.editor.createDiffEditor(hostRef.current, {
+      theme: editorTheme === 'dark' ? 'vs-dark' : 'vs',
+      fontSize,
+      readOnly: true,
+      renderSideBySide: true,
+      automaticLayout: true,
+    });
+    diffEditor.setModel({ original, modified });
+
+    return () => {
+      diffEditor.dispose();
+      original.dispose();
+      modified.dispose();
+    };
+  }, [diffView, editorTheme, fontSize]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        dispatch(editorSlice.actions.closeDiffView());
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [dispatch]);
+
+  if (!diffView) {
+    return null;
+  }
+
+  const stats = diffView.diff.stats;
+
+  return (
+    <DiffContainer theme={theme}>
+      <DiffHeader theme={theme}>
+        <DiffTitle title={diffView.title}>{diffView.title}</DiffTitle>
+        {stats && (
+          <>
+            <DiffStat color="#4ec9b0">+{stats.additions}</DiffStat>
+            <DiffStat color="#f48771">-{stats.deletions}</DiffStat>
+            <DiffStat color="#dcdcaa">~{stats.modifications}</DiffStat>
+          </>
+        )}
+        <CloseButton
+          theme={theme}
+          onClick={() => dispatch(editorSlice.actions.closeDiffView())}
+          title="Close diff (Esc)"
+        >
+          <CloseIcon size={12} />
+        </CloseButton>
+      </DiffHeader>
+      <DiffEditorHost ref={hostRef} />
+    </DiffContainer>
+  );
+};
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import styled from '@emotion/styled';
 import { useAppSelector, useAppDispatch } from '@/hooks/redux';
 import { editorSlice } from '@/store/editor';
+import { filesService } from '@/services/files';
 import { CloseIcon } from '@/components/ui/Icons';
 
 const TabsContainer = styled.div<{ theme: string }>`
@@ -111,6 +112,28 @@ const CloseButton = styled.button<{ theme: string }>`
   }
 `;
 
+const CompareButton = styled.button<{ theme: string }>`
+  height: 20px;
+  padding: 0 6px;
+  margin-right: 4px;
+  border: none;
+  background: none;
+  cursor: pointer;
+  border-radius: 3px;
+  font-size: 11px;
+  color: ${props => props.theme === 'dark' ? '#969696' : '#6c6c6c'};
+
+  &:hover {
+    background-color: ${props => props.theme === 'dark' ? '#3e3e42' : '#e0e0e0'};
+    color: ${props => props.theme === 'dark' ? '#ffffff' : '#000000'};
+  }
+
+  &:disabled {
+    cursor: default;
+    opacity: 0.5;
+  }
+`;
+
 const getFileIcon = (fileName: string): string => {
   const extension = fileName.split('.').pop()?.toLowerCase();
   
@@ -160,9 +183,11 @@ export const EditorTabs: React.FC = () => {
   const dispatch = useAppDispatch();
   const { theme } = useAppSelector(state => state.ui);
   const { tabs, activeTabId } = useAppSelector(state => state.editor);
+  const { token } = useAppSelector(state => state.auth);
   
   const [draggedTab, setDraggedTab] = useState<string | null>(null);
   const [dragOverTab, setDragOverTab] = useState<string | null>(null);
+  const [comparingTab, setComparingTab] = useState<string | null>(null);
 
   const handleTabClick = (tabId: string) => {
     dispatch(editorSlice.actions.switchTab(tabId));
@@ -180,6 +205,29 @@ export const EditorTabs: React.FC = () => {
     }
   };
 
+  // Diff the saved version of the file against what is currently in the editor
+  const handleCompare = async (e: React.MouseEvent, tab: typeof tabs[number]) => {
+    e.stopPropagation();
+    if (!tab.fileId || !token) return;
+
+    setComparingTab(tab.id);
+    try {
+      const { diff } = await filesService.compareFiles(
+        { fileId: tab.fileId, workingContent: tab.content },
+        token
+      );
+      dispatch(editorSlice.actions.openDiffView({
+        title: `${tab.fileName} (saved ↔ working)`,
+        language: tab.language,
+        diff,
+      }));
+    } catch (error) {
+      console.error('Failed to compare file:', error);
+    } finally {
+      setComparingTab(null);
+    }
+  };
+
   // Drag and drop functionality for tab reordering
   const handleDragStart = (e: React.DragEvent, tabId: string) => {
     setDraggedTab(tabId);
@@ -244,6 +292,17 @@ export const EditorTabs: React.FC = () => {
             {tab.fileName}
           </TabLabel>
           
+          {tab.isActive && tab.fileId && (
+            <CompareButton
+              theme={theme}
+              onClick={(e) => handleCompare(e, tab)}
+              disabled={comparingTab === tab.id}
+              title="Compare with saved version"
+            >
+              Diff
+            </CompareButton>
+          )}
+          
           {tab.isDirty ? (
             <DirtyIndicator theme={theme} />
           ) : (
@@ -3,9 +3,13 @@ import * as monaco from 'monaco-editor';
 import styled from '@emotion/styled';
 import { useAppSelector, useAppDispatch } from '@/hooks/redux';
 import { editorSlice } from '@/store/editor';
+import { uiSlice } from '@/store/ui';
 import { emitCursorUpdate, emitSelectionUpdate, emitOperation } from '@/store/middleware/websocket';
-import { aiService } from '@/services/ai';
-import { debounce } from 'lodash';
+import { aiService, CodeIssue, CodeReview } from '@/services/ai';
+import { DiffViewer } from './DiffViewer';
+import { PatchReview } from './PatchReview';
+import { registerInlineCompletions } from './inlineCompletions';
+import { AnnotationLayer } from './AnnotationLayer';
 
 const EditorContainer = styled.div<{ theme: string }>`
   height: 100%;
@@ -35,21 +39,20 @@ const AIIndicator = styled.div<{ active: boolean }>`
   }
 `;
 
-const CodeLensContainer = styled.div`
-  position: absolute;
-  background: rgba(0, 122, 204, 0.1);
-  border: 1px solid #007ACC;
-  border-radius: 4px;
-  padding: 4px 8px;
-  font-size: 12px;
-  color: #007ACC;
-  cursor: pointer;
-  z-index: 100;
-  
-  &:hover {
-    background: rgba(0, 122, 204, 0.2);
-  }
-`;
+// Marker owner and source for AI review issues
+const REVIEW_OWNER = 'ai-review';
+const REVIEW_SOURCE = 'AI review';
+
+// A reviewed issue and the decoration that tracks its lines through later edits
+interface ReviewEntry {
+  issue: CodeIssue;
+  decorationId: string;
+}
+
+const markerSeverity = (severity: CodeIssue['severity']): monaco.MarkerSeverity =>
+  severity === 'critical' || severity === 'high' ? monaco.MarkerSeverity.Error :
+  severity === 'medium' ? monaco.MarkerSeverity.Warning :
+  monaco.MarkerSeverity.Info;
 
 export const MonacoEditor: React.FC = () => {
   const dispatch = useAppDispatch();
@@ -58,12 +61,19 @@ export const MonacoEditor: React.FC = () => {
   
   // AI-related state
   const [aiActive, setAiActive] = useState(false);
-  const [aiSuggestions, setAiSuggestions] = useState<any[]>([]);
-  const [codeLenses, setCodeLenses] = useState<any[]>([]);
-  const [lastAnalysis, setLastAnalysis] = useState<any>(null);
-  const [analysisDecorations, setAnalysisDecorations] = useState<string[]>([]);
-  
+  // Issues from the last AI review of the open file
+  const reviewRef = useRef<ReviewEntry[]>([]);
+
   const { theme } = useAppSelector(state => state.ui);
+  const projectId = useAppSelector(state => state.projects.currentProject?.id);
+  // Read from editor actions, which are registered once per tab
+  const projectIdRef = useRef(projectId);
+  projectIdRef.current = projectId;
+  const autoSuggestions = useAppSelector(state => state.settings.ai.autoSuggestions);
+  const inlineCompletionLanguages = useAppSelector(state => state.settings.editor.inlineCompletionLanguages);
+  // Read by the inline completion provider, which is registered once with the editor
+  const inlineSettingsRef = useRef({ autoSuggestions, inlineCompletionLanguages });
+  inlineSettingsRef.current = { autoSuggestions, inlineCompletionLanguages };
   const { 
     tabs, 
     activeTabId, 
@@ -78,188 +88,117 @@ export const MonacoEditor: React.FC = () => {
   } = useAppSelector(state => state.editor);
 
   const activeTab = tabs.find(tab => tab.id === activeTabId);
+  const filePathRef = useRef(activeTab?.filePath);
+  filePathRef.current = activeTab?.filePath;
 
-  // AI Analysis Functions
-  const analyzeCodeRealTime = useCallback(async (code: string, filePath: string, language: string) => {
-    if (!code.trim()) return;
-    
-    setAiActive(true);
-    try {
-      const response = await fetch('/api/ai/analyze-code-realtime', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('vaporform_token')}`
-        },
-        body: JSON.stringify({
-          code,
-          filePath,
-          language,
-          analysisType: 'all',
-          realTime: true,
-          includeAutoFix: true
-        })
-      });
-      
-      if (response.ok) {
-        const analysis = await response.json();
-        setLastAnalysis(analysis);
-        updateEditorDecorations(analysis);
-        updateCodeLenses(analysis);
+  // AI Review Functions
+
+  // Show the review issues as markers; issues keep following their lines as the file is edited
+  const syncReviewMarkers = useCallback(() => {
+    const model = editorRef.current?.getModel();
+    if (!model) return;
+
+    const markers = reviewRef.current.flatMap(({ issue, decorationId }) => {
+      const range = model.getDecorationRange(decorationId);
+      if (!range) return [];
+
+      // Columns only still apply while the issue's lines have not moved
+      const startLine = range.startLineNumber;
+      const endLine = range.endLineNumber;
+      const startColumn = issue.column && startLine === issue.line
+        ? Math.min(issue.column, model.getLineMaxColumn(startLine))
+        : model.getLineFirstNonWhitespaceColumn(startLine) || 1;
+      let endColumn = issue.endColumn && endLine === issue.endLine
+        ? Math.min(issue.endColumn, model.getLineMaxColumn(endLine))
+        : model.getLineMaxColumn(endLine);
+      if (startLine === endLine && endColumn <= startColumn) {
+        endColumn = model.getLineMaxColumn(endLine);
       }
-    } catch (error) {
-      console.error('AI analysis failed:', error);
-    } finally {
-      setAiActive(false);
-    }
+
+      const marker: monaco.editor.IMarkerData = {
+        severity: markerSeverity(issue.severity),
+        message: issue.suggestion ? `${issue.message}\n${issue.suggestion}` : issue.message,
+        source: REVIEW_SOURCE,
+        code: issue.rule ?? issue.type,
+        startLineNumber: startLine,
+        startColumn,
+        endLineNumber: endLine,
+        endColumn
+      };
+      return [marker];
+    });
+    monaco.editor.setModelMarkers(model, REVIEW_OWNER, markers);
   }, []);
 
-  const getSmartSuggestions = useCallback(async (
-    code: string, 
-    filePath: string, 
-    language: string, 
-    cursorPosition: { line: number; column: number }
-  ) => {
+  const showReview = useCallback((review: CodeReview) => {
+    const model = editorRef.current?.getModel();
+    if (!model) return;
+
+    // Issues without a line are about the whole file and are shown on the first line
+    const lineCount = model.getLineCount();
+    const decorationIds = model.deltaDecorations(
+      reviewRef.current.map(entry => entry.decorationId),
+      review.issues.map(issue => {
+        const startLine = Math.min(issue.line ?? 1, lineCount);
+        const endLine = Math.min(Math.max(issue.endLine ?? startLine, startLine), lineCount);
+        return {
+          range: new monaco.Range(startLine, 1, endLine, model.getLineMaxColumn(endLine)),
+          options: { stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges }
+        };
+      })
+    );
+    reviewRef.current = review.issues.flatMap((issue, index) => {
+      const decorationId = decorationIds[index];
+      return decorationId ? [{ issue, decorationId }] : [];
+    });
+    syncReviewMarkers();
+  }, [syncReviewMarkers]);
+
+  const dismissIssue = useCallback((decorationId: string) => {
+    editorRef.current?.getModel()?.deltaDecorations([decorationId], []);
+    reviewRef.current = reviewRef.current.filter(entry => entry.decorationId !== decorationId);
+    syncReviewMarkers();
+  }, [syncReviewMarkers]);
+
+  const clearReview = useCallback(() => {
+    const model = editorRef.current?.getModel();
+    if (!model) return;
+    model.deltaDecorations(reviewRef.current.map(entry => entry.decorationId), []);
+    reviewRef.current = [];
+    monaco.editor.setModelMarkers(model, REVIEW_OWNER, []);
+  }, []);
+
+  const reviewFile = useCallback(async (code: string, filePath: string, language: string) => {
+    if (!code.trim()) return;
+
     setAiActive(true);
     try {
-      const response = await fetch('/api/ai/smart-suggestions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('vaporform_token')}`
-        },
-        body: JSON.stringify({
-          code,
-          filePath,
-          language,
-          cursorPosition,
-          suggestionType: 'completion'
-        })
+      const review = await aiService.reviewCode({
+        code,
+        language,
+        filePath,
+        severity: 'low',
+        ...(projectIdRef.current ? { projectId: projectIdRef.current } : {})
       });
-      
-      if (response.ok) {
-        const suggestions = await response.json();
-        setAiSuggestions(suggestions.suggestions);
-        return suggestions.suggestions;
-      }
+      showReview(review);
+      dispatch(uiSlice.actions.addNotification({
+        type: review.issues.length > 0 ? 'warning' : 'success',
+        title: `AI review: ${review.score}/100`,
+        message: review.summary,
+        duration: 5000
+      }));
     } catch (error) {
-      console.error('Smart suggestions failed:', error);
+      console.error('AI review failed:', error);
+      dispatch(uiSlice.actions.addNotification({
+        type: 'error',
+        title: 'AI review failed',
+        message: 'The file could not be reviewed. Please try again.',
+        duration: 5000
+      }));
     } finally {
       setAiActive(false);
     }
-    return [];
-  }, []);
-
-  const updateEditorDecorations = useCallback((analysis: any) => {
-    if (!editorRef.current) return;
-    
-    const decorations: monaco.editor.IModelDeltaDecoration[] = [];
-    
-    if (analysis.issues) {
-      analysis.issues.forEach((issue: any) => {
-        if (issue.line) {
-          const severity = issue.severity === 'critical' ? monaco.MarkerSeverity.Error :
-                          issue.severity === 'high' ? monaco.MarkerSeverity.Error :
-                          issue.severity === 'medium' ? monaco.MarkerSeverity.Warning :
-                          monaco.MarkerSeverity.Info;
-          
-          decorations.push({
-            range: new monaco.Range(
-              issue.line, 
-              issue.column || 1, 
-              issue.endLine || issue.line, 
-              issue.endColumn || 100
-            ),
-            options: {
-              isWholeLine: !issue.column,
-              className: `ai-issue-${issue.severity}`,
-              hoverMessage: { value: issue.message },
-              minimap: {
-                color: severity === monaco.MarkerSeverity.Error ? '#ff0000' : 
-                       severity === monaco.MarkerSeverity.Warning ? '#ffaa00' : '#0099ff',
-                position: monaco.editor.MinimapPosition.Inline
-              },
-              overviewRuler: {
-                color: severity === monaco.MarkerSeverity.Error ? '#ff0000' : 
-                       severity === monaco.MarkerSeverity.Warning ? '#ffaa00' : '#0099ff',
-                position: monaco.editor.OverviewRulerLane.Right
-              }
-            }
-          });
-        }
-      });
-    }
-    
-    if (analysis.suggestions) {
-      analysis.suggestions.forEach((suggestion: any) => {
-        if (suggestion.range) {
-          decorations.push({
-            range: new monaco.Range(
-              suggestion.range.start.line,
-              suggestion.range.start.column,
-              suggestion.range.end.line,
-              suggestion.range.end.column
-            ),
-            options: {
-              className: 'ai-suggestion',
-              hoverMessage: { value: `💡 ${suggestion.description}` },
-              linesDecorationsClassName: 'ai-suggestion-glyph'
-            }
-          });
-        }
-      });
-    }
-    
-    const newDecorations = editorRef.current.deltaDecorations(analysisDecorations, decorations);
-    setAnalysisDecorations(newDecorations);
-  }, [analysisDecorations]);
-
-  const updateCodeLenses = useCallback((analysis: any) => {
-    if (!analysis.suggestions) return;
-    
-    const lenses = analysis.suggestions
-      .filter((suggestion: any) => suggestion.type === 'refactor' || suggestion.type === 'optimize')
-      .map((suggestion: any, index: number) => ({
-        id: `lens_${index}`,
-        title: suggestion.title,
-        description: suggestion.description,
-        line: suggestion.range?.start.line || 1,
-        action: () => applySuggestion(suggestion)
-      }));
-    
-    setCodeLenses(lenses);
-  }, []);
-
-  const applySuggestion = useCallback(async (suggestion: any) => {
-    if (!editorRef.current || !suggestion.code) return;
-    
-    const model = editorRef.current.getModel();
-    if (!model) return;
-    
-    if (suggestion.range) {
-      const range = new monaco.Range(
-        suggestion.range.start.line,
-        suggestion.range.start.column,
-        suggestion.range.end.line,
-        suggestion.range.end.column
-      );
-      
-      const edit = {
-        range,
-        text: suggestion.code
-      };
-      
-      model.pushEditOperations([], [edit], () => null);
-    }
-  }, []);
-
-  // Debounced real-time analysis
-  const debouncedAnalysis = useCallback(
-    debounce((code: string, filePath: string, language: string) => {
-      analyzeCodeRealTime(code, filePath, language);
-    }, 1500),
-    [analyzeCodeRealTime]
-  );
+  }, [dispatch, showReview]);
 
   // Initialize Monaco Editor
   useEffect(() => {
@@ -285,6 +224,7 @@ export const MonacoEditor: React.FC = () => {
       selectionHighlight: true,
       occurrencesHighlight: true,
       codeLens: true,
+      inlineSuggest: { enabled: true },
       folding: true,
       foldingHighlight: true,
       showFoldingControls: 'mouseover',
@@ -307,7 +247,64 @@ export const MonacoEditor: React.FC = () => {
     editorRef.current = editor;
     dispatch(editorSlice.actions.setEditorInstance(editor));
 
-    // Content change handler with AI analysis
+    // Inline AI completions, per language as set in the editor settings
+    const inlineCompletionsDisposable = registerInlineCompletions({
+      isEnabled: model => {
+        const { autoSuggestions, inlineCompletionLanguages } = inlineSettingsRef.current;
+        return model === editor.getModel() && autoSuggestions &&
+          inlineCompletionLanguages?.[model.getLanguageId()] !== false;
+      },
+      filePath: () => filePathRef.current
+    });
+
+    // Quick fixes for AI review issues: apply the suggested fix, or dismiss the issue
+    const dismissCommand = editor.addCommand(0, (_accessor, decorationId: string) => dismissIssue(decorationId));
+    const codeActionDisposable = monaco.languages.registerCodeActionProvider('*', {
+      provideCodeActions: (model, _range, context) => {
+        const actions: monaco.languages.CodeAction[] = [];
+        if (model !== editor.getModel()) return { actions, dispose: () => {} };
+
+        for (const marker of context.markers) {
+          if (marker.source !== REVIEW_SOURCE) continue;
+          const entry = reviewRef.current.find(({ issue, decorationId }) =>
+            model.getDecorationRange(decorationId)?.startLineNumber === marker.startLineNumber &&
+            marker.message.startsWith(issue.message)
+          );
+          const range = entry && model.getDecorationRange(entry.decorationId);
+          if (!entry || !range) continue;
+
+          const dismiss = dismissCommand
+            ? { id: dismissCommand, title: 'Dismiss', arguments: [entry.decorationId] }
+            : undefined;
+          const { fix } = entry.issue;
+          if (fix) {
+            actions.push({
+              title: `AI fix: ${fix.description}`,
+              kind: 'quickfix',
+              diagnostics: [marker],
+              isPreferred: true,
+              edit: {
+                edits: [{
+                  resource: model.uri,
+                  versionId: model.getVersionId(),
+                  textEdit: {
+                    range: new monaco.Range(range.startLineNumber, 1, range.endLineNumber, model.getLineMaxColumn(range.endLineNumber)),
+                    text: fix.replacement
+                  }
+                }]
+              },
+              ...(dismiss ? { command: dismiss } : {})
+            });
+          }
+          if (dismiss) {
+            actions.push({ title: 'Dismiss AI review issue', kind: 'quickfix', diagnostics: [marker], command: dismiss });
+          }
+        }
+        return { actions, dispose: () => {} };
+      }
+    }, { providedCodeActionKinds: ['quickfix'] });
+
+    // Content change handler
     const contentChangeDisposable = editor.onDidChangeModelContent((e) => {
       if (!activeTabId) return;
       
@@ -319,25 +316,27 @@ export const MonacoEditor: React.FC = () => {
       }));
 
       // Emit operational transform for collaboration
-      emitOperation({
-        operation: {
-          type: 'content-change',
-          changes: e.changes.map(change => ({
-            range: change.range,
-            text: change.text,
-            rangeLength: change.rangeLength
-          }))
-        },
-        file: activeTab?.filePath || ''
-      });
+      if (activeTab?.fileId) {
+        emitOperation({
+          operation: {
+            type: 'content-change',
+            changes: e.changes.map(change => ({
+              range: change.range,
+              text: change.text,
+              rangeLength: change.rangeLength
+            }))
+          },
+          fileId: activeTab.fileId
+        });
+      }
 
-      // Trigger real-time AI analysis
-      if (activeTab?.filePath && activeTab?.language && content.trim()) {
-        debouncedAnalysis(content, activeTab.filePath, activeTab.language);
+      // Move review markers along with the lines they point at
+      if (reviewRef.current.length > 0) {
+        syncReviewMarkers();
       }
     });
 
-    // Cursor position change handler with AI suggestions
+    // Cursor position change handler
     const cursorChangeDisposable = editor.onDidChangeCursorPosition((e) => {
       if (!activeTabId || !activeTab) return;
       
@@ -350,40 +349,28 @@ export const MonacoEditor: React.FC = () => {
       }));
 
       // Emit cursor update for collaboration
-      emitCursorUpdate({
-        file: activeTab.filePath,
-        cursor: {
-          line: e.position.lineNumber,
-          column: e.position.column
-        }
-      });
-
-      // Trigger smart suggestions on cursor movement
-      const content = editor.getValue();
-      if (content.trim() && activeTab.language) {
-        // Debounced to avoid too many requests
-        setTimeout(() => {
-          getSmartSuggestions(
-            content, 
-            activeTab.filePath, 
-            activeTab.language, 
-            { line: e.position.lineNumber, column: e.position.column }
-          );
-        }, 500);
+      if (activeTab.fileId) {
+        emitCursorUpdate({
+          fileId: activeTab.fileId,
+          cursor: {
+            line: e.position.lineNumber,
+            column: e.position.column
+          }
+        });
       }
     });
 
     // Selection change handler
     const selectionChangeDisposable = editor.onDidChangeCursorSelection((e) => {
-      if (!activeTab) return;
+      if (!activeTab?.fileId) return;
       
       // Emit selection update for collaboration
       emitSelectionUpdate({
-        file: activeTab.filePath,
+        fileId: activeTab.fileId,
         selection: {
-          startLineNumber: e.selection.startLineNumber,
+          startLine: e.selection.startLineNumber,
           startColumn: e.selection.startColumn,
-          endLineNumber: e.selection.endLineNumber,
+          endLine: e.selection.endLineNumber,
           endColumn: e.selection.endColumn
         }
       });
@@ -416,6 +403,8 @@ export const MonacoEditor: React.FC = () => {
 
     // Cleanup
     return () => {
+      codeActionDisposable.dispose();
+      inlineCompletionsDisposable.dispose();
       contentChangeDisposable.dispose();
       cursorChangeDisposable.dispose();
       selectionChangeDisposable.dispose();
@@ -433,6 +422,8 @@ export const MonacoEditor: React.FC = () => {
 
     const currentValue = editorRef.current.getValue();
     if (currentValue !== activeTab.content) {
+      // A review of the previous file no longer applies
+      clearReview();
       editorRef.current.setValue(activeTab.content);
       
       // Restore cursor and scroll position
@@ -515,37 +506,26 @@ export const MonacoEditor: React.FC = () => {
       },
     });
 
-    // AI Code Analysis shortcut (Ctrl+Alt+A)
+    // AI Code Review shortcut (Ctrl+Alt+A)
     const aiAnalysisAction = editor.addAction({
       id: 'ai-analyze',
-      label: 'AI Code Analysis',
+      label: 'AI Code Review',
       keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Alt | monaco.KeyCode.KeyA],
       run: async () => {
         if (activeTab?.filePath && activeTab?.language) {
           const content = editor.getValue();
-          await analyzeCodeRealTime(content, activeTab.filePath, activeTab.language);
+          await reviewFile(content, activeTab.filePath, activeTab.language);
         }
       },
     });
 
-    // AI Suggestions shortcut (Ctrl+Space)
+    // AI Suggestions shortcut (Ctrl+Space): ask for an inline completion right away
     const aiSuggestionsAction = editor.addAction({
       id: 'ai-suggestions',
-      label: 'AI Smart Suggestions',
+      label: 'AI Inline Suggestion',
       keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.Space],
-      run: async () => {
-        if (activeTab?.filePath && activeTab?.language) {
-          const position = editor.getPosition();
-          if (position) {
-            const content = editor.getValue();
-            await getSmartSuggestions(
-              content, 
-              activeTab.filePath, 
-              activeTab.language,
-              { line: position.lineNumber, column: position.column }
-            );
-          }
-        }
+      run: () => {
+        editor.trigger('ai-suggestions', 'editor.action.inlineSuggest.trigger', {});
       },
     });
 
@@ -556,43 +536,43 @@ export const MonacoEditor: React.FC = () => {
       keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Alt | monaco.KeyCode.KeyR],
       run: async () => {
         const selection = editor.getSelection();
-        if (selection && !selection.isEmpty() && activeTab?.language) {
-          const selectedText = editor.getModel()?.getValueInRange(selection);
-          if (selectedText) {
-            try {
-              setAiActive(true);
-              const response = await fetch('/api/ai/refactor', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${localStorage.getItem('vaporform_token')}`
-                },
-                body: JSON.stringify({
-                  code: selectedText,
-                  language: activeTab.language,
-                  refactoringGoals: ['readability', 'performance'],
-                  preserveBehavior: true,
-                  modernizeCode: true
-                })
-              });
-              
-              if (response.ok) {
-                const refactorResult = await response.json();
-                // Replace selected text with refactored code
-                const refactoredCode = extractCodeFromResponse(refactorResult.result);
-                if (refactoredCode) {
-                  editor.getModel()?.pushEditOperations([], [{
-                    range: selection,
-                    text: refactoredCode
-                  }], () => null);
-                }
-              }
-            } catch (error) {
-              console.error('AI refactoring failed:', error);
-            } finally {
-              setAiActive(false);
-            }
+        const projectId = projectIdRef.current;
+        if (!selection || selection.isEmpty() || !activeTab?.filePath || !projectId) return;
+
+        try {
+          setAiActive(true);
+          const proposal = await aiService.proposeEdits({
+            projectId,
+            instruction: 'Refactor the selected code for readability and performance.',
+            files: [{
+              path: activeTab.filePath,
+              selection: { startLine: selection.startLineNumber, endLine: selection.endLineNumber }
+            }],
+            goals: ['readability', 'performance'],
+            preserveBehavior: true,
+            modernizeCode: true
+          });
+          if (proposal.files.length === 0) {
+            dispatch(uiSlice.actions.addNotification({
+              type: 'info',
+              title: 'AI refactor',
+              message: proposal.summary || 'No changes were proposed.',
+              duration: 4000
+            }));
+            return;
           }
+          // Changes are only written once the hunks are accepted in the patch review
+          dispatch(editorSlice.actions.openPatchReview(proposal));
+        } catch (error) {
+          console.error('AI refactoring failed:', error);
+          dispatch(uiSlice.actions.addNotification({
+            type: 'error',
+            title: 'AI refactor failed',
+            message: 'No edits could be proposed. Please try again.',
+            duration: 5000
+          }));
+        } finally {
+          setAiActive(false);
         }
       },
     });
@@ -607,14 +587,6 @@ export const MonacoEditor: React.FC = () => {
     };
   }, [activeTabId, dispatch]);
 
-  // Helper function to extract code from AI response
-  const extractCodeFromResponse = (response: string): string | null => {
-    // Look for code blocks in the response
-    const codeBlockRegex = /```[\w]*\n([\s\S]*?)\n```/;
-    const match = response.match(codeBlockRegex);
-    return match ? match[1].trim() : null;
-  };
-
   if (!activeTab) {
     return null;
   }
@@ -624,19 +596,9 @@ export const MonacoEditor: React.FC = () => {
       <AIIndicator active={aiActive}>
         {aiActive ? 'AI Analyzing...' : 'AI Ready'}
       </AIIndicator>
-      {codeLenses.map((lens) => (
-        <CodeLensContainer
-          key={lens.id}
-          style={{
-            top: `${(lens.line - 1) * 18 + 10}px`,
-            left: '10px'
-          }}
-          onClick={lens.action}
-          title={lens.description}
-        >
-          {lens.title}
-        </CodeLensContainer>
-      ))}
+      <AnnotationLayer editor={editorInstance} fileId={activeTab.fileId} />
+      <DiffViewer />
+      <PatchReview />
     </EditorContainer>
   );
 };
\ No newline at end of file
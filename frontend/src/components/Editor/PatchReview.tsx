@@ -0,0 +1,333 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import styled from '@emotion/styled';
+import { useAppSelector, useAppDispatch } from '@/hooks/redux';
+import { editorSlice } from '@/store/editor';
+import { uiSlice } from '@/store/ui';
+import { aiService, ApplyEditsRequest, FilePatch, PatchConflict, PatchHunk } from '@/services/ai';
+import { CloseIcon } from '@/components/ui/Icons';
+
+const ReviewContainer = styled.div<{ theme: string }>`
+  position: absolute;
+  inset: 0;
+  z-index: 1100;
+  display: flex;
+  flex-direction: column;
+  background-color: ${props => props.theme === 'dark' ? '#1e1e1e' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#cccccc' : '#333333'};
+`;
+
+const ReviewHeader = styled.div<{ theme: string }>`
+  height: 35px;
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  padding: 0 12px;
+  font-size: 13px;
+  background-color: ${props => props.theme === 'dark' ? '#2d2d30' : '#f3f3f3'};
+  border-bottom: 1px solid ${props => props.theme === 'dark' ? '#3e3e42' : '#e5e5e5'};
+`;
+
+const ReviewTitle = styled.div`
+  flex: 1;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const ReviewBody = styled.div`
+  flex: 1;
+  min-height: 0;
+  overflow: auto;
+  padding: 12px;
+`;
+
+const Summary = styled.div`
+  font-size: 13px;
+  margin-bottom: 12px;
+  white-space: pre-wrap;
+`;
+
+const FileSection = styled.div<{ theme: string }>`
+  margin-bottom: 16px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#3e3e42' : '#e5e5e5'};
+  border-radius: 4px;
+  overflow: hidden;
+`;
+
+const FileHeader = styled.div<{ theme: string }>`
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  padding: 6px 10px;
+  font-size: 12px;
+  background-color: ${props => props.theme === 'dark' ? '#252526' : '#f8f8f8'};
+`;
+
+const FilePath = styled.span`
+  flex: 1;
+  font-family: monospace;
+`;
+
+const Stat = styled.span<{ color: string }>`
+  color: ${props => props.color};
+  font-family: monospace;
+`;
+
+const HunkHeader = styled.div<{ theme: string }>`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 4px 10px;
+  font-size: 12px;
+  font-family: monospace;
+  color: ${props => props.theme === 'dark' ? '#569cd6' : '#0451a5'};
+  border-top: 1px solid ${props => props.theme === 'dark' ? '#3e3e42' : '#e5e5e5'};
+`;
+
+const HunkLines = styled.pre<{ rejected: boolean }>`
+  margin: 0;
+  padding: 4px 0;
+  font-size: 12px;
+  line-height: 18px;
+  overflow-x: auto;
+  opacity: ${props => props.rejected ? 0.4 : 1};
+`;
+
+const Line = styled.div<{ kind: 'context' | 'added' | 'removed' }>`
+  padding: 0 10px;
+  white-space: pre;
+  background-color: ${props =>
+    props.kind === 'added' ? 'rgba(78, 201, 176, 0.15)' :
+    props.kind === 'removed' ? 'rgba(244, 135, 113, 0.15)' :
+    'transparent'};
+`;
+
+const ConflictNote = styled.div`
+  padding: 4px 10px;
+  font-size: 12px;
+  color: #f48771;
+`;
+
+const Button = styled.button<{ theme: string; primary?: boolean; active?: boolean }>`
+  padding: 2px 10px;
+  font-size: 12px;
+  border-radius: 3px;
+  cursor: pointer;
+  border: 1px solid ${props => props.primary || props.active ? '#007acc' : props.theme === 'dark' ? '#3e3e42' : '#cecece'};
+  background: ${props => props.primary ? '#007acc' : 'none'};
+  color: ${props => props.primary ? '#ffffff' : props.active ? '#3794ff' : 'inherit'};
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: default;
+  }
+`;
+
+const CloseButton = styled.button<{ theme: string }>`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  width: 20px;
+  height: 20px;
+  border: none;
+  background: none;
+  cursor: pointer;
+  border-radius: 3px;
+  color: ${props => props.theme === 'dark' ? '#969696' : '#6c6c6c'};
+
+  &:hover {
+    background-color: ${props => props.theme === 'dark' ? '#3e3e42' : '#e0e0e0'};
+    color: ${props => props.theme === 'dark' ? '#ffffff' : '#000000'};
+  }
+`;
+
+// Created and deleted files are a single change; modified files are reviewed hunk by hunk
+const changeIds = (file: FilePatch): string[] =>
+  file.action === 'modify' ? file.hunks.map(hunk => `${file.path}#${hunk.id}`) : [file.path];
+
+const HunkView: React.FC<{ hunk: PatchHunk; rejected: boolean }> = ({ hunk, rejected }) => (
+  <HunkLines rejected={rejected}>
+    {hunk.before.map((line, i) => <Line key={`b${i}`} kind="context">{'  '}{line}</Line>)}
+    {hunk.oldLines.map((line, i) => <Line key={`o${i}`} kind="removed">{'- '}{line}</Line>)}
+    {hunk.newLines.map((line, i) => <Line key={`n${i}`} kind="added">{'+ '}{line}</Line>)}
+    {hunk.after.map((line, i) => <Line key={`a${i}`} kind="context">{'  '}{line}</Line>)}
+  </HunkLines>
+);
+
+export const PatchReview: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { theme } = useAppSelector(state => state.ui);
+  const { patchReview, tabs } = useAppSelector(state => state.editor);
+  const projectId = useAppSelector(state => state.projects.currentProject?.id);
+
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const [conflicts, setConflicts] = useState<PatchConflict[]>([]);
+  const [applying, setApplying] = useState(false);
+
+  // Every change starts out accepted
+  useEffect(() => {
+    setRejected(new Set());
+    setConflicts([]);
+  }, [patchReview]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        dispatch(editorSlice.actions.closePatchReview());
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [dispatch]);
+
+  const allIds = useMemo<string[]>(() => (patchReview?.files ?? []).flatMap(changeIds), [patchReview]);
+
+  if (!patchReview) {
+    return null;
+  }
+
+  const acceptedCount = allIds.filter(id => !rejected.has(id)).length;
+
+  const toggle = (ids: string[], reject: boolean) => {
+    setRejected(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => reject ? next.add(id) : next.delete(id));
+      return next;
+    });
+  };
+
+  const apply = async () => {
+    if (!projectId || acceptedCount === 0) return;
+
+    const files: ApplyEditsRequest['files'] = [];
+    for (const file of patchReview.files) {
+      if (file.action === 'modify') {
+        const hunks = file.hunks.filter((hunk: PatchHunk) => !rejected.has(`${file.path}#${hunk.id}`));
+        if (hunks.length > 0) {
+          files.push({ path: file.path, action: 'modify', hunks });
+        }
+      } else if (!rejected.has(file.path)) {
+        files.push({
+          path: file.path,
+          action: file.action,
+          ...(file.baseHash ? { baseHash: file.baseHash } : {}),
+          ...(file.action === 'create' ? { content: file.newContent } : {})
+        });
+      }
+    }
+
+    setApplying(true);
+    try {
+      const result = await aiService.applyEdits({
+        projectId,
+        files,
+        message: patchReview.summary.split('\n')[0] || 'AI edit'
+      });
+
+      if (!result.applied) {
+        setConflicts(result.conflicts);
+        dispatch(uiSlice.actions.addNotification({
+          type: 'warning',
+          title: 'Edits not applied',
+          message: `${result.conflicts.length} change${result.conflicts.length === 1 ? '' : 's'} no longer match the files. Nothing was written.`,
+          duration: 6000
+        }));
+        return;
+      }
+
+      // Keep open tabs in step with the files, unless they hold unsaved work
+      for (const file of result.files) {
+        const tab = tabs.find((t: { filePath: string }) => t.filePath === file.path);
+        if (!tab || tab.isDirty) continue;
+        if (file.action === 'delete') {
+          dispatch(editorSlice.actions.closeTab(tab.id));
+        } else if (file.content !== undefined) {
+          dispatch(editorSlice.actions.updateTabContent({ tabId: tab.id, content: file.content, isDirty: false }));
+        }
+      }
+
+      dispatch(uiSlice.actions.addNotification({
+        type: 'success',
+        title: 'Edits applied',
+        message: `Updated ${result.files.length} file${result.files.length === 1 ? '' : 's'}`,
+        duration: 4000
+      }));
+      dispatch(editorSlice.actions.closePatchReview());
+    } catch (error) {
+      console.error('Failed to apply edits:', error);
+      dispatch(uiSlice.actions.addNotification({
+        type: 'error',
+        title: 'Edits not applied',
+        message: 'The edits could not be applied. Please try again.',
+        duration: 5000
+      }));
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const conflictsFor = (path: string, hunkId?: string) =>
+    conflicts.filter(c => c.path === path && (hunkId === undefined ? !c.hunkId : c.hunkId === hunkId));
+
+  return (
+    <ReviewContainer theme={theme}>
+      <ReviewHeader theme={theme}>
+        <ReviewTitle>Review AI edits — {acceptedCount} of {allIds.length} changes accepted</ReviewTitle>
+        <Button theme={theme} onClick={() => toggle(allIds, false)}>Accept all</Button>
+        <Button theme={theme} onClick={() => toggle(allIds, true)}>Reject all</Button>
+        <Button theme={theme} primary disabled={applying || acceptedCount === 0 || !projectId} onClick={apply}>
+          {applying ? 'Applying...' : 'Apply accepted'}
+        </Button>
+        <CloseButton
+          theme={theme}
+          onClick={() => dispatch(editorSlice.actions.closePatchReview())}
+          title="Discard edits (Esc)"
+        >
+          <CloseIcon size={12} />
+        </CloseButton>
+      </ReviewHeader>
+      <ReviewBody>
+        {patchReview.summary && <Summary>{patchReview.summary}</Summary>}
+        {patchReview.files.map((file: FilePatch) => {
+          const ids = changeIds(file);
+          const fileRejected = ids.every(id => rejected.has(id));
+          return (
+            <FileSection key={file.path} theme={theme}>
+              <FileHeader theme={theme}>
+                <FilePath>{file.path}</FilePath>
+                {file.action !== 'modify' && <span>{file.action === 'create' ? 'new file' : 'deleted'}</span>}
+                <Stat color="#4ec9b0">+{file.stats.additions}</Stat>
+                <Stat color="#f48771">-{file.stats.deletions}</Stat>
+                <Button theme={theme} active={!fileRejected} onClick={() => toggle(ids, !fileRejected)}>
+                  {fileRejected ? 'Rejected' : 'Accepted'}
+                </Button>
+              </FileHeader>
+              {conflictsFor(file.path).map((c, i) => <ConflictNote key={i}>{c.reason}</ConflictNote>)}
+              {file.hunks.map((hunk: PatchHunk) => {
+                const id = file.action === 'modify' ? `${file.path}#${hunk.id}` : file.path;
+                const hunkRejected = rejected.has(id);
+                return (
+                  <div key={hunk.id}>
+                    <HunkHeader theme={theme}>
+                      <span style={{ flex: 1 }}>
+                        @@ line {hunk.oldStart}: -{hunk.oldLines.length} +{hunk.newLines.length}
+                      </span>
+                      {file.action === 'modify' && (
+                        <>
+                          <Button theme={theme} active={!hunkRejected} onClick={() => toggle([id], false)}>Accept</Button>
+                          <Button theme={theme} active={hunkRejected} onClick={() => toggle([id], true)}>Reject</Button>
+                        </>
+                      )}
+                    </HunkHeader>
+                    {conflictsFor(file.path, hunk.id).map((c, i) => <ConflictNote key={i}>{c.reason}</ConflictNote>)}
+                    <HunkView hunk={hunk} rejected={hunkRejected} />
+                  </div>
+                );
+              })}
+            </FileSection>
+          );
+        })}
+      </ReviewBody>
+    </ReviewContainer>
+  );
+};
@@ -0,0 +1,104 @@
+import * as monaco from 'monaco-editor';
+import { aiService } from '@/services/ai';
+
+// Wait this long after the last keystroke before asking for a completion
+const DEBOUNCE_MS = 300;
+// Completions kept per editor, most recent first
+const CACHE_SIZE = 20;
+
+export interface InlineCompletionOptions {
+  // Both are read on every request, so settings and tab changes apply without registering again
+  isEnabled: (model: monaco.editor.ITextModel) => boolean;
+  filePath: () => string | undefined;
+}
+
+interface CachedCompletion {
+  uri: string;
+  prefix: string;
+  completion: string;
+}
+
+const NO_COMPLETIONS: monaco.languages.InlineCompletions = { items: [] };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Register an inline completion source backed by /ai/complete. Requests wait for a pause in
+// typing and are cancelled by the next keystroke. Completions are remembered with the text
+// before the cursor, so typing along with a suggestion keeps showing the rest of it without
+// another request.
+export function registerInlineCompletions(options: InlineCompletionOptions): monaco.IDisposable {
+  const cache: CachedCompletion[] = [];
+
+  const fromCache = (uri: string, prefix: string): string | undefined => {
+    for (const entry of cache) {
+      if (entry.uri !== uri || !prefix.startsWith(entry.prefix)) continue;
+      const typed = prefix.slice(entry.prefix.length);
+      if (!typed) return entry.completion;
+      if (typed.length < entry.completion.length && entry.completion.startsWith(typed)) {
+        return entry.completion.slice(typed.length);
+      }
+    }
+    return undefined;
+  };
+
+  const remember = (uri: string, prefix: string, completion: string) => {
+    cache.unshift({ uri, prefix, completion });
+    cache.splice(CACHE_SIZE);
+  };
+
+  return monaco.languages.registerInlineCompletionsProvider('*', {
+    provideInlineCompletions: async (model, position, context, token) => {
+      if (!options.isEnabled(model)) return NO_COMPLETIONS;
+
+      // Completing in the middle of a word or before other code is rarely useful
+      const restOfLine = model.getLineContent(position.lineNumber).slice(position.column - 1);
+      const explicit = context.triggerKind === monaco.languages.InlineCompletionTriggerKind.Explicit;
+      if (!explicit && /\w/.test(restOfLine)) return NO_COMPLETIONS;
+
+      const text = model.getValue();
+      const offset = model.getOffsetAt(position);
+      const prefix = text.slice(0, offset);
+      const uri = model.uri.toString();
+
+      const toItems = (completion: string): monaco.languages.InlineCompletions => {
+        // Monaco only shows multi-line text when the cursor is at the end of its line
+        const insertText = restOfLine.trim() ? completion.split('\n')[0] ?? '' : completion;
+        if (!insertText) return NO_COMPLETIONS;
+        return {
+          items: [{
+            insertText,
+            range: new monaco.Range(position.lineNumber, position.column, position.lineNumber, position.column)
+          }]
+        };
+      };
+
+      const cached = fromCache(uri, prefix);
+      if (cached !== undefined) return toItems(cached);
+
+      if (!explicit) {
+        await sleep(DEBOUNCE_MS);
+      }
+      if (token.isCancellationRequested) return NO_COMPLETIONS;
+
+      const controller = new AbortController();
+      const subscription = token.onCancellationRequested(() => controller.abort());
+      try {
+        const filePath = options.filePath();
+        const completion = await aiService.completeInline({
+          prefix,
+          suffix: text.slice(offset),
+          language: model.getLanguageId(),
+          ...(filePath ? { filePath } : {})
+        }, controller.signal);
+        remember(uri, prefix, completion);
+        return token.isCancellationRequested ? NO_COMPLETIONS : toItems(completion);
+      } catch {
+        // Cancelled by a keystroke, or the request failed: no suggestion this time
+        return NO_COMPLETIONS;
+      } finally {
+        subscription.dispose();
+      }
+    },
+    freeInlineCompletions: () => {}
+  });
+}
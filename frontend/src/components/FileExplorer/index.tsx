@@ -1,6 +1,7 @@
 import React from 'react';
 import { useAppSelector, useAppDispatch } from '@/hooks/redux';
-import { fileSystemSlice } from '@/store/fileSystem';
+import { fileSystemSlice, pasteFiles } from '@/store/fileSystem';
+import type { FileNode } from '@shared/types';
 import './FileExplorer.css';
 
 interface FileItem {
@@ -14,6 +15,8 @@ interface FileItem {
 export const FileExplorer: React.FC = () => {
   const dispatch = useAppDispatch();
   const { currentProject, files } = useAppSelector(state => state.fileSystem);
+  const { tree, selectedFile } = useAppSelector(state => state.fileSystem);
+  const project = useAppSelector(state => state.projects.currentProject);
   
   // If no project is loaded, show empty state
   if (!currentProject) {
@@ -64,6 +67,28 @@ export const FileExplorer: React.FC = () => {
     dispatch(fileSystemSlice.actions.refreshFileTree());
   };
 
+  // Clipboard shortcuts: the selection is copied or cut, and pasted into the selected
+  // directory (or the directory containing the selected file)
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || !selectedFile) return;
+
+    const key = e.key.toLowerCase();
+    if (key === 'c') {
+      dispatch(fileSystemSlice.actions.copyFiles([selectedFile]));
+    } else if (key === 'x') {
+      dispatch(fileSystemSlice.actions.cutFiles([selectedFile]));
+    } else if (key === 'v' && project) {
+      const node = tree ? findNode(tree, selectedFile) : null;
+      const targetDirectory = node?.type === 'directory'
+        ? selectedFile
+        : selectedFile.slice(0, selectedFile.lastIndexOf('/')) || '/';
+      dispatch(pasteFiles({ projectId: project.id, targetDirectory }));
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
   const renderFileTree = (items: any[], depth = 0, parentPath = '') => {
     if (!items || items.length === 0) {
       return (
@@ -149,7 +174,7 @@ export const FileExplorer: React.FC = () => {
           </button>
         </div>
       </div>
-      <div className="vf-file-tree">
+      <div className="vf-file-tree" tabIndex={0} onKeyDown={handleKeyDown}>
         {currentProject ? renderFileTree(files || []) : (
           <div className="vf-empty-state">
             <p>No project opened</p>
@@ -158,4 +183,13 @@ export const FileExplorer: React.FC = () => {
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+function findNode(node: FileNode, path: string): FileNode | null {
+  if (node.path === path) return node;
+  for (const child of node.children ?? []) {
+    const found = findNode(child, path);
+    if (found) return found;
+  }
+  return null;
+}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useAppSelector, useAppDispatch } from '@/hooks/redux';
-import { aiSlice, AiMessage } from '@/store/ai';
+import { aiSlice, AiMessage, fetchConversation, fetchConversations, startConversation } from '@/store/ai';
 import { useAiService } from '@/services/ai';
 import './AiAssistant.css';
 
@@ -25,12 +25,21 @@ export const AiAssistant: React.FC = () => {
   const activeConversation = conversations.find(c => c.id === activeConversationId);
   const messages = activeConversation?.messages || [];
 
-  // Initialize with a default conversation if none exists
+  // Conversations are kept on the server, so load them whenever the user signs in
   useEffect(() => {
-    if (conversations.length === 0) {
-      dispatch(aiSlice.actions.createConversation({ title: 'Welcome Chat' }));
+    if (token) {
+      dispatch(fetchConversations());
     }
-  }, [conversations.length, dispatch]);
+  }, [token, dispatch]);
+
+  // Listed conversations arrive without their messages
+  const needsMessages = !!activeConversation &&
+    activeConversation.messages.length < (activeConversation.messageCount ?? 0);
+  useEffect(() => {
+    if (activeConversationId && needsMessages) {
+      dispatch(fetchConversation(activeConversationId));
+    }
+  }, [activeConversationId, needsMessages, dispatch]);
 
   const handleSendMessage = async () => {
     if (!inputValue.trim() || !token) return;
@@ -41,11 +50,10 @@ export const AiAssistant: React.FC = () => {
     // Get or create active conversation
     let conversationId = activeConversationId;
     if (!conversationId) {
-      dispatch(aiSlice.actions.createConversation({ title: 'New Chat' }));
-      conversationId = conversations[0]?.id || 'temp-id';
+      const created = await dispatch(startConversation());
+      if (!startConversation.fulfilled.match(created)) return;
+      conversationId = created.payload.id;
     }
-    
-    if (!conversationId) return;
 
     // Add user message
     dispatch(aiSlice.actions.addMessage({
@@ -73,9 +81,11 @@ export const AiAssistant: React.FC = () => {
         message: {
           role: 'assistant',
           content: response.content,
-          metadata: response.metadata
+          ...(response.metadata ? { metadata: response.metadata } : {})
         }
       }));
+      // Pick up the ids the server gave the stored messages
+      dispatch(fetchConversation(conversationId));
       
     } catch (error) {
       dispatch(aiSlice.actions.setError(
@@ -253,7 +263,7 @@ export const AiAssistant: React.FC = () => {
                 >
                   <div className="vf-conversation-title">{conversation.title}</div>
                   <div className="vf-conversation-meta">
-                    {conversation.messages.length} messages • {new Date(conversation.updatedAt).toLocaleDateString()}
+                    {Math.max(conversation.messageCount ?? 0, conversation.messages.length)} messages • {new Date(conversation.updatedAt).toLocaleDateString()}
                   </div>
                 </div>
               ))
@@ -1,6 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import styled from '@emotion/styled';
-import { useAppSelector } from '@/hooks/redux';
+import { useAppSelector, useAppDispatch } from '@/hooks/redux';
+import { editorSlice } from '@/store/editor';
+import { filesService } from '@/services/files';
+import type { FileSearchResult, ReplaceInFilesRequest, ReplaceInFilesResponse } from '@shared/types';
 
 const SearchContainer = styled.div<{ theme: string }>`
   height: 100%;
@@ -10,27 +13,415 @@ const SearchContainer = styled.div<{ theme: string }>`
   color: ${props => props.theme === 'dark' ? '#cccccc' : '#333333'};
 `;
 
-const SearchContent = styled.div`
+const SearchForm = styled.form`
+  padding: 8px 12px;
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+`;
+
+const InputRow = styled.div`
+  display: flex;
+  gap: 4px;
+`;
+
+const SearchInput = styled.input<{ theme: string; invalid?: boolean }>`
   flex: 1;
-  padding: 12px;
+  min-width: 0;
+  height: 26px;
+  padding: 0 6px;
+  font-size: 13px;
+  color: inherit;
+  background-color: ${props => props.theme === 'dark' ? '#3c3c3c' : '#ffffff'};
+  border: 1px solid ${props => props.invalid ? '#f48771' : (props.theme === 'dark' ? '#3c3c3c' : '#cecece')};
+  border-radius: 2px;
+  outline: none;
+
+  &:focus {
+    border-color: #007acc;
+  }
+`;
+
+const ToggleButton = styled.button<{ active: boolean; theme: string }>`
+  width: 26px;
+  height: 26px;
+  border: 1px solid ${props => props.active ? '#007acc' : 'transparent'};
+  border-radius: 3px;
+  font-size: 11px;
+  font-family: monospace;
+  cursor: pointer;
+  color: inherit;
+  background-color: ${props => props.active
+    ? (props.theme === 'dark' ? 'rgba(0, 122, 204, 0.3)' : 'rgba(0, 122, 204, 0.15)')
+    : 'transparent'
+  };
+`;
+
+const ActionButton = styled.button<{ theme: string }>`
+  height: 26px;
+  padding: 0 8px;
+  border: none;
+  border-radius: 2px;
+  font-size: 12px;
+  cursor: pointer;
+  color: #ffffff;
+  background-color: #0e639c;
+
+  &:hover {
+    background-color: #1177bb;
+  }
+
+  &:disabled {
+    cursor: default;
+    opacity: 0.5;
+  }
+`;
+
+const Summary = styled.div`
+  padding: 4px 12px;
+  font-size: 12px;
+  color: #999;
+`;
+
+const ErrorMessage = styled.div`
+  padding: 4px 12px;
+  font-size: 12px;
+  color: #f48771;
+`;
+
+const Results = styled.div`
+  flex: 1;
+  overflow-y: auto;
+`;
+
+const FileHeader = styled.div<{ theme: string }>`
   display: flex;
   align-items: center;
-  justify-content: center;
+  gap: 6px;
+  padding: 2px 12px;
+  font-size: 13px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: ${props => props.theme === 'dark' ? '#2a2d2e' : '#e8e8e8'};
+  }
+`;
+
+const FilePath = styled.span`
+  flex: 1;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const CountBadge = styled.span`
+  padding: 0 6px;
+  border-radius: 8px;
+  font-size: 11px;
+  background-color: #4d4d4d;
+  color: #ffffff;
+`;
+
+const MatchLine = styled.div<{ theme: string }>`
+  padding: 1px 12px 1px 28px;
+  font-size: 12px;
+  font-family: monospace;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  cursor: pointer;
+
+  &:hover {
+    background-color: ${props => props.theme === 'dark' ? '#2a2d2e' : '#e8e8e8'};
+  }
+`;
+
+const Highlight = styled.mark<{ replaced?: boolean }>`
+  color: inherit;
+  background-color: ${props => props.replaced ? 'rgba(244, 135, 113, 0.4)' : 'rgba(234, 92, 0, 0.33)'};
+  text-decoration: ${props => props.replaced ? 'line-through' : 'none'};
+`;
+
+const Inserted = styled.span`
+  background-color: rgba(78, 201, 176, 0.3);
+`;
+
+const EmptyState = styled.div`
+  padding: 12px;
   text-align: center;
   color: #999;
-  font-size: 14px;
+  font-size: 13px;
 `;
 
 export const Search: React.FC = () => {
+  const dispatch = useAppDispatch();
   const { theme } = useAppSelector(state => state.ui);
+  const { token } = useAppSelector(state => state.auth);
+  const { currentProject } = useAppSelector(state => state.projects);
+
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [showReplace, setShowReplace] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [useRegex, setUseRegex] = useState(false);
+  const [includePatterns, setIncludePatterns] = useState('');
+  const [excludePatterns, setExcludePatterns] = useState('');
+
+  const [results, setResults] = useState<FileSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [searchTime, setSearchTime] = useState<number | null>(null);
+  const [preview, setPreview] = useState<ReplaceInFilesResponse | null>(null);
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Options shared by search and replace
+  const buildRequest = (): Omit<ReplaceInFilesRequest, 'replacement'> | null => {
+    if (!currentProject || !query) return null;
+    return {
+      projectId: currentProject.id,
+      query,
+      caseSensitive,
+      wholeWord,
+      useRegex,
+      includePatterns: splitPatterns(includePatterns),
+      excludePatterns: splitPatterns(excludePatterns),
+    };
+  };
+
+  const handleSearch = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const request = buildRequest();
+    if (!request || !token) return;
+
+    setIsBusy(true);
+    setError(null);
+    setPreview(null);
+    try {
+      const response = await filesService.searchFiles({ ...request, type: 'both' }, token);
+      setResults(response.results);
+      setTotal(response.total);
+      setSearchTime(response.searchTime);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Search failed');
+      setResults([]);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReplace = async (apply: boolean) => {
+    const request = buildRequest();
+    if (!request || !token) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await filesService.replaceInFiles({
+        ...request,
+        replacement,
+        preview: !apply,
+        // Apply exactly what was previewed
+        ...(apply && preview ? { fileIds: preview.files.map(file => file.fileId) } : {}),
+      }, token);
+
+      if (apply) {
+        setPreview(null);
+        await handleSearch();
+      } else {
+        setPreview(response);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Replace failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const openMatch = async (result: FileSearchResult, line?: number, column?: number) => {
+    if (!token) return;
+    try {
+      const file = await filesService.getFileById(result.file.id, token);
+      dispatch(editorSlice.actions.openTab({
+        file: { id: file.id, name: file.name, path: file.path, type: file.type },
+        content: file.content ?? '',
+        ...(line !== undefined ? { cursorPosition: { line, column: column ?? 1 } } : {}),
+      }));
+    } catch (err) {
+      console.error('Failed to open search result:', err);
+    }
+  };
+
+  if (!currentProject) {
+    return (
+      <SearchContainer theme={theme}>
+        <EmptyState>Open a project to search its files</EmptyState>
+      </SearchContainer>
+    );
+  }
+
+  const totalMatches = results.reduce((sum, result) => sum + result.matches.length, 0);
 
   return (
     <SearchContainer theme={theme}>
-      <SearchContent>
-        Search
-        <br />
-        <small>Coming soon...</small>
-      </SearchContent>
+      <SearchForm onSubmit={handleSearch}>
+        <InputRow>
+          <ToggleButton
+            type="button"
+            theme={theme}
+            active={showReplace}
+            onClick={() => setShowReplace(!showReplace)}
+            title="Toggle Replace"
+          >
+            {showReplace ? '▾' : '▸'}
+          </ToggleButton>
+          <SearchInput
+            theme={theme}
+            invalid={!!error}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search"
+            autoFocus
+          />
+          <ToggleButton type="button" theme={theme} active={caseSensitive} onClick={() => setCaseSensitive(!caseSensitive)} title="Match Case">
+            Aa
+          </ToggleButton>
+          <ToggleButton type="button" theme={theme} active={wholeWord} onClick={() => setWholeWord(!wholeWord)} title="Match Whole Word">
+            ab
+          </ToggleButton>
+          <ToggleButton type="button" theme={theme} active={useRegex} onClick={() => setUseRegex(!useRegex)} title="Use Regular Expression">
+            .*
+          </ToggleButton>
+        </InputRow>
+
+        {showReplace && (
+          <InputRow>
+            <SearchInput
+              theme={theme}
+              value={replacement}
+              onChange={(e) => {
+                setReplacement(e.target.value);
+                setPreview(null);
+              }}
+              placeholder={useRegex ? 'Replace ($1 for groups)' : 'Replace'}
+            />
+            <ActionButton type="button" theme={theme} disabled={isBusy || !query} onClick={() => handleReplace(false)}>
+              Preview
+            </ActionButton>
+            <ActionButton type="button" theme={theme} disabled={isBusy || !preview} onClick={() => handleReplace(true)}>
+              Replace All
+            </ActionButton>
+          </InputRow>
+        )}
+
+        <InputRow>
+          <ToggleButton type="button" theme={theme} active={showFilters} onClick={() => setShowFilters(!showFilters)} title="Toggle Search Details">
+            …
+          </ToggleButton>
+        </InputRow>
+
+        {showFilters && (
+          <>
+            <SearchInput
+              theme={theme}
+              value={includePatterns}
+              onChange={(e) => setIncludePatterns(e.target.value)}
+              placeholder="files to include (e.g. src/**/*.ts)"
+            />
+            <SearchInput
+              theme={theme}
+              value={excludePatterns}
+              onChange={(e) => setExcludePatterns(e.target.value)}
+              placeholder="files to exclude (e.g. *.test.ts, dist)"
+            />
+          </>
+        )}
+      </SearchForm>
+
+      {error && <ErrorMessage>{error}</ErrorMessage>}
+
+      {preview ? (
+        <>
+          <Summary>
+            {preview.totalReplacements} replacements in {preview.files.length} files
+          </Summary>
+          <Results>
+            {preview.files.map(file => (
+              <div key={file.fileId}>
+                <FileHeader theme={theme}>
+                  <FilePath title={file.path}>{file.path}</FilePath>
+                  <CountBadge>{file.replacements}</CountBadge>
+                </FileHeader>
+                {file.changes.map((change, index) => (
+                  <MatchLine key={index} theme={theme} title={change.newContent}>
+                    {change.oldContent !== undefined && <Highlight replaced>{change.oldContent.trim()}</Highlight>}
+                    {change.newContent !== undefined && <Inserted>{change.newContent.trim()}</Inserted>}
+                  </MatchLine>
+                ))}
+              </div>
+            ))}
+          </Results>
+        </>
+      ) : (
+        <>
+          {searchTime !== null && (
+            <Summary>
+              {totalMatches} results in {total} files ({searchTime} ms)
+              {total > results.length && ` — showing first ${results.length}`}
+            </Summary>
+          )}
+          <Results>
+            {results.map(result => (
+              <div key={result.file.id}>
+                <FileHeader
+                  theme={theme}
+                  onClick={() => setCollapsed({ ...collapsed, [result.file.id]: !collapsed[result.file.id] })}
+                  onDoubleClick={() => openMatch(result)}
+                >
+                  <span>{collapsed[result.file.id] ? '▸' : '▾'}</span>
+                  <FilePath title={result.file.path}>{result.file.path}</FilePath>
+                  {result.matches.length > 0 && <CountBadge>{result.matches.length}</CountBadge>}
+                </FileHeader>
+                {!collapsed[result.file.id] && result.matches.map(match => (
+                  <MatchLine
+                    key={`${match.line}:${match.column}`}
+                    theme={theme}
+                    onClick={() => openMatch(result, match.line, match.column)}
+                    title={`${result.file.path}:${match.line}:${match.column}`}
+                  >
+                    {renderMatch(match.content, match.column, match.matchedText)}
+                  </MatchLine>
+                ))}
+              </div>
+            ))}
+            {searchTime !== null && results.length === 0 && !error && (
+              <EmptyState>No results found</EmptyState>
+            )}
+          </Results>
+        </>
+      )}
     </SearchContainer>
   );
-};
\ No newline at end of file
+};
+
+function splitPatterns(value: string): string[] {
+  return value.split(',').map(pattern => pattern.trim()).filter(Boolean);
+}
+
+function renderMatch(line: string, column: number, matchedText: string): React.ReactNode {
+  const start = column - 1;
+  const end = start + matchedText.length;
+  // Keep some leading context without letting long lines push the match out of view
+  const from = Math.max(0, start - 30);
+
+  return (
+    <>
+      {from > 0 && '…'}
+      {line.slice(from, start).trimStart()}
+      <Highlight>{line.slice(start, end)}</Highlight>
+      {line.slice(end)}
+    </>
+  );
+}
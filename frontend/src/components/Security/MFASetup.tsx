@@ -1,55 +1,139 @@
 import React, { useState } from 'react';
+import { securityAPI } from '@/services/security';
 
 interface MFASetupProps {
   onComplete?: (success: boolean) => void;
 }
 
+type Step = 'setup' | 'verify' | 'complete';
+
+// Enroll an authenticator app: show the QR code (and the secret for typing in by hand), confirm
+// one code from the app, then show the recovery codes once
 const MFASetup: React.FC<MFASetupProps> = ({ onComplete }) => {
-  const [step, setStep] = useState(1);
+  const [step, setStep] = useState<Step>('setup');
+  const [qrCode, setQrCode] = useState('');
+  const [secret, setSecret] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
   const [verificationCode, setVerificationCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
 
-  const handleVerification = () => {
-    // Mock verification
-    if (verificationCode.length === 6) {
-      onComplete?.(true);
+  const handleSetup = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await securityAPI.setupMFA();
+      setQrCode(response.qrCodeUrl);
+      setSecret(response.secret);
+      setBackupCodes(response.backupCodes);
+      setStep('verify');
+    } catch (err) {
+      setError((err as any)?.response?.data?.message || 'Failed to setup TOTP');
+    } finally {
+      setLoading(false);
     }
   };
 
+  const handleVerification = async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await securityAPI.verifyMFA({ code: verificationCode });
+      if (response.success) {
+        setStep('complete');
+      } else {
+        setError('Invalid verification code');
+      }
+    } catch (err) {
+      setError((err as any)?.response?.data?.message || 'Failed to verify code');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const errorMessage = error && (
+    <div data-testid="error-message" className="error" style={{ color: '#d32f2f' }}>
+      {error}
+    </div>
+  );
+
   return (
     <div data-testid="mfa-setup">
       <h2>Multi-Factor Authentication Setup</h2>
-      
-      {step === 1 && (
-        <div data-testid="mfa-step-1">
-          <p>Scan the QR code with your authenticator app:</p>
-          <div data-testid="qr-code">
-            <canvas width="200" height="200" />
-          </div>
-          <button 
-            onClick={() => setStep(2)}
-            data-testid="continue-button"
+
+      {step === 'setup' && (
+        <div data-testid="totp-setup">
+          <p>Use an authenticator app such as Google Authenticator, 1Password or Authy to sign in with a code as well as your password.</p>
+          <button
+            onClick={handleSetup}
+            data-testid="generate-qr"
+            disabled={loading}
           >
-            Continue
+            {loading ? 'Generating...' : 'Generate QR Code'}
           </button>
+          {errorMessage}
         </div>
       )}
 
-      {step === 2 && (
-        <div data-testid="mfa-step-2">
-          <p>Enter the verification code from your authenticator app:</p>
+      {step === 'verify' && (
+        <div data-testid="totp-verify">
+          <p>Scan the QR code with your authenticator app:</p>
+          <div data-testid="qr-code">
+            <img src={qrCode} alt="Authenticator QR code" width={200} height={200} />
+          </div>
+          <p>
+            Or enter this key by hand: <code data-testid="mfa-secret">{secret.match(/.{1,4}/g)?.join(' ')}</code>
+          </p>
+          <p>Enter the 6-digit code from your authenticator app:</p>
           <input
             type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
             value={verificationCode}
-            onChange={(e) => setVerificationCode(e.target.value)}
-            data-testid="verification-input"
+            onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, ''))}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && verificationCode.length === 6) {
+                handleVerification();
+              }
+            }}
+            data-testid="verification-code"
+            placeholder="000000"
             maxLength={6}
           />
-          <button 
+          <button
             onClick={handleVerification}
-            data-testid="verify-button"
-            disabled={verificationCode.length !== 6}
+            data-testid="verify-code"
+            disabled={loading || verificationCode.length !== 6}
           >
-            Verify
+            {loading ? 'Verifying...' : 'Verify & Enable'}
+          </button>
+          {errorMessage}
+        </div>
+      )}
+
+      {step === 'complete' && (
+        <div data-testid="mfa-complete">
+          <h3>Setup Complete!</h3>
+          <p>Multi-factor authentication is now enabled for your account.</p>
+          <div data-testid="backup-codes">
+            <h3>Backup Codes</h3>
+            <p>
+              Save these codes somewhere safe. Each one signs you in once if you lose your
+              authenticator device. They will not be shown again.
+            </p>
+            <ul>
+              {backupCodes.map((code, index) => (
+                <li key={code} data-testid={`backup-code-${index}`}>
+                  <code>{code}</code>
+                </li>
+              ))}
+            </ul>
+            <button onClick={() => navigator.clipboard.writeText(backupCodes.join('\n'))}>
+              Copy codes
+            </button>
+          </div>
+          <button data-testid="finish-setup" onClick={() => onComplete?.(true)}>
+            Finish Setup
           </button>
         </div>
       )}
@@ -57,4 +141,4 @@ const MFASetup: React.FC<MFASetupProps> = ({ onComplete }) => {
   );
 };
 
-export default MFASetup;
\ No newline at end of file
+export default MFASetup;
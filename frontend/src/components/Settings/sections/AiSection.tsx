@@ -1,6 +1,170 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAppSelector, useAppDispatch } from '@/hooks/redux';
 import { updateAi } from '@/store/settings';
+import { fetchUsageReport } from '@/store/ai';
+import type { QuotaStatus, UsageReport, UsageTotals } from '@/services/ai';
+
+const SERVICE_LABELS: Record<string, string> = {
+  chat: 'Chat',
+  code_completion: 'Inline completions',
+  code_generation: 'Code generation',
+  code_review: 'Code review',
+  debugging: 'Debugging',
+  testing: 'Test generation',
+  refactoring: 'Refactoring',
+  documentation: 'Documentation',
+};
+
+const tableStyle: React.CSSProperties = {
+  display: 'grid',
+  gridTemplateColumns: '2fr 1fr 1fr 1fr',
+  gap: 'var(--vf-space-2)',
+  padding: 'var(--vf-space-3)',
+  background: 'var(--vf-bg-secondary)',
+  border: '1px solid var(--vf-surface-border)',
+  fontSize: 'var(--vf-text-xs)',
+  color: 'var(--vf-text-muted)'
+};
+
+const headerCellStyle: React.CSSProperties = {
+  fontWeight: 'var(--vf-weight-semibold)' as React.CSSProperties['fontWeight'],
+  color: 'var(--vf-text-primary)'
+};
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
+const QuotaRow: React.FC<{ label: string; quota: QuotaStatus }> = ({ label, quota }) => (
+  <div className="vf-settings-field-row">
+    <div className="vf-settings-field-info">
+      <label className="vf-settings-field-label">{label}</label>
+      <span className="vf-settings-field-description">
+        {quota.limit === null
+          ? `${quota.used.toLocaleString()} tokens used, no limit`
+          : `${quota.used.toLocaleString()} of ${quota.limit.toLocaleString()} tokens used; resets ${new Date(quota.resetsAt).toLocaleString()}`}
+      </span>
+    </div>
+    {quota.limit !== null && (
+      <div className="vf-settings-field-control">
+        <div style={{ width: '160px', height: '6px', background: 'var(--vf-bg-secondary)', border: '1px solid var(--vf-surface-border)' }}>
+          <div style={{
+            width: `${Math.min(100, (quota.used / quota.limit) * 100)}%`,
+            height: '100%',
+            background: quota.remaining === 0 ? 'var(--vf-error, #f48771)' : 'var(--vf-accent-primary)'
+          }} />
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+const UsageTable: React.FC<{ title: string; rows: Array<UsageTotals & { label: string }> }> = ({ title, rows }) => (
+  <div style={tableStyle}>
+    <div style={headerCellStyle}>{title}</div>
+    <div style={headerCellStyle}>Requests</div>
+    <div style={headerCellStyle}>Tokens</div>
+    <div style={headerCellStyle}>Cost</div>
+    {rows.map(row => (
+      <React.Fragment key={row.label}>
+        <div>{row.label}</div>
+        <div>{row.requests.toLocaleString()}</div>
+        <div>{row.totalTokens.toLocaleString()}</div>
+        <div>{formatCost(row.cost)}</div>
+      </React.Fragment>
+    ))}
+  </div>
+);
+
+// Tokens per day of the report period
+const DailyChart: React.FC<{ days: UsageReport['byDay'] }> = ({ days }) => {
+  const max = Math.max(1, ...days.map(day => day.totalTokens));
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'flex-end',
+      gap: '2px',
+      height: '80px',
+      padding: 'var(--vf-space-2)',
+      background: 'var(--vf-bg-secondary)',
+      border: '1px solid var(--vf-surface-border)'
+    }}>
+      {days.map(day => (
+        <div
+          key={day.day}
+          title={`${day.day}: ${day.totalTokens.toLocaleString()} tokens, ${formatCost(day.cost)}`}
+          style={{
+            flex: 1,
+            height: `${(day.totalTokens / max) * 100}%`,
+            minHeight: day.totalTokens > 0 ? '2px' : 0,
+            background: 'var(--vf-accent-primary)'
+          }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const AiUsage: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const usage: UsageReport | null = useAppSelector(state => state.ai.usage);
+  const isLoadingUsage: boolean = useAppSelector(state => state.ai.isLoadingUsage);
+  const [days, setDays] = useState(30);
+
+  useEffect(() => {
+    dispatch(fetchUsageReport({ days }));
+  }, [dispatch, days]);
+
+  return (
+    <div className="vf-settings-group">
+      <h3 className="vf-settings-group-title">Usage</h3>
+      <div className="vf-settings-group-content">
+        <div className="vf-settings-field-row">
+          <div className="vf-settings-field-info">
+            <label className="vf-settings-field-label">Period</label>
+            <span className="vf-settings-field-description">
+              {usage
+                ? `${usage.totals.requests.toLocaleString()} requests, ${usage.totals.totalTokens.toLocaleString()} tokens, ${formatCost(usage.totals.cost)}`
+                : isLoadingUsage ? 'Loading usage...' : 'Usage is not available'}
+            </span>
+          </div>
+          <div className="vf-settings-field-control">
+            <select
+              value={days}
+              onChange={(e) => setDays(parseInt(e.target.value))}
+              className="vf-settings-select"
+            >
+              <option value={7}>Last 7 days</option>
+              <option value={30}>Last 30 days</option>
+              <option value={90}>Last 90 days</option>
+            </select>
+          </div>
+        </div>
+
+        {usage && (
+          <>
+            <QuotaRow label="Today" quota={usage.quota.daily} />
+            <QuotaRow label="This month" quota={usage.quota.monthly} />
+            <DailyChart days={usage.byDay} />
+            {usage.byModel.length > 0 && (
+              <UsageTable title="Model" rows={usage.byModel.map(row => ({ ...row, label: row.model }))} />
+            )}
+            {usage.byService.length > 0 && (
+              <UsageTable
+                title="Feature"
+                rows={usage.byService.map(row => ({ ...row, label: SERVICE_LABELS[row.serviceType] ?? row.serviceType }))}
+              />
+            )}
+            {usage.byProject && usage.byProject.length > 0 && (
+              <UsageTable
+                title="Project"
+                rows={usage.byProject.map(row => ({ ...row, label: row.projectName ?? (row.projectId ? 'Deleted project' : 'No project') }))}
+              />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
 
 export const AiSection: React.FC = () => {
   const dispatch = useAppDispatch();
@@ -134,7 +298,7 @@ export const AiSection: React.FC = () => {
               <div className="vf-settings-field-info">
                 <label className="vf-settings-field-label">Auto Suggestions</label>
                 <span className="vf-settings-field-description">
-                  Enable automatic code suggestions while typing
+                  Suggest inline completions while typing (per language in the Editor settings)
                 </span>
               </div>
               <div className="vf-settings-field-control">
@@ -314,6 +478,8 @@ export const AiSection: React.FC = () => {
           </div>
         </div>
 
+        <AiUsage />
+
         <div className="vf-settings-group">
           <h3 className="vf-settings-group-title">Current Configuration</h3>
           <div className="vf-settings-group-content">
@@ -2,14 +2,35 @@ import React from 'react';
 import { useAppSelector, useAppDispatch } from '@/hooks/redux';
 import { updateEditor } from '@/store/settings';
 
+// Monaco language ids offered for inline AI completions
+const INLINE_COMPLETION_LANGUAGES: Array<{ id: string; label: string }> = [
+  { id: 'typescript', label: 'TypeScript' },
+  { id: 'javascript', label: 'JavaScript' },
+  { id: 'python', label: 'Python' },
+  { id: 'go', label: 'Go' },
+  { id: 'rust', label: 'Rust' },
+  { id: 'java', label: 'Java' },
+  { id: 'html', label: 'HTML' },
+  { id: 'css', label: 'CSS' },
+  { id: 'json', label: 'JSON' },
+  { id: 'yaml', label: 'YAML' },
+  { id: 'shell', label: 'Shell' },
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'plaintext', label: 'Plain Text' },
+];
+
 export const EditorSection: React.FC = () => {
   const dispatch = useAppDispatch();
-  const { editor } = useAppSelector(state => state.settings);
+  const { editor, ai } = useAppSelector(state => state.settings);
 
   const handleEditorChange = (field: keyof typeof editor, value: any) => {
     dispatch(updateEditor({ [field]: value }));
   };
 
+  const handleInlineCompletionLanguage = (languageId: string, enabled: boolean) => {
+    handleEditorChange('inlineCompletionLanguages', { ...editor.inlineCompletionLanguages, [languageId]: enabled });
+  };
+
   return (
     <div className="vf-settings-section">
       <div className="vf-settings-section-header">
@@ -374,6 +395,36 @@ export const EditorSection: React.FC = () => {
           </div>
         </div>
 
+        <div className="vf-settings-group">
+          <h3 className="vf-settings-group-title">Inline AI Completions</h3>
+          <div className="vf-settings-group-content">
+            {!ai.autoSuggestions && (
+              <p className="vf-settings-field-description">
+                Inline completions are off. Turn on Auto Suggestions in the AI Assistant settings to use them.
+              </p>
+            )}
+            {INLINE_COMPLETION_LANGUAGES.map(({ id, label }) => (
+              <div className="vf-settings-field-row" key={id}>
+                <div className="vf-settings-field-info">
+                  <label className="vf-settings-field-label">{label}</label>
+                  <span className="vf-settings-field-description">
+                    Suggest completions while typing {label} files
+                  </span>
+                </div>
+                <div className="vf-settings-field-control">
+                  <input
+                    type="checkbox"
+                    checked={editor.inlineCompletionLanguages?.[id] !== false}
+                    disabled={!ai.autoSuggestions}
+                    onChange={(e) => handleInlineCompletionLanguage(id, e.target.checked)}
+                    className="vf-settings-checkbox"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
         <div className="vf-settings-group">
           <h3 className="vf-settings-group-title">Preview</h3>
           <div className="vf-settings-group-content">
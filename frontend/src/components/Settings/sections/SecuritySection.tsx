@@ -1,6 +1,358 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useAppSelector, useAppDispatch } from '@/hooks/redux';
 import { updateSecurity } from '@/store/settings';
+import { authSlice } from '@/store/auth';
+import { useAuthService } from '@/services/auth';
+import { securityAPI, MFAStatus, SessionInfo } from '@/services/security';
+import MFASetup from '@/components/Security/MFASetup';
+
+// Sharing projects and two-factor setup need a confirmed address
+const EmailVerification: React.FC = () => {
+  const authService = useAuthService();
+  const { user, token } = useAppSelector(state => state.auth);
+  const [sent, setSent] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const verified = Boolean(user?.emailVerified);
+
+  const handleSend = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      await authService.sendVerificationEmail(token);
+      setSent(true);
+    } catch (err) {
+      setError((err as any)?.response?.data?.message || 'Failed to send verification email');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="vf-settings-field-row">
+      <div className="vf-settings-field-info">
+        <label className="vf-settings-field-label">Email Address</label>
+        <span className="vf-settings-field-description">
+          {verified
+            ? `${user?.email} is verified`
+            : sent
+              ? `Verification email sent to ${user?.email}; open the link in it`
+              : `${user?.email} is not verified. Verify it to share projects and enable two-factor authentication.`}
+        </span>
+        {error && <span className="vf-settings-field-description" style={{ color: '#d32f2f' }}>{error}</span>}
+      </div>
+      <div className="vf-settings-field-control">
+        {!verified && (
+          <button type="button" className="vf-settings-action-btn" disabled={busy} onClick={handleSend}>
+            {sent ? 'Resend' : 'Send Verification Email'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Signs out every other session; this one carries on with the new tokens
+const ChangePassword: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const authService = useAuthService();
+  const { token } = useAppSelector(state => state.auth);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const handleSubmit = async () => {
+    setBusy(true);
+    setError('');
+    setNotice('');
+    try {
+      const result = await authService.changePassword(token, currentPassword, newPassword);
+      dispatch(authSlice.actions.loginSuccess(result));
+      setCurrentPassword('');
+      setNewPassword('');
+      setNotice('Password changed. Other sessions have been signed out.');
+    } catch (err) {
+      setError((err as any)?.response?.data?.message || 'Failed to change password');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="vf-settings-field-row">
+      <div className="vf-settings-field-info">
+        <label className="vf-settings-field-label">Password</label>
+        <span className="vf-settings-field-description">
+          {notice || 'Changing your password signs you out on every other device'}
+        </span>
+        {error && <span className="vf-settings-field-description" style={{ color: '#d32f2f' }}>{error}</span>}
+      </div>
+      <div className="vf-settings-field-control">
+        <div className="vf-settings-button-group">
+          <input
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            placeholder="Current password"
+            autoComplete="current-password"
+            className="vf-settings-input"
+          />
+          <input
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            placeholder="New password (8+ characters)"
+            autoComplete="new-password"
+            className="vf-settings-input"
+          />
+          <button
+            type="button"
+            className="vf-settings-action-btn"
+            disabled={busy || !currentPassword || newPassword.length < 8}
+            onClick={handleSubmit}
+          >
+            Change
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Authenticator app sign-in; the state lives on the server, not in local settings
+const TwoFactorAuth: React.FC = () => {
+  const [status, setStatus] = useState<MFAStatus | null>(null);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [code, setCode] = useState('');
+  const [newCodes, setNewCodes] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await securityAPI.getMFAStatus());
+    } catch {
+      setError('Two-factor status is not available');
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      setCode('');
+    } catch (err) {
+      setError((err as any)?.response?.data?.message || fallback);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = () => run(async () => {
+    await securityAPI.disableMFA({ code });
+    setNewCodes([]);
+    await loadStatus();
+  }, 'Failed to disable two-factor authentication');
+
+  const handleNewCodes = () => run(async () => {
+    const { backupCodes } = await securityAPI.regenerateRecoveryCodes({ code });
+    setNewCodes(backupCodes);
+    await loadStatus();
+  }, 'Failed to create recovery codes');
+
+  if (isEnrolling) {
+    return (
+      <div className="vf-settings-field-row">
+        <MFASetup onComplete={() => {
+          setIsEnrolling(false);
+          loadStatus();
+        }} />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="vf-settings-field-row">
+        <div className="vf-settings-field-info">
+          <label className="vf-settings-field-label">Two-Factor Authentication</label>
+          <span className="vf-settings-field-description">
+            {!status
+              ? error || 'Loading...'
+              : status.enabled
+                ? `On: sign-in asks for a code from your authenticator app. ${status.recoveryCodesRemaining} recovery codes left.`
+                : 'Off: ask for a code from an authenticator app when signing in'}
+          </span>
+        </div>
+        <div className="vf-settings-field-control">
+          {status && !status.enabled && (
+            <button type="button" className="vf-settings-action-btn" onClick={() => setIsEnrolling(true)}>
+              Enable
+            </button>
+          )}
+        </div>
+      </div>
+
+      {status?.enabled && (
+        <div className="vf-settings-field-row">
+          <div className="vf-settings-field-info">
+            <label className="vf-settings-field-label">Manage Two-Factor Authentication</label>
+            <span className="vf-settings-field-description">
+              Enter a code from your authenticator app (or a recovery code to disable)
+            </span>
+            {error && <span className="vf-settings-field-description" style={{ color: '#d32f2f' }}>{error}</span>}
+          </div>
+          <div className="vf-settings-field-control">
+            <div className="vf-settings-button-group">
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="Code"
+                autoComplete="one-time-code"
+                className="vf-settings-input"
+                style={{ width: '120px' }}
+              />
+              <button type="button" className="vf-settings-action-btn secondary" disabled={busy || !code} onClick={handleNewCodes}>
+                New Recovery Codes
+              </button>
+              <button type="button" className="vf-settings-action-btn secondary" disabled={busy || !code} onClick={handleDisable}>
+                Disable
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {newCodes.length > 0 && (
+        <div className="vf-settings-field-row">
+          <div className="vf-settings-field-info">
+            <label className="vf-settings-field-label">New Recovery Codes</label>
+            <span className="vf-settings-field-description">
+              The old codes no longer work. Save these somewhere safe; they will not be shown again.
+            </span>
+            <code style={{ whiteSpace: 'pre', fontFamily: 'var(--vf-font-mono)' }}>{newCodes.join('\n')}</code>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+// Browser and OS from a user agent string, enough to tell sessions apart
+const describeDevice = (userAgent: string | null): string => {
+  if (!userAgent) return 'Unknown device';
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : '';
+  return os ? `${browser} on ${os}` : browser;
+};
+
+// Every device signed in to the account; revoking one signs it out
+const ActiveSessions: React.FC = () => {
+  const [sessions, setSessions] = useState<SessionInfo[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await securityAPI.listSessions());
+    } catch {
+      setError('Sessions are not available');
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      await loadSessions();
+    } catch (err) {
+      setError((err as any)?.response?.data?.message || fallback);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const others = sessions?.filter(session => !session.current) ?? [];
+
+  return (
+    <>
+      <div className="vf-settings-field-row">
+        <div className="vf-settings-field-info">
+          <label className="vf-settings-field-label">Active Sessions</label>
+          <span className="vf-settings-field-description">
+            {!sessions
+              ? error || 'Loading...'
+              : `Signed in on ${sessions.length} ${sessions.length === 1 ? 'device' : 'devices'}`}
+          </span>
+          {sessions && error && <span className="vf-settings-field-description" style={{ color: '#d32f2f' }}>{error}</span>}
+        </div>
+        <div className="vf-settings-field-control">
+          {others.length > 0 && (
+            <button
+              type="button"
+              className="vf-settings-action-btn secondary"
+              disabled={busy}
+              onClick={() => run(securityAPI.revokeOtherSessions, 'Failed to sign out other sessions')}
+            >
+              Sign Out Other Sessions
+            </button>
+          )}
+        </div>
+      </div>
+
+      {sessions?.map(session => (
+        <div key={session.id} className="vf-settings-field-row">
+          <div className="vf-settings-field-info">
+            <label className="vf-settings-field-label">
+              {describeDevice(session.userAgent)}{session.current && ' (this device)'}
+            </label>
+            <span className="vf-settings-field-description">
+              {[
+                session.ipAddress,
+                `signed in ${new Date(session.createdAt).toLocaleDateString()}`,
+                `last active ${new Date(session.lastUsedAt ?? session.createdAt).toLocaleString()}`
+              ].filter(Boolean).join(' · ')}
+            </span>
+          </div>
+          <div className="vf-settings-field-control">
+            {!session.current && (
+              <button
+                type="button"
+                className="vf-settings-action-btn secondary"
+                disabled={busy}
+                onClick={() => run(() => securityAPI.revokeSession(session.id), 'Failed to revoke session')}
+              >
+                Revoke
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </>
+  );
+};
 
 export const SecuritySection: React.FC = () => {
   const dispatch = useAppDispatch();
@@ -43,20 +395,11 @@ export const SecuritySection: React.FC = () => {
               </div>
             </div>
 
-            <div className="vf-settings-field-row">
-              <div className="vf-settings-field-info">
-                <label className="vf-settings-field-label">Two-Factor Authentication</label>
-                <span className="vf-settings-field-description">Require 2FA for login</span>
-              </div>
-              <div className="vf-settings-field-control">
-                <input
-                  type="checkbox"
-                  checked={security.twoFactorAuth}
-                  onChange={(e) => handleChange('twoFactorAuth', e.target.checked)}
-                  className="vf-settings-checkbox"
-                />
-              </div>
-            </div>
+            <EmailVerification />
+
+            <ChangePassword />
+
+            <TwoFactorAuth />
 
             <div className="vf-settings-field-row">
               <div className="vf-settings-field-info">
@@ -75,6 +418,13 @@ export const SecuritySection: React.FC = () => {
           </div>
         </div>
 
+        <div className="vf-settings-group">
+          <h3 className="vf-settings-group-title">Sessions</h3>
+          <div className="vf-settings-group-content">
+            <ActiveSessions />
+          </div>
+        </div>
+
         <div className="vf-settings-group">
           <h3 className="vf-settings-group-title">Privacy</h3>
           <div className="vf-settings-group-content">
@@ -1,23 +1,186 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAppDispatch, useAppSelector } from '@/hooks/redux';
 import { authSlice } from '@/store/auth';
-import { useAuthService } from '@/services/auth';
+import { OAuthProvider, useAuthService } from '@/services/auth';
 import { VaporformLogo } from '@/components/ui/Icons';
 import { Button } from '@/components/ui/Button';
 import { LoadingScreen } from '@/components/ui/LoadingScreen';
 import './AuthPage.css';
 
+// The provider and state of the OAuth sign-in this browser started, to check the redirect back
+const OAUTH_STATE_KEY = 'vaporform_oauth_state';
+
+// Forgotten passwords: ask for a reset link, or choose a new password with the token from one
+const PasswordRecoveryForm: React.FC<{ resetToken: string | null; onBack: () => void }> = ({ resetToken, onBack }) => {
+  const authService = useAuthService();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError('');
+    try {
+      if (resetToken) {
+        await authService.resetPassword(resetToken, password);
+        setNotice('Password changed. Sign in with your new password.');
+      } else {
+        await authService.forgotPassword(email);
+        setNotice('If an account uses that address, a reset link is on its way.');
+      }
+    } catch (err) {
+      setError((err as any)?.response?.data?.message || 'Something went wrong; try again');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form className="vf-auth-form" onSubmit={handleSubmit}>
+      <h2 className="vf-auth-form-title">
+        {resetToken ? 'NEW PASSWORD' : 'RESET PASSWORD'}
+      </h2>
+      <p className="vf-auth-form-subtitle">
+        {resetToken ? 'CHOOSE A NEW PASSWORD FOR YOUR ACCOUNT' : 'WE WILL EMAIL YOU A LINK TO CHOOSE A NEW PASSWORD'}
+      </p>
+
+      {error && (
+        <div className="vf-auth-error">
+          {error}
+        </div>
+      )}
+
+      {notice ? (
+        <div className="vf-auth-notice">
+          {notice}
+        </div>
+      ) : (
+        <>
+          <div className="vf-auth-form-group">
+            {resetToken ? (
+              <>
+                <label htmlFor="newPassword" className="vf-auth-label">NEW PASSWORD</label>
+                <input
+                  id="newPassword"
+                  type="password"
+                  className="vf-input"
+                  placeholder="AT LEAST 8 CHARACTERS"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="new-password"
+                  minLength={8}
+                  required
+                />
+              </>
+            ) : (
+              <>
+                <label htmlFor="recoveryEmail" className="vf-auth-label">EMAIL ADDRESS</label>
+                <input
+                  id="recoveryEmail"
+                  type="email"
+                  className="vf-input"
+                  placeholder="ENTER YOUR EMAIL"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  autoComplete="email"
+                  required
+                />
+              </>
+            )}
+          </div>
+
+          <Button
+            type="submit"
+            variant="primary"
+            size="lg"
+            loading={busy}
+            className="vf-auth-submit-btn"
+          >
+            {resetToken ? 'SET PASSWORD' : 'SEND RESET LINK'}
+          </Button>
+        </>
+      )}
+
+      <div className="vf-auth-switch">
+        <button type="button" onClick={onBack} className="vf-auth-switch-btn">
+          BACK TO SIGN IN
+        </button>
+      </div>
+    </form>
+  );
+};
+
 export const AuthPage: React.FC = () => {
   const dispatch = useAppDispatch();
   const authService = useAuthService();
+  const location = useLocation();
+  const navigate = useNavigate();
   const { isLoading, error } = useAppSelector(state => state.auth);
   
-  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [mode, setMode] = useState<'login' | 'register' | 'forgot'>('login');
+  // Links in password reset emails open /reset-password?token=...
+  const resetToken = location.pathname === '/reset-password'
+    ? new URLSearchParams(location.search).get('token')
+    : null;
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     password: ''
   });
+  // Set when the password was right and the account asks for a second factor
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
+  const [providers, setProviders] = useState<OAuthProvider[]>([]);
+  // The code works once, so the callback must not be handled twice when effects run twice
+  const callbackHandled = useRef(false);
+
+  useEffect(() => {
+    authService.getOAuthProviders()
+      .then(setProviders)
+      .catch(() => setProviders([]));
+  }, [authService]);
+
+  useEffect(() => {
+    // Providers redirect back to /oauth/:provider/callback?code=...&state=...
+    const oauthCallback = location.pathname.match(/^\/oauth\/([^/]+)\/callback$/);
+    if (!oauthCallback || callbackHandled.current) return;
+    callbackHandled.current = true;
+
+    const provider = oauthCallback[1]!;
+    const params = new URLSearchParams(location.search);
+    const started = JSON.parse(sessionStorage.getItem(OAUTH_STATE_KEY) || 'null');
+    sessionStorage.removeItem(OAUTH_STATE_KEY);
+    navigate('/', { replace: true });
+
+    if (params.get('error')) {
+      dispatch(authSlice.actions.loginFailure('Sign-in was cancelled'));
+      return;
+    }
+    // A redirect for a sign-in this browser did not start could sign it in to someone else's account
+    if (!started || started.provider !== provider || started.state !== params.get('state')) {
+      dispatch(authSlice.actions.loginFailure('This sign-in was not started here; try again'));
+      return;
+    }
+
+    dispatch(authSlice.actions.loginStart());
+    authService.completeOAuthLogin(provider, params.get('code') || '', started.state)
+      .then((result) => {
+        if ('mfaRequired' in result) {
+          setMfaToken(result.mfaToken);
+          setMfaCode('');
+          dispatch(authSlice.actions.setLoading(false));
+          return;
+        }
+        dispatch(authSlice.actions.loginSuccess(result));
+      })
+      .catch((err) => {
+        dispatch(authSlice.actions.loginFailure((err as any)?.response?.data?.message || 'Sign-in failed'));
+      });
+  }, [authService, dispatch, navigate, location.pathname, location.search]);
 
   if (isLoading) {
     return <LoadingScreen message="Authenticating..." />;
@@ -30,11 +193,19 @@ export const AuthPage: React.FC = () => {
     
     try {
       let result;
-      if (mode === 'login') {
+      if (mfaToken) {
+        result = await authService.completeMfaLogin(mfaToken, mfaCode);
+      } else if (mode === 'login') {
         result = await authService.login({
           email: formData.email,
           password: formData.password
         });
+        if ('mfaRequired' in result) {
+          setMfaToken(result.mfaToken);
+          setMfaCode('');
+          dispatch(authSlice.actions.setLoading(false));
+          return;
+        }
       } else {
         result = await authService.register({
           name: formData.name,
@@ -43,10 +214,24 @@ export const AuthPage: React.FC = () => {
         });
       }
       
+      setMfaToken(null);
       dispatch(authSlice.actions.loginSuccess(result));
     } catch (error) {
       dispatch(authSlice.actions.loginFailure(
-        error instanceof Error ? error.message : 'Authentication failed'
+        (error as any)?.response?.data?.message || (error instanceof Error ? error.message : 'Authentication failed')
+      ));
+    }
+  };
+
+  const handleOAuth = async (provider: OAuthProvider) => {
+    dispatch(authSlice.actions.clearError());
+    try {
+      const { authorizationUrl, state } = await authService.startOAuthLogin(provider.id);
+      sessionStorage.setItem(OAUTH_STATE_KEY, JSON.stringify({ provider: provider.id, state }));
+      window.location.assign(authorizationUrl);
+    } catch (err) {
+      dispatch(authSlice.actions.loginFailure(
+        (err as any)?.response?.data?.message || `Sign-in with ${provider.name} is not available`
       ));
     }
   };
@@ -58,6 +243,24 @@ export const AuthPage: React.FC = () => {
     }));
   };
 
+  const cancelMfa = () => {
+    setMfaToken(null);
+    setMfaCode('');
+    dispatch(authSlice.actions.clearError());
+  };
+
+  const leaveRecovery = () => {
+    setMode('login');
+    if (resetToken) {
+      navigate('/', { replace: true });
+    }
+  };
+
+  const showRecovery = () => {
+    setMode('forgot');
+    dispatch(authSlice.actions.clearError());
+  };
+
   const toggleMode = () => {
     setMode(prev => prev === 'login' ? 'register' : 'login');
     dispatch(authSlice.actions.clearError());
@@ -87,98 +290,168 @@ export const AuthPage: React.FC = () => {
       </div>
       
       <div className="vf-auth-right-panel">
-        <form className="vf-auth-form" onSubmit={handleSubmit}>
-          <h2 className="vf-auth-form-title">
-            {mode === 'login' ? 'WELCOME BACK' : 'CREATE ACCOUNT'}
-          </h2>
-          <p className="vf-auth-form-subtitle">
-            {mode === 'login' 
-              ? 'SIGN IN TO YOUR VAPORFORM ACCOUNT'
-              : 'JOIN THE FUTURE OF DEVELOPMENT'
-            }
-          </p>
-          
-          {error && (
-            <div className="vf-auth-error">
-              {error}
-            </div>
-          )}
-          
-          {mode === 'register' && (
-            <div className="vf-auth-form-group">
-              <label htmlFor="name" className="vf-auth-label">FULL NAME</label>
-              <input
-                id="name"
-                name="name"
-                type="text"
-                className="vf-input"
-                placeholder="ENTER YOUR FULL NAME"
-                value={formData.name}
-                onChange={handleInputChange}
-                autoComplete="name"
-                required
-              />
-            </div>
-          )}
-          
-          <div className="vf-auth-form-group">
-            <label htmlFor="email" className="vf-auth-label">EMAIL ADDRESS</label>
-            <input
-              id="email"
-              name="email"
-              type="email"
-              className="vf-input"
-              placeholder="ENTER YOUR EMAIL"
-              value={formData.email}
-              onChange={handleInputChange}
-              autoComplete="email"
-              required
-            />
-          </div>
-          
-          <div className="vf-auth-form-group">
-            <label htmlFor="password" className="vf-auth-label">PASSWORD</label>
-            <input
-              id="password"
-              name="password"
-              type="password"
-              className="vf-input"
-              placeholder="ENTER YOUR PASSWORD"
-              value={formData.password}
-              onChange={handleInputChange}
-              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
-              required
-            />
-          </div>
+        {mode === 'forgot' || resetToken ? (
+          <PasswordRecoveryForm resetToken={resetToken} onBack={leaveRecovery} />
+        ) : (
+          <form className="vf-auth-form" onSubmit={handleSubmit}>
+            <h2 className="vf-auth-form-title">
+              {mode === 'login' ? 'WELCOME BACK' : 'CREATE ACCOUNT'}
+            </h2>
+            <p className="vf-auth-form-subtitle">
+              {mfaToken
+                ? 'ENTER THE CODE FROM YOUR AUTHENTICATOR APP'
+                : mode === 'login' 
+                ? 'SIGN IN TO YOUR VAPORFORM ACCOUNT'
+                : 'JOIN THE FUTURE OF DEVELOPMENT'
+              }
+            </p>
           
-          <Button
-            type="submit"
-            variant="primary"
-            size="lg"
-            loading={isLoading}
-            className="vf-auth-submit-btn"
-          >
-            {mode === 'login' ? 'SIGN IN' : 'CREATE ACCOUNT'}
-          </Button>
+            {error && (
+              <div className="vf-auth-error">
+                {error}
+              </div>
+            )}
           
-          <div className="vf-auth-switch">
-            {mode === 'login' ? (
+            {mfaToken ? (
               <>
-                Don't have an account?{' '}
-                <button type="button" onClick={toggleMode} className="vf-auth-switch-btn">
-                  SIGN UP
-                </button>
+                <div className="vf-auth-form-group">
+                  <label htmlFor="mfaCode" className="vf-auth-label">VERIFICATION CODE</label>
+                  <input
+                    id="mfaCode"
+                    name="mfaCode"
+                    type="text"
+                    className="vf-input"
+                    placeholder="CODE FROM YOUR AUTHENTICATOR APP OR A RECOVERY CODE"
+                    value={mfaCode}
+                    onChange={(e) => setMfaCode(e.target.value)}
+                    autoComplete="one-time-code"
+                    autoFocus
+                    required
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  variant="primary"
+                  size="lg"
+                  loading={isLoading}
+                  className="vf-auth-submit-btn"
+                >
+                  VERIFY
+                </Button>
+
+                <div className="vf-auth-switch">
+                  <button type="button" onClick={cancelMfa} className="vf-auth-switch-btn">
+                    BACK TO SIGN IN
+                  </button>
+                </div>
               </>
             ) : (
               <>
-                Already have an account?{' '}
-                <button type="button" onClick={toggleMode} className="vf-auth-switch-btn">
-                  SIGN IN
-                </button>
+                {mode === 'register' && (
+                  <div className="vf-auth-form-group">
+                    <label htmlFor="name" className="vf-auth-label">FULL NAME</label>
+                    <input
+                      id="name"
+                      name="name"
+                      type="text"
+                      className="vf-input"
+                      placeholder="ENTER YOUR FULL NAME"
+                      value={formData.name}
+                      onChange={handleInputChange}
+                      autoComplete="name"
+                      required
+                    />
+                  </div>
+                )}
+          
+                <div className="vf-auth-form-group">
+                  <label htmlFor="email" className="vf-auth-label">EMAIL ADDRESS</label>
+                  <input
+                    id="email"
+                    name="email"
+                    type="email"
+                    className="vf-input"
+                    placeholder="ENTER YOUR EMAIL"
+                    value={formData.email}
+                    onChange={handleInputChange}
+                    autoComplete="email"
+                    required
+                  />
+                </div>
+          
+                <div className="vf-auth-form-group">
+                  <label htmlFor="password" className="vf-auth-label">PASSWORD</label>
+                  <input
+                    id="password"
+                    name="password"
+                    type="password"
+                    className="vf-input"
+                    placeholder="ENTER YOUR PASSWORD"
+                    value={formData.password}
+                    onChange={handleInputChange}
+                    autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                    required
+                  />
+                </div>
+          
+                <Button
+                  type="submit"
+                  variant="primary"
+                  size="lg"
+                  loading={isLoading}
+                  className="vf-auth-submit-btn"
+                >
+                  {mode === 'login' ? 'SIGN IN' : 'CREATE ACCOUNT'}
+                </Button>
+
+                {providers.length > 0 && (
+                  <div className="vf-auth-providers">
+                    <div className="vf-auth-divider">OR</div>
+                    {providers.map(provider => (
+                      <Button
+                        key={provider.id}
+                        type="button"
+                        variant="secondary"
+                        size="lg"
+                        className="vf-auth-provider-btn"
+                        onClick={() => handleOAuth(provider)}
+                      >
+                        CONTINUE WITH {provider.name.toUpperCase()}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+          
+                {mode === 'login' && (
+                  <div className="vf-auth-switch">
+                    <button type="button" onClick={showRecovery} className="vf-auth-switch-btn">
+                      FORGOT PASSWORD?
+                    </button>
+                  </div>
+                )}
+
+                <div className="vf-auth-switch">
+                  {mode === 'login' ? (
+                    <>
+                      Don't have an account?{' '}
+                      <button type="button" onClick={toggleMode} className="vf-auth-switch-btn">
+                        SIGN UP
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      Already have an account?{' '}
+                      <button type="button" onClick={toggleMode} className="vf-auth-switch-btn">
+                        SIGN IN
+                      </button>
+                    </>
+                  )}
+                </div>
               </>
             )}
-          </div>
-        </form>
+          </form>
+        )}
       </div>
     </div>
   );
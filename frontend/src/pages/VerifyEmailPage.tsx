@@ -0,0 +1,86 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAppDispatch, useAppSelector } from '@/hooks/redux';
+import { authSlice } from '@/store/auth';
+import { useAuthService } from '@/services/auth';
+import { VaporformLogo } from '@/components/ui/Icons';
+import { Button } from '@/components/ui/Button';
+import './AuthPage.css';
+
+// Landing page for links in verification emails (/verify-email?token=...), signed in or not
+export const VerifyEmailPage: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const authService = useAuthService();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { isAuthenticated } = useAppSelector(state => state.auth);
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [message, setMessage] = useState('');
+  // Tokens work once, so the request must not repeat when effects run twice
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (requested.current) return;
+    requested.current = true;
+
+    const token = new URLSearchParams(location.search).get('token');
+    if (!token) {
+      setStatus('failed');
+      setMessage('This link has no verification token');
+      return;
+    }
+
+    authService.verifyEmail(token)
+      .then(({ email }) => {
+        setStatus('verified');
+        setMessage(`${email} is verified`);
+        if (isAuthenticated) {
+          dispatch(authSlice.actions.updateUser({ emailVerified: true }));
+        }
+      })
+      .catch((err) => {
+        setStatus('failed');
+        setMessage((err as any)?.response?.data?.message || 'Email verification failed');
+      });
+  }, [authService, dispatch, isAuthenticated, location.search]);
+
+  return (
+    <div className="vf-auth-container">
+      <div className="vf-auth-left-panel">
+        <div className="vf-auth-logo">
+          <VaporformLogo size={80} />
+        </div>
+        <h1 className="vf-auth-brand-title">VAPORFORM</h1>
+      </div>
+
+      <div className="vf-auth-right-panel">
+        <div className="vf-auth-form">
+          <h2 className="vf-auth-form-title">VERIFY EMAIL</h2>
+          <p className="vf-auth-form-subtitle">
+            {status === 'verifying'
+              ? 'CONFIRMING YOUR EMAIL ADDRESS...'
+              : status === 'verified'
+              ? 'YOUR EMAIL ADDRESS IS CONFIRMED'
+              : 'THIS LINK DID NOT WORK'
+            }
+          </p>
+
+          {status === 'verified' && <div className="vf-auth-notice">{message}</div>}
+          {status === 'failed' && <div className="vf-auth-error">{message}</div>}
+
+          {status !== 'verifying' && (
+            <Button
+              type="button"
+              variant="primary"
+              size="lg"
+              className="vf-auth-submit-btn"
+              onClick={() => navigate('/', { replace: true })}
+            >
+              {isAuthenticated ? 'CONTINUE TO VAPORFORM' : 'SIGN IN'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,18 @@
 import axios from 'axios';
-import type { AiMessage } from '@/store/ai';
+import type { AiConversation, AiMessage, MessageFeedback } from '@/store/ai';
 import { API_BASE_ALT } from '../config/environment';
 
 const API_BASE = API_BASE_ALT;
 
 interface SendMessageRequest {
-  conversationId: string;
+  // A new conversation is started on the server without one
+  conversationId?: string;
+  projectId?: string;
   message: string;
   context?: string[];
+  // Project file paths the server reads into the context, and container log lines it scans for errors
+  contextFiles?: string[];
+  logs?: string[];
   settings: {
     model: string;
     temperature: number;
@@ -20,6 +25,9 @@ interface SendMessageRequest {
 }
 
 interface SendMessageResponse {
+  conversationId?: string;
+  // The user message and answer as the server stored them
+  messages?: AiMessage[];
   content: string;
   metadata?: {
     tokens?: number;
@@ -33,6 +41,36 @@ interface SendMessageResponse {
   };
 }
 
+// A stored conversation without its messages, as listed by the server
+export interface AiConversationSummary {
+  id: string;
+  title: string;
+  projectId?: string;
+  tags: string[];
+  messageCount: number;
+  totalTokens: number;
+  totalCost: number;
+  forkedFrom?: string;
+  preview?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A rating of an assistant message (UserFeedback in shared/src/types/ai.ts)
+export interface MessageFeedbackRequest {
+  rating: 1 | 2 | 3 | 4 | 5;
+  helpful: boolean;
+  comment?: string;
+}
+
+export interface ListConversationsParams {
+  projectId?: string;
+  tag?: string;
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
 interface CodeGenerationRequest {
   prompt: string;
   language: string;
@@ -40,10 +78,182 @@ interface CodeGenerationRequest {
   filePath?: string;
 }
 
-interface CodeAnalysisRequest {
+export type CodeReviewFocus = 'security' | 'performance' | 'maintainability' | 'style' | 'bugs' | 'best-practices';
+
+export interface CodeReviewRequest {
   code: string;
   language: string;
-  analysisType: 'bugs' | 'performance' | 'security' | 'style' | 'documentation';
+  focusAreas?: CodeReviewFocus[];
+  // Lowest severity to report
+  severity?: 'low' | 'medium' | 'high';
+  includeRefactoring?: boolean;
+  projectId?: string;
+  filePath?: string;
+}
+
+export interface CodeIssue {
+  type: 'bug' | 'security' | 'performance' | 'style' | 'maintainability';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  // 1-based; issues without a line apply to the whole file
+  line?: number;
+  endLine?: number;
+  column?: number;
+  endColumn?: number;
+  message: string;
+  suggestion?: string;
+  rule?: string;
+  // Replaces lines line..endLine
+  fix?: { description: string; replacement: string };
+}
+
+export interface CodeImprovement {
+  type: 'optimization' | 'modernization' | 'simplification' | 'best-practice';
+  description: string;
+  impact: 'low' | 'medium' | 'high';
+  effort: 'low' | 'medium' | 'high';
+  codeSnippet?: string;
+}
+
+export interface CodeReview {
+  issues: CodeIssue[];
+  improvements: CodeImprovement[];
+  score: number;
+  summary: string;
+}
+
+export interface GenerateTestsRequest {
+  projectId: string;
+  filePath: string;
+  testType?: 'unit' | 'integration' | 'e2e';
+  // Overrides the framework detected from the project's dependencies
+  framework?: string;
+  coverage?: 'basic' | 'comprehensive' | 'edge-cases';
+  mockingStrategy?: 'minimal' | 'extensive';
+  overwrite?: boolean;
+  conversationId?: string;
+}
+
+export interface GeneratedTests {
+  file: { id: string; path: string; created: boolean };
+  framework: { name: string; installed: boolean; testPath: string; command: string };
+  tests: string;
+  coverage: string[];
+  explanation: string;
+  conversationId?: string;
+  messages?: AiMessage[];
+}
+
+export interface InlineCompletionRequest {
+  // Text before and after the cursor
+  prefix: string;
+  suffix?: string;
+  language: string;
+  filePath?: string;
+}
+
+export type AIServiceType =
+  | 'chat'
+  | 'code_completion'
+  | 'code_generation'
+  | 'code_review'
+  | 'debugging'
+  | 'testing'
+  | 'refactoring'
+  | 'documentation';
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // USD
+  cost: number;
+}
+
+export interface QuotaStatus {
+  // null when there is no limit
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetsAt: string;
+}
+
+export interface UsageReportParams {
+  projectId?: string;
+  days?: number;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  projectId?: string;
+  totals: UsageTotals;
+  byModel: Array<UsageTotals & { model: string }>;
+  byService: Array<UsageTotals & { serviceType: AIServiceType }>;
+  byDay: Array<UsageTotals & { day: string }>;
+  byProject?: Array<UsageTotals & { projectId: string | null; projectName: string | null }>;
+  quota: { daily: QuotaStatus; monthly: QuotaStatus };
+}
+
+export interface PatchHunk {
+  id: string;
+  // 1-based line in the original file where the hunk's old lines start
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+  // Unchanged lines around the hunk, used to re-anchor it on apply
+  before: string[];
+  after: string[];
+}
+
+export interface FilePatch {
+  path: string;
+  action: 'modify' | 'create' | 'delete';
+  fileId?: string;
+  baseVersion?: number;
+  baseHash?: string;
+  oldContent: string;
+  newContent: string;
+  hunks: PatchHunk[];
+  stats: { additions: number; deletions: number };
+}
+
+export interface PatchConflict {
+  path: string;
+  hunkId?: string;
+  reason: string;
+}
+
+export interface ProposeEditsRequest {
+  projectId: string;
+  instruction: string;
+  files: Array<{ path: string; selection?: { startLine: number; endLine: number } }>;
+  goals?: Array<'performance' | 'readability' | 'maintainability' | 'modularity' | 'reduce-complexity'>;
+  preserveBehavior?: boolean;
+  modernizeCode?: boolean;
+}
+
+export interface EditProposal {
+  summary: string;
+  files: FilePatch[];
+}
+
+export interface ApplyEditsRequest {
+  projectId: string;
+  files: Array<{
+    path: string;
+    action: FilePatch['action'];
+    baseHash?: string;
+    hunks?: PatchHunk[];
+    content?: string;
+  }>;
+  message?: string;
+}
+
+export interface ApplyEditsResult {
+  applied: boolean;
+  files: Array<{ path: string; action: FilePatch['action']; fileId?: string; version?: number; content?: string }>;
+  conflicts: PatchConflict[];
 }
 
 interface CodeSuggestion {
@@ -58,16 +268,103 @@ interface CodeSuggestion {
 }
 
 class AiService {
-  private baseURL = `${API_BASE}/api/ai`;
+  private baseURL = `${API_BASE}/ai`;
 
   async sendMessage(request: SendMessageRequest): Promise<SendMessageResponse> {
     const token = localStorage.getItem('vaporform_token');
-    const response = await axios.post(`${this.baseURL}/chat`, request, {
+    const response = await axios.post(`${this.baseURL}/chat`, {
+      message: request.message,
+      ...(request.conversationId ? { sessionId: request.conversationId } : {}),
+      ...(request.projectId ? { projectId: request.projectId } : {}),
+      ...(request.context?.length ? { context: request.context.join('\n\n') } : {}),
+      ...(request.contextFiles?.length ? { contextFiles: request.contextFiles } : {}),
+      ...(request.logs?.length ? { logs: request.logs } : {}),
+      config: { temperature: request.settings.temperature, maxTokens: Math.min(request.settings.maxTokens, 8000) }
+    }, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return {
+      conversationId: response.data.sessionId,
+      messages: response.data.messages,
+      content: response.data.response,
+      metadata: { tokens: response.data.usage.totalTokens, model: response.data.model }
+    };
+  }
+
+  // Conversations
+  async listConversations(params: ListConversationsParams = {}): Promise<{ conversations: AiConversationSummary[]; total: number }> {
+    const token = localStorage.getItem('vaporform_token');
+    const response = await axios.get(`${this.baseURL}/conversations`, {
+      params,
       headers: { Authorization: `Bearer ${token}` }
     });
     return response.data;
   }
 
+  async getConversation(id: string): Promise<AiConversation> {
+    const token = localStorage.getItem('vaporform_token');
+    const response = await axios.get(`${this.baseURL}/conversations/${id}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return toConversation(response.data);
+  }
+
+  async createConversation(request: { title?: string; projectId?: string; tags?: string[] }): Promise<AiConversation> {
+    const token = localStorage.getItem('vaporform_token');
+    const response = await axios.post(`${this.baseURL}/conversations`, request, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return toConversation(response.data);
+  }
+
+  // Rename and/or retag
+  async updateConversation(id: string, updates: { title?: string; tags?: string[] }): Promise<AiConversationSummary> {
+    const token = localStorage.getItem('vaporform_token');
+    const response = await axios.put(`${this.baseURL}/conversations/${id}`, updates, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return response.data;
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    const token = localStorage.getItem('vaporform_token');
+    await axios.delete(`${this.baseURL}/conversations/${id}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  }
+
+  async clearConversation(id: string): Promise<void> {
+    const token = localStorage.getItem('vaporform_token');
+    await axios.delete(`${this.baseURL}/conversations/${id}/messages`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  }
+
+  // Copy the conversation up to and including messageId (all of it without one) into a new conversation
+  async forkConversation(id: string, options: { messageId?: string; title?: string } = {}): Promise<AiConversation> {
+    const token = localStorage.getItem('vaporform_token');
+    const response = await axios.post(`${this.baseURL}/conversations/${id}/fork`, options, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return toConversation(response.data);
+  }
+
+  // Rate an assistant message; rating it again replaces the earlier rating
+  async setMessageFeedback(messageId: string, feedback: MessageFeedbackRequest): Promise<MessageFeedback> {
+    const token = localStorage.getItem('vaporform_token');
+    const response = await axios.put(`${this.baseURL}/messages/${messageId}/feedback`, feedback, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return response.data;
+  }
+
+  async deleteMessageFeedback(messageId: string): Promise<void> {
+    const token = localStorage.getItem('vaporform_token');
+    await axios.delete(`${this.baseURL}/messages/${messageId}/feedback`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  }
+
   async generateCode(request: CodeGenerationRequest): Promise<{ code: string; explanation: string }> {
     const token = localStorage.getItem('vaporform_token');
     const response = await axios.post(`${this.baseURL}/generate-code`, request, {
@@ -76,23 +373,24 @@ class AiService {
     return response.data;
   }
 
-  async analyzeCode(request: CodeAnalysisRequest): Promise<{
-    issues: Array<{
-      type: string;
-      severity: 'low' | 'medium' | 'high';
-      message: string;
-      lineNumber?: number;
-      suggestion?: string;
-    }>;
-    summary: string;
-  }> {
+  async reviewCode(request: CodeReviewRequest): Promise<CodeReview> {
     const token = localStorage.getItem('vaporform_token');
-    const response = await axios.post(`${this.baseURL}/analyze-code`, request, {
+    const response = await axios.post(`${this.baseURL}/review`, request, {
       headers: { Authorization: `Bearer ${token}` }
     });
     return response.data;
   }
 
+  // Text to insert at the cursor, or '' when there is none; aborting `signal` cancels the request
+  async completeInline(request: InlineCompletionRequest, signal?: AbortSignal): Promise<string> {
+    const token = localStorage.getItem('vaporform_token');
+    const response = await axios.post(`${this.baseURL}/complete`, request, {
+      headers: { Authorization: `Bearer ${token}` },
+      ...(signal ? { signal } : {})
+    });
+    return response.data.completion;
+  }
+
   async getSuggestions(filePath: string, context?: string[]): Promise<CodeSuggestion[]> {
     const token = localStorage.getItem('vaporform_token');
     const response = await axios.get(`${this.baseURL}/suggestions`, {
@@ -117,37 +415,28 @@ class AiService {
     return response.data;
   }
 
-  async generateTests(code: string, language: string, framework?: string): Promise<{
-    tests: string;
-    coverage: string[];
-    explanation: string;
-  }> {
+  // Writes the tests into the project and optionally reports them to a conversation
+  async generateTests(request: GenerateTestsRequest): Promise<GeneratedTests> {
     const token = localStorage.getItem('vaporform_token');
-    const response = await axios.post(`${this.baseURL}/generate-tests`, {
-      code,
-      language,
-      framework
-    }, {
+    const response = await axios.post(`${this.baseURL}/tests`, request, {
       headers: { Authorization: `Bearer ${token}` }
     });
     return response.data;
   }
 
-  async refactorCode(code: string, language: string, instructions: string): Promise<{
-    refactoredCode: string;
-    changes: Array<{
-      type: string;
-      description: string;
-      lineNumber?: number;
-    }>;
-    explanation: string;
-  }> {
+  // Asks for a multi-file edit; nothing is written until the patch is applied
+  async proposeEdits(request: ProposeEditsRequest): Promise<EditProposal> {
     const token = localStorage.getItem('vaporform_token');
-    const response = await axios.post(`${this.baseURL}/refactor-code`, {
-      code,
-      language,
-      instructions
-    }, {
+    const response = await axios.post(`${this.baseURL}/edits`, request, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return response.data;
+  }
+
+  // Applies the accepted hunks atomically; conflicts leave the project untouched
+  async applyEdits(request: ApplyEditsRequest): Promise<ApplyEditsResult> {
+    const token = localStorage.getItem('vaporform_token');
+    const response = await axios.post(`${this.baseURL}/edits/apply`, request, {
       headers: { Authorization: `Bearer ${token}` }
     });
     return response.data;
@@ -168,25 +457,24 @@ class AiService {
     return response.data;
   }
 
-  async getUsageStats(): Promise<{
-    tokensUsed: number;
-    requestsCount: number;
-    monthlyLimit: number;
-    resetDate: string;
-  }> {
+  // The caller's own usage, or with projectId the usage of a project they own
+  async getUsageReport(params?: UsageReportParams): Promise<UsageReport> {
     const token = localStorage.getItem('vaporform_token');
     const response = await axios.get(`${this.baseURL}/usage`, {
+      params,
       headers: { Authorization: `Bearer ${token}` }
     });
     return response.data;
   }
 
-  // Streaming support for real-time responses
+  // Streaming support for real-time responses. Exactly one of onComplete and onError is called;
+  // aborting `signal` cancels the request and reports an AbortError to onError.
   async streamMessage(
     request: SendMessageRequest,
     onChunk: (chunk: string) => void,
     onComplete: (response: SendMessageResponse) => void,
-    onError: (error: Error) => void
+    onError: (error: Error) => void,
+    signal?: AbortSignal
   ): Promise<void> {
     const token = localStorage.getItem('vaporform_token');
     
@@ -197,11 +485,13 @@ class AiService {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${token}`
         },
-        body: JSON.stringify(request)
+        body: JSON.stringify(request),
+        ...(signal ? { signal } : {})
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || `HTTP error! status: ${response.status}`);
       }
 
       const reader = response.body?.getReader();
@@ -229,30 +519,52 @@ class AiService {
             if (data === '[DONE]') {
               if (finalResponse) {
                 onComplete(finalResponse);
+              } else {
+                onError(new Error('The response ended without an answer'));
               }
               return;
             }
             
+            let parsed;
             try {
-              const parsed = JSON.parse(data);
-              
-              if (parsed.type === 'chunk') {
-                onChunk(parsed.content);
-              } else if (parsed.type === 'complete') {
-                finalResponse = parsed.response;
-              }
+              parsed = JSON.parse(data);
             } catch (e) {
               console.warn('Failed to parse streaming data:', data);
+              continue;
+            }
+
+            if (parsed.type === 'chunk') {
+              onChunk(parsed.content);
+            } else if (parsed.type === 'complete') {
+              finalResponse = parsed.response;
+            } else if (parsed.type === 'error') {
+              throw new Error(parsed.message || 'The AI request failed');
             }
           }
         }
       }
+
+      // The connection closed before the server finished
+      throw new Error('The response stream was interrupted');
     } catch (error) {
       onError(error as Error);
     }
   }
 }
 
+// The server omits projectId for conversations outside a project; the slice stores it as undefined
+function toConversation(data: AiConversationSummary & { messages: AiMessage[] }): AiConversation {
+  return {
+    id: data.id,
+    title: data.title,
+    messages: data.messages,
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+    projectId: data.projectId,
+    tags: data.tags
+  };
+}
+
 export const aiService = new AiService();
 
 // Hook for using AI service
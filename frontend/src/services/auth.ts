@@ -15,19 +15,70 @@ interface RegisterCredentials {
   password: string;
 }
 
+// A user as the auth endpoints return it, with snake_case fields; the auth slice stores it as a User
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  role: User['role'];
+  email_verified: boolean;
+  last_login: string | null;
+  mfa_enabled: boolean;
+}
+
 interface AuthResponse {
-  user: User;
+  user: AuthUser;
   token: string;
 }
 
+// Returned by login instead of tokens when the account has MFA on
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+  // Seconds left to enter the code
+  expiresIn: number;
+}
+
+export interface OAuthProvider {
+  id: 'github' | 'gitlab' | 'google';
+  name: string;
+}
+
 class AuthService {
   private baseURL = `${API_BASE}`;
 
-  async login(credentials: LoginCredentials): Promise<AuthResponse> {
+  async login(credentials: LoginCredentials): Promise<AuthResponse | MfaChallenge> {
     const response = await axios.post(`${this.baseURL}/auth/login`, credentials);
     return response.data;
   }
 
+  // Second sign-in step: a code from the authenticator app or a recovery code
+  async completeMfaLogin(mfaToken: string, code: string): Promise<AuthResponse> {
+    const response = await axios.post(`${this.baseURL}/auth/login/mfa`, { mfaToken, code });
+    return response.data;
+  }
+
+  // Providers the server has credentials for; none when OAuth is not set up
+  async getOAuthProviders(): Promise<OAuthProvider[]> {
+    const response = await axios.get(`${this.baseURL}/auth/oauth/providers`);
+    return response.data.providers;
+  }
+
+  // Where to send the browser to sign in with a provider, and the state it will come back with
+  async startOAuthLogin(provider: string): Promise<{ authorizationUrl: string; state: string }> {
+    const response = await axios.post(`${this.baseURL}/auth/oauth/${encodeURIComponent(provider)}/start`, {});
+    return response.data;
+  }
+
+  // Finish a provider sign-in with the code and state from its redirect back
+  async completeOAuthLogin(provider: string, code: string, state: string): Promise<AuthResponse | MfaChallenge> {
+    const response = await axios.post(`${this.baseURL}/auth/oauth/${encodeURIComponent(provider)}/callback`, {
+      code,
+      state
+    });
+    return response.data;
+  }
+
   async register(credentials: RegisterCredentials): Promise<AuthResponse> {
     const response = await axios.post(`${this.baseURL}/auth/register`, credentials);
     return response.data;
@@ -73,13 +124,35 @@ class AuthService {
     return response.data.user;
   }
 
-  async changePassword(token: string, oldPassword: string, newPassword: string): Promise<void> {
-    await axios.post(`${this.baseURL}/auth/change-password`, {
+  // Signs out every other session; the response holds new tokens for this one
+  async changePassword(token: string, oldPassword: string, newPassword: string): Promise<AuthResponse> {
+    const response = await axios.post(`${this.baseURL}/auth/change-password`, {
       oldPassword,
       newPassword
     }, {
       headers: { Authorization: `Bearer ${token}` }
     });
+    return response.data;
+  }
+
+  // A single-use ticket for opening a WebSocket, which cannot carry the Authorization header
+  async createStreamTicket(token: string): Promise<string> {
+    const response = await axios.post(`${this.baseURL}/auth/stream-ticket`, {}, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    return response.data.ticket;
+  }
+
+  async sendVerificationEmail(token: string): Promise<void> {
+    await axios.post(`${this.baseURL}/auth/verify-email/send`, {}, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  }
+
+  // Redeem the token from a verification link
+  async verifyEmail(token: string): Promise<{ email: string }> {
+    const response = await axios.post(`${this.baseURL}/auth/verify-email`, { token });
+    return response.data;
   }
 
   async forgotPassword(email: string): Promise<void> {
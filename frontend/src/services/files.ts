@@ -1,5 +1,22 @@
 import axios from 'axios';
-import type { FileNode } from '@shared/types';
+import type {
+  CompareFilesRequest,
+  CreateAnnotationRequest,
+  FileAnnotation,
+  FileBatchOperation,
+  FileNode,
+  FileVersion,
+  FileDiffResponse,
+  FileOperationRequest,
+  FileSearchResponse,
+  FileUploadResponse,
+  FileWatchRequest,
+  ReplaceInFilesRequest,
+  ReplaceInFilesResponse,
+  SearchFilesRequest,
+  UpdateAnnotationRequest,
+  VirtualFile
+} from '@shared/types';
 import { API_BASE_ALT } from '../config/environment';
 
 const API_BASE = API_BASE_ALT;
@@ -16,36 +33,36 @@ export interface UpdateFileRequest {
 }
 
 export interface MoveFileRequest {
+  projectId: string;
   fromPath: string;
   toPath: string;
 }
 
 export interface CopyFileRequest {
+  projectId: string;
   fromPath: string;
   toPath: string;
 }
 
+
+
 export interface FileOperationResponse {
   success: boolean;
   message?: string;
   file?: FileNode;
-}
-
-export interface SearchFilesRequest {
-  query: string;
+  newFileId?: string;
   path?: string;
-  includeContent?: boolean;
-  fileTypes?: string[];
-  maxResults?: number;
 }
 
-export interface SearchResult {
-  file: FileNode;
-  matches: Array<{
-    line: number;
-    content: string;
-    column: number;
-  }>;
+export interface FileVersionSummary {
+  id: string;
+  version: number;
+  hash: string;
+  size: number;
+  message?: string;
+  createdAt: string;
+  createdBy: string;
+  isLatest: boolean;
 }
 
 class FilesService {
@@ -58,15 +75,16 @@ class FilesService {
   }
 
   // File System Operations
-  async getFileTree(path: string = '/', token: string): Promise<FileNode> {
+  // The project's whole tree under a synthetic '/' root node
+  async getFileTree(projectId: string, token: string): Promise<FileNode> {
     const response = await axios.get(
       `${this.baseURL}/tree`,
       {
-        params: { path },
+        params: { projectId },
         ...this.getAuthHeaders(token)
       }
     );
-    return response.data.tree;
+    return { id: projectId, name: '/', path: '/', type: 'directory', children: response.data.tree };
   }
 
   async readFile(path: string, token: string): Promise<{ content: string; encoding: string }> {
@@ -110,38 +128,57 @@ class FilesService {
   }
 
   async moveFile(request: MoveFileRequest, token: string): Promise<FileOperationResponse> {
+    const { results } = await this.batchOperation(
+      request.projectId,
+      [{ type: 'move', path: request.fromPath, targetPath: request.toPath }],
+      token
+    );
+    return results[0]!;
+  }
+
+  async copyFile(request: CopyFileRequest, token: string): Promise<FileOperationResponse> {
+    const { results } = await this.batchOperation(
+      request.projectId,
+      [{ type: 'copy', path: request.fromPath, targetPath: request.toPath }],
+      token
+    );
+    return results[0]!;
+  }
+
+  async renameFile(projectId: string, oldPath: string, newPath: string, token: string): Promise<FileOperationResponse> {
+    return this.moveFile({ projectId, fromPath: oldPath, toPath: newPath }, token);
+  }
+
+  async fileOperation(fileId: string, request: FileOperationRequest, token: string): Promise<FileOperationResponse> {
     const response = await axios.post(
-      `${this.baseURL}/move`,
+      `${this.baseURL}/${fileId}/operations`,
       request,
       this.getAuthHeaders(token)
     );
     return response.data;
   }
 
-  async copyFile(request: CopyFileRequest, token: string): Promise<FileOperationResponse> {
+  // Search Operations
+  async searchFiles(request: SearchFilesRequest, token: string): Promise<FileSearchResponse> {
     const response = await axios.post(
-      `${this.baseURL}/copy`,
+      `${this.baseURL}/search`,
       request,
       this.getAuthHeaders(token)
     );
     return response.data;
   }
 
-  async renameFile(oldPath: string, newPath: string, token: string): Promise<FileOperationResponse> {
-    return this.moveFile({ fromPath: oldPath, toPath: newPath }, token);
-  }
-
-  // Search Operations
-  async searchFiles(request: SearchFilesRequest, token: string): Promise<{ results: SearchResult[]; totalResults: number }> {
+  // Replace across the project; with `preview` set nothing is written
+  async replaceInFiles(request: ReplaceInFilesRequest, token: string): Promise<ReplaceInFilesResponse> {
     const response = await axios.post(
-      `${this.baseURL}/search`,
+      `${this.baseURL}/replace`,
       request,
       this.getAuthHeaders(token)
     );
     return response.data;
   }
 
-  async searchInFile(path: string, query: string, token: string): Promise<SearchResult> {
+  async searchInFile(path: string, query: string, token: string): Promise<FileSearchResponse> {
     const response = await axios.post(
       `${this.baseURL}/search-in-file`,
       { path, query },
@@ -150,6 +187,14 @@ class FilesService {
     return response.data;
   }
 
+  async getFileById(fileId: string, token: string): Promise<VirtualFile> {
+    const response = await axios.get(
+      `${this.baseURL}/${fileId}`,
+      this.getAuthHeaders(token)
+    );
+    return response.data;
+  }
+
   // File Information
   async getFileInfo(path: string, token: string): Promise<{
     path: string;
@@ -184,88 +229,177 @@ class FilesService {
   }
 
   // File History and Versions
-  async getFileHistory(path: string, token: string): Promise<Array<{
-    id: string;
-    path: string;
-    content: string;
-    timestamp: string;
-    size: number;
-    checksum: string;
-  }>> {
+  async getFileHistory(fileId: string, token: string): Promise<{
+    fileId: string;
+    currentVersion: number;
+    versions: FileVersionSummary[];
+  }> {
+    const response = await axios.get(
+      `${this.baseURL}/${fileId}/versions`,
+      this.getAuthHeaders(token)
+    );
+    return response.data;
+  }
+
+  async getFileVersion(fileId: string, version: number, token: string): Promise<{
+    version: FileVersion;
+    fileId: string;
+    isLatest: boolean;
+  }> {
+    const response = await axios.get(
+      `${this.baseURL}/${fileId}/versions/${version}`,
+      this.getAuthHeaders(token)
+    );
+    return response.data;
+  }
+
+  async restoreFileVersion(fileId: string, version: number, token: string, message?: string): Promise<VirtualFile> {
+    const response = await axios.post(
+      `${this.baseURL}/${fileId}/versions/${version}/restore`,
+      { message },
+      this.getAuthHeaders(token)
+    );
+    return response.data;
+  }
+
+  async getVersionDiff(fileId: string, token: string, fromVersion?: number, toVersion?: number): Promise<FileDiffResponse> {
     const response = await axios.get(
-      `${this.baseURL}/history`,
+      `${this.baseURL}/${fileId}/diff`,
       {
-        params: { path },
+        params: { fromVersion, toVersion },
         ...this.getAuthHeaders(token)
       }
     );
-    return response.data.history;
+    return response.data;
   }
 
-  async restoreFileVersion(path: string, versionId: string, token: string): Promise<FileOperationResponse> {
+  // Diff a file version against another version, unsaved editor content or another file
+  async compareFiles(request: CompareFilesRequest, token: string): Promise<FileDiffResponse> {
     const response = await axios.post(
-      `${this.baseURL}/restore`,
-      { path, versionId },
+      `${this.baseURL}/diff`,
+      request,
       this.getAuthHeaders(token)
     );
     return response.data;
   }
 
+  // Annotations
+  async getAnnotations(fileId: string, token: string, includeResolved = true): Promise<FileAnnotation[]> {
+    const response = await axios.get(
+      `${this.baseURL}/${fileId}/annotations`,
+      {
+        ...this.getAuthHeaders(token),
+        params: { includeResolved }
+      }
+    );
+    return response.data.annotations;
+  }
+
+  async createAnnotation(fileId: string, request: CreateAnnotationRequest, token: string): Promise<FileAnnotation> {
+    const response = await axios.post(
+      `${this.baseURL}/${fileId}/annotations`,
+      request,
+      this.getAuthHeaders(token)
+    );
+    return response.data.annotation;
+  }
+
+  async updateAnnotation(
+    fileId: string,
+    annotationId: string,
+    request: UpdateAnnotationRequest,
+    token: string
+  ): Promise<FileAnnotation> {
+    const response = await axios.put(
+      `${this.baseURL}/${fileId}/annotations/${annotationId}`,
+      request,
+      this.getAuthHeaders(token)
+    );
+    return response.data.annotation;
+  }
+
+  async deleteAnnotation(fileId: string, annotationId: string, token: string): Promise<void> {
+    await axios.delete(
+      `${this.baseURL}/${fileId}/annotations/${annotationId}`,
+      this.getAuthHeaders(token)
+    );
+  }
+
   // Batch Operations
-  async batchOperation(operations: Array<{
-    type: 'create' | 'update' | 'delete' | 'move' | 'copy';
-    path: string;
-    targetPath?: string;
-    content?: string;
-  }>, token: string): Promise<{
+  // Applies every operation or none of them
+  async batchOperation(projectId: string, operations: FileBatchOperation[], token: string): Promise<{
     results: FileOperationResponse[];
     successful: number;
     failed: number;
   }> {
     const response = await axios.post(
       `${this.baseURL}/batch`,
-      { operations },
+      { projectId, operations },
       this.getAuthHeaders(token)
     );
     return response.data;
   }
 
   // File Watching (WebSocket-based)
-  watchFiles(paths: string[], token: string): WebSocket {
-    const wsUrl = `${this.baseURL.replace('http', 'ws')}/watch?token=${encodeURIComponent(token)}`;
-    const ws = new WebSocket(wsUrl);
-    
-    ws.onopen = () => {
-      ws.send(JSON.stringify({ type: 'watch', paths }));
-    };
-    
-    return ws;
+  // Streams FileWatchMessage JSON frames; browsers cannot set headers on a WebSocket, so a single-use
+  // ticket from authService.createStreamTicket goes in the query instead of the access token
+  watchFiles(request: FileWatchRequest, ticket: string): WebSocket {
+    const params = new URLSearchParams({ projectId: request.projectId, ticket });
+    request.paths?.forEach(path => params.append('paths', path));
+    request.events?.forEach(event => params.append('events', event));
+    if (request.recursive !== undefined) {
+      params.set('recursive', String(request.recursive));
+    }
+
+    return new WebSocket(`${this.baseURL.replace(/^http/, 'ws')}/watch?${params}`);
   }
 
   // File Upload/Download
-  async uploadFile(file: File, targetPath: string, token: string): Promise<FileOperationResponse> {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('path', targetPath);
-    
+  // Sends the raw bytes with a SHA-256 checksum the server verifies before storing them
+  async uploadFile(
+    file: File,
+    projectId: string,
+    targetPath: string,
+    token: string,
+    options: { overwrite?: boolean; onProgress?: (loaded: number, total: number) => void } = {}
+  ): Promise<FileUploadResponse> {
+    const bytes = await file.arrayBuffer();
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    const checksum = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+
     const response = await axios.post(
       `${this.baseURL}/upload`,
-      formData,
+      bytes,
       {
+        params: { projectId, path: targetPath, overwrite: options.overwrite ? 'true' : undefined },
         headers: {
-          'Content-Type': 'multipart/form-data',
+          'Content-Type': file.type || 'application/octet-stream',
+          'X-Content-SHA256': checksum,
           Authorization: `Bearer ${token}`
-        }
+        },
+        onUploadProgress: event => options.onProgress?.(event.loaded, event.total ?? file.size)
       }
     );
     return response.data;
   }
 
-  async downloadFile(path: string, token: string): Promise<Blob> {
+  async downloadFile(fileId: string, token: string): Promise<Blob> {
     const response = await axios.get(
-      `${this.baseURL}/download`,
+      `${this.baseURL}/${fileId}/download`,
       {
-        params: { path },
+        responseType: 'blob',
+        ...this.getAuthHeaders(token)
+      }
+    );
+    return response.data;
+  }
+
+  // ZIP of a directory, or of the whole project when no path is given
+  async downloadArchive(projectId: string, token: string, path: string = '/'): Promise<Blob> {
+    const response = await axios.get(
+      `${this.baseURL}/archive`,
+      {
+        params: { projectId, path },
         responseType: 'blob',
         ...this.getAuthHeaders(token)
       }
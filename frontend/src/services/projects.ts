@@ -6,11 +6,29 @@ import type {
   APIResponse 
 } from './types';
 
+export interface ListProjectsFilters {
+  page?: number;
+  limit?: number;
+  status?: 'active' | 'paused' | 'completed' | 'archived';
+  type?: 'web' | 'mobile' | 'desktop' | 'api' | 'ai' | 'other';
+  search?: string;
+}
+
+export interface ListProjectsResponse {
+  projects: Project[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
 // Projects service for managing projects
 export const projectAPI = {
-  // Get all projects for the authenticated user
-  getProjects: async (): Promise<{ projects: Project[] }> => {
-    return apiClient.get<{ projects: Project[] }>('/projects');
+  // Get all projects for the authenticated user (owned or shared), paginated
+  getProjects: async (filters: ListProjectsFilters = {}): Promise<ListProjectsResponse> => {
+    return apiClient.get<ListProjectsResponse>('/projects', filters);
   },
 
   // Get a specific project by ID
@@ -33,6 +51,20 @@ export const projectAPI = {
     return apiClient.delete<{ success: boolean }>(`/projects/${id}`);
   },
 
+  // Add or update a collaborator by email (owner only)
+  addCollaborator: async (
+    id: string,
+    email: string,
+    role: 'collaborator' | 'viewer'
+  ): Promise<Project> => {
+    return apiClient.post<Project>(`/projects/${id}/collaborators`, { email, role });
+  },
+
+  // Remove a collaborator (owner, or the collaborator themselves)
+  removeCollaborator: async (id: string, userId: string): Promise<{ success: boolean }> => {
+    return apiClient.delete<{ success: boolean }>(`/projects/${id}/collaborators/${userId}`);
+  },
+
   // Get project files (if supported)
   getProjectFiles: async (id: string): Promise<{ files: string[] }> => {
     return apiClient.get<{ files: string[] }>(`/projects/${id}/files`);
@@ -1,23 +1,80 @@
-// Security service for MFA and authentication
+import axios from 'axios';
+import { API_BASE_ALT } from '../config/environment';
+
+const API_BASE = API_BASE_ALT;
+
+export interface MFAStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface MFASetupResponse {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of the otpauth URL
+  qrCodeUrl: string;
+  // One-time recovery codes; the server only shows them once
+  backupCodes: string[];
+}
+
+export interface SessionInfo {
+  id: string;
+  // The session this browser is signed in with
+  current: boolean;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string;
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('vaporform_token')}` });
+
+// Security service for MFA (TOTP authenticator apps) and signed-in sessions
 export const securityAPI = {
-  setupMFA: async (secret: string) => {
-    return Promise.resolve({ success: true, secret });
+  getMFAStatus: async (): Promise<MFAStatus> => {
+    const response = await axios.get(`${API_BASE}/auth/mfa`, { headers: authHeaders() });
+    return response.data;
+  },
+
+  // Start enrollment: a new secret, its QR code and recovery codes. MFA is off until verifyMFA succeeds.
+  setupMFA: async (): Promise<MFASetupResponse> => {
+    const response = await axios.post(`${API_BASE}/auth/mfa/setup`, {}, { headers: authHeaders() });
+    return response.data;
   },
-  
-  verifyMFA: async (code: string) => {
-    return Promise.resolve({ success: true, verified: true });
+
+  // Finish enrollment with a code from the authenticator app
+  verifyMFA: async (request: { code: string }): Promise<{ success: boolean }> => {
+    const response = await axios.post(`${API_BASE}/auth/mfa/verify`, request, { headers: authHeaders() });
+    return response.data;
+  },
+
+  // Needs a current code or a recovery code
+  disableMFA: async (request: { code: string }): Promise<{ success: boolean }> => {
+    const response = await axios.post(`${API_BASE}/auth/mfa/disable`, request, { headers: authHeaders() });
+    return response.data;
+  },
+
+  // Replaces all recovery codes; needs a current code from the authenticator app
+  regenerateRecoveryCodes: async (request: { code: string }): Promise<{ backupCodes: string[] }> => {
+    const response = await axios.post(`${API_BASE}/auth/mfa/recovery-codes`, request, { headers: authHeaders() });
+    return response.data;
+  },
+
+  listSessions: async (): Promise<SessionInfo[]> => {
+    const response = await axios.get(`${API_BASE}/auth/sessions`, { headers: authHeaders() });
+    return response.data.sessions;
   },
-  
-  generateMFASecret: async () => {
-    return Promise.resolve({ 
-      secret: 'JBSWY3DPEHPK3PXP',
-      qrCode: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
-    });
+
+  // Signs that device out; its tokens stop working
+  revokeSession: async (sessionId: string): Promise<void> => {
+    await axios.delete(`${API_BASE}/auth/sessions/${encodeURIComponent(sessionId)}`, { headers: authHeaders() });
   },
 
-  disableMFA: async () => {
-    return Promise.resolve({ success: true });
+  revokeOtherSessions: async (): Promise<{ revoked: number }> => {
+    const response = await axios.post(`${API_BASE}/auth/sessions/revoke-others`, {}, { headers: authHeaders() });
+    return response.data;
   }
 };
 
-export default securityAPI;
\ No newline at end of file
+export default securityAPI;
@@ -140,8 +140,9 @@ export const wizardAPI = {
     return apiClient.get<WizardSession>(`/projectwizard/session/${sessionId}/restore`);
   },
 
-  getUserSessions: async (userId: string): Promise<{ sessions: WizardSession[] }> => {
-    return apiClient.get<{ sessions: WizardSession[] }>(`/projectwizard/sessions/user/${userId}`);
+  // The signed-in user's sessions
+  getUserSessions: async (): Promise<{ sessions: WizardSession[] }> => {
+    return apiClient.get<{ sessions: WizardSession[] }>('/projectwizard/sessions');
   },
 
   deleteSession: async (sessionId: string): Promise<{ success: boolean }> => {
@@ -1,4 +1,6 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, isRejected, PayloadAction } from '@reduxjs/toolkit';
+import { aiService, ListConversationsParams, MessageFeedbackRequest, UsageReport, UsageReportParams } from '@/services/ai';
+import { logout } from './auth';
 
 // AI types for frontend - these mirror the shared types
 interface AiMessage {
@@ -10,12 +12,25 @@ interface AiMessage {
     tokens?: number;
     model?: string;
     context?: string[];
+    // Project files the server added to the context
+    sources?: string[];
     codeBlocks?: Array<{
       language: string;
       code: string;
       fileName?: string;
     }>;
+    // The user stopped the response before it finished
+    stopped?: boolean;
   };
+  // The user's rating of an assistant message
+  feedback?: MessageFeedback;
+}
+
+interface MessageFeedback {
+  rating: 1 | 2 | 3 | 4 | 5;
+  helpful: boolean;
+  comment?: string;
+  timestamp: string;
 }
 
 interface AiConversation {
@@ -26,11 +41,16 @@ interface AiConversation {
   updatedAt: string; // ISO string format for Redux serialization
   projectId: string | undefined;
   tags: string[];
+  // Listed conversations carry their size and latest message until their messages are fetched
+  messageCount?: number;
+  preview?: string;
+  forkedFrom?: string;
 }
 
 interface AiState {
   conversations: AiConversation[];
   activeConversationId: string | null;
+  isLoadingConversations: boolean;
   isLoading: boolean;
   isStreaming: boolean;
   error: string | null;
@@ -44,12 +64,9 @@ interface AiState {
     enableProjectContext: boolean;
     autoSave: boolean;
   };
-  usage: {
-    tokensUsed: number;
-    requestsCount: number;
-    lastResetDate: string; // ISO string format for Redux serialization
-    monthlyLimit: number;
-  };
+  // Metered on the server; fetched for the usage panel
+  usage: UsageReport | null;
+  isLoadingUsage: boolean;
   suggestions: Array<{
     id: string;
     type: 'code' | 'fix' | 'optimize' | 'test' | 'document';
@@ -64,6 +81,7 @@ interface AiState {
 const initialState: AiState = {
   conversations: [],
   activeConversationId: null,
+  isLoadingConversations: false,
   isLoading: false,
   isStreaming: false,
   error: null,
@@ -77,16 +95,130 @@ const initialState: AiState = {
     enableProjectContext: true,
     autoSave: true,
   },
-  usage: {
-    tokensUsed: 0,
-    requestsCount: 0,
-    lastResetDate: new Date().toISOString(),
-    monthlyLimit: 100000,
-  },
+  usage: null,
+  isLoadingUsage: false,
   suggestions: [],
   contextFiles: [],
 };
 
+const errorMessage = (error: unknown, fallback: string) =>
+  (error as any)?.response?.data?.message || (error instanceof Error ? error.message : fallback);
+
+// Conversations live on the server so they follow the user across devices
+export const fetchConversations = createAsyncThunk(
+  'ai/fetchConversations',
+  async (params: ListConversationsParams | undefined, { rejectWithValue }) => {
+    try {
+      return (await aiService.listConversations(params)).conversations;
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to load conversations'));
+    }
+  }
+);
+
+export const fetchConversation = createAsyncThunk(
+  'ai/fetchConversation',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      return await aiService.getConversation(id);
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to load conversation'));
+    }
+  }
+);
+
+export const startConversation = createAsyncThunk(
+  'ai/startConversation',
+  async (request: { title?: string; projectId?: string } | undefined, { rejectWithValue }) => {
+    try {
+      return await aiService.createConversation(request ?? {});
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to create conversation'));
+    }
+  }
+);
+
+// Rename and/or retag
+export const editConversation = createAsyncThunk(
+  'ai/editConversation',
+  async ({ id, title, tags }: { id: string; title?: string; tags?: string[] }, { rejectWithValue }) => {
+    try {
+      const updated = await aiService.updateConversation(id, {
+        ...(title !== undefined ? { title } : {}),
+        ...(tags !== undefined ? { tags } : {})
+      });
+      return { id, title: updated.title, tags: updated.tags, updatedAt: updated.updatedAt };
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to update conversation'));
+    }
+  }
+);
+
+export const removeConversation = createAsyncThunk(
+  'ai/removeConversation',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      await aiService.deleteConversation(id);
+      return id;
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to delete conversation'));
+    }
+  }
+);
+
+export const clearConversation = createAsyncThunk(
+  'ai/clearConversation',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      await aiService.clearConversation(id);
+      return id;
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to clear conversation'));
+    }
+  }
+);
+
+export const forkConversation = createAsyncThunk(
+  'ai/forkConversation',
+  async ({ id, messageId }: { id: string; messageId?: string }, { rejectWithValue }) => {
+    try {
+      return await aiService.forkConversation(id, messageId ? { messageId } : {});
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to fork conversation'));
+    }
+  }
+);
+
+// Rate an assistant message, or withdraw its rating with feedback null
+export const rateMessage = createAsyncThunk(
+  'ai/rateMessage',
+  async (
+    { conversationId, messageId, feedback }: { conversationId: string; messageId: string; feedback: MessageFeedbackRequest | null },
+    { rejectWithValue }
+  ) => {
+    try {
+      if (!feedback) {
+        await aiService.deleteMessageFeedback(messageId);
+        return { conversationId, messageId, feedback: null };
+      }
+      return { conversationId, messageId, feedback: await aiService.setMessageFeedback(messageId, feedback) };
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to save feedback'));
+    }
+  }
+);
+
+export const fetchUsageReport = createAsyncThunk(
+  'ai/fetchUsageReport',
+  async (params: UsageReportParams | undefined, { rejectWithValue }) => {
+    try {
+      return await aiService.getUsageReport(params);
+    } catch (error) {
+      return rejectWithValue(errorMessage(error, 'Failed to load AI usage'));
+    }
+  }
+);
+
 export const aiSlice = createSlice({
   name: 'ai',
   initialState,
@@ -99,25 +231,13 @@ export const aiSlice = createSlice({
     },
     setStreaming: (state, action: PayloadAction<boolean>) => {
       state.isStreaming = action.payload;
+      if (action.payload) {
+        state.error = null;
+      }
     },
     setConversations: (state, action: PayloadAction<AiConversation[]>) => {
       state.conversations = action.payload;
     },
-    createConversation: (state, action: PayloadAction<{ title?: string; projectId?: string }>) => {
-      const now = new Date().toISOString();
-      const newConversation: AiConversation = {
-        id: `conv-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        title: action.payload.title || 'New Conversation',
-        messages: [],
-        createdAt: now,
-        updatedAt: now,
-        projectId: action.payload.projectId,
-        tags: [],
-      };
-      
-      state.conversations.unshift(newConversation);
-      state.activeConversationId = newConversation.id;
-    },
     updateConversation: (state, action: PayloadAction<{ id: string; updates: Partial<AiConversation> }>) => {
       const conversation = state.conversations.find(c => c.id === action.payload.id);
       if (conversation) {
@@ -125,12 +245,6 @@ export const aiSlice = createSlice({
         conversation.updatedAt = new Date().toISOString();
       }
     },
-    deleteConversation: (state, action: PayloadAction<string>) => {
-      state.conversations = state.conversations.filter(c => c.id !== action.payload);
-      if (state.activeConversationId === action.payload) {
-        state.activeConversationId = state.conversations.length > 0 ? state.conversations[0].id : null;
-      }
-    },
     setActiveConversation: (state, action: PayloadAction<string | null>) => {
       state.activeConversationId = action.payload;
     },
@@ -173,22 +287,6 @@ export const aiSlice = createSlice({
     updateSettings: (state, action: PayloadAction<Partial<typeof initialState.settings>>) => {
       state.settings = { ...state.settings, ...action.payload };
     },
-    updateUsage: (state, action: PayloadAction<{ tokens?: number; requests?: number }>) => {
-      if (action.payload.tokens) {
-        state.usage.tokensUsed += action.payload.tokens;
-      }
-      if (action.payload.requests) {
-        state.usage.requestsCount += action.payload.requests;
-      }
-    },
-    resetUsage: (state) => {
-      state.usage = {
-        ...state.usage,
-        tokensUsed: 0,
-        requestsCount: 0,
-        lastResetDate: new Date().toISOString(),
-      };
-    },
     setSuggestions: (state, action: PayloadAction<typeof initialState.suggestions>) => {
       state.suggestions = action.payload;
     },
@@ -237,22 +335,139 @@ export const aiSlice = createSlice({
       state.contextFiles = [];
     },
   },
+  extraReducers: (builder) => {
+    // Another user may sign in next on this device
+    builder.addCase(logout, (state) => {
+      state.conversations = [];
+      state.activeConversationId = null;
+      state.usage = null;
+    });
+
+    builder.addCase(fetchConversations.pending, (state) => {
+      state.isLoadingConversations = true;
+    });
+
+    builder.addCase(fetchConversations.fulfilled, (state, action) => {
+      state.isLoadingConversations = false;
+      // Keep the messages of conversations that are already open
+      state.conversations = action.payload.map(summary => {
+        const existing = state.conversations.find(c => c.id === summary.id);
+        const conversation: AiConversation = {
+          id: summary.id,
+          title: summary.title,
+          messages: existing && existing.updatedAt === summary.updatedAt ? existing.messages : [],
+          createdAt: summary.createdAt,
+          updatedAt: summary.updatedAt,
+          projectId: summary.projectId,
+          tags: summary.tags,
+          messageCount: summary.messageCount,
+          ...(summary.preview ? { preview: summary.preview } : {}),
+          ...(summary.forkedFrom ? { forkedFrom: summary.forkedFrom } : {}),
+        };
+        return conversation;
+      });
+      if (state.activeConversationId && !state.conversations.some(c => c.id === state.activeConversationId)) {
+        state.activeConversationId = null;
+      }
+    });
+
+    builder.addCase(fetchConversations.rejected, (state, action) => {
+      state.isLoadingConversations = false;
+      state.error = action.payload as string;
+    });
+
+    builder.addCase(fetchConversation.fulfilled, (state, action) => {
+      const conversation = { ...action.payload, messageCount: action.payload.messages.length };
+      const index = state.conversations.findIndex(c => c.id === conversation.id);
+      if (index >= 0) {
+        state.conversations[index] = { ...state.conversations[index], ...conversation };
+      } else {
+        state.conversations.unshift(conversation);
+      }
+    });
+
+    builder.addCase(startConversation.fulfilled, (state, action) => {
+      state.conversations.unshift({ ...action.payload, messageCount: 0 });
+      state.activeConversationId = action.payload.id;
+    });
+
+    builder.addCase(forkConversation.fulfilled, (state, action) => {
+      state.conversations.unshift({ ...action.payload, messageCount: action.payload.messages.length });
+      state.activeConversationId = action.payload.id;
+    });
+
+    builder.addCase(editConversation.fulfilled, (state, action) => {
+      const conversation = state.conversations.find(c => c.id === action.payload.id);
+      if (conversation) {
+        conversation.title = action.payload.title;
+        conversation.tags = action.payload.tags;
+        conversation.updatedAt = action.payload.updatedAt;
+      }
+    });
+
+    builder.addCase(removeConversation.fulfilled, (state, action) => {
+      state.conversations = state.conversations.filter(c => c.id !== action.payload);
+      if (state.activeConversationId === action.payload) {
+        state.activeConversationId = state.conversations[0]?.id ?? null;
+      }
+    });
+
+    builder.addCase(clearConversation.fulfilled, (state, action) => {
+      const conversation = state.conversations.find(c => c.id === action.payload);
+      if (conversation) {
+        conversation.messages = [];
+        conversation.messageCount = 0;
+        delete conversation.preview;
+      }
+    });
+
+    builder.addCase(rateMessage.fulfilled, (state, action) => {
+      const { conversationId, messageId, feedback } = action.payload;
+      const message = state.conversations
+        .find(c => c.id === conversationId)?.messages
+        .find(m => m.id === messageId);
+      if (message) {
+        if (feedback) {
+          message.feedback = feedback;
+        } else {
+          delete message.feedback;
+        }
+      }
+    });
+
+    builder.addCase(fetchUsageReport.pending, (state) => {
+      state.isLoadingUsage = true;
+    });
+
+    builder.addCase(fetchUsageReport.fulfilled, (state, action) => {
+      state.isLoadingUsage = false;
+      state.usage = action.payload;
+    });
+
+    builder.addCase(fetchUsageReport.rejected, (state, action) => {
+      state.isLoadingUsage = false;
+      state.error = action.payload as string;
+    });
+
+    builder.addMatcher(
+      isRejected(fetchConversation, startConversation, editConversation, removeConversation, clearConversation, forkConversation, rateMessage),
+      (state, action) => {
+        state.error = action.payload as string;
+      }
+    );
+  },
 });
 
 export const {
   setLoading,
   setStreaming,
   setConversations,
-  createConversation,
   updateConversation,
-  deleteConversation,
   setActiveConversation,
   addMessage,
   updateMessage,
   deleteMessage,
   updateSettings,
-  updateUsage,
-  resetUsage,
   setSuggestions,
   addSuggestion,
   removeSuggestion,
@@ -269,3 +484,4 @@ export default aiSlice.reducer;
 
 // Re-export types for components
 export { AiMessage, AiConversation };
+export type { MessageFeedback };
@@ -1,5 +1,6 @@
 import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
 import type { User } from '@shared/types';
+import type { AuthUser } from '../services/auth';
 
 interface AuthState {
   user: User | null;
@@ -20,6 +21,14 @@ const initialState: AuthState = {
   error: null,
 };
 
+// The auth service answers with snake_case fields; the user is stored with the field names of the
+// shared User type, so the rest of the app reads one shape
+function toUser(user: User | AuthUser): User {
+  if (!('email_verified' in user)) return user;
+  // The rest of User (preferences, timestamps) is not part of the response
+  return { id: user.id, email: user.email, name: user.name, role: user.role, emailVerified: user.email_verified } as User;
+}
+
 // Async thunk for restoring session from localStorage
 export const restoreSession = createAsyncThunk(
   'auth/restoreSession',
@@ -29,7 +38,8 @@ export const restoreSession = createAsyncThunk(
       const userStr = localStorage.getItem(AUTH_USER_KEY);
       
       if (token && userStr) {
-        const user = JSON.parse(userStr);
+        // Users stored by earlier versions kept the auth service's field names
+        const user = toUser(JSON.parse(userStr));
         return { user, token };
       }
       
@@ -54,8 +64,8 @@ export const authSlice = createSlice({
       state.isLoading = true;
       state.error = null;
     },
-    loginSuccess: (state, action: PayloadAction<{ user: User; token: string }>) => {
-      state.user = action.payload.user;
+    loginSuccess: (state, action: PayloadAction<{ user: User | AuthUser; token: string }>) => {
+      state.user = toUser(action.payload.user);
       state.token = action.payload.token;
       state.isAuthenticated = true;
       state.isLoading = false;
@@ -64,7 +74,7 @@ export const authSlice = createSlice({
       // Persist to localStorage
       try {
         localStorage.setItem(AUTH_TOKEN_KEY, action.payload.token);
-        localStorage.setItem(AUTH_USER_KEY, JSON.stringify(action.payload.user));
+        localStorage.setItem(AUTH_USER_KEY, JSON.stringify(state.user));
         console.log('✅ Auth state persisted to localStorage');
       } catch (error) {
         console.warn('Failed to persist auth state to localStorage:', error);
@@ -1,7 +1,11 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import type { User } from '@shared/types';
+import type { CollaborationSession, SessionParticipant } from '@shared/types';
 
-interface CollaborationUser extends User {
+// A participant of the current project's collaboration session
+interface CollaborationUser {
+  id: string;
+  name: string;
+  role: SessionParticipant['role'];
   isOnline: boolean;
   lastSeen: Date;
   currentFile?: string;
@@ -71,17 +75,49 @@ export const collaborationSlice = createSlice({
     setRoomId: (state, action: PayloadAction<string | null>) => {
       state.roomId = action.payload;
     },
-    addUser: (state, action: PayloadAction<User>) => {
+    addUser: (state, action: PayloadAction<{ id: string; name: string; role: SessionParticipant['role']; color?: string }>) => {
       const existingUser = state.users[action.payload.id];
       const colorIndex = Object.keys(state.users).length % USER_COLORS.length;
       
       state.users[action.payload.id] = {
+        ...existingUser,
         ...action.payload,
         isOnline: true,
         lastSeen: new Date(),
-        color: existingUser?.color || USER_COLORS[colorIndex],
+        color: action.payload.color || existingUser?.color || USER_COLORS[colorIndex]!,
       };
     },
+    // Replace the participants with the server's view of the session, e.g. after (re)connecting
+    syncSession: (state, action: PayloadAction<CollaborationSession>) => {
+      const session = action.payload;
+      state.roomId = session.id;
+      state.users = {};
+      for (const participant of session.participants) {
+        state.users[participant.userId] = {
+          id: participant.userId,
+          name: participant.userName,
+          role: participant.role,
+          isOnline: participant.isOnline,
+          lastSeen: participant.lastSeen,
+          color: participant.color,
+          ...(participant.currentDocument ? { currentFile: participant.currentDocument } : {}),
+        };
+      }
+      for (const cursor of session.cursors) {
+        const user = state.users[cursor.userId];
+        if (user) {
+          user.cursor = { line: cursor.line, column: cursor.column };
+          user.currentFile = cursor.fileId;
+        }
+      }
+      for (const selection of session.selections) {
+        const user = state.users[selection.userId];
+        if (user) {
+          const { startLine, startColumn, endLine, endColumn } = selection;
+          user.selection = { startLine, startColumn, endLine, endColumn };
+        }
+      }
+    },
     removeUser: (state, action: PayloadAction<string>) => {
       delete state.users[action.payload];
     },
@@ -178,6 +214,7 @@ export const {
   setConnected,
   setRoomId,
   addUser,
+  syncSession,
   removeUser,
   updateUser,
   updateUserCursor,
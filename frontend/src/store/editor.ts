@@ -1,9 +1,11 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
 import type { editor } from 'monaco-editor';
-import type { FileNode } from '@shared/types';
+import type { FileDiff, FileNode } from '@shared/types';
+import type { EditProposal } from '@/services/ai';
 
 interface EditorTab {
   id: string;
+  fileId?: string;
   filePath: string;
   fileName: string;
   content: string;
@@ -14,6 +16,12 @@ interface EditorTab {
   scrollPosition?: { top: number; left: number };
 }
 
+interface DiffView {
+  title: string;
+  language: string;
+  diff: FileDiff;
+}
+
 interface EditorState {
   tabs: EditorTab[];
   activeTabId: string | null;
@@ -30,6 +38,8 @@ interface EditorState {
   isReplaceVisible: boolean;
   searchResults: Array<{ line: number; column: number; length: number }>;
   currentSearchIndex: number;
+  diffView: DiffView | null;
+  patchReview: EditProposal | null;
 }
 
 const initialState: EditorState = {
@@ -48,6 +58,8 @@ const initialState: EditorState = {
   isReplaceVisible: false,
   searchResults: [],
   currentSearchIndex: 0,
+  diffView: null,
+  patchReview: null,
 };
 
 export const editorSlice = createSlice({
@@ -57,8 +69,8 @@ export const editorSlice = createSlice({
     setEditorInstance: (state, action: PayloadAction<editor.IStandaloneCodeEditor | null>) => {
       state.editorInstance = action.payload;
     },
-    openTab: (state, action: PayloadAction<{ file: FileNode; content: string }>) => {
-      const { file, content } = action.payload;
+    openTab: (state, action: PayloadAction<{ file: FileNode; content: string; cursorPosition?: { line: number; column: number } }>) => {
+      const { file, content, cursorPosition } = action.payload;
       const existingTab = state.tabs.find(tab => tab.filePath === file.path);
       
       if (existingTab) {
@@ -67,16 +79,21 @@ export const editorSlice = createSlice({
           tab.isActive = tab.id === existingTab.id;
         });
         state.activeTabId = existingTab.id;
+        if (cursorPosition) {
+          existingTab.cursorPosition = cursorPosition;
+        }
       } else {
         // Create new tab
         const newTab: EditorTab = {
           id: `tab-${Date.now()}-${Math.random()}`,
+          fileId: file.id,
           filePath: file.path,
           fileName: file.name,
           content,
           isDirty: false,
           isActive: true,
           language: getLanguageFromFileName(file.name),
+          ...(cursorPosition ? { cursorPosition } : {}),
         };
         
         // Deactivate all other tabs
@@ -188,6 +205,18 @@ export const editorSlice = createSlice({
           : state.currentSearchIndex - 1;
       }
     },
+    openDiffView: (state, action: PayloadAction<DiffView>) => {
+      state.diffView = action.payload;
+    },
+    closeDiffView: (state) => {
+      state.diffView = null;
+    },
+    openPatchReview: (state, action: PayloadAction<EditProposal>) => {
+      state.patchReview = action.payload;
+    },
+    closePatchReview: (state) => {
+      state.patchReview = null;
+    },
     closeAllTabs: (state) => {
       state.tabs = [];
       state.activeTabId = null;
@@ -267,6 +296,8 @@ export const {
   setSearchResults,
   nextSearchResult,
   previousSearchResult,
+  openDiffView,
+  closeDiffView,
   closeAllTabs,
   closeAllTabsExceptActive,
 } = editorSlice.actions;
\ No newline at end of file
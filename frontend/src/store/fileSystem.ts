@@ -1,5 +1,6 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import type { FileNode } from '@shared/types';
+import { createSlice, PayloadAction, createAsyncThunk } from '@reduxjs/toolkit';
+import type { FileNode, FileWatchEvent } from '@shared/types';
+import { filesService } from '@/services/files';
 
 interface FileSystemState {
   tree: FileNode | null;
@@ -19,6 +20,8 @@ interface FileSystemState {
   sortOrder: 'asc' | 'desc';
   showHiddenFiles: boolean;
   fileFilters: string[];
+  // Set when a watch event could not be applied to `tree`, which then needs reloading
+  treeOutOfSync: boolean;
 }
 
 const initialState: FileSystemState = {
@@ -39,8 +42,112 @@ const initialState: FileSystemState = {
   sortOrder: 'asc',
   showHiddenFiles: false,
   fileFilters: [],
+  treeOutOfSync: false,
 };
 
+export const loadFileTree = createAsyncThunk(
+  'fileSystem/loadFileTree',
+  async (projectId: string, { getState, rejectWithValue }) => {
+    const token = (getState() as { auth: { token: string | null } }).auth.token;
+    if (!token) {
+      return rejectWithValue('Not authenticated');
+    }
+
+    try {
+      return await filesService.getFileTree(projectId, token);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to load file tree');
+    }
+  }
+);
+
+// Paste the clipboard into `targetDirectory` as one all-or-nothing batch, then reload the tree
+export const pasteFiles = createAsyncThunk(
+  'fileSystem/pasteFiles',
+  async ({ projectId, targetDirectory }: { projectId: string; targetDirectory: string }, { getState, rejectWithValue }) => {
+    const state = getState() as { fileSystem: FileSystemState; auth: { token: string | null } };
+    const { clipboardFiles, clipboardAction } = state.fileSystem;
+    const token = state.auth.token;
+    if (!token || !clipboardAction || clipboardFiles.length === 0) {
+      return rejectWithValue('Nothing to paste');
+    }
+
+    const directory = targetDirectory === '/' ? '' : targetDirectory.replace(/\/$/, '');
+    const operations = clipboardFiles.map(path => {
+      let targetPath = `${directory}/${path.slice(path.lastIndexOf('/') + 1)}`;
+      if (clipboardAction === 'copy' && targetPath === path) {
+        targetPath = copyName(targetPath);
+      }
+      return { type: clipboardAction === 'cut' ? 'move' as const : 'copy' as const, path, targetPath };
+    });
+
+    try {
+      await filesService.batchOperation(projectId, operations, token);
+      return await filesService.getFileTree(projectId, token);
+    } catch (error: any) {
+      return rejectWithValue(error.response?.data?.message || 'Failed to paste files');
+    }
+  }
+);
+
+// "/src/a.ts" -> "/src/a copy.ts"
+function copyName(path: string): string {
+  const slash = path.lastIndexOf('/');
+  const name = path.slice(slash + 1);
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  return `${path.slice(0, slash)}/${stem} copy${extension}`;
+}
+
+// Folders first, then files, then by name
+function compareNodes(a: FileNode, b: FileNode): number {
+  if (a.type !== b.type) {
+    return a.type === 'directory' ? -1 : 1;
+  }
+  return a.name.localeCompare(b.name);
+}
+
+function parentPath(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash <= 0 ? '/' : path.slice(0, slash);
+}
+
+function isWithin(path: string, ancestor: string): boolean {
+  return path === ancestor || path.startsWith(ancestor === '/' ? '/' : `${ancestor}/`);
+}
+
+function findNode(node: FileNode, path: string): FileNode | null {
+  if (node.path === path) return node;
+  if (!node.children || !isWithin(path, node.path)) return null;
+  for (const child of node.children) {
+    const found = findNode(child, path);
+    if (found) return found;
+  }
+  return null;
+}
+
+// Insert `node` under its parent, replacing any node already at its path. False when the parent is not in the tree.
+function attachNode(tree: FileNode, node: FileNode): boolean {
+  const parent = findNode(tree, parentPath(node.path));
+  if (!parent?.children) return false;
+
+  const index = parent.children.findIndex(child => child.path === node.path);
+  if (index !== -1) {
+    parent.children.splice(index, 1);
+  }
+  parent.children.push(node);
+  parent.children.sort(compareNodes);
+  return true;
+}
+
+function detachNode(tree: FileNode, path: string): void {
+  const parent = findNode(tree, parentPath(path));
+  if (parent?.children) {
+    parent.children = parent.children.filter(child => child.path !== path);
+  }
+}
+
 export const fileSystemSlice = createSlice({
   name: 'fileSystem',
   initialState,
@@ -55,6 +162,7 @@ export const fileSystemSlice = createSlice({
       state.tree = action.payload;
       state.isLoading = false;
       state.error = null;
+      state.treeOutOfSync = false;
     },
     updateFileNode: (state, action: PayloadAction<{ path: string; updates: Partial<FileNode> }>) => {
       if (!state.tree) return;
@@ -82,13 +190,7 @@ export const fileSystemSlice = createSlice({
           const newChildren = [...node.children, action.payload.node];
           return {
             ...node,
-            children: newChildren.sort((a, b) => {
-              // Folders first, then files, then by name
-              if (a.type !== b.type) {
-                return a.type === 'directory' ? -1 : 1;
-              }
-              return a.name.localeCompare(b.name);
-            }),
+            children: newChildren.sort(compareNodes),
           };
         }
         if (node.children) {
@@ -106,7 +208,7 @@ export const fileSystemSlice = createSlice({
       if (!state.tree) return;
       
       const removeNode = (node: FileNode): FileNode | null => {
-        if (node.path === action.payload.path) {
+        if (node.path === action.payload) {
           return null;
         }
         if (node.children) {
@@ -123,6 +225,37 @@ export const fileSystemSlice = createSlice({
         state.tree = result;
       }
     },
+    // Apply a change reported by the file watcher to `tree` in place
+    applyFileWatchEvent: (state, action: PayloadAction<FileWatchEvent>) => {
+      if (!state.tree) return;
+      const { type, path, details } = action.payload;
+      const oldPath = type === 'moved' ? details?.oldPath ?? path : path;
+
+      if (type === 'deleted' || type === 'moved') {
+        detachNode(state.tree, oldPath);
+      }
+
+      if (type === 'deleted') {
+        state.expandedFolders = state.expandedFolders.filter(folder => !isWithin(folder, path));
+        if (state.selectedFile && isWithin(state.selectedFile, path)) {
+          state.selectedFile = null;
+        }
+        return;
+      }
+
+      if (!details?.node || !attachNode(state.tree, details.node)) {
+        state.treeOutOfSync = true;
+        return;
+      }
+
+      if (type === 'moved' && oldPath !== path) {
+        const rename = (value: string) => isWithin(value, oldPath) ? path + value.slice(oldPath.length) : value;
+        state.expandedFolders = state.expandedFolders.map(rename);
+        if (state.selectedFile) {
+          state.selectedFile = rename(state.selectedFile);
+        }
+      }
+    },
     toggleFolder: (state, action: PayloadAction<string>) => {
       const path = action.payload;
       const index = state.expandedFolders.indexOf(path);
@@ -216,8 +349,43 @@ export const fileSystemSlice = createSlice({
       state.isSearching = false;
       state.error = null;
       state.isLoading = false;
+      state.treeOutOfSync = false;
     },
   },
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadFileTree.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(loadFileTree.fulfilled, (state, action) => {
+        state.tree = action.payload;
+        state.isLoading = false;
+        state.treeOutOfSync = false;
+      })
+      .addCase(loadFileTree.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(pasteFiles.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(pasteFiles.fulfilled, (state, action) => {
+        state.tree = action.payload;
+        state.isLoading = false;
+        state.treeOutOfSync = false;
+        // A cut can only be pasted once; copies can be pasted again
+        if (state.clipboardAction === 'cut') {
+          state.clipboardFiles = [];
+          state.clipboardAction = null;
+        }
+      })
+      .addCase(pasteFiles.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      });
+  },
 });
 
 export const {
@@ -226,6 +394,7 @@ export const {
   updateFileNode,
   addFileNode,
   removeFileNode,
+  applyFileWatchEvent,
   toggleFolder,
   expandFolder,
   collapseFolder,
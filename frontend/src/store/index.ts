@@ -12,6 +12,7 @@ import wizardReducer from './wizardSlice'; // DEPRECATED: Use projectWizard inst
 import projectWizardReducer from './projectWizard';
 import { websocketMiddleware } from './middleware/websocket';
 import { localStorageMiddleware } from './middleware/localStorage';
+import { fileWatchMiddleware } from './middleware/fileWatch';
 import { isDevelopment } from '../config/environment';
 
 const store = configureStore({
@@ -34,6 +35,7 @@ const store = configureStore({
         ignoredActions: [
           'editor/setEditorInstance',
           'collaboration/addUser',
+          'collaboration/syncSession',
           'collaboration/updateUser',
           'websocket/messageReceived',
         ],
@@ -45,6 +47,7 @@ const store = configureStore({
       },
     })
       .concat(websocketMiddleware)
+      .concat(fileWatchMiddleware)
       .concat(localStorageMiddleware),
   devTools: isDevelopment,
 });
@@ -0,0 +1,121 @@
+import { AnyAction, Middleware, ThunkDispatch } from '@reduxjs/toolkit';
+import type { FileWatchMessage } from '@shared/types';
+import { applyFileWatchEvent, loadFileTree } from '../fileSystem';
+import { authService } from '../../services/auth';
+import { filesService } from '../../services/files';
+import type { RootState } from '../index';
+
+type WatchDispatch = ThunkDispatch<RootState, unknown, AnyAction>;
+
+// Keeps fileSystem.tree in sync with changes made by collaborators, the AI or container
+// processes by watching the current project's files over a WebSocket
+
+interface FileWatchState {
+  socket: WebSocket | null;
+  projectId: string | null;
+  reconnectAttempts: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const RETRY_BACKOFF = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+const watchState: FileWatchState = {
+  socket: null,
+  projectId: null,
+  reconnectAttempts: 0,
+  reconnectTimer: null
+};
+
+// Typed loosely: RootState is inferred from the store this middleware is part of
+export const fileWatchMiddleware: Middleware = store => next => action => {
+  const result = next(action);
+  const getState = () => store.getState() as RootState;
+
+  if (action.type === 'auth/logout') {
+    closeFileWatch();
+  } else if (action.type === 'projects/setCurrentProject' || action.type === 'auth/loginSuccess') {
+    const state = getState();
+    const projectId = state.projects.currentProject?.id ?? null;
+    const token = state.auth.token;
+
+    if (!projectId || !token) {
+      closeFileWatch();
+    } else if (projectId !== watchState.projectId) {
+      closeFileWatch();
+      openFileWatch(projectId, getState, store.dispatch as WatchDispatch);
+    }
+  }
+
+  return result;
+};
+
+async function openFileWatch(projectId: string, getState: () => RootState, dispatch: WatchDispatch) {
+  const token = getState().auth.token;
+  if (!token) return;
+  watchState.projectId = projectId;
+
+  let ticket: string;
+  try {
+    ticket = await authService.createStreamTicket(token);
+  } catch {
+    if (watchState.projectId === projectId) {
+      scheduleReconnect(projectId, getState, dispatch);
+    }
+    return;
+  }
+  // Switched project or signed out while the ticket was on its way
+  if (watchState.projectId !== projectId) return;
+
+  const socket = filesService.watchFiles({ projectId }, ticket);
+  watchState.socket = socket;
+
+  socket.onmessage = (message) => {
+    const data = JSON.parse(message.data) as FileWatchMessage;
+
+    if (data.type === 'watching') {
+      // Anything that changed while disconnected was missed, so start from a fresh tree
+      if (watchState.reconnectAttempts > 0) {
+        dispatch(loadFileTree(projectId));
+      }
+      watchState.reconnectAttempts = 0;
+    } else if (data.type === 'event' && data.event) {
+      dispatch(applyFileWatchEvent(data.event));
+      if (getState().fileSystem.treeOutOfSync && !getState().fileSystem.isLoading) {
+        dispatch(loadFileTree(projectId));
+      }
+    }
+  };
+
+  socket.onclose = () => {
+    // Closed by us (project switch or logout) rather than by the server or the network
+    if (watchState.socket !== socket) return;
+
+    watchState.socket = null;
+    scheduleReconnect(projectId, getState, dispatch);
+  };
+}
+
+function scheduleReconnect(projectId: string, getState: () => RootState, dispatch: WatchDispatch) {
+  const delay = Math.min(MAX_RETRY_DELAY, RETRY_BACKOFF * 2 ** watchState.reconnectAttempts);
+  watchState.reconnectAttempts++;
+  watchState.reconnectTimer = setTimeout(() => {
+    watchState.reconnectTimer = null;
+    if (watchState.projectId === projectId) {
+      openFileWatch(projectId, getState, dispatch);
+    }
+  }, delay);
+}
+
+function closeFileWatch() {
+  if (watchState.reconnectTimer) {
+    clearTimeout(watchState.reconnectTimer);
+    watchState.reconnectTimer = null;
+  }
+
+  const socket = watchState.socket;
+  watchState.socket = null;
+  watchState.projectId = null;
+  watchState.reconnectAttempts = 0;
+  socket?.close();
+}
@@ -21,9 +21,9 @@ interface StorableState {
     autoSave: boolean;
     autoSaveDelay: number;
   };
+  // Conversations are stored on the server (/ai/conversations), not in the browser
   ai: {
     settings: any;
-    conversations: any[];
   };
   settings: any;
 }
@@ -47,9 +47,6 @@ export const localStorageMiddleware: Middleware<{}, RootState> = store => next =
     'editor/setAutoSave',
     'editor/setAutoSaveDelay',
     'ai/updateSettings',
-    'ai/createConversation',
-    'ai/updateConversation',
-    'ai/deleteConversation',
     'auth/updateUser',
     'settings/updateUserProfile',
     'settings/updateTheme',
@@ -90,7 +87,6 @@ export const localStorageMiddleware: Middleware<{}, RootState> = store => next =
         },
         ai: {
           settings: state.ai.settings,
-          conversations: state.ai.conversations,
         },
         settings: {
           userProfile: state.settings?.userProfile,
@@ -151,7 +147,9 @@ export const loadStoredState = (): Partial<RootState> | undefined => {
       ai: {
         ...parsed.ai,
         // Reset runtime state
-        activeConversationId: parsed.ai.conversations.length > 0 ? parsed.ai.conversations[0].id : null,
+        conversations: [],
+        activeConversationId: null,
+        isLoadingConversations: false,
         isLoading: false,
         isStreaming: false,
         error: null,
@@ -1,328 +1,319 @@
 import { Middleware } from '@reduxjs/toolkit';
-import { io, Socket } from 'socket.io-client';
+import type { MessageType, WebSocketMessage } from '@shared/types';
 import { collaborationSlice } from '../collaboration';
-import { containerSlice } from '../containers';
-import { fileSystemSlice } from '../fileSystem';
-import { aiSlice } from '../ai';
 import { uiSlice } from '../ui';
 import type { RootState } from '../index';
-import { API_BASE_ALT, isProduction, getEnvVar } from '../../config/environment';
+import { authService } from '../../services/auth';
+import { WS_URL, isProduction, getEnvVar } from '../../config/environment';
 
-const WS_BASE = API_BASE_ALT;
+// Connects to the current project's collaboration room (/ws/connect) for presence, cursors,
+// selections, edits and chat. File tree changes arrive separately through fileWatch.
 
-// WebSocket feature flag - disable in development until backend WebSocket server is implemented
-const ENABLE_WEBSOCKET = isProduction && getEnvVar('REACT_APP_ENABLE_WEBSOCKET') === 'true';
+// Real-time collaboration can be switched off with REACT_APP_ENABLE_WEBSOCKET=false
+const ENABLE_WEBSOCKET = getEnvVar('REACT_APP_ENABLE_WEBSOCKET') !== 'false';
 
 interface WebSocketState {
-  socket: Socket | null;
+  socket: WebSocket | null;
+  projectId: string | null;
   isConnected: boolean;
+  // Viewers may watch but not edit; the server rejects their edits
+  canEdit: boolean;
   reconnectAttempts: number;
   maxRetries: number;
   retryBackoff: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  heartbeatTimer: ReturnType<typeof setInterval> | null;
 }
 
+const HEARTBEAT_INTERVAL = 25000;
+const MAX_RETRY_DELAY = 30000;
+
 const wsState: WebSocketState = {
   socket: null,
+  projectId: null,
   isConnected: false,
+  canEdit: false,
   reconnectAttempts: 0,
   maxRetries: 3,
-  retryBackoff: 1000
+  retryBackoff: 1000,
+  reconnectTimer: null,
+  heartbeatTimer: null
 };
 
-export const websocketMiddleware: Middleware<{}, RootState> = store => next => action => {
+// Typed loosely: RootState is inferred from the store this middleware is part of
+export const websocketMiddleware: Middleware = store => next => action => {
   const result = next(action);
-  const state = store.getState();
-
-  // Initialize WebSocket connection when user logs in (only if enabled)
-  if (action.type === 'auth/loginSuccess' && ENABLE_WEBSOCKET) {
-    const token = action.payload.token;
-    initializeWebSocket(token, store);
-  } else if (action.type === 'auth/loginSuccess' && !ENABLE_WEBSOCKET) {
-    // Show status that WebSocket is disabled in development
-    store.dispatch(uiSlice.actions.updateStatusBarItem({
-      side: 'right',
-      item: {
-        id: 'ws-status',
-        text: 'Offline Mode',
-        tooltip: 'WebSocket disabled in development',
-        priority: 10
-      }
-    }));
-  }
+  const getState = () => store.getState() as RootState;
 
-  // Close WebSocket connection when user logs out
   if (action.type === 'auth/logout') {
     closeWebSocket();
-  }
-
-  // Handle project changes (only if WebSocket is enabled and connected)
-  if (action.type === 'projects/setCurrentProject' && ENABLE_WEBSOCKET) {
-    const project = action.payload;
-    if (wsState.socket && wsState.isConnected && project) {
-      wsState.socket.emit('join-project', { projectId: project.id });
+    store.dispatch(collaborationSlice.actions.resetCollaboration());
+  } else if (action.type === 'auth/loginSuccess' || action.type === 'projects/setCurrentProject') {
+    const state = getState();
+    const projectId = state.projects.currentProject?.id ?? null;
+    const token = state.auth.token;
+
+    if (!ENABLE_WEBSOCKET) {
+      store.dispatch(updateStatus('Offline Mode', 'Real-time collaboration is disabled'));
+    } else if (!projectId || !token) {
+      closeWebSocket();
+      store.dispatch(collaborationSlice.actions.resetCollaboration());
+    } else if (projectId !== wsState.projectId) {
+      closeWebSocket();
+      store.dispatch(collaborationSlice.actions.resetCollaboration());
+      openWebSocket(projectId, getState, store.dispatch);
     }
   }
 
   return result;
 };
 
-function initializeWebSocket(token: string, store: any) {
-  if (wsState.socket) {
-    wsState.socket.disconnect();
+async function openWebSocket(projectId: string, getState: () => RootState, dispatch: (action: any) => any) {
+  const token = getState().auth.token;
+  if (!token) return;
+  wsState.projectId = projectId;
+
+  // The socket cannot send the Authorization header, so it authenticates with a single-use ticket
+  let ticket: string;
+  try {
+    ticket = await authService.createStreamTicket(token);
+  } catch {
+    if (wsState.projectId === projectId) {
+      scheduleReconnect(projectId, getState, dispatch);
+    }
+    return;
   }
+  // Switched project or signed out while the ticket was on its way
+  if (wsState.projectId !== projectId) return;
 
-  // Reset connection state
-  wsState.reconnectAttempts = 0;
-
-  wsState.socket = io(WS_BASE, {
-    auth: { token },
-    transports: ['websocket', 'polling'],
-    reconnection: true,
-    reconnectionAttempts: wsState.maxRetries,
-    reconnectionDelay: wsState.retryBackoff,
-    reconnectionDelayMax: wsState.retryBackoff * 5,
-    timeout: 5000, // 5 second connection timeout
-  });
+  const params = new URLSearchParams({ projectId, ticket });
+  const socket = new WebSocket(`${WS_URL}/ws/connect?${params}`);
+  wsState.socket = socket;
 
-  // Connection events
-  wsState.socket.on('connect', () => {
+  socket.onopen = () => {
     wsState.isConnected = true;
     wsState.reconnectAttempts = 0;
-    store.dispatch(collaborationSlice.actions.setConnected(true));
-    store.dispatch(uiSlice.actions.updateStatusBarItem({
-      side: 'right',
-      item: {
-        id: 'ws-status',
-        text: 'Connected',
-        priority: 10
-      }
-    }));
-  });
+    dispatch(collaborationSlice.actions.setConnected(true));
+    dispatch(updateStatus('Connected'));
 
-  wsState.socket.on('disconnect', () => {
-    wsState.isConnected = false;
-    store.dispatch(collaborationSlice.actions.setConnected(false));
-    store.dispatch(uiSlice.actions.updateStatusBarItem({
-      side: 'right',
-      item: {
-        id: 'ws-status',
-        text: 'Disconnected',
-        priority: 10
-      }
-    }));
-  });
+    // The server drops connections that stay silent, so keep this one alive
+    wsState.heartbeatTimer = setInterval(() => send('ping', {}), HEARTBEAT_INTERVAL);
+  };
 
-  wsState.socket.on('connect_error', (error) => {
-    wsState.reconnectAttempts++;
-    
-    // Only log errors in development mode for debugging
-    if (!isProduction) {
-      console.warn(`WebSocket connection attempt ${wsState.reconnectAttempts}/${wsState.maxRetries} failed:`, error.message);
-    }
-    
-    // Update status bar to show connection issues
-    store.dispatch(uiSlice.actions.updateStatusBarItem({
-      side: 'right',
-      item: {
-        id: 'ws-status',
-        text: `Connecting... (${wsState.reconnectAttempts}/${wsState.maxRetries})`,
-        tooltip: 'Attempting to connect to real-time server',
-        priority: 10
-      }
-    }));
-    
-    // After max retries, show notification and stop trying
-    if (wsState.reconnectAttempts >= wsState.maxRetries) {
-      store.dispatch(uiSlice.actions.updateStatusBarItem({
-        side: 'right',
-        item: {
-          id: 'ws-status',
-          text: 'Offline Mode',
-          tooltip: 'Real-time features unavailable - server not reachable',
-          priority: 10
-        }
-      }));
-      
-      store.dispatch(uiSlice.actions.addNotification({
-        type: 'warning',
-        title: 'Real-time Features Unavailable',
-        message: 'Working in offline mode. Some collaborative features may be limited.',
-        duration: 5000
-      }));
-      
-      // Disconnect to prevent further attempts
-      if (wsState.socket) {
-        wsState.socket.disconnect();
-        wsState.socket = null;
-      }
-    }
-  });
+  socket.onmessage = (event) => {
+    const message = JSON.parse(event.data) as WebSocketMessage;
+    handleMessage(message, getState, dispatch);
+  };
 
-  // Collaboration events
-  wsState.socket.on('user-joined', (data) => {
-    store.dispatch(collaborationSlice.actions.addUser(data.user));
-    store.dispatch(uiSlice.actions.addNotification({
-      type: 'info',
-      title: 'User Joined',
-      message: `${data.user.name} joined the project`,
-      duration: 3000
-    }));
-  });
+  socket.onclose = () => {
+    // Closed by us (project switch or logout) rather than by the server or the network
+    if (wsState.socket !== socket) return;
 
-  wsState.socket.on('user-left', (data) => {
-    store.dispatch(collaborationSlice.actions.removeUser(data.userId));
-    const state = store.getState();
-    const user = state.collaboration.users[data.userId];
-    if (user) {
-      store.dispatch(uiSlice.actions.addNotification({
-        type: 'info',
-        title: 'User Left',
-        message: `${user.name} left the project`,
-        duration: 3000
-      }));
-    }
-  });
+    stopHeartbeat();
+    wsState.socket = null;
+    wsState.isConnected = false;
+    dispatch(collaborationSlice.actions.setConnected(false));
 
-  wsState.socket.on('cursor-update', (data) => {
-    store.dispatch(collaborationSlice.actions.updateUserCursor({
-      userId: data.userId,
-      cursor: data.cursor,
-      file: data.file
-    }));
-  });
+    scheduleReconnect(projectId, getState, dispatch);
+  };
+}
 
-  wsState.socket.on('selection-update', (data) => {
-    store.dispatch(collaborationSlice.actions.updateUserSelection({
-      userId: data.userId,
-      selection: data.selection
+// Retry with backoff after a lost connection or a failed attempt, and tell the user once retries run out
+function scheduleReconnect(projectId: string, getState: () => RootState, dispatch: (action: any) => any) {
+  wsState.reconnectAttempts++;
+  if (wsState.reconnectAttempts === wsState.maxRetries) {
+    dispatch(uiSlice.actions.addNotification({
+      type: 'warning',
+      title: 'Real-time Features Unavailable',
+      message: 'Working in offline mode. Some collaborative features may be limited.',
+      duration: 5000
     }));
-  });
+  }
+  dispatch(updateStatus(
+    wsState.reconnectAttempts >= wsState.maxRetries ? 'Offline Mode' : 'Reconnecting...',
+    'Attempting to connect to real-time server'
+  ));
+
+  const delay = Math.min(MAX_RETRY_DELAY, wsState.retryBackoff * 2 ** (wsState.reconnectAttempts - 1));
+  wsState.reconnectTimer = setTimeout(() => {
+    wsState.reconnectTimer = null;
+    if (wsState.projectId === projectId) {
+      openWebSocket(projectId, getState, dispatch);
+    }
+  }, delay);
+}
 
-  wsState.socket.on('operation-applied', (data) => {
-    store.dispatch(collaborationSlice.actions.addOperationalTransform({
-      id: data.id,
-      userId: data.userId,
-      operation: data.operation,
-      timestamp: data.timestamp
-    }));
-  });
+function handleMessage(message: WebSocketMessage, getState: () => RootState, dispatch: (action: any) => any) {
+  const { payload } = message;
+  const ownUserId = getState().auth.user?.id;
 
-  wsState.socket.on('chat-message', (data) => {
-    store.dispatch(collaborationSlice.actions.addChatMessage({
-      id: data.id,
-      userId: data.userId,
-      message: data.message,
-      type: data.type
-    }));
-  });
+  switch (message.type) {
+    case 'sync_response': {
+      dispatch(collaborationSlice.actions.syncSession(payload.session));
+      const self = payload.session.participants.find((participant: any) => participant.userId === ownUserId);
+      wsState.canEdit = self?.role !== 'viewer';
+      break;
+    }
 
-  // File system events
-  wsState.socket.on('file-changed', (data) => {
-    store.dispatch(fileSystemSlice.actions.updateFileNode({
-      path: data.path,
-      updates: data.updates
-    }));
-  });
+    case 'user_join':
+      dispatch(collaborationSlice.actions.addUser({
+        id: payload.userId,
+        name: payload.userName,
+        role: payload.role,
+        color: payload.color
+      }));
+      if (payload.userId !== ownUserId) {
+        dispatch(uiSlice.actions.addNotification({
+          type: 'info',
+          title: 'User Joined',
+          message: `${payload.userName} joined the project`,
+          duration: 3000
+        }));
+      }
+      break;
+
+    case 'user_leave': {
+      const user = getState().collaboration.users[payload.userId];
+      dispatch(collaborationSlice.actions.removeUser(payload.userId));
+      if (user && payload.userId !== ownUserId) {
+        dispatch(uiSlice.actions.addNotification({
+          type: 'info',
+          title: 'User Left',
+          message: `${user.name} left the project`,
+          duration: 3000
+        }));
+      }
+      break;
+    }
 
-  wsState.socket.on('file-created', (data) => {
-    store.dispatch(fileSystemSlice.actions.addFileNode({
-      parentPath: data.parentPath,
-      node: data.node
-    }));
-  });
+    case 'cursor_move':
+      dispatch(collaborationSlice.actions.updateUserCursor({
+        userId: payload.userId,
+        cursor: { line: payload.line, column: payload.column },
+        file: payload.fileId
+      }));
+      break;
+
+    case 'selection_change':
+      dispatch(collaborationSlice.actions.updateUserSelection({
+        userId: payload.userId,
+        selection: {
+          startLine: payload.startLine,
+          startColumn: payload.startColumn,
+          endLine: payload.endLine,
+          endColumn: payload.endColumn
+        }
+      }));
+      break;
 
-  wsState.socket.on('file-deleted', (data) => {
-    store.dispatch(fileSystemSlice.actions.removeFileNode(data.path));
-  });
+    case 'file_open':
+      dispatch(collaborationSlice.actions.updateUser({
+        userId: message.userId,
+        updates: { currentFile: payload.fileId }
+      }));
+      break;
+
+    case 'text_change':
+      dispatch(collaborationSlice.actions.addOperationalTransform({
+        id: message.id,
+        userId: message.userId,
+        operation: { ...payload.operation, fileId: payload.fileId },
+        timestamp: new Date(message.timestamp).getTime()
+      }));
+      break;
+
+    case 'chat_message':
+      dispatch(collaborationSlice.actions.addChatMessage({
+        id: payload.id,
+        userId: payload.userId,
+        message: payload.content,
+        type: payload.type === 'code_share' ? 'code' : 'text'
+      }));
+      break;
 
-  // Container events
-  wsState.socket.on('container-status-changed', (data) => {
-    store.dispatch(containerSlice.actions.updateContainerStatus({
-      containerId: data.containerId,
-      status: data.status,
-      health: data.health
-    }));
-  });
+    case 'error':
+      if (!isProduction) {
+        console.warn('Collaboration server rejected a message:', payload);
+      }
+      dispatch(uiSlice.actions.addNotification({
+        type: 'error',
+        title: 'Collaboration Error',
+        message: payload.message || 'An error occurred',
+        duration: 5000
+      }));
+      break;
 
-  wsState.socket.on('container-log', (data) => {
-    store.dispatch(containerSlice.actions.addContainerLog({
-      containerId: data.containerId,
-      log: data.log
-    }));
-  });
+    default:
+      // pong, status_update and document_change need no handling here
+      break;
+  }
+}
 
-  wsState.socket.on('container-stats', (data) => {
-    store.dispatch(containerSlice.actions.setContainerStats({
-      containerId: data.containerId,
-      stats: data.stats
-    }));
+function updateStatus(text: string, tooltip?: string) {
+  return uiSlice.actions.updateStatusBarItem({
+    side: 'right',
+    item: {
+      id: 'ws-status',
+      text,
+      ...(tooltip ? { tooltip } : {}),
+      priority: 10
+    }
   });
+}
 
-  // AI events
-  wsState.socket.on('ai-suggestion', (data) => {
-    store.dispatch(aiSlice.actions.addSuggestion(data.suggestion));
-  });
+function send(type: MessageType, payload: unknown) {
+  if (wsState.socket && wsState.isConnected) {
+    wsState.socket.send(JSON.stringify({ type, payload }));
+  }
+}
 
-  // Error handling
-  wsState.socket.on('error', (data) => {
-    console.error('WebSocket error:', data);
-    store.dispatch(uiSlice.actions.addNotification({
-      type: 'error',
-      title: 'Server Error',
-      message: data.message || 'An error occurred',
-      duration: 5000
-    }));
-  });
+function stopHeartbeat() {
+  if (wsState.heartbeatTimer) {
+    clearInterval(wsState.heartbeatTimer);
+    wsState.heartbeatTimer = null;
+  }
 }
 
 function closeWebSocket() {
-  if (wsState.socket) {
-    wsState.socket.disconnect();
-    wsState.socket = null;
+  if (wsState.reconnectTimer) {
+    clearTimeout(wsState.reconnectTimer);
+    wsState.reconnectTimer = null;
   }
+  stopHeartbeat();
+
+  const socket = wsState.socket;
+  wsState.socket = null;
+  wsState.projectId = null;
   wsState.isConnected = false;
+  wsState.canEdit = false;
   wsState.reconnectAttempts = 0;
+  socket?.close();
 }
 
 // Export functions for components to use
-export const emitCursorUpdate = (data: { file: string; cursor: { line: number; column: number } }) => {
-  if (ENABLE_WEBSOCKET && wsState.socket && wsState.isConnected) {
-    wsState.socket.emit('cursor-update', data);
-  }
+export const emitCursorUpdate = (data: { fileId: string; cursor: { line: number; column: number } }) => {
+  send('cursor_move', { fileId: data.fileId, ...data.cursor });
 };
 
-export const emitSelectionUpdate = (data: { file: string; selection: any }) => {
-  if (ENABLE_WEBSOCKET && wsState.socket && wsState.isConnected) {
-    wsState.socket.emit('selection-update', data);
-  }
+export const emitSelectionUpdate = (data: {
+  fileId: string;
+  selection: { startLine: number; startColumn: number; endLine: number; endColumn: number };
+}) => {
+  send('selection_change', { fileId: data.fileId, ...data.selection });
 };
 
-export const emitOperation = (data: { operation: any; file: string }) => {
-  if (ENABLE_WEBSOCKET && wsState.socket && wsState.isConnected) {
-    wsState.socket.emit('operation', data);
+export const emitOperation = (data: { operation: any; fileId: string }) => {
+  if (wsState.canEdit) {
+    send('text_change', data);
   }
 };
 
-export const emitChatMessage = (data: { message: string; type?: string }) => {
-  if (ENABLE_WEBSOCKET && wsState.socket && wsState.isConnected) {
-    wsState.socket.emit('chat-message', data);
-  }
-};
-
-export const joinProject = (projectId: string) => {
-  if (ENABLE_WEBSOCKET && wsState.socket && wsState.isConnected) {
-    wsState.socket.emit('join-project', { projectId });
-  }
-};
-
-export const leaveProject = (projectId: string) => {
-  if (ENABLE_WEBSOCKET && wsState.socket && wsState.isConnected) {
-    wsState.socket.emit('leave-project', { projectId });
-  }
+export const emitChatMessage = (data: { message: string; type?: 'text' | 'code' }) => {
+  send('chat_message', { content: data.message, type: data.type === 'code' ? 'code_share' : 'text' });
 };
 
 export const getWebSocketStatus = () => ({
   isConnected: wsState.isConnected,
   reconnectAttempts: wsState.reconnectAttempts,
   isEnabled: ENABLE_WEBSOCKET
-});
\ No newline at end of file
+});
@@ -42,6 +42,8 @@ interface EditorSettings {
   renderControlCharacters: boolean;
   smoothScrolling: boolean;
   mouseWheelZoom: boolean;
+  // Inline AI completions per Monaco language id; languages not listed are enabled
+  inlineCompletionLanguages: Record<string, boolean>;
 }
 
 // AI Assistant Configuration
@@ -104,7 +106,6 @@ interface TerminalSettings {
 // Security & Privacy Settings
 interface SecuritySettings {
   sessionTimeout: number; // in minutes
-  twoFactorAuth: boolean;
   biometricAuth: boolean;
   rememberMe: boolean;
   autoLock: boolean;
@@ -229,6 +230,10 @@ const initialState: SettingsState = {
     renderControlCharacters: false,
     smoothScrolling: true,
     mouseWheelZoom: true,
+    inlineCompletionLanguages: {
+      plaintext: false,
+      markdown: false,
+    },
   },
   ai: {
     model: 'claude-3-sonnet',
@@ -281,7 +286,6 @@ const initialState: SettingsState = {
   },
   security: {
     sessionTimeout: 480, // 8 hours
-    twoFactorAuth: false,
     biometricAuth: false,
     rememberMe: true,
     autoLock: false,
@@ -2,8 +2,15 @@ import { z } from 'zod';
 import { TimestampSchema, EntityId } from './common';
 
 // AI service types
-export type AIServiceType = 'code_generation' | 'code_review' | 'debugging' | 'testing' | 'refactoring' | 'documentation';
-export type AIModel = 'claude-3-5-sonnet-20241022' | 'claude-3-haiku-20240307' | 'claude-3-opus-20240229';
+export type AIServiceType = 'chat' | 'code_completion' | 'code_generation' | 'code_review' | 'debugging' | 'testing' | 'refactoring' | 'documentation';
+// claude-* models run on the Anthropic API, gpt-* on an OpenAI-compatible API and local-stub offline
+export type AIModel =
+  | 'claude-3-5-sonnet-20241022'
+  | 'claude-3-haiku-20240307'
+  | 'claude-3-opus-20240229'
+  | 'gpt-4o'
+  | 'gpt-4o-mini'
+  | 'local-stub';
 export type AISessionStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
 
 // AI request interfaces
@@ -185,10 +192,19 @@ export interface CodeIssue {
   type: 'bug' | 'security' | 'performance' | 'style' | 'maintainability';
   severity: 'low' | 'medium' | 'high' | 'critical';
   line?: number;
+  endLine?: number;
   column?: number;
+  endColumn?: number;
   message: string;
   suggestion?: string;
   rule?: string;
+  fix?: CodeFix;
+}
+
+// Replaces lines line..endLine of the reviewed code
+export interface CodeFix {
+  description: string;
+  replacement: string;
 }
 
 export interface CodeImprovement {
@@ -200,8 +216,8 @@ export interface CodeImprovement {
 }
 
 // Zod schemas
-export const AIServiceTypeSchema = z.enum(['code_generation', 'code_review', 'debugging', 'testing', 'refactoring', 'documentation']);
-export const AIModelSchema = z.enum(['claude-3-5-sonnet-20241022', 'claude-3-haiku-20240307', 'claude-3-opus-20240229']);
+export const AIServiceTypeSchema = z.enum(['chat', 'code_completion', 'code_generation', 'code_review', 'debugging', 'testing', 'refactoring', 'documentation']);
+export const AIModelSchema = z.enum(['claude-3-5-sonnet-20241022', 'claude-3-haiku-20240307', 'claude-3-opus-20240229', 'gpt-4o', 'gpt-4o-mini', 'local-stub']);
 export const AISessionStatusSchema = z.enum(['pending', 'in_progress', 'completed', 'failed', 'cancelled']);
 
 export const CodeSnippetSchema = z.object({
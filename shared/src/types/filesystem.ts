@@ -56,7 +56,11 @@ export interface FileAnnotation {
   type: "comment" | "todo" | "error" | "warning" | "info";
   content: string;
   author: string;
+  authorName?: string;
+  // Replies point at the annotation that starts their thread and share its line
+  parentId?: string;
   createdAt: Date;
+  updatedAt?: Date;
   resolved?: boolean;
   resolvedBy?: string;
   resolvedAt?: Date;
@@ -77,6 +81,22 @@ export interface FileDiff {
   oldFile: Partial<VirtualFile>;
   newFile: Partial<VirtualFile>;
   changes: FileDiffChange[];
+  hunks?: FileDiffHunk[];
+  stats?: FileDiffStats;
+}
+
+export interface FileDiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  changes: FileDiffChange[];
+}
+
+export interface FileDiffStats {
+  additions: number;
+  deletions: number;
+  modifications: number;
 }
 
 export interface FileDiffChange {
@@ -140,14 +160,31 @@ export interface SearchFilesRequest {
   maxResults?: number;
   caseSensitive?: boolean;
   useRegex?: boolean;
+  wholeWord?: boolean;
+  includePatterns?: string[];
+  excludePatterns?: string[];
+}
+
+export interface ReplaceInFilesRequest extends Omit<SearchFilesRequest, "type" | "maxResults"> {
+  replacement: string;
+  fileIds?: string[];
+  preview?: boolean;
 }
 
 export interface FileOperationRequest {
   operation: "copy" | "move" | "rename";
-  destination: string;
+  destination?: string;
   newName?: string;
 }
 
+export interface FileBatchOperation {
+  type: "create" | "update" | "delete" | "move" | "copy" | "rename";
+  path: string;
+  targetPath?: string;
+  content?: string;
+  fileType?: "file" | "directory";
+}
+
 export interface ListFilesRequest {
   projectId: string;
   path?: string;
@@ -169,6 +206,7 @@ export interface CreateAnnotationRequest {
   column?: number;
   type: "comment" | "todo" | "error" | "warning" | "info";
   content: string;
+  parentId?: string;
 }
 
 export interface UpdateAnnotationRequest {
@@ -179,6 +217,13 @@ export interface UpdateAnnotationRequest {
 export interface GetFileDiffRequest {
   fromVersion?: number;
   toVersion?: number;
+  contextLines?: number;
+}
+
+export interface CompareFilesRequest extends GetFileDiffRequest {
+  fileId: string;
+  workingContent?: string;
+  compareFileId?: string;
 }
 
 export interface FileResponse {
@@ -196,9 +241,23 @@ export interface FileSearchResponse {
   searchTime: number;
 }
 
+export interface FileReplacement {
+  fileId: string;
+  path: string;
+  replacements: number;
+  changes: FileDiffChange[];
+}
+
+export interface ReplaceInFilesResponse {
+  files: FileReplacement[];
+  totalReplacements: number;
+  applied: boolean;
+}
+
 export interface FileOperationResponse {
   success: boolean;
   newFileId?: string;
+  path?: string;
   message?: string;
 }
 
@@ -211,8 +270,8 @@ export interface FileTreeResponse {
 
 export interface FileDiffResponse {
   diff: FileDiff;
-  oldVersion: number;
-  newVersion: number;
+  oldVersion?: number;
+  newVersion?: number;
 }
 
 export interface FileAnnotationResponse {
@@ -264,7 +323,12 @@ export interface FileWatchEvent {
   path: string;
   timestamp: Date;
   userId?: string;
-  details?: any;
+  details?: {
+    // The entry as it now is, with its subtree for directories (absent for deletes)
+    node?: FileTree;
+    // Previous path of a moved entry
+    oldPath?: string;
+  };
 }
 
 export interface FileWatchRequest {
@@ -278,4 +342,11 @@ export interface FileWatchResponse {
   watchId: string;
   projectId: string;
   isActive: boolean;
+}
+
+// Messages streamed by the /files/watch WebSocket
+export interface FileWatchMessage {
+  type: "watching" | "event" | "heartbeat";
+  watchId: string;
+  event?: FileWatchEvent;
 }
\ No newline at end of file
@@ -40,6 +40,8 @@ export interface SessionParticipant {
   joinedAt: Date;
   lastSeen: Date;
   isOnline: boolean;
+  currentDocument?: string;
+  status?: "online" | "away" | "busy" | "offline";
 }
 
 export interface CursorPosition {
@@ -155,6 +157,7 @@ export interface UserJoinPayload {
   userId: string;
   userName: string;
   color: string;
+  role: SessionParticipant["role"];
   timestamp: Date;
 }
 
@@ -181,6 +184,11 @@ export interface SyncResponsePayload {
   content?: string;
 }
 
+// Sent by the collaboration server on join and in answer to sync_request
+export interface SessionSyncPayload {
+  session: CollaborationSession;
+}
+
 export interface DocumentChangePayload {
   fileId: string;
   changeType: "created" | "modified" | "deleted" | "renamed";